@@ -0,0 +1,57 @@
+import { ImageResponse } from "next/og";
+import { getLocale } from "@/lib/locales";
+import { loadOgFonts, ogFontFamily } from "@/lib/ogFonts";
+import { deriveSchemeTitle, deriveSummaryExcerpt, fetchSharedAnswer } from "@/lib/sharedAnswers";
+import { extractHostname } from "@/lib/sources";
+
+export const alt = "JanInfra shared answer";
+export const size = {
+  width: 1200,
+  height: 630,
+};
+export const contentType = "image/png";
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || "";
+const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || "";
+
+const truncate = (value: string, max: number) => (value.length <= max ? value : `${value.slice(0, max - 1).trimEnd()}…`);
+
+export default async function SharedAnswerImage({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const shared = supabaseUrl && supabaseAnonKey ? await fetchSharedAnswer(supabaseUrl, supabaseAnonKey, id).catch(() => null) : null;
+  const language = shared?.language || "en";
+  const locale = getLocale(language);
+  const title = truncate(shared ? deriveSchemeTitle(shared.answer, shared.question) : "Government scheme discovery for India", 80);
+  const summary = truncate(shared ? deriveSummaryExcerpt(shared.answer) || shared.question : "", 180);
+  const host = shared?.sources[0] ? extractHostname(shared.sources[0].url) : "";
+  const footer = [host, shared ? locale.label : ""].filter(Boolean).join(" · ");
+  const fonts = await loadOgFonts(language, `JanInfra${title}${summary}${footer}`);
+
+  return new ImageResponse(
+    (
+      <div
+        style={{
+          width: "100%",
+          height: "100%",
+          display: "flex",
+          flexDirection: "column",
+          justifyContent: "space-between",
+          padding: "64px 72px",
+          background: "#faf8f4",
+          fontFamily: fonts ? ogFontFamily(language) : "Arial",
+        }}
+      >
+        <div style={{ fontSize: 34, fontWeight: 700, color: "#B85A2E" }}>JanInfra</div>
+        <div style={{ display: "flex", flexDirection: "column" }}>
+          <div style={{ fontSize: 62, fontWeight: 700, lineHeight: 1.2, color: "#1f2937" }}>{title}</div>
+          {summary && <div style={{ marginTop: 24, fontSize: 28, lineHeight: 1.45, color: "#475569" }}>{summary}</div>}
+        </div>
+        <div style={{ display: "flex", flexDirection: "column" }}>
+          {footer && <div style={{ marginBottom: 20, fontSize: 24, color: "#8f7f71" }}>{footer}</div>}
+          <div style={{ display: "flex", height: 8, borderRadius: 4, background: "linear-gradient(90deg, #e57b3d, #f8e8d8, #2f8a58)" }} />
+        </div>
+      </div>
+    ),
+    { ...size, fonts }
+  );
+}
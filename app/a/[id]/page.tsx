@@ -0,0 +1,105 @@
+import type { Metadata } from "next";
+import Image from "next/image";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import ReactMarkdown from "react-markdown";
+import remarkGfm from "remark-gfm";
+import { markdownComponents } from "@/components/markdownComponents";
+import EvidenceBadge from "@/components/EvidenceBadge";
+import SourceCards from "@/components/SourceCards";
+import { renderCitations } from "@/lib/citations";
+import { assessEvidence } from "@/lib/evidence";
+import { createTranslator } from "@/lib/i18n";
+import { getLocale } from "@/lib/locales";
+import { deriveSchemeTitle, fetchSharedAnswer, sharedAnswerPath } from "@/lib/sharedAnswers";
+
+type SharedAnswerPageProps = {
+  params: Promise<{ id: string }>;
+};
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || "";
+const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || "";
+
+// A failed lookup is treated like a missing snapshot rather than a server error.
+const loadSharedAnswer = async (id: string) => {
+  if (!supabaseUrl || !supabaseAnonKey) return null;
+  return fetchSharedAnswer(supabaseUrl, supabaseAnonKey, id).catch(() => null);
+};
+
+export async function generateMetadata({ params }: SharedAnswerPageProps): Promise<Metadata> {
+  const { id } = await params;
+  const shared = await loadSharedAnswer(id);
+  if (!shared) return { title: "JanInfra" };
+  const title = deriveSchemeTitle(shared.answer, shared.question);
+  return {
+    title: `${title} · JanInfra`,
+    description: shared.question,
+    alternates: { canonical: sharedAnswerPath(shared.id) },
+    openGraph: {
+      title,
+      description: shared.question,
+      url: sharedAnswerPath(shared.id),
+      siteName: "JanInfra",
+      type: "article",
+    },
+    twitter: {
+      card: "summary_large_image",
+      title,
+      description: shared.question,
+    },
+  };
+}
+
+export default async function SharedAnswerPage({ params }: SharedAnswerPageProps) {
+  const { id } = await params;
+  const shared = await loadSharedAnswer(id);
+  if (!shared) notFound();
+
+  const locale = getLocale(shared.language);
+  const t = createTranslator(shared.language);
+  const citedAnswer = renderCitations(shared.answer, shared.sources, shared.citations);
+  const sharedOn = new Date(shared.createdAt).toLocaleDateString(locale.bcp47, { day: "numeric", month: "long", year: "numeric" });
+
+  return (
+    <main lang={locale.bcp47} dir={locale.dir} className="min-h-screen bg-[var(--background)] px-4 pb-20 pt-6 text-slate-900 md:px-8">
+      <div className="mx-auto w-full max-w-3xl">
+        <header className="flex items-center justify-between">
+          <Link href="/" className="inline-flex items-center gap-2">
+            <Image src="/icon.svg" alt="" width={24} height={24} />
+            <span className="text-[15px] font-semibold text-[var(--ji-brand)]">JanInfra</span>
+          </Link>
+          <p className="text-xs text-slate-500">{t("permalink.sharedOn", { date: sharedOn })}</p>
+        </header>
+
+        <p className="mt-10 text-xs font-semibold tracking-[0.16em] text-[#C05020]">{t("permalink.eyebrow")}</p>
+        <div className="mt-3 rounded-[1.25rem] border border-[#e7dcc4] bg-[#f0e7d4] px-4 py-3">
+          <p className="whitespace-pre-wrap leading-7">{shared.question}</p>
+        </div>
+
+        <div className="mt-6">
+          <EvidenceBadge evidence={assessEvidence(citedAnswer, shared.sources)} language={shared.language} />
+        </div>
+        <article className="prose mt-3 max-w-none">
+          <ReactMarkdown remarkPlugins={[remarkGfm]} components={markdownComponents(false, shared.sources)}>
+            {citedAnswer}
+          </ReactMarkdown>
+        </article>
+
+        {shared.sources.length > 0 && (
+          <section className="mt-6 border-t border-black/[0.04] pt-4">
+            <p className="mb-3 text-xs font-semibold uppercase tracking-[0.08em] text-slate-500">{t("answer.sources")}</p>
+            <SourceCards sources={shared.sources} language={shared.language} />
+          </section>
+        )}
+
+        <p className="mt-8 text-xs text-slate-500">{t("permalink.disclaimer")}</p>
+        <Link
+          href={`/?continue=${shared.id}`}
+          className="mt-4 inline-flex h-11 items-center rounded-xl bg-[var(--ji-brand)] px-5 text-sm font-medium text-white transition-colors duration-200 hover:bg-[var(--ji-brand-strong)]"
+        >
+          {t("permalink.continue")}
+        </Link>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,150 @@
+import { NextResponse } from "next/server";
+import {
+  misconfiguredOriginResponse,
+  normalizeBackendError,
+  proxyError,
+  readBackendPayload,
+  resolveBackendBaseUrl,
+} from "@/lib/backendProxy";
+import { isLocaleCode } from "@/lib/locales";
+import { isProfileEmpty, sanitizeProfile } from "@/lib/profile";
+
+const apiBaseUrl = resolveBackendBaseUrl(
+  process.env.YOJANA_CHAT_API_BASE_URL,
+  process.env.NEXT_PUBLIC_CHAT_API_BASE_URL,
+  process.env.NEXT_PUBLIC_YOJANA_AI_BASE_URL,
+  process.env.YOJANA_API_BASE_URL,
+  process.env.NEXT_PUBLIC_API_BASE_URL
+);
+
+const maxQuestionLength = 4000;
+const maxHistoryTurns = 40;
+const maxHistoryLength = 60000;
+const streamContentTypes = ["text/event-stream", "application/x-ndjson", "application/jsonl"];
+
+export const runtime = "nodejs";
+
+const snippetFields = ["snippet", "description", "summary"];
+
+// Lite answers drop source snippets; the cards still link to each source.
+const stripSnippets = (payload: unknown) => {
+  if (!payload || typeof payload !== "object" || !Array.isArray((payload as Record<string, unknown>).sources)) return payload;
+  const record = payload as Record<string, unknown>;
+  return {
+    ...record,
+    sources: (record.sources as unknown[]).map((source) =>
+      source && typeof source === "object"
+        ? Object.fromEntries(Object.entries(source).filter(([key]) => !snippetFields.includes(key)))
+        : source
+    ),
+  };
+};
+
+// Returns the turns as sent, or null when they aren't a list of { role, content } within the limits.
+const sanitizeHistory = (value: unknown) => {
+  if (!Array.isArray(value) || value.length > maxHistoryTurns) return null;
+  const turns = value.filter(
+    (turn): turn is { role: "user" | "assistant"; content: string } =>
+      Boolean(turn) && (turn.role === "user" || turn.role === "assistant") && typeof turn.content === "string"
+  );
+  if (turns.length !== value.length) return null;
+  if (turns.reduce((total, turn) => total + turn.content.length, 0) > maxHistoryLength) return null;
+  return turns.map(({ role, content }) => ({ role, content }));
+};
+
+export async function POST(request: Request) {
+  try {
+    const misconfigured = misconfiguredOriginResponse(
+      request,
+      apiBaseUrl,
+      "Chat backend URL is misconfigured. Set YOJANA_CHAT_API_BASE_URL (or YOJANA_API_BASE_URL) to your yojana-api server URL."
+    );
+    if (misconfigured) return misconfigured;
+
+    let body: Record<string, unknown>;
+    try {
+      const parsed = (await request.json()) as unknown;
+      if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) throw new Error("Invalid body");
+      body = parsed as Record<string, unknown>;
+    } catch {
+      return proxyError("Request body must be a JSON object.", 400);
+    }
+
+    const { question, language, sessionId, stream, profile, lite, history } = body;
+
+    if (typeof question !== "string" || !question.trim()) {
+      return proxyError("Question is required.", 400);
+    }
+
+    if (question.length > maxQuestionLength) {
+      return proxyError(`Question must be at most ${maxQuestionLength} characters.`, 400);
+    }
+
+    if (typeof language !== "string" || !language.trim()) {
+      return proxyError("Language is required.", 400);
+    }
+
+    if (!isLocaleCode(language)) {
+      return proxyError(`Unsupported language "${language}".`, 400);
+    }
+
+    if (typeof sessionId !== "string" || !sessionId.trim()) {
+      return proxyError("Session id is required.", 400);
+    }
+
+    const sanitizedProfile = profile === undefined || profile === null ? null : sanitizeProfile(profile);
+    if (profile !== undefined && profile !== null && !sanitizedProfile) {
+      return proxyError("Profile must be an object.", 400);
+    }
+
+    const sanitizedHistory = history === undefined ? null : sanitizeHistory(history);
+    if (history !== undefined && !sanitizedHistory) {
+      return proxyError(`History must be at most ${maxHistoryTurns} { role, content } turns and ${maxHistoryLength} characters.`, 400);
+    }
+
+    const authorization = request.headers.get("authorization");
+    const response = await fetch(`${apiBaseUrl}/chat`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: request.headers.get("accept") || "application/json",
+        ...(authorization ? { Authorization: authorization } : {}),
+      },
+      body: JSON.stringify({
+        question: question.trim(),
+        language,
+        sessionId,
+        ...(sanitizedProfile && !isProfileEmpty(sanitizedProfile) ? { profile: sanitizedProfile } : {}),
+        stream: stream === true,
+        ...(lite === true ? { lite: true } : {}),
+        ...(sanitizedHistory ? { history: sanitizedHistory } : {}),
+      }),
+      signal: request.signal,
+    });
+
+    const contentType = response.headers.get("content-type") || "";
+    if (response.ok && response.body && streamContentTypes.some((type) => contentType.toLowerCase().includes(type))) {
+      return new Response(response.body, {
+        status: response.status,
+        headers: {
+          "Content-Type": contentType,
+          "Cache-Control": "no-cache, no-transform",
+          "X-Accel-Buffering": "no",
+        },
+      });
+    }
+
+    const payload = await readBackendPayload(response, "Unexpected response from chat service.");
+
+    if (!response.ok) {
+      const normalized = normalizeBackendError(payload, response.status, "Chat service request failed");
+      return proxyError(normalized.error, response.status, normalized.details);
+    }
+
+    return NextResponse.json(lite === true ? stripSnippets(payload) : payload, { status: response.status });
+  } catch (error) {
+    if (request.signal.aborted) return new Response(null, { status: 499 });
+    const message = error instanceof Error ? error.message : "Failed to process chat request.";
+    return proxyError(message, 502);
+  }
+}
@@ -0,0 +1,100 @@
+import { NextResponse } from "next/server";
+import {
+  misconfiguredOriginResponse,
+  normalizeBackendError,
+  proxyError,
+  readBackendPayload,
+  resolveBackendBaseUrl,
+} from "@/lib/backendProxy";
+import { isFeedbackRating, isFeedbackReason, maxFeedbackCommentLength, sanitizeFeedbackSources } from "@/lib/feedback";
+import { isLocaleCode } from "@/lib/locales";
+
+const apiBaseUrl = resolveBackendBaseUrl(
+  process.env.YOJANA_CHAT_API_BASE_URL,
+  process.env.NEXT_PUBLIC_CHAT_API_BASE_URL,
+  process.env.NEXT_PUBLIC_YOJANA_AI_BASE_URL,
+  process.env.YOJANA_API_BASE_URL,
+  process.env.NEXT_PUBLIC_API_BASE_URL
+);
+
+export const runtime = "nodejs";
+
+export async function POST(request: Request) {
+  try {
+    const misconfigured = misconfiguredOriginResponse(
+      request,
+      apiBaseUrl,
+      "Feedback backend URL is misconfigured. Set YOJANA_CHAT_API_BASE_URL (or YOJANA_API_BASE_URL) to your yojana-api server URL."
+    );
+    if (misconfigured) return misconfigured;
+
+    let body: Record<string, unknown>;
+    try {
+      const parsed = (await request.json()) as unknown;
+      if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) throw new Error("Invalid body");
+      body = parsed as Record<string, unknown>;
+    } catch {
+      return proxyError("Request body must be a JSON object.", 400);
+    }
+
+    const { sessionId, messageId, rating, reason, comment, language, sources, createdAt } = body;
+
+    if (typeof sessionId !== "string" || !sessionId.trim()) {
+      return proxyError("Session id is required.", 400);
+    }
+
+    if (typeof messageId !== "string" || !messageId.trim()) {
+      return proxyError("Message id is required.", 400);
+    }
+
+    if (!isFeedbackRating(rating)) {
+      return proxyError('Rating must be "up" or "down".', 400);
+    }
+
+    if (reason !== undefined && !isFeedbackReason(reason)) {
+      return proxyError(`Unsupported feedback reason "${String(reason)}".`, 400);
+    }
+
+    if (comment !== undefined && (typeof comment !== "string" || comment.length > maxFeedbackCommentLength)) {
+      return proxyError(`Comment must be text of at most ${maxFeedbackCommentLength} characters.`, 400);
+    }
+
+    if (typeof language !== "string" || !isLocaleCode(language)) {
+      return proxyError(`Unsupported language "${String(language)}".`, 400);
+    }
+
+    const authorization = request.headers.get("authorization");
+    const response = await fetch(`${apiBaseUrl}/feedback`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "application/json",
+        ...(authorization ? { Authorization: authorization } : {}),
+      },
+      body: JSON.stringify({
+        sessionId,
+        messageId,
+        rating,
+        ...(reason ? { reason } : {}),
+        ...(typeof comment === "string" && comment.trim() ? { comment: comment.trim() } : {}),
+        language,
+        sources: sanitizeFeedbackSources(sources),
+        createdAt: typeof createdAt === "string" && !Number.isNaN(Date.parse(createdAt)) ? createdAt : new Date().toISOString(),
+      }),
+      signal: request.signal,
+    });
+
+    const payload = await readBackendPayload(response, "Unexpected response from feedback service.");
+
+    if (!response.ok) {
+      const normalized = normalizeBackendError(payload, response.status, "Feedback request failed");
+      return proxyError(normalized.error, response.status, normalized.details);
+    }
+
+    return NextResponse.json(payload, { status: response.status });
+  } catch (error) {
+    if (request.signal.aborted) return new Response(null, { status: 499 });
+    const message = error instanceof Error ? error.message : "Failed to submit feedback.";
+    return proxyError(message, 502);
+  }
+}
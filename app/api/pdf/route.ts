@@ -0,0 +1,98 @@
+import { proxyError } from "@/lib/backendProxy";
+import { isProxyablePdfUrl } from "@/lib/guidelinePdf";
+
+const maxPdfBytes = 25 * 1024 * 1024;
+const maxRedirects = 5;
+
+export const runtime = "nodejs";
+
+const fetchDocument = (url: string, signal: AbortSignal) =>
+  fetch(url, {
+    headers: { Accept: "application/pdf,application/octet-stream;q=0.9" },
+    redirect: "manual",
+    signal,
+  });
+
+// Content-Length can be missing or wrong, so the limit is enforced while reading; returns null once it is passed.
+const readBody = async (response: Response, maxBytes: number) => {
+  if (!response.body) return new Uint8Array(0);
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    total += value.byteLength;
+    if (total > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+  const body = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    body.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return body;
+};
+
+// Same-origin passthrough for guideline PDFs so the in-app viewer is not blocked by CORS on government hosts.
+export async function GET(request: Request) {
+  const target = new URL(request.url).searchParams.get("url") || "";
+  if (!isProxyablePdfUrl(target)) {
+    return proxyError("Only documents from official sources can be opened in the viewer.", 400);
+  }
+
+  try {
+    // Redirects are followed by hand so every hop is checked before the server requests it.
+    let url = target;
+    let response = await fetchDocument(url, request.signal);
+    for (let hops = 0; response.status >= 300 && response.status < 400; hops += 1) {
+      const location = response.headers.get("location");
+      if (!location) break;
+      if (hops >= maxRedirects) {
+        return proxyError("The document redirected too many times.", 502);
+      }
+      url = new URL(location, url).toString();
+      if (!isProxyablePdfUrl(url)) {
+        return proxyError("The document redirected to an unofficial host.", 400);
+      }
+      response = await fetchDocument(url, request.signal);
+    }
+
+    if (!response.ok) {
+      return proxyError(`Unable to fetch the document (HTTP ${response.status}).`, 502);
+    }
+
+    const declaredLength = Number(response.headers.get("content-length") || 0);
+    if (declaredLength > maxPdfBytes) {
+      return proxyError("The document is too large to open in the viewer.", 413);
+    }
+
+    const body = await readBody(response, maxPdfBytes);
+    if (!body) {
+      return proxyError("The document is too large to open in the viewer.", 413);
+    }
+
+    const head = new TextDecoder().decode(body.slice(0, 1024));
+    if (!head.includes("%PDF-")) {
+      return proxyError("The source is not a PDF document.", 415);
+    }
+
+    return new Response(body, {
+      status: 200,
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Length": String(body.byteLength),
+        "Cache-Control": "public, max-age=86400",
+        "X-Content-Type-Options": "nosniff",
+      },
+    });
+  } catch (error) {
+    if (request.signal.aborted) return new Response(null, { status: 499 });
+    const message = error instanceof Error ? error.message : "Failed to fetch the document.";
+    return proxyError(message, 502);
+  }
+}
@@ -0,0 +1,7 @@
+import { forwardSpeechRequest } from "@/lib/voiceProxy";
+
+export const runtime = "nodejs";
+
+export async function POST(request: Request) {
+  return forwardSpeechRequest(request, { backendPath: "/text-to-speech", maxTextLength: 1000 });
+}
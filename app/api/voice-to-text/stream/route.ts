@@ -0,0 +1,15 @@
+import { maxVoiceUploadBytes } from "@/lib/voiceApi";
+import { forwardVoiceRequest } from "@/lib/voiceProxy";
+
+export const runtime = "nodejs";
+
+// Partial transcription of the audio captured so far; the backend may not offer it yet.
+export async function POST(request: Request) {
+  return forwardVoiceRequest(request, {
+    backendPath: "/voice-to-text/stream",
+    extraFields: ["partial", "sequence"],
+    unsupportedStatuses: [404, 405, 501],
+    unsupportedMessage: "Streaming transcription is not supported by the voice service.",
+    maxAudioBytes: maxVoiceUploadBytes,
+  });
+}
@@ -1,6 +1,7 @@
-import type { Metadata } from "next";
+import type { Metadata, Viewport } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
 import Script from "next/script";
+import ServiceWorkerRegistration from "@/components/ServiceWorkerRegistration";
 import "./globals.css";
 
 const geistSans = Geist({
@@ -51,6 +52,10 @@ export const metadata: Metadata = {
   },
 };
 
+export const viewport: Viewport = {
+  themeColor: "#b85a2e",
+};
+
 const GA_MEASUREMENT_ID = process.env.NEXT_PUBLIC_GA_ID || "G-XLV6GLBGPF";
 
 export default function RootLayout({
@@ -75,6 +80,7 @@ export default function RootLayout({
             gtag('config', '${GA_MEASUREMENT_ID}');
           `}
         </Script>
+        <ServiceWorkerRegistration />
         {children}
       </body>
     </html>
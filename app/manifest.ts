@@ -0,0 +1,22 @@
+import type { MetadataRoute } from "next";
+
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: "JanInfra",
+    short_name: "JanInfra",
+    description: "JanInfra helps people find relevant Indian government schemes based on their profile.",
+    start_url: "/",
+    scope: "/",
+    display: "standalone",
+    background_color: "#faf8f4",
+    theme_color: "#b85a2e",
+    icons: [
+      {
+        src: "/icon.svg",
+        sizes: "any",
+        type: "image/svg+xml",
+        purpose: "any",
+      },
+    ],
+  };
+}
@@ -1,32 +1,94 @@
 "use client";
 
-import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useCallback, useEffect, useEffectEvent, useMemo, useRef, useState } from "react";
 import ReactMarkdown from "react-markdown";
 import remarkGfm from "remark-gfm";
+import ApplicationTracker from "@/components/ApplicationTracker";
+import CopyAnswerMenu from "@/components/CopyAnswerMenu";
+import DocumentsChecklist from "@/components/DocumentsChecklist";
+import EvidenceBadge from "@/components/EvidenceBadge";
+import FeedbackControl from "@/components/FeedbackControl";
+import HistoryDrawer from "@/components/HistoryDrawer";
+import PrintableAnswer from "@/components/PrintableAnswer";
+import PdfViewer from "@/components/PdfViewer";
+import ProfilePanel from "@/components/ProfilePanel";
+import ReadAloud from "@/components/ReadAloud";
+import SavedSchemes from "@/components/SavedSchemes";
+import SchemeComparison from "@/components/SchemeComparison";
+import SourceCards from "@/components/SourceCards";
+import VoiceConversation from "@/components/VoiceConversation";
 import VoiceRecorder from "@/components/VoiceRecorder";
+import { markdownComponents } from "@/components/markdownComponents";
+import { extractSections, type Section, type TabKey } from "@/lib/answerSections";
+import {
+  createLocalTrackerStore,
+  createSupabaseTrackerStore,
+  createTracker,
+  parseApplySteps,
+  trackerId,
+  type ApplicationTracker as Tracker,
+  type TrackerStore,
+} from "@/lib/applicationTracker";
+import {
+  bookmarkCacheKey,
+  bookmarkId,
+  createCachedBookmarkStore,
+  createLocalBookmarkStore,
+  createSupabaseBookmarkStore,
+  type Bookmark,
+  type BookmarkStore,
+} from "@/lib/bookmarks";
+import { sendChatMessage, toChatHistory, type ChatTurn } from "@/lib/chatApi";
+import { normalizeCitations, renderCitations } from "@/lib/citations";
+import type { Message, SourceCard } from "@/lib/chatTypes";
+import {
+  clearConversationCache,
+  conversationCacheName,
+  createCachedConversationStore,
+  createLocalConversationStore,
+  createSupabaseConversationStore,
+  deriveConversationTitle,
+  type ConversationStore,
+  type ConversationSummary,
+} from "@/lib/conversationStore";
+import {
+  countDocumentUsage,
+  loadChecklistState,
+  parseDocumentsChecklist,
+  saveChecklistState,
+  type ChecklistState,
+  type DocumentItem,
+} from "@/lib/documentsChecklist";
+import { assessEvidence } from "@/lib/evidence";
+import { flushFeedbackQueue, submitFeedback, type FeedbackRating, type FeedbackReason } from "@/lib/feedback";
+import { createTranslator } from "@/lib/i18n";
+import {
+  isSlowConnection,
+  litePreferences,
+  readLitePreference,
+  watchConnection,
+  writeLitePreference,
+  type LitePreference,
+} from "@/lib/liteMode";
+import { getExamples, getFollowUpPlaceholder, getHeroCopy, getLocale, languageOptions } from "@/lib/locales";
+import { answerVersionCount, viewAnswerVersion } from "@/lib/messageActions";
+import { readQueuedQuestions, writeQueuedQuestions, type QueuedQuestion } from "@/lib/offlineQuestions";
+import {
+  createSupabaseProfileStore,
+  isProfileEmpty,
+  loadProfile,
+  mergeProfile,
+  parseProfileFromText,
+  saveProfile,
+  summarizeProfile,
+  type EligibilityProfile,
+  type ProfileStore,
+} from "@/lib/profile";
+import { isComparable, summarizeSchemes } from "@/lib/schemeComparison";
+import { createSharedAnswer, deriveSchemeTitle, fetchSharedAnswer, sharedAnswerPath } from "@/lib/sharedAnswers";
+import { normalizeSources } from "@/lib/sources";
 
 type Theme = "light" | "dark";
-type TabKey = "summary" | "eligibility" | "documents" | "apply";
-
-type SourceCard = {
-  title: string;
-  url: string;
-  snippet?: string;
-};
-
-type Message = {
-  id: string;
-  role: "user" | "assistant";
-  content: string;
-  sources?: SourceCard[];
-};
-
-type ChatResponse = {
-  answer?: string;
-  error?: string;
-  raw?: string;
-  sources?: unknown;
-};
 
 type AuthUser = {
   id: string;
@@ -40,244 +102,15 @@ type AuthSession = {
   user: AuthUser;
 };
 
-type Section = {
-  key: TabKey | "other";
-  title: string;
-  content: string;
-};
-
-const rotatingExamples = {
-  en: [
-    "e.g. I'm 28, from UP, OBC, farmer, need housing loan",
-    "e.g. 35-year-old woman, Maharashtra, looking for education scholarship",
-    "e.g. Senior citizen, 62, Tamil Nadu, looking for pension scheme",
-    "e.g. SC category, Bihar, daily wage worker, family income ₹50,000",
-    "e.g. Student, 19, Kerala, looking for merit scholarships",
-    "e.g. Widow, 45, Rajasthan, need livelihood support",
-  ],
-  hi: [
-    "जैसे: मैं 28 साल, UP से, OBC, किसान, आवास ऋण चाहिए",
-    "जैसे: 35 साल की महिला, महाराष्ट्र, शिक्षा छात्रवृत्ति चाहिए",
-    "जैसे: वरिष्ठ नागरिक, 62, तमिलनाडु, पेंशन योजना चाहिए",
-    "जैसे: SC वर्ग, बिहार, दिहाड़ी मज़दूर, पारिवारिक आय ₹50,000",
-    "जैसे: छात्र, 19 साल, केरल, मेरिट स्कॉलरशिप चाहिए",
-    "जैसे: विधवा, 45, राजस्थान, आजीविका सहायता चाहिए",
-  ],
-  mr: [
-    "उदा. मी 28, UP मधून, OBC, शेतकरी, गृहकर्ज हवे",
-    "उदा. 35 वर्षांची महिला, महाराष्ट्र, शिक्षण शिष्यवृत्ती हवी",
-    "उदा. ज्येष्ठ नागरिक, 62, तामिळनाडू, पेन्शन योजना हवी",
-    "उदा. SC प्रवर्ग, बिहार, रोजंदारी कामगार, कौटुंबिक उत्पन्न ₹50,000",
-    "उदा. विद्यार्थी, 19, केरळ, मेरिट स्कॉलरशिप हवी",
-    "उदा. विधवा, 45, राजस्थान, उपजीविका सहाय्य हवे",
-  ],
-  bn: [
-    "যেমন: আমি ২৮, UP থেকে, OBC, কৃষক, আবাসন ঋণ চাই",
-    "যেমন: ৩৫ বছরের মহিলা, মহারাষ্ট্র, শিক্ষা বৃত্তি চাই",
-    "যেমন: প্রবীণ নাগরিক, ৬২, তামিলনাড়ু, পেনশন স্কিম চাই",
-    "যেমন: SC শ্রেণী, বিহার, দিনমজুর, পরিবারের আয় ₹৫০,০০০",
-    "যেমন: ছাত্র, ১৯, কেরালা, মেরিট স্কলারশিপ চাই",
-    "যেমন: বিধবা, ৪৫, রাজস্থান, জীবিকা সহায়তা চাই",
-  ],
-} as const;
-
-const followUpPlaceholders = {
-  en: "Need more details? Ask here…",
-  hi: "और जानकारी चाहिए? यहाँ पूछें…",
-  mr: "अधिक माहिती हवी? इथे विचारा…",
-  bn: "আরও তথ্য চাই? এখানে জিজ্ঞাসা করুন…",
-} as const;
-const languageOptions = [
-  { value: "en", label: "English", short: "EN" },
-  { value: "hi", label: "हिंदी", short: "HI" },
-  { value: "mr", label: "मराठी", short: "MR" },
-  { value: "bn", label: "বাংলা", short: "BN" },
-];
-const heroCopyByLanguage = {
-  en: {
-    headline: "Discover the benefits meant for you.",
-    sub: "4,600+ government schemes. One intelligent search.",
-  },
-  hi: {
-    headline: "आपके लिए बने लाभों की खोज करें।",
-    sub: "4,600+ सरकारी योजनाएँ। एक बुद्धिमान खोज।",
-  },
-  mr: {
-    headline: "तुमच्यासाठी असलेले लाभ शोधा.",
-    sub: "4,600+ सरकारी योजना. एक बुद्धिमान शोध.",
-  },
-  bn: {
-    headline: "আপনার জন্য তৈরি সুবিধাগুলি খুঁজুন।",
-    sub: "৪,৬০০+ সরকারি স্কিম। একটি বুদ্ধিমান অনুসন্ধান।",
-  },
-} as const;
-
-
-
 const authStorageKey = "yojana-auth-session";
 const authPendingStorageKey = "yojana-auth-pending-message";
 const chatSessionStorageKey = "yojana-chat-session-id";
+const backendSessionStorageKey = "yojana-backend-session";
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || "";
 const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || "";
 const authEnabled = Boolean(supabaseUrl && supabaseAnonKey);
-const chatApiBaseUrl = (
-  process.env.NEXT_PUBLIC_CHAT_API_BASE_URL ||
-  process.env.NEXT_PUBLIC_YOJANA_AI_BASE_URL ||
-  process.env.NEXT_PUBLIC_API_BASE_URL ||
-  "http://localhost:3000"
-).replace(/\/+$/, "");
-
-const markdownComponents = (isDark: boolean) => ({
-  h1: (props: React.HTMLAttributes<HTMLHeadingElement>) => (
-    <h1
-      className={`mb-6 mt-10 text-[26px] font-bold leading-tight tracking-[0.01em] md:text-[30px] ${isDark ? "text-stone-100" : "text-slate-900"
-        }`}
-      {...props}
-    />
-  ),
-  h2: (props: React.HTMLAttributes<HTMLHeadingElement>) => (
-    <h2
-      className={`mb-5 mt-10 flex items-center gap-3 text-[20px] font-semibold leading-snug tracking-tight md:text-[24px] ${isDark ? "text-stone-100" : "text-slate-900"
-        }`}
-      {...props}
-    />
-  ),
-  h3: (props: React.HTMLAttributes<HTMLHeadingElement>) => (
-    <h3
-      className={`mb-3 mt-8 text-[17px] font-semibold tracking-tight md:text-[19px] ${isDark ? "text-stone-200" : "text-slate-800"
-        }`}
-      {...props}
-    />
-  ),
-  p: (props: React.HTMLAttributes<HTMLParagraphElement>) => (
-    <p
-      className={`my-4 text-[15px] leading-[1.8] tracking-[0.01em] md:text-[16px] ${isDark ? "text-stone-300" : "text-slate-600"
-        }`}
-      {...props}
-    />
-  ),
-  ul: (props: React.HTMLAttributes<HTMLUListElement>) => (
-    <ul
-      className={`my-6 list-disc space-y-4 pl-6 marker:text-[var(--ji-brand)] text-[15px] leading-[1.8] md:text-[16px] ${isDark ? "text-stone-300" : "text-slate-600"
-        }`}
-      {...props}
-    />
-  ),
-  ol: (props: React.HTMLAttributes<HTMLOListElement>) => (
-    <ol
-      className={`my-6 list-decimal space-y-4 pl-6 marker:font-semibold marker:text-[var(--ji-brand)] text-[15px] leading-[1.8] md:text-[16px] ${isDark ? "text-stone-300" : "text-slate-600"
-        }`}
-      {...props}
-    />
-  ),
-  li: (props: React.HTMLAttributes<HTMLLIElement>) => (
-    <li className="pl-2" {...props} />
-  ),
-  a: (props: React.AnchorHTMLAttributes<HTMLAnchorElement>) => (
-    <a
-      className={`group relative inline-flex items-center gap-1 font-medium transition-colors duration-200 ${isDark
-          ? "text-[var(--ji-brand)] hover:text-orange-300"
-          : "text-[var(--ji-brand-strong)] hover:text-[var(--ji-brand)]"
-        }`}
-      target="_blank"
-      rel="noreferrer"
-      {...props}
-    >
-      <span className="relative">
-        {props.children}
-        <span
-          className={`absolute -bottom-0.5 left-0 h-[1.5px] w-full origin-left scale-x-0 transition-transform duration-300 ease-out group-hover:scale-x-100 ${isDark ? "bg-orange-300/40" : "bg-[var(--ji-brand)]/30"
-            }`}
-        />
-      </span>
-      <svg
-        className={`h-3.5 w-3.5 transition-transform duration-300 group-hover:-translate-y-0.5 group-hover:translate-x-0.5 ${isDark
-            ? "text-[var(--ji-brand)]/70 group-hover:text-orange-300"
-            : "text-[var(--ji-brand-strong)]/60 group-hover:text-[var(--ji-brand)]"
-          }`}
-        fill="none"
-        viewBox="0 0 24 24"
-        stroke="currentColor"
-        strokeWidth={2.5}
-      >
-        <path
-          strokeLinecap="round"
-          strokeLinejoin="round"
-          d="M13.5 6H5.25A2.25 2.25 0 0 0 3 8.25v10.5A2.25 2.25 0 0 0 5.25 21h10.5A2.25 2.25 0 0 0 18 18.75V10.5m-10.5 6L21 3m0 0h-5.25M21 3v5.25"
-        />
-      </svg>
-    </a>
-  ),
-  strong: (props: React.HTMLAttributes<HTMLElement>) => (
-    <strong
-      className={`font-semibold tracking-[0.01em] ${isDark ? "text-stone-100" : "text-slate-900"
-        }`}
-      {...props}
-    />
-  ),
-  blockquote: (props: React.HTMLAttributes<HTMLElement>) => (
-    <blockquote
-      className={`my-6 border-l-[3px] border-[var(--ji-brand)]/60 py-2 pl-5 italic ${isDark ? "bg-white/[0.02] text-stone-400" : "bg-black/[0.02] text-slate-500"
-        }`}
-      {...props}
-    />
-  ),
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  code: ({ inline, className, children, ...props }: any) => {
-    if (!inline) {
-      return (
-        <code className={className} {...props}>
-          {children}
-        </code>
-      );
-    }
-    return (
-      <code
-        className={`rounded-md px-1.5 py-0.5 text-[0.85em] font-medium tracking-wide ${isDark ? "bg-white/10 text-stone-300" : "bg-black/5 text-slate-700"
-          }`}
-        {...props}
-      >
-        {children}
-      </code>
-    );
-  },
-  pre: (props: React.HTMLAttributes<HTMLPreElement>) => (
-    <pre
-      className={`my-6 overflow-x-auto rounded-xl p-4 text-[14px] leading-relaxed shadow-sm md:p-5 ${isDark
-          ? "border border-white/5 bg-[#1c1a18]"
-          : "border border-slate-200 bg-slate-50 text-slate-800"
-        }`}
-      {...props}
-    />
-  ),
-  table: (props: React.HTMLAttributes<HTMLTableElement>) => (
-    <div className="my-6 overflow-x-auto rounded-xl border border-[var(--ji-border)] shadow-sm">
-      <table
-        className={`w-full border-collapse text-left text-sm ${isDark ? "text-stone-200" : "text-slate-700"
-          }`}
-        {...props}
-      />
-    </div>
-  ),
-  th: (props: React.HTMLAttributes<HTMLTableCellElement>) => (
-    <th
-      className={`border-b p-3 font-semibold md:p-4 ${isDark
-          ? "border-white/10 bg-white/[0.02] text-stone-200"
-          : "border-slate-200 bg-slate-50 text-slate-800"
-        }`}
-      {...props}
-    />
-  ),
-  td: (props: React.HTMLAttributes<HTMLTableCellElement>) => (
-    <td
-      className={`border-b p-3 md:p-4 ${isDark ? "border-white/5" : "border-slate-100"
-        }`}
-      {...props}
-    />
-  ),
-});
-
-const cap = (v: string) => `${v.charAt(0).toUpperCase()}${v.slice(1)}`;
+
+const appendTranscript = (base: string, text: string) => (base.trim().length ? `${base.trimEnd()} ${text}` : text);
 
 const generateChatSessionId = () => {
   if (typeof crypto !== "undefined" && typeof crypto.randomUUID === "function") {
@@ -286,93 +119,21 @@ const generateChatSessionId = () => {
   return `sess-${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
 };
 
-const extractHostname = (url: string) => {
-  try {
-    return new URL(url).hostname.replace(/^www\./, "");
-  } catch {
-    return url;
-  }
-};
-
-const classifySourceType = (source: SourceCard): "Gov portal" | "Guideline PDF" | "State dept" | "Reference" => {
-  const host = extractHostname(source.url).toLowerCase();
-  const text = `${source.title} ${source.snippet || ""} ${source.url}`.toLowerCase();
-  if (text.includes(".pdf") || text.includes("guideline")) return "Guideline PDF";
-  if (host.includes("gov.in") || host.includes("nic.in")) {
-    if (text.includes("state") || text.includes("department")) return "State dept";
-    return "Gov portal";
-  }
-  return "Reference";
-};
-
-const normalizeSources = (value: unknown): SourceCard[] => {
-  if (!Array.isArray(value)) return [];
-  const list = value
-    .map((item, index): SourceCard | null => {
-      if (typeof item === "string" && item.trim()) return { title: `Source ${index + 1}`, url: item.trim() };
-      if (!item || typeof item !== "object") return null;
-      const r = item as Record<string, unknown>;
-      const url = typeof (r.url ?? r.link) === "string" ? String(r.url ?? r.link).trim() : "";
-      if (!url) return null;
-      const title = typeof (r.title ?? r.name ?? r.source) === "string" ? String(r.title ?? r.name ?? r.source).trim() : `Source ${index + 1}`;
-      const snippet = typeof (r.snippet ?? r.description ?? r.summary) === "string" ? String(r.snippet ?? r.description ?? r.summary).trim() : undefined;
-      return { title, url, snippet };
-    })
-    .filter((s): s is SourceCard => Boolean(s));
-
-  const uniq = new Map<string, SourceCard>();
-  for (const s of list) uniq.set(`${s.title}::${s.url}`, s);
-  return Array.from(uniq.values()).slice(0, 8);
+// The backend session a conversation continues in when it differs from the conversation id,
+// with the turns to seed it with until the first answer from it arrives.
+type BackendSession = {
+  conversationId: string;
+  id: string;
+  history?: ChatTurn[];
 };
 
-
-
-const extractSections = (content: string): Section[] => {
-  const lines = content.split("\n");
-  const out: Section[] = [];
-  let title = "Summary";
-  let key: Section["key"] = "summary";
-  let buffer: string[] = [];
-  const flush = () => {
-    const c = buffer.join("\n").trim();
-    if (c) out.push({ title, key, content: c });
-  };
-  for (const line of lines) {
-    const h = line.match(/^#{1,6}\s+(.+)$/);
-    if (!h) {
-      buffer.push(line);
-      continue;
-    }
-    flush();
-    title = h[1].trim();
-    const lower = title.toLowerCase();
-    if (lower.includes("eligib")) key = "eligibility";
-    else if (lower.includes("document")) key = "documents";
-    else if (lower.includes("apply") || lower.includes("process")) key = "apply";
-    else if (lower.includes("summary") || lower.includes("overview")) key = "summary";
-    else key = "other";
-    buffer = [];
+const readBackendSession = (conversationId: string) => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(backendSessionStorageKey) || "null") as BackendSession | null;
+    return saved?.conversationId === conversationId && typeof saved.id === "string" ? saved : null;
+  } catch {
+    return null;
   }
-  flush();
-  return out.length ? out : [{ title: "Summary", key: "summary", content }];
-};
-
-const injectCitations = (markdown: string, sourceCount: number) => {
-  if (sourceCount === 0) return markdown;
-  const lines = markdown.split("\n");
-  let idx = 1;
-  const out = lines.map((line) => {
-    const t = line.trim();
-    if (!t || /^#{1,6}\s/.test(t)) return line;
-    if (/^\s*[-*]\s/.test(t) || /^\s*\d+\.\s/.test(t) || t.length > 60) {
-      if (/\[[0-9]+\]\(#src-[0-9]+\)/.test(t)) return line;
-      const n = ((idx - 1) % sourceCount) + 1;
-      idx += 1;
-      return `${line} [${n}](#src-${n})`;
-    }
-    return line;
-  });
-  return out.join("\n");
 };
 
 function ShareIcon({ className }: { className?: string }) {
@@ -386,6 +147,31 @@ function ShareIcon({ className }: { className?: string }) {
   );
 }
 
+function BookmarkIcon({ className, filled = false }: { className?: string; filled?: boolean }) {
+  return (
+    <svg viewBox="0 0 24 24" fill={filled ? "currentColor" : "none"} stroke="currentColor" strokeWidth="1.8" className={className}>
+      <path d="M6 3h12v18l-6-4-6 4z" />
+    </svg>
+  );
+}
+
+function CompareIcon({ className }: { className?: string }) {
+  return (
+    <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.8" className={className}>
+      <path d="M4 5h6v14H4zM14 5h6v14h-6z" />
+    </svg>
+  );
+}
+
+function PrintIcon({ className }: { className?: string }) {
+  return (
+    <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.8" className={className}>
+      <path d="M7 9V3h10v6M7 17H4v-6a2 2 0 0 1 2-2h12a2 2 0 0 1 2 2v6h-3" />
+      <path d="M7 14h10v7H7z" />
+    </svg>
+  );
+}
+
 function PlusIcon({ className }: { className?: string }) {
   return (
     <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" className={className}>
@@ -413,6 +199,15 @@ function MoonIcon({ className }: { className?: string }) {
 
 
 
+function HistoryIcon({ className }: { className?: string }) {
+  return (
+    <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.8" className={className}>
+      <path d="M3.5 12a8.5 8.5 0 1 0 2.5-6M3.5 4v4h4" />
+      <path d="M12 7.5V12l3 2" />
+    </svg>
+  );
+}
+
 function UserIcon({ className }: { className?: string }) {
   return (
     <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.8" className={className}>
@@ -432,7 +227,7 @@ function JanInfraBadge({ className, style, animated = false }: { className?: str
 }
 
 
-function FlowerSpinner({ className }: { className?: string }) {
+function FlowerSpinner({ className, animated = true }: { className?: string; animated?: boolean }) {
   return (
     <svg viewBox="0 0 64 64" className={className} fill="none" aria-hidden="true">
       <defs>
@@ -452,14 +247,16 @@ function FlowerSpinner({ className }: { className?: string }) {
           <use href="#petal" transform="rotate(225 32 32)" />
           <use href="#petal" transform="rotate(270 32 32)" />
           <use href="#petal" transform="rotate(315 32 32)" />
-          <animateTransform
-            attributeName="transform"
-            type="rotate"
-            from="0 32 32"
-            to="360 32 32"
-            dur="9s"
-            repeatCount="indefinite"
-          />
+          {animated && (
+            <animateTransform
+              attributeName="transform"
+              type="rotate"
+              from="0 32 32"
+              to="360 32 32"
+              dur="9s"
+              repeatCount="indefinite"
+            />
+          )}
         </g>
 
         <g opacity="0.72">
@@ -469,19 +266,25 @@ function FlowerSpinner({ className }: { className?: string }) {
           <use href="#innerPetal" transform="rotate(180 32 32)" />
           <use href="#innerPetal" transform="rotate(240 32 32)" />
           <use href="#innerPetal" transform="rotate(300 32 32)" />
-          <animateTransform
-            attributeName="transform"
-            type="rotate"
-            from="0 32 32"
-            to="-360 32 32"
-            dur="12s"
-            repeatCount="indefinite"
-          />
+          {animated && (
+            <animateTransform
+              attributeName="transform"
+              type="rotate"
+              from="0 32 32"
+              to="-360 32 32"
+              dur="12s"
+              repeatCount="indefinite"
+            />
+          )}
         </g>
 
         <circle cx="32" cy="32" r="5.4" fill="currentColor" fillOpacity="0.12" stroke="none">
-          <animate attributeName="r" values="5;6.2;5" dur="2.2s" repeatCount="indefinite" />
-          <animate attributeName="fill-opacity" values="0.12;0.2;0.12" dur="2.2s" repeatCount="indefinite" />
+          {animated && (
+            <>
+              <animate attributeName="r" values="5;6.2;5" dur="2.2s" repeatCount="indefinite" />
+              <animate attributeName="fill-opacity" values="0.12;0.2;0.12" dur="2.2s" repeatCount="indefinite" />
+            </>
+          )}
         </circle>
         <circle cx="32" cy="32" r="2.1" fill="currentColor" stroke="none" />
       </g>
@@ -499,6 +302,20 @@ export default function Home() {
   const [chatSessionId, setChatSessionId] = useState("");
   const [showAuthModal, setShowAuthModal] = useState(false);
   const [pendingMessage, setPendingMessage] = useState<string | null>(null);
+  const [queuedQuestions, setQueuedQuestions] = useState<QueuedQuestion[]>([]);
+  const [isOnline, setIsOnline] = useState(true);
+  const [sessionChecking, setSessionChecking] = useState(false);
+  const [litePreference, setLitePreference] = useState<LitePreference>("auto");
+  const [slowConnection, setSlowConnection] = useState(false);
+  const [shownSourceIds, setShownSourceIds] = useState<string[]>([]);
+  const [voiceConversation, setVoiceConversation] = useState(false);
+  const [profile, setProfile] = useState<EligibilityProfile>({});
+  const [showProfilePanel, setShowProfilePanel] = useState(false);
+  const [profileAutoFilled, setProfileAutoFilled] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [conversations, setConversations] = useState<ConversationSummary[]>([]);
+  const [historyLoading, setHistoryLoading] = useState(false);
+  const [historyError, setHistoryError] = useState<string | null>(null);
 
   const [messages, setMessages] = useState<Message[]>([]);
   const [input, setInput] = useState("");
@@ -510,7 +327,21 @@ export default function Home() {
   const [showSettingsMenu, setShowSettingsMenu] = useState(false);
   const [typedAssistant, setTypedAssistant] = useState<Record<string, string>>({});
   const [typingMessageId, setTypingMessageId] = useState<string | null>(null);
-  const [voiceErrorToast, setVoiceErrorToast] = useState<string | null>(null);
+  const [streamingMessageId, setStreamingMessageId] = useState<string | null>(null);
+  const [creatingLinkId, setCreatingLinkId] = useState<string | null>(null);
+  const [printMessageId, setPrintMessageId] = useState<string | null>(null);
+  const [pdfSource, setPdfSource] = useState<SourceCard | null>(null);
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const [feedbackRatings, setFeedbackRatings] = useState<Record<string, FeedbackRating>>({});
+  const [versionViews, setVersionViews] = useState<Record<string, number>>({});
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
+  const [editDraft, setEditDraft] = useState("");
+  const [showComparison, setShowComparison] = useState(false);
+  const [documentChecks, setDocumentChecks] = useState<ChecklistState>({});
+  const [trackers, setTrackers] = useState<Tracker[]>([]);
+  const [bookmarks, setBookmarks] = useState<Bookmark[]>([]);
+  const [showSavedSchemes, setShowSavedSchemes] = useState(false);
+  const [errorToast, setErrorToast] = useState<string | null>(null);
   const [exampleIndex, setExampleIndex] = useState(0);
   const [placeholderFading, setPlaceholderFading] = useState(false);
   const nextMessageId = useRef(1);
@@ -518,21 +349,79 @@ export default function Home() {
   const chatScrollRef = useRef<HTMLDivElement | null>(null);
   const textareaRef = useRef<HTMLTextAreaElement | null>(null);
   const typingTimerRef = useRef<number | null>(null);
+  const chatAbortRef = useRef<AbortController | null>(null);
+  const voiceBaseInputRef = useRef<string | null>(null);
+  const conversationMetaRef = useRef<{ title: string | null; createdAt: string | null }>({ title: null, createdAt: null });
+  const lastSavedConversationRef = useRef("");
   const animatedAssistantIdsRef = useRef<Set<string>>(new Set());
+  const sharedLinksRef = useRef<Record<string, string>>({});
+  // Set once a question is edited or an answer regenerated. The backend remembers each session, so the rewritten
+  // conversation moves to a fresh backend session, seeded with the turns that were kept.
+  const backendSessionRef = useRef<BackendSession | null>(null);
   const isDark = theme === "dark";
+  const liteMode = litePreference === "on" || (litePreference === "auto" && slowConnection);
   const brandColor = "var(--ji-brand)";
   const userLabel = session?.user?.displayName || session?.user?.email?.split("@")[0] || "";
-  const heroCopy = heroCopyByLanguage[language as keyof typeof heroCopyByLanguage] || heroCopyByLanguage.en;
+  const t = useMemo(() => createTranslator(language), [language]);
+  const heroCopy = getHeroCopy(language);
   const hasConversation = useMemo(() => messages.some((m) => m.role === "user"), [messages]);
-  const examples = rotatingExamples[language as keyof typeof rotatingExamples] || rotatingExamples.en;
-  const composerPlaceholder = hasConversation
-    ? (followUpPlaceholders[language as keyof typeof followUpPlaceholders] || followUpPlaceholders.en)
-    : examples[exampleIndex % examples.length];
-
-  const hasUncertainEvidence = useMemo(
-    () => messages.some((m) => m.role === "assistant" && (!m.sources || m.sources.length === 0)),
-    [messages]
-  );
+  const examples = getExamples(language);
+  const composerPlaceholder = hasConversation ? getFollowUpPlaceholder(language) : examples[exampleIndex % examples.length];
+
+  // Print whichever answer version is on screen, not always the latest.
+  const printStored = printMessageId ? messages.find((m) => m.id === printMessageId) : undefined;
+  const printMessage = printStored && viewAnswerVersion(printStored, versionViews[printStored.id]);
+
+  const documentsByMessage = useMemo(() => {
+    const map = new Map<string, DocumentItem[]>();
+    for (const m of messages) {
+      if (m.role !== "assistant") continue;
+      const documents = extractSections(m.content).find((s) => s.key === "documents");
+      if (documents) map.set(m.id, parseDocumentsChecklist(documents.content));
+    }
+    return map;
+  }, [messages]);
+  const comparedSchemes = useMemo(() => {
+    if (!compareIds.length) return [];
+    return messages
+      .flatMap((m, index) => {
+        if (!isComparable(m)) return [];
+        const question = messages.slice(0, index).reverse().find((prev) => prev.role === "user")?.content || "";
+        return summarizeSchemes(m, question);
+      })
+      .filter((scheme) => compareIds.includes(scheme.id));
+  }, [messages, compareIds]);
+  const documentUsage = useMemo(() => countDocumentUsage(Array.from(documentsByMessage.values())), [documentsByMessage]);
+
+  const conversationStore = useMemo<ConversationStore | null>(() => {
+    if (!authEnabled) return createLocalConversationStore();
+    if (!session) return null;
+    return createCachedConversationStore(
+      createSupabaseConversationStore(supabaseUrl, supabaseAnonKey, session.accessToken, session.user.id),
+      createLocalConversationStore(conversationCacheName(session.user.id))
+    );
+  }, [session]);
+
+  const trackerStore = useMemo<TrackerStore | null>(() => {
+    if (!authEnabled) return createLocalTrackerStore();
+    if (!session) return null;
+    return createSupabaseTrackerStore(supabaseUrl, supabaseAnonKey, session.accessToken, session.user.id);
+  }, [session]);
+
+  const bookmarkStore = useMemo<BookmarkStore | null>(() => {
+    if (!authEnabled) return createLocalBookmarkStore();
+    if (!session) return null;
+    return createCachedBookmarkStore(
+      createSupabaseBookmarkStore(supabaseUrl, supabaseAnonKey, session.accessToken, session.user.id),
+      bookmarkCacheKey(session.user.id)
+    );
+  }, [session]);
+
+  // Guests keep their profile on this device only.
+  const profileStore = useMemo<ProfileStore | null>(() => {
+    if (!authEnabled || !session) return null;
+    return createSupabaseProfileStore(supabaseUrl, supabaseAnonKey, session.accessToken, session.user.id);
+  }, [session]);
 
   const supabaseHeaders = useMemo(
     () => ({
@@ -552,12 +441,31 @@ export default function Home() {
     localStorage.setItem(authStorageKey, JSON.stringify(next));
   };
 
+  // Kept in localStorage for a reload and saved with the conversation for reopening it from history.
+  const persistBackendSession = useCallback((next: BackendSession | null) => {
+    backendSessionRef.current = next;
+    if (next) localStorage.setItem(backendSessionStorageKey, JSON.stringify(next));
+    else localStorage.removeItem(backendSessionStorageKey);
+  }, []);
+
   const persistChatSessionId = useCallback((next: string) => {
     setChatSessionId(next);
     if (typeof window === "undefined") return;
     localStorage.setItem(chatSessionStorageKey, next);
   }, []);
 
+  const showErrorToast = useCallback((message: string) => {
+    setErrorToast(message);
+    window.setTimeout(() => setErrorToast(null), 3000);
+  }, []);
+
+  const updateProfile = useCallback((next: EligibilityProfile) => {
+    setProfile(next);
+    setProfileAutoFilled(false);
+    saveProfile(next, session?.user.id);
+    profileStore?.save(next).catch(() => showErrorToast(t("profile.saveFailed")));
+  }, [profileStore, session?.user.id, showErrorToast, t]);
+
   const ensureChatSessionId = useCallback(() => {
     if (chatSessionId) return chatSessionId;
     const next = generateChatSessionId();
@@ -644,6 +552,11 @@ export default function Home() {
       try {
         const saved = JSON.parse(raw) as AuthSession;
         if (!saved?.accessToken || !saved?.refreshToken) throw new Error("Invalid session");
+        // Tokens can't be checked offline; keep the saved session so cached history and bookmarks stay readable.
+        if (!navigator.onLine && saved.user) {
+          setSession(saved);
+          return;
+        }
         try {
           const user = await fetchSupabaseUser(saved.accessToken);
           persistSession({ ...saved, user });
@@ -662,7 +575,7 @@ export default function Home() {
 
   const startGoogleAuth = () => {
     if (!authEnabled) {
-      setAuthError("Missing Supabase env vars in yojana-web.");
+      setAuthError(t("auth.missingConfig"));
       return;
     }
     setAuthError(null);
@@ -682,27 +595,224 @@ export default function Home() {
       if (window.location.href === currentUrl && document.visibilityState === "visible") {
         setAuthGoogleLoading(false);
         setAuthRetryUrl(url);
-        setAuthError("Google sign-in is taking too long. Tap Continue again or use the direct fallback link.");
+        setAuthError(t("auth.slowRedirect"));
       }
     }, 9000);
     window.location.href = url;
   };
 
   const handleSignOut = () => {
+    if (session) {
+      void clearConversationCache(conversationCacheName(session.user.id));
+      localStorage.removeItem(bookmarkCacheKey(session.user.id));
+    }
     persistSession(null);
-    setMessages([]);
+    // A fresh conversation id keeps the next sign-in from saving over this account's last conversation.
+    resetConversation();
+    setConversations([]);
   };
 
+  const refreshConversations = useCallback(async () => {
+    if (!conversationStore) return;
+    setHistoryLoading(true);
+    setHistoryError(null);
+    try {
+      setConversations(await conversationStore.list());
+    } catch (err) {
+      setHistoryError(err instanceof Error ? err.message : t("history.loadFailed"));
+    } finally {
+      setHistoryLoading(false);
+    }
+  }, [conversationStore, t]);
+
+  useEffect(() => {
+    if (!showHistory) return;
+    void refreshConversations();
+  }, [showHistory, refreshConversations]);
+
+  useEffect(() => {
+    if (!trackerStore) {
+      setTrackers([]);
+      return;
+    }
+    let cancelled = false;
+    trackerStore
+      .list()
+      .then((list) => {
+        if (!cancelled) setTrackers(list);
+      })
+      .catch(() => undefined);
+    return () => {
+      cancelled = true;
+    };
+  }, [trackerStore, showHistory]);
+
+  useEffect(() => {
+    if (!bookmarkStore) {
+      setBookmarks([]);
+      return;
+    }
+    let cancelled = false;
+    bookmarkStore
+      .list()
+      .then((list) => {
+        if (!cancelled) setBookmarks(list);
+      })
+      .catch(() => undefined);
+    return () => {
+      cancelled = true;
+    };
+  }, [bookmarkStore, showSavedSchemes]);
+
+  // The token may have expired while offline (or was never checked after an offline start),
+  // so it is verified, and refreshed if needed, before anything queued goes out.
+  const recheckSession = useEffectEvent(async () => {
+    if (!authEnabled || !session) return;
+    setSessionChecking(true);
+    try {
+      const user = await fetchSupabaseUser(session.accessToken);
+      persistSession({ ...session, user });
+    } catch {
+      persistSession(await refreshSupabaseSession(session.refreshToken).catch(() => null));
+    } finally {
+      setSessionChecking(false);
+    }
+  });
+
+  useEffect(() => {
+    const update = () => setIsOnline(navigator.onLine);
+    const reconnect = () => {
+      update();
+      void recheckSession();
+    };
+    update();
+    setQueuedQuestions(readQueuedQuestions());
+    window.addEventListener("online", reconnect);
+    window.addEventListener("offline", update);
+    return () => {
+      window.removeEventListener("online", reconnect);
+      window.removeEventListener("offline", update);
+    };
+  }, []);
+
+  useEffect(() => {
+    const flush = () => void flushFeedbackQueue(session?.accessToken);
+    flush();
+    window.addEventListener("online", flush);
+    return () => window.removeEventListener("online", flush);
+  }, [session?.accessToken]);
+
+  useEffect(() => {
+    if (!conversationStore || loading || !chatSessionId) return;
+    const firstQuestion = messages.find((m) => m.role === "user");
+    if (!firstQuestion) return;
+    const signature = `${chatSessionId}:${JSON.stringify(messages)}`;
+    if (lastSavedConversationRef.current === signature) return;
+    lastSavedConversationRef.current = signature;
+
+    const now = new Date().toISOString();
+    const meta = conversationMetaRef.current;
+    if (!meta.createdAt) meta.createdAt = now;
+    const backendSession = backendSessionRef.current;
+    void conversationStore
+      .save({
+        id: chatSessionId,
+        title: meta.title || deriveConversationTitle(firstQuestion.content),
+        language,
+        messages,
+        ...(backendSession?.conversationId === chatSessionId ? { backendSessionId: backendSession.id } : {}),
+        createdAt: meta.createdAt,
+        updatedAt: now,
+      })
+      .catch(() => {
+        lastSavedConversationRef.current = "";
+      });
+  }, [chatSessionId, conversationStore, language, loading, messages]);
+
   useEffect(() => {
     if (chatSessionId) return;
     const saved = localStorage.getItem(chatSessionStorageKey);
     if (saved) {
       setChatSessionId(saved);
+      backendSessionRef.current = readBackendSession(saved);
       return;
     }
     persistChatSessionId(generateChatSessionId());
   }, [chatSessionId, persistChatSessionId]);
 
+  useEffect(() => {
+    const continueId = new URLSearchParams(window.location.search).get("continue");
+    if (!continueId || !authEnabled) return;
+    window.history.replaceState({}, document.title, window.location.pathname + window.location.hash);
+    void fetchSharedAnswer(supabaseUrl, supabaseAnonKey, continueId)
+      .then((shared) => {
+        if (!shared) return;
+        const conversationId = generateChatSessionId();
+        const seeded: Message[] = [
+          { id: "m-1", role: "user", content: shared.question },
+          { id: "m-2", role: "assistant", content: shared.answer, sources: shared.sources, citations: shared.citations },
+        ];
+        chatAbortRef.current?.abort();
+        conversationMetaRef.current = { title: null, createdAt: null };
+        animatedAssistantIdsRef.current = new Set(["m-2"]);
+        sharedLinksRef.current = { "m-2": shared.id };
+        // The backend has never seen the shared answer, so the new session starts with it as history.
+        persistBackendSession({ conversationId, id: conversationId, history: toChatHistory(seeded) });
+        nextMessageId.current = 3;
+        setMessages(seeded);
+        setLanguage(shared.language);
+        persistChatSessionId(conversationId);
+      })
+      .catch(() => undefined);
+  }, [persistBackendSession, persistChatSessionId]);
+
+  useEffect(() => {
+    setDocumentChecks(loadChecklistState(chatSessionId));
+  }, [chatSessionId]);
+
+  useEffect(() => {
+    if (!authReady) return;
+    const local = loadProfile(session?.user.id);
+    setProfile(local);
+    setProfileAutoFilled(false);
+    if (!profileStore) return;
+    let cancelled = false;
+    profileStore
+      .load()
+      .then((saved) => {
+        if (cancelled) return;
+        // A profile kept only on this device from before sign-in sync gets uploaded once.
+        if (!saved) {
+          if (!isProfileEmpty(local)) void profileStore.save(local).catch(() => undefined);
+          return;
+        }
+        setProfile(saved);
+        saveProfile(saved, session?.user.id);
+      })
+      .catch(() => undefined);
+    return () => {
+      cancelled = true;
+    };
+  }, [authReady, profileStore, session?.user.id]);
+
+  useEffect(() => {
+    if (!printMessageId) return;
+    const clear = () => setPrintMessageId(null);
+    window.addEventListener("afterprint", clear);
+    // Give the print-only view a frame to render before opening the dialog.
+    const frame = window.requestAnimationFrame(() => window.print());
+    return () => {
+      window.cancelAnimationFrame(frame);
+      window.removeEventListener("afterprint", clear);
+    };
+  }, [printMessageId]);
+
+  useEffect(() => {
+    const locale = getLocale(language);
+    document.documentElement.lang = locale.bcp47;
+    document.documentElement.dir = locale.dir;
+  }, [language]);
+
   useEffect(() => {
     const saved = localStorage.getItem("yojana-theme");
     if (saved === "light" || saved === "dark") setTheme(saved);
@@ -741,11 +851,19 @@ export default function Home() {
     return () => {
       if (typingTimerRef.current) window.clearInterval(typingTimerRef.current);
       if (googleRedirectTimeoutRef.current) window.clearTimeout(googleRedirectTimeoutRef.current);
+      chatAbortRef.current?.abort();
     };
   }, []);
 
   useEffect(() => {
-    if (hasConversation) return;
+    setLitePreference(readLitePreference());
+    const update = () => setSlowConnection(isSlowConnection());
+    update();
+    return watchConnection(update);
+  }, []);
+
+  useEffect(() => {
+    if (hasConversation || liteMode) return;
     const interval = window.setInterval(() => {
       setPlaceholderFading(true);
       window.setTimeout(() => {
@@ -754,7 +872,7 @@ export default function Home() {
       }, 300);
     }, 3500);
     return () => window.clearInterval(interval);
-  }, [hasConversation, examples.length]);
+  }, [hasConversation, examples.length, liteMode]);
 
   useEffect(() => {
     const latest = messages[messages.length - 1];
@@ -762,6 +880,7 @@ export default function Home() {
     if (animatedAssistantIdsRef.current.has(latest.id)) return;
 
     animatedAssistantIdsRef.current.add(latest.id);
+    if (liteMode) return;
     setTypingMessageId(latest.id);
 
     const full = latest.content;
@@ -779,7 +898,7 @@ export default function Home() {
         setTypingMessageId((curr) => (curr === latest.id ? null : curr));
       }
     }, 18);
-  }, [messages]);
+  }, [liteMode, messages]);
 
   const makeMessageId = useCallback(() => {
     const id = `m-${nextMessageId.current}`;
@@ -787,71 +906,338 @@ export default function Home() {
     return id;
   }, []);
 
+  const stopGenerating = () => {
+    chatAbortRef.current?.abort();
+  };
+
   const resetConversation = () => {
+    chatAbortRef.current?.abort();
+    conversationMetaRef.current = { title: null, createdAt: null };
     setMessages([]);
     setInput("");
     setActiveTabs({});
     setTypedAssistant({});
     setTypingMessageId(null);
+    setStreamingMessageId(null);
     animatedAssistantIdsRef.current = new Set();
+    sharedLinksRef.current = {};
+    persistBackendSession(null);
+    setCompareIds([]);
+    setShownSourceIds([]);
+    setFeedbackRatings({});
     nextMessageId.current = 1;
     persistChatSessionId(generateChatSessionId());
   };
 
-  const handleShare = async (message: Message) => {
-    const text = `JanInfra\n\n${message.content}`;
-    if (navigator.share) {
-      await navigator.share({ title: "JanInfra response", text, url: window.location.href });
-    } else {
-      await navigator.clipboard.writeText(`${text}\n\n${window.location.href}`);
+  const openConversation = async (id: string) => {
+    if (!conversationStore) return;
+    try {
+      const conversation = await conversationStore.get(id);
+      if (!conversation) {
+        setHistoryError(t("history.missing"));
+        return;
+      }
+      chatAbortRef.current?.abort();
+      const highestId = conversation.messages.reduce((max, m) => Math.max(max, Number(m.id.replace(/^m-/, "")) || 0), 0);
+      lastSavedConversationRef.current = `${conversation.id}:${JSON.stringify(conversation.messages)}`;
+      conversationMetaRef.current = { title: conversation.title, createdAt: conversation.createdAt };
+      animatedAssistantIdsRef.current = new Set(conversation.messages.map((m) => m.id));
+      sharedLinksRef.current = {};
+      persistBackendSession(conversation.backendSessionId ? { conversationId: conversation.id, id: conversation.backendSessionId } : null);
+      setCompareIds([]);
+      setShownSourceIds([]);
+      setFeedbackRatings({});
+      nextMessageId.current = highestId + 1;
+      setMessages(conversation.messages);
+      setInput("");
+      setActiveTabs({});
+      setTypedAssistant({});
+      setTypingMessageId(null);
+      setStreamingMessageId(null);
+      if (conversation.language) setLanguage(conversation.language);
+      persistChatSessionId(conversation.id);
+      setShowHistory(false);
+    } catch (err) {
+      setHistoryError(err instanceof Error ? err.message : t("history.openFailed"));
     }
-    setSharedMessageId(message.id);
-    window.setTimeout(() => setSharedMessageId(null), 1400);
   };
 
-  const submitQuestion = useCallback(async (question: string, visibleUser?: string) => {
-    if (!question || loading) return;
-    const currentSessionId = ensureChatSessionId();
+  const renameConversation = async (id: string, title: string) => {
+    if (!conversationStore) return;
+    if (id === chatSessionId) conversationMetaRef.current.title = title;
+    setConversations((prev) => prev.map((c) => (c.id === id ? { ...c, title } : c)));
+    try {
+      await conversationStore.rename(id, title);
+    } catch (err) {
+      setHistoryError(err instanceof Error ? err.message : t("history.renameFailed"));
+      void refreshConversations();
+    }
+  };
 
-    const userMessage: Message = { id: makeMessageId(), role: "user", content: visibleUser || question };
-    setMessages((prev) => [...prev, userMessage]);
-    setInput("");
-    setLoading(true);
+  const deleteConversation = async (id: string) => {
+    if (!conversationStore) return;
+    setConversations((prev) => prev.filter((c) => c.id !== id));
+    try {
+      await conversationStore.remove(id);
+      if (id === chatSessionId) resetConversation();
+    } catch (err) {
+      setHistoryError(err instanceof Error ? err.message : t("history.deleteFailed"));
+      void refreshConversations();
+    }
+  };
 
+  // Ticks are shared across the conversation: having Aadhaar ready covers every scheme that asks for it.
+  const toggleDocument = (key: string) => {
+    setDocumentChecks((prev) => {
+      const next = { ...prev, [key]: !prev[key] };
+      saveChecklistState(chatSessionId, next);
+      return next;
+    });
+  };
+
+  const saveTracker = (next: Tracker) => {
+    setTrackers((prev) => [next, ...prev.filter((tracker) => tracker.id !== next.id)]);
+    trackerStore?.save(next).catch(() => showErrorToast(t("tracker.saveFailed")));
+  };
+
+  const removeTracker = (id: string) => {
+    setTrackers((prev) => prev.filter((tracker) => tracker.id !== id));
+    trackerStore?.remove(id).catch(() => showErrorToast(t("tracker.saveFailed")));
+  };
+
+  const startTracking = (message: Message, applyContent: string) => {
+    saveTracker(createTracker(chatSessionId, message.id, deriveSchemeTitle(message.content, questionFor(message)), applyContent));
+  };
+
+  const questionFor = (message: Message) => {
+    const index = messages.findIndex((m) => m.id === message.id);
+    return messages.slice(0, index).reverse().find((m) => m.role === "user")?.content || "";
+  };
+
+  const saveBookmark = (next: Bookmark) => {
+    setBookmarks((prev) => [next, ...prev.filter((bookmark) => bookmark.id !== next.id)]);
+    bookmarkStore?.save(next).catch(() => showErrorToast(t("bookmark.saveFailed")));
+  };
+
+  const removeBookmark = (id: string) => {
+    setBookmarks((prev) => prev.filter((bookmark) => bookmark.id !== id));
+    bookmarkStore?.remove(id).catch(() => showErrorToast(t("bookmark.saveFailed")));
+  };
+
+  const toggleBookmark = (message: Message) => {
+    const id = bookmarkId(chatSessionId, message.id);
+    if (bookmarks.some((bookmark) => bookmark.id === id)) {
+      removeBookmark(id);
+      return;
+    }
+    const question = questionFor(message);
+    const now = new Date().toISOString();
+    saveBookmark({
+      id,
+      conversationId: chatSessionId,
+      messageId: message.id,
+      title: deriveSchemeTitle(message.content, question),
+      question,
+      answer: message.content,
+      sources: message.sources || [],
+      citations: message.citations || [],
+      language,
+      createdAt: now,
+      updatedAt: now,
+    });
+  };
+
+  const sendFeedback = async (message: Message, rating: FeedbackRating, reason?: FeedbackReason, comment?: string) => {
     try {
-      const res = await fetch(`${chatApiBaseUrl}/chat`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          ...(session?.accessToken ? { Authorization: `Bearer ${session.accessToken}` } : {}),
+      await submitFeedback(
+        {
+          sessionId: chatSessionId,
+          messageId: message.id,
+          rating,
+          reason,
+          comment,
+          language,
+          sources: (message.sources || []).map(({ title, url }) => ({ title, url })),
+          createdAt: new Date().toISOString(),
         },
-        body: JSON.stringify({ question, language, sessionId: currentSessionId }),
-      });
-      const text = await res.text();
-      let data: ChatResponse = {};
-      try {
-        data = text ? (JSON.parse(text) as ChatResponse) : {};
-      } catch {
-        data = { raw: text };
+        session?.accessToken
+      );
+      setFeedbackRatings((prev) => ({ ...prev, [message.id]: rating }));
+    } catch {
+      showErrorToast(t("feedback.failed"));
+    }
+  };
+
+  // Editing a question drops everything after it and asks again from that point.
+  const resendEdited = (messageId: string) => {
+    const text = editDraft.trim();
+    const index = messages.findIndex((m) => m.id === messageId);
+    setEditingMessageId(null);
+    if (!text || index < 0 || loading) return;
+    setMessages((prev) => prev.slice(0, index));
+    persistBackendSession({ conversationId: chatSessionId, id: generateChatSessionId(), history: toChatHistory(messages.slice(0, index)) });
+    void submitQuestion(text);
+  };
+
+  const regenerateAnswer = (message: Message) => {
+    const question = questionFor(message);
+    if (!question || loading) return;
+    setVersionViews((prev) => {
+      const next = { ...prev };
+      delete next[message.id];
+      return next;
+    });
+    const earlier = messages.slice(0, messages.findIndex((m) => m.id === message.id));
+    const questionIndex = earlier.map((m) => m.role).lastIndexOf("user");
+    persistBackendSession({
+      conversationId: chatSessionId,
+      id: generateChatSessionId(),
+      history: toChatHistory(earlier.slice(0, Math.max(questionIndex, 0))),
+    });
+    void submitQuestion(question, undefined, message.id);
+  };
+
+  const toggleCompare = (message: Message) => {
+    const ids = summarizeSchemes(message, questionFor(message)).map((scheme) => scheme.id);
+    setCompareIds((prev) => (ids.some((id) => prev.includes(id)) ? prev.filter((id) => !ids.includes(id)) : [...prev, ...ids]));
+  };
+
+  const createAnswerLink = async (message: Message) => {
+    if (!session) return null;
+    const existing = sharedLinksRef.current[message.id];
+    if (existing) return existing;
+    const id = await createSharedAnswer(supabaseUrl, supabaseAnonKey, session.accessToken, session.user.id, {
+      question: questionFor(message),
+      answer: message.content,
+      sources: message.sources || [],
+      citations: message.citations || [],
+      language,
+    });
+    sharedLinksRef.current[message.id] = id;
+    return id;
+  };
+
+  const handleShare = async (message: Message) => {
+    if (creatingLinkId) return;
+    setCreatingLinkId(message.id);
+    try {
+      const linkId = await createAnswerLink(message);
+      if (linkId) {
+        const url = `${window.location.origin}${sharedAnswerPath(linkId)}`;
+        if (navigator.share) await navigator.share({ title: t("answer.shareTitle"), url });
+        else await navigator.clipboard.writeText(url);
+      } else {
+        const text = `JanInfra\n\n${message.content}`;
+        if (navigator.share) await navigator.share({ title: t("answer.shareTitle"), text, url: window.location.href });
+        else await navigator.clipboard.writeText(`${text}\n\n${window.location.href}`);
+      }
+      setSharedMessageId(message.id);
+      window.setTimeout(() => setSharedMessageId(null), 1400);
+    } catch (err) {
+      if (!(err instanceof DOMException && err.name === "AbortError")) showErrorToast(t("answer.linkFailed"));
+    } finally {
+      setCreatingLinkId(null);
+    }
+  };
+
+  // With `regenerateId` the existing answer is re-requested in place and its current text is kept as an earlier version.
+  // Resolves with the answer (or error) text once the reply is complete, and null when nothing was answered.
+  const submitQuestion = useCallback(async (question: string, visibleUser?: string, regenerateId?: string): Promise<string | null> => {
+    if (!question || loading) return null;
+    const currentSessionId = ensureChatSessionId();
+
+    let requestProfile = profile;
+    if (!hasConversation) {
+      const inferred = mergeProfile(profile, parseProfileFromText(question));
+      if (JSON.stringify(inferred) !== JSON.stringify(profile)) {
+        requestProfile = inferred;
+        updateProfile(inferred);
+        setProfileAutoFilled(true);
       }
-      if (!res.ok) throw new Error(`HTTP ${res.status}: ${data.error || data.raw || "Unknown error"}`);
+    }
+
+    if (regenerateId) {
+      setMessages((prev) =>
+        prev.map((m) =>
+          m.id === regenerateId
+            ? { id: m.id, role: "assistant", content: "", versions: [...(m.versions || []), { content: m.content, sources: m.sources, citations: m.citations }] }
+            : m
+        )
+      );
+    } else {
+      const userMessage: Message = { id: makeMessageId(), role: "user", content: visibleUser || question };
+      setMessages((prev) => [...prev, userMessage]);
+      setInput("");
+    }
+    setLoading(true);
+
+    const assistantId = regenerateId || makeMessageId();
+    const controller = new AbortController();
+    chatAbortRef.current = controller;
+    const backendSession = backendSessionRef.current?.conversationId === currentSessionId ? backendSessionRef.current : null;
+    let streamed = false;
+    const upsertAssistant = (update: (prev?: Message) => Message) =>
+      setMessages((prev) =>
+        prev.some((m) => m.id === assistantId)
+          ? prev.map((m) => (m.id === assistantId ? { ...update(m), versions: m.versions, language } : m))
+          : [...prev, { ...update(), language }]
+      );
 
-      setMessages((prev) => [
-        ...prev,
+    try {
+      const result = await sendChatMessage(
         {
-          id: makeMessageId(),
-          role: "assistant",
-          content: data.answer || "No answer returned from backend.",
-          sources: normalizeSources(data.sources),
+          question,
+          language,
+          sessionId: backendSession?.id || currentSessionId,
+          ...(backendSession?.history ? { history: backendSession.history } : {}),
+          ...(isProfileEmpty(requestProfile) ? {} : { profile: requestProfile }),
+          ...(liteMode ? { lite: true } : {}),
         },
-      ]);
+        {
+          accessToken: session?.accessToken,
+          signal: controller.signal,
+          onToken: (text) => {
+            // Streamed answers render as they arrive, so skip the typing replay for them.
+            streamed = true;
+            animatedAssistantIdsRef.current.add(assistantId);
+            setStreamingMessageId(assistantId);
+            upsertAssistant((prev) => ({ id: assistantId, role: "assistant", content: `${prev?.content || ""}${text}` }));
+          },
+        }
+      );
+
+      // The new backend session has the history now; later questions only need its id.
+      if (backendSession?.history && backendSessionRef.current === backendSession) {
+        persistBackendSession({ conversationId: backendSession.conversationId, id: backendSession.id });
+      }
+      // A regenerated answer keeps its id, so let the typing replay run for it again.
+      if (regenerateId && !streamed) animatedAssistantIdsRef.current.delete(assistantId);
+      const sources = normalizeSources(result.sources);
+      const answer = result.answer || t("answer.empty");
+      upsertAssistant(() => ({
+        id: assistantId,
+        role: "assistant",
+        content: answer,
+        sources,
+        citations: normalizeCitations(result.citations, sources),
+      }));
+      return answer;
     } catch (err: unknown) {
-      const message = err instanceof Error ? err.message : "Failed to connect.";
-      setMessages((prev) => [...prev, { id: makeMessageId(), role: "assistant", content: `⚠️ ${message}` }]);
+      if (controller.signal.aborted) return null;
+      const message = err instanceof Error ? err.message : t("answer.connectionFailed");
+      upsertAssistant((prev) => ({
+        id: assistantId,
+        role: "assistant",
+        content: prev?.content ? `${prev.content}\n\n⚠️ ${message}` : `⚠️ ${message}`,
+        error: true,
+      }));
+      return message;
     } finally {
+      if (chatAbortRef.current === controller) chatAbortRef.current = null;
+      setStreamingMessageId((curr) => (curr === assistantId ? null : curr));
       setLoading(false);
     }
-  }, [ensureChatSessionId, language, loading, makeMessageId, session?.accessToken]);
+  }, [ensureChatSessionId, hasConversation, language, liteMode, loading, makeMessageId, persistBackendSession, profile, session?.accessToken, t, updateProfile]);
 
   useEffect(() => {
     if (!session || !pendingMessage || loading) return;
@@ -863,14 +1249,34 @@ export default function Home() {
     void submitQuestion(queued);
   }, [session, pendingMessage, loading, submitQuestion]);
 
+  // Questions queued offline go out one at a time once the connection is back, each after the previous answer.
+  useEffect(() => {
+    if (!isOnline || loading || sessionChecking || !queuedQuestions.length) return;
+    if (authEnabled && !session) return;
+    const [next, ...rest] = queuedQuestions;
+    writeQueuedQuestions(rest);
+    setQueuedQuestions(rest);
+    void submitQuestion(next.question);
+  }, [isOnline, loading, queuedQuestions, session, sessionChecking, submitQuestion]);
+
+  const updateQueuedQuestions = (next: QueuedQuestion[]) => {
+    writeQueuedQuestions(next);
+    setQueuedQuestions(next);
+  };
+
   const sendMessage = async () => {
     const q = input.trim();
     if (!q) return;
+    if (!navigator.onLine) {
+      updateQueuedQuestions([...queuedQuestions, { id: `q-${Date.now()}`, question: q, queuedAt: new Date().toISOString() }]);
+      setInput("");
+      return;
+    }
     if (authEnabled && !session) {
       setPendingMessage(q);
       localStorage.setItem(authPendingStorageKey, q);
       setAuthError(null);
-      setAuthNotice("Sign in once to send your message.");
+      setAuthNotice(t("auth.signInToSend"));
       setShowAuthModal(true);
       return;
     }
@@ -879,6 +1285,30 @@ export default function Home() {
 
   const renderComposer = (isHero = false) => (
     <div className="w-full">
+      {queuedQuestions.length > 0 && (
+        <div
+          className={`mb-2 rounded-xl border px-3 py-2 text-xs ${isDark ? "border-[var(--ji-border)] bg-[var(--ji-surface-muted)] text-stone-300" : "border-slate-200 bg-slate-50 text-slate-600"}`}
+          aria-live="polite"
+        >
+          <p className="font-medium">
+            {isOnline ? t("offline.sendingQueued", { count: queuedQuestions.length }) : t("offline.queuedNotice", { count: queuedQuestions.length })}
+          </p>
+          <ul className="mt-1.5 space-y-1">
+            {queuedQuestions.map((item) => (
+              <li key={item.id} className="flex items-center gap-2">
+                <span className="min-w-0 flex-1 truncate">{item.question}</span>
+                <button
+                  onClick={() => updateQueuedQuestions(queuedQuestions.filter((q) => q.id !== item.id))}
+                  className={`shrink-0 rounded-md px-1.5 py-0.5 ${isDark ? "hover:bg-white/[0.06]" : "hover:bg-black/[0.04]"}`}
+                  aria-label={t("offline.removeQueued")}
+                >
+                  ×
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
       <div
         className={`rounded-[1.45rem] border px-3 pb-3 pt-3 transition-all duration-300 md:rounded-[1.65rem] md:px-4 ${isHero
           ? isDark
@@ -913,14 +1343,14 @@ export default function Home() {
             <div
               className={`relative inline-flex h-8 items-center rounded-full border px-1 transition-colors duration-200 ${isDark ? "border-[var(--ji-border)] bg-[var(--ji-surface)] hover:border-[var(--ji-border-strong)]" : "border-slate-200 bg-slate-50/60 hover:border-slate-300"
                 }`}
-              aria-label="Response language"
+              aria-label={t("composer.responseLanguage")}
             >
               <select
                 value={language}
                 onChange={(e) => setLanguage(e.target.value)}
-                className={`h-full w-auto appearance-none bg-transparent pl-2.5 pr-7 text-[11px] font-medium tracking-wide outline-none ${isDark ? "text-stone-300" : "text-slate-600"
+                className={`h-full w-auto appearance-none bg-transparent ps-2.5 pe-7 text-[11px] font-medium tracking-wide outline-none ${isDark ? "text-stone-300" : "text-slate-600"
                   }`}
-                aria-label="Select language"
+                aria-label={t("composer.selectLanguage")}
               >
                 {languageOptions.map((lang) => (
                   <option key={lang.value} value={lang.value}>
@@ -933,12 +1363,22 @@ export default function Home() {
                 fill="none"
                 stroke="currentColor"
                 strokeWidth="1.8"
-                className={`pointer-events-none absolute right-2 h-3 w-3 ${isDark ? "text-stone-500" : "text-slate-400"}`}
+                className={`pointer-events-none absolute end-2 h-3 w-3 ${isDark ? "text-stone-500" : "text-slate-400"}`}
                 aria-hidden="true"
               >
                 <path d="M5 7.5 10 12.5 15 7.5" />
               </svg>
             </div>
+            <button
+              type="button"
+              onClick={() => setShowProfilePanel(true)}
+              className={`inline-flex h-8 max-w-[220px] shrink-0 items-center gap-1.5 rounded-full border px-3 text-[11px] font-medium tracking-wide transition-colors duration-200 ${isDark ? "border-[var(--ji-border)] bg-[var(--ji-surface)] text-stone-300 hover:border-[var(--ji-border-strong)]" : "border-slate-200 bg-slate-50/60 text-slate-600 hover:border-slate-300"}`}
+              aria-label={t("composer.editProfile")}
+            >
+              <UserIcon className="h-3.5 w-3.5 shrink-0" />
+              <span className="truncate">{summarizeProfile(profile) || t("composer.addProfile")}</span>
+              {profileAutoFilled && <span className="h-1.5 w-1.5 shrink-0 rounded-full bg-[var(--ji-brand)]" />}
+            </button>
           </div>
           <div
             className={`inline-flex items-center gap-1 rounded-full border p-0.5 transition-colors duration-200 ${isDark ? "border-[var(--ji-border)] bg-[var(--ji-surface-muted)]" : "border-slate-200 bg-slate-50/80"
@@ -950,28 +1390,55 @@ export default function Home() {
               isDark={isDark}
               embedded
               onError={(message) => {
-                setVoiceErrorToast(message);
-                window.setTimeout(() => setVoiceErrorToast(null), 3000);
+                voiceBaseInputRef.current = null;
+                showErrorToast(message);
+              }}
+              onInterimTranscription={(text) => {
+                const normalized = text.trim();
+                if (!normalized) return;
+                if (voiceBaseInputRef.current === null) voiceBaseInputRef.current = input;
+                const base = voiceBaseInputRef.current;
+                setInput(appendTranscript(base, normalized));
               }}
               onTranscription={(text) => {
+                const base = voiceBaseInputRef.current;
+                voiceBaseInputRef.current = null;
                 const normalized = text.trim();
                 if (!normalized) return;
-                setInput((prev) => (prev.trim().length ? `${prev.trimEnd()} ${normalized}` : normalized));
+                setInput((prev) => appendTranscript(base ?? prev, normalized));
               }}
             />
+            {(!authEnabled || session) && (
+              <button
+                type="button"
+                onClick={() => setVoiceConversation(true)}
+                disabled={loading || voiceConversation}
+                aria-label={t("voiceMode.start")}
+                title={t("voiceMode.start")}
+                className={`inline-flex h-9 w-9 items-center justify-center rounded-full transition-colors duration-200 disabled:opacity-50 ${isDark ? "text-stone-200 hover:bg-white/[0.08]" : "text-slate-700 hover:bg-black/[0.04]"}`}
+              >
+                <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.8" className="h-4 w-4">
+                  <path d="M4 10v4M8 7v10M12 4v16M16 7v10M20 10v4" />
+                </svg>
+              </button>
+            )}
             {(loading || input.trim().length > 0) && (
               <>
                 <span className={`h-5 w-px ${isDark ? "bg-[var(--ji-border)]" : "bg-slate-200"}`} />
                 <button
-                  onClick={() => void sendMessage()}
-                  disabled={loading || input.trim().length === 0}
+                  onClick={() => (loading ? stopGenerating() : void sendMessage())}
+                  disabled={!loading && input.trim().length === 0}
+                  aria-label={loading ? t("composer.stop") : t("composer.send")}
                   className={`inline-flex h-8 w-8 shrink-0 items-center justify-center rounded-full text-white transition-all duration-200 ${input.trim().length === 0 || loading
                     ? "bg-transparent text-[var(--ji-brand)] shadow-none"
                     : "bg-[var(--ji-brand)] shadow-sm hover:bg-[var(--ji-brand-strong)] hover:scale-[1.04]"
                     } cursor-pointer disabled:cursor-not-allowed disabled:opacity-90`}
                 >
                   {loading ? (
-                    <span className="inline-block h-3.5 w-3.5 animate-spin rounded-full border-2 border-current border-r-transparent" />
+                    <span className="relative inline-flex h-4 w-4 items-center justify-center">
+                      <span className="absolute inset-0 animate-spin rounded-full border-2 border-current border-r-transparent" />
+                      <span className="h-1.5 w-1.5 rounded-[1px] bg-current" />
+                    </span>
                   ) : (
                     <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.2" className="h-4 w-4"><path d="M12 19V5M5 12l7-7 7 7" /></svg>
                   )}
@@ -987,32 +1454,61 @@ export default function Home() {
   if (!authReady) {
     return (
       <main className={`theme-${theme} relative flex h-screen items-center justify-center bg-[var(--background)] text-[var(--foreground)]`}>
-        <FlowerSpinner className="h-12 w-12 text-[var(--ji-brand)]" />
+        <FlowerSpinner className="h-12 w-12 text-[var(--ji-brand)]" animated={!liteMode} />
       </main>
     );
   }
 
   return (
-    <main className={`theme-${theme} relative h-screen overflow-hidden bg-[var(--background)] text-[var(--foreground)]`}>
-      <div className="flex h-full">
+    <main className={`theme-${theme} ${liteMode ? "lite-mode" : ""} relative h-screen overflow-hidden bg-[var(--background)] text-[var(--foreground)] print:h-auto print:overflow-visible print:bg-white`}>
+      <div className="flex h-full print:hidden">
         <section className="flex min-w-0 flex-1 flex-col">
           <header className={`relative z-30 flex h-[56px] items-center justify-between px-4 md:h-[60px] md:px-8 ${isDark ? "bg-[var(--background)]" : "bg-[var(--background)]"}`}>
             <div className="flex items-center gap-3">
               <JanInfraBadge className="h-7 w-7 md:h-8 md:w-8" style={{ color: brandColor }} />
               <span className={`text-[16px] font-semibold tracking-[-0.03em] md:text-[17px] ${isDark ? "text-stone-100" : "text-slate-900"}`}>JanInfra</span>
             </div>
-            <div className="ml-auto flex items-center gap-1.5 md:gap-2">
+            <div className="ms-auto flex items-center gap-1.5 md:gap-2">
+              <span
+                role="status"
+                className={`inline-flex h-7 items-center gap-1.5 rounded-full px-2.5 text-[11px] font-medium ${isOnline
+                  ? isDark ? "text-stone-500" : "text-slate-400"
+                  : isDark ? "bg-[var(--ji-danger-surface)] text-[var(--ji-danger-text)]" : "bg-amber-50 text-amber-700"
+                  }`}
+                title={isOnline ? t("offline.online") : t("offline.offlineHint")}
+              >
+                <span className={`h-1.5 w-1.5 rounded-full ${isOnline ? "bg-emerald-500" : "bg-amber-500"}`} />
+                <span className={isOnline ? "sr-only" : ""}>{isOnline ? t("offline.online") : t("offline.offline")}</span>
+              </span>
+              {bookmarkStore && (
+                <button
+                  onClick={() => setShowSavedSchemes(true)}
+                  className={`inline-flex h-9 w-9 items-center justify-center rounded-lg transition-colors duration-200 ${isDark ? "text-stone-300 hover:text-stone-100 hover:bg-white/[0.08]" : "text-slate-600 hover:text-slate-900 hover:bg-black/[0.04]"}`}
+                  aria-label={t("bookmark.title")}
+                >
+                  <BookmarkIcon className="h-[18px] w-[18px]" />
+                </button>
+              )}
+              {conversationStore && (
+                <button
+                  onClick={() => setShowHistory(true)}
+                  className={`inline-flex h-9 w-9 items-center justify-center rounded-lg transition-colors duration-200 ${isDark ? "text-stone-300 hover:text-stone-100 hover:bg-white/[0.08]" : "text-slate-600 hover:text-slate-900 hover:bg-black/[0.04]"}`}
+                  aria-label={t("header.openHistory")}
+                >
+                  <HistoryIcon className="h-[18px] w-[18px]" />
+                </button>
+              )}
               <button
                 onClick={resetConversation}
                 className={`inline-flex h-9 items-center gap-1.5 rounded-lg px-2.5 text-xs font-medium transition-colors duration-200 md:px-3 md:text-[13px] ${isDark ? "text-stone-300 hover:text-stone-100 hover:bg-white/[0.08]" : "text-slate-600 hover:text-slate-900 hover:bg-black/[0.04]"}`}
               >
                 <PlusIcon className="h-4 w-4" />
-                <span className="hidden sm:inline">New search</span>
+                <span className="hidden sm:inline">{t("header.newSearch")}</span>
               </button>
               <button
                 onClick={() => setTheme((p) => (p === "dark" ? "light" : "dark"))}
                 className={`inline-flex h-9 w-9 items-center justify-center rounded-lg transition-colors duration-200 ${isDark ? "text-stone-300 hover:text-stone-100 hover:bg-white/[0.08]" : "text-slate-600 hover:text-slate-900 hover:bg-black/[0.04]"}`}
-                aria-label={isDark ? "Switch to light mode" : "Switch to dark mode"}
+                aria-label={isDark ? t("header.lightMode") : t("header.darkMode")}
               >
                 {isDark ? <SunIcon className="h-[18px] w-[18px]" /> : <MoonIcon className="h-[18px] w-[18px]" />}
               </button>
@@ -1020,7 +1516,7 @@ export default function Home() {
                 <button
                   onClick={() => setShowSettingsMenu((p) => !p)}
                   className={`inline-flex h-9 w-9 items-center justify-center rounded-lg transition-colors duration-200 ${isDark ? "text-stone-300 hover:text-stone-100 hover:bg-white/[0.08]" : "text-slate-600 hover:text-slate-900 hover:bg-black/[0.04]"}`}
-                  aria-label="Open account menu"
+                  aria-label={t("header.openAccountMenu")}
                 >
                   <UserIcon className="h-[18px] w-[18px]" />
                 </button>
@@ -1029,9 +1525,9 @@ export default function Home() {
                     <button
                       onClick={() => setShowSettingsMenu(false)}
                       className="fixed inset-0 z-40"
-                      aria-label="Close account menu"
+                      aria-label={t("header.closeAccountMenu")}
                     />
-                    <div className={`fixed left-3 right-3 top-[68px] z-50 rounded-2xl border p-2.5 shadow-xl md:absolute md:left-auto md:right-0 md:top-full md:mt-2 md:w-60 ${isDark ? "border-[var(--ji-border)] bg-[var(--ji-surface)]" : "border-slate-200 bg-white"}`}>
+                    <div className={`fixed left-3 right-3 top-[68px] z-50 rounded-2xl border p-2.5 shadow-xl md:absolute md:start-auto md:end-0 md:top-full md:mt-2 md:w-60 ${isDark ? "border-[var(--ji-border)] bg-[var(--ji-surface)]" : "border-slate-200 bg-white"}`}>
                       {session && userLabel && (
                         <div className={`mb-2 px-2 pb-2 ${isDark ? "border-b border-[var(--ji-border)]" : "border-b border-slate-100"}`}>
                           <p className={`text-sm font-medium ${isDark ? "text-stone-200" : "text-slate-800"}`}>{userLabel}</p>
@@ -1039,7 +1535,7 @@ export default function Home() {
                         </div>
                       )}
                       <div className={`mb-1 mt-1 ${isDark ? "" : ""}`}>
-                        <p className={`mb-1.5 px-2 text-[11px] font-medium uppercase tracking-[0.1em] ${isDark ? "text-stone-500" : "text-slate-400"}`}>Language</p>
+                        <p className={`mb-1.5 px-2 text-[11px] font-medium uppercase tracking-[0.1em] ${isDark ? "text-stone-500" : "text-slate-400"}`}>{t("menu.language")}</p>
                         <div
                           className={`relative inline-flex h-9 w-full items-center rounded-lg border ${isDark ? "border-[var(--ji-border)] bg-[var(--ji-surface)]" : "border-slate-200 bg-slate-50"
                             }`}
@@ -1047,9 +1543,9 @@ export default function Home() {
                           <select
                             value={language}
                             onChange={(e) => setLanguage(e.target.value)}
-                            className={`h-full w-full appearance-none bg-transparent pl-3 pr-9 text-sm outline-none ${isDark ? "text-stone-200" : "text-slate-700"
+                            className={`h-full w-full appearance-none bg-transparent ps-3 pe-9 text-sm outline-none ${isDark ? "text-stone-200" : "text-slate-700"
                               }`}
-                            aria-label="Select language"
+                            aria-label={t("composer.selectLanguage")}
                           >
                             {languageOptions.map((lang) => (
                               <option key={`menu-${lang.value}`} value={lang.value}>
@@ -1062,22 +1558,47 @@ export default function Home() {
                             fill="none"
                             stroke="currentColor"
                             strokeWidth="1.8"
-                            className={`pointer-events-none absolute right-3 h-3.5 w-3.5 ${isDark ? "text-stone-400" : "text-slate-400"}`}
+                            className={`pointer-events-none absolute end-3 h-3.5 w-3.5 ${isDark ? "text-stone-400" : "text-slate-400"}`}
                             aria-hidden="true"
                           >
                             <path d="M5 7.5 10 12.5 15 7.5" />
                           </svg>
                         </div>
                       </div>
+                      <div className="mb-1 mt-3">
+                        <p className={`mb-1.5 px-2 text-[11px] font-medium uppercase tracking-[0.1em] ${isDark ? "text-stone-500" : "text-slate-400"}`}>{t("lite.title")}</p>
+                        <div role="radiogroup" aria-label={t("lite.title")} className={`grid grid-cols-3 gap-1 rounded-lg border p-0.5 ${isDark ? "border-[var(--ji-border)] bg-[var(--ji-surface)]" : "border-slate-200 bg-slate-50"}`}>
+                          {litePreferences.map((value) => (
+                            <button
+                              key={value}
+                              role="radio"
+                              aria-checked={litePreference === value}
+                              onClick={() => {
+                                writeLitePreference(value);
+                                setLitePreference(value);
+                              }}
+                              className={`h-8 rounded-md text-xs font-medium ${litePreference === value
+                                ? "bg-[var(--ji-brand-soft)] text-[var(--ji-brand-strong)]"
+                                : isDark ? "text-stone-400 hover:text-stone-200" : "text-slate-500 hover:text-slate-800"
+                                }`}
+                            >
+                              {t(`lite.${value}`)}
+                            </button>
+                          ))}
+                        </div>
+                        <p className={`mt-1.5 px-2 text-[11px] leading-4 ${isDark ? "text-stone-500" : "text-slate-400"}`}>
+                          {litePreference === "auto" && slowConnection ? t("lite.autoActive") : t("lite.hint")}
+                        </p>
+                      </div>
                       {authEnabled && session && (
                         <button
                           onClick={() => {
                             handleSignOut();
                             setShowSettingsMenu(false);
                           }}
-                          className={`mt-1 w-full rounded-lg px-2 py-2 text-left text-sm transition-colors duration-150 ${isDark ? "text-stone-300 hover:bg-[var(--ji-surface-muted)]" : "text-slate-700 hover:bg-black/[0.04]"}`}
+                          className={`mt-1 w-full rounded-lg px-2 py-2 text-start text-sm transition-colors duration-150 ${isDark ? "text-stone-300 hover:bg-[var(--ji-surface-muted)]" : "text-slate-700 hover:bg-black/[0.04]"}`}
                         >
-                          Sign out
+                          {t("menu.signOut")}
                         </button>
                       )}
                       {authEnabled && !session && (
@@ -1088,9 +1609,9 @@ export default function Home() {
                             setShowAuthModal(true);
                             setShowSettingsMenu(false);
                           }}
-                          className={`mt-1 w-full rounded-lg px-2 py-2 text-left text-sm transition-colors duration-150 ${isDark ? "text-stone-300 hover:bg-[var(--ji-surface-muted)]" : "text-slate-700 hover:bg-black/[0.04]"}`}
+                          className={`mt-1 w-full rounded-lg px-2 py-2 text-start text-sm transition-colors duration-150 ${isDark ? "text-stone-300 hover:bg-[var(--ji-surface-muted)]" : "text-slate-700 hover:bg-black/[0.04]"}`}
                         >
-                          Sign in
+                          {t("menu.signIn")}
                         </button>
                       )}
                     </div>
@@ -1104,7 +1625,7 @@ export default function Home() {
             <div className="flex flex-1 flex-col items-center justify-center px-5 pb-16 md:px-8">
               <div className="mb-8 flex flex-col items-center text-center md:mb-10">
                 <div className="mb-6 mt-2 flex items-center justify-center">
-                  <FlowerSpinner className="h-16 w-16 md:h-20 md:w-20 animate-[spin_45s_linear_infinite] text-[var(--ji-brand)] opacity-80" />
+                  <FlowerSpinner className={`h-16 w-16 md:h-20 md:w-20 text-[var(--ji-brand)] opacity-80 ${liteMode ? "" : "animate-[spin_45s_linear_infinite]"}`} animated={!liteMode} />
                 </div>
                 <h1 className={`text-[28px] font-semibold leading-[1.15] tracking-[-0.02em] md:text-[40px] ${isDark ? "text-stone-100" : "text-slate-800"}`}>
                   {heroCopy.headline}
@@ -1122,39 +1643,109 @@ export default function Home() {
                 className="flex-1 overflow-y-auto px-4 pb-64 pt-6 md:px-8 md:pb-72"
               >
                 <div className="mx-auto w-full max-w-4xl space-y-8 md:space-y-10">
-                  {messages.map((message) => {
+                  {messages.map((stored, messageIndex) => {
+                    const message = viewAnswerVersion(stored, versionViews[stored.id]);
                     if (message.role === "user") {
+                      const isEditing = editingMessageId === message.id;
                       return (
-                        <article key={message.id} id={message.id}>
-                          <div className={`ml-auto max-w-[94%] rounded-[1.25rem] border px-3 py-3 transition-all duration-200 md:max-w-[76%] md:rounded-[1.35rem] md:px-4 ${isDark ? "border-[var(--ji-border)] bg-[var(--ji-surface-muted)] text-stone-100" : "border-[#e7dcc4] bg-[#f0e7d4] text-slate-900"}`}>
-                            <p className="whitespace-pre-wrap leading-7">{message.content}</p>
+                        <article key={message.id} id={message.id} className="group/user">
+                          <div className={`ms-auto max-w-[94%] rounded-[1.25rem] border px-3 py-3 transition-all duration-200 md:max-w-[76%] md:rounded-[1.35rem] md:px-4 ${isEditing ? "w-full" : ""} ${isDark ? "border-[var(--ji-border)] bg-[var(--ji-surface-muted)] text-stone-100" : "border-[#e7dcc4] bg-[#f0e7d4] text-slate-900"}`}>
+                            {isEditing ? (
+                              <>
+                                <textarea
+                                  value={editDraft}
+                                  onChange={(e) => setEditDraft(e.target.value)}
+                                  onKeyDown={(e) => {
+                                    if (e.key === "Enter" && !e.shiftKey) {
+                                      e.preventDefault();
+                                      resendEdited(message.id);
+                                    }
+                                    if (e.key === "Escape") setEditingMessageId(null);
+                                  }}
+                                  rows={3}
+                                  autoFocus
+                                  className="w-full resize-none bg-transparent leading-7 outline-none"
+                                />
+                                <div className="mt-2 flex justify-end gap-2">
+                                  <button onClick={() => setEditingMessageId(null)} className={`h-8 rounded-lg px-3 text-xs ${isDark ? "hover:bg-white/[0.06]" : "hover:bg-black/[0.05]"}`}>
+                                    {t("message.cancelEdit")}
+                                  </button>
+                                  <button
+                                    onClick={() => resendEdited(message.id)}
+                                    disabled={loading || !editDraft.trim()}
+                                    className="h-8 rounded-lg bg-[var(--ji-brand)] px-3 text-xs font-medium text-white transition-colors duration-200 hover:bg-[var(--ji-brand-strong)] disabled:opacity-50"
+                                  >
+                                    {t("message.resend")}
+                                  </button>
+                                </div>
+                              </>
+                            ) : (
+                              <p className="whitespace-pre-wrap leading-7">{message.content}</p>
+                            )}
                           </div>
+                          {!isEditing && !loading && (
+                            <div className="mt-1 flex justify-end opacity-100 transition-opacity duration-200 md:opacity-0 md:group-hover/user:opacity-100 md:focus-within:opacity-100">
+                              <button
+                                onClick={() => {
+                                  setEditingMessageId(message.id);
+                                  setEditDraft(message.content);
+                                }}
+                                className={`inline-flex items-center gap-1 rounded-md px-2 py-1 text-[11px] ${isDark ? "text-stone-400 hover:bg-white/[0.06]" : "text-slate-500 hover:bg-black/[0.04]"}`}
+                              >
+                                <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.8" className="h-3 w-3" aria-hidden="true"><path d="M4 20h4L19 9l-4-4L4 16zM14 6l4 4" /></svg>
+                                {t("message.edit")}
+                              </button>
+                            </div>
+                          )}
                         </article>
                       );
                     }
 
-                    const isTypingThis = typingMessageId === message.id;
-                    const displayContent = isTypingThis ? typedAssistant[message.id] || "" : message.content;
+                    const isStreamingThis = streamingMessageId === message.id;
+                    const isTypingThis = typingMessageId === message.id || isStreamingThis;
+                    const displayContent = typingMessageId === message.id ? typedAssistant[message.id] || "" : message.content;
 
-                    const sections = extractSections(message.content);
+                    const citedContent = renderCitations(displayContent, message.sources || [], message.citations);
+                    const sections = extractSections(citedContent);
                     const sectionMap = new Map<TabKey, Section>();
                     for (const s of sections) if (s.key !== "other" && !sectionMap.has(s.key)) sectionMap.set(s.key, s);
                     const tabOrder = ["summary", "eligibility", "documents", "apply"] as const;
                     const tabs: TabKey[] = tabOrder.filter((k): k is TabKey => sectionMap.has(k));
                     const showTabs = !isTypingThis && tabs.length >= 2 && message.content.length > 420;
                     const activeTab = activeTabs[message.id] || tabs[0];
-                    const baseMarkdown = showTabs && activeTab ? sectionMap.get(activeTab)?.content || message.content : displayContent;
-                    const markdown = injectCitations(baseMarkdown, message.sources?.length || 0);
-                    const uncertain = (message.sources?.length || 0) === 0;
+                    const markdown = showTabs && activeTab ? sectionMap.get(activeTab)?.content || citedContent : citedContent;
+                    const evidence = isTypingThis || message.error ? null : assessEvidence(citedContent, message.sources || []);
+                    const unsourced = evidence?.level === "unsourced";
+                    const documentItems = documentsByMessage.get(message.id) || [];
+                    const showChecklist = showTabs && activeTab === "documents" && documentItems.length > 0;
+                    const applyContent = showTabs && activeTab === "apply" ? extractSections(message.content).find((s) => s.key === "apply")?.content || "" : "";
+                    const speechText = showTabs && activeTab ? extractSections(message.content).find((s) => s.key === activeTab)?.content || message.content : message.content;
+                    const canTrack = Boolean(trackerStore) && parseApplySteps(applyContent).length > 0;
+                    const tracker = canTrack ? trackers.find((tr) => tr.id === trackerId(chatSessionId, message.id)) : undefined;
+                    const versionCount = answerVersionCount(stored);
+                    const versionIndex = Math.min(versionViews[stored.id] ?? versionCount - 1, versionCount - 1);
+                    const isBookmarked = bookmarks.some((bookmark) => bookmark.id === bookmarkId(chatSessionId, message.id));
 
                     return (
                       <article key={message.id} id={message.id} className="transition-all duration-300 ease-out">
                         <div className="mb-2 flex items-center gap-2">
                           <JanInfraBadge className={`h-5 w-5 ${isDark ? "text-[var(--ji-brand)]" : "text-[var(--ji-brand)]"}`} />
                           <p className={`text-[13px] font-medium leading-[1] ${isDark ? "text-stone-300" : "text-slate-700"}`}>JanInfra</p>
+                          {evidence && <EvidenceBadge evidence={evidence} language={language} isDark={isDark} />}
                         </div>
 
-                        {uncertain && null}
+                        {unsourced && (
+                          <div className={`mb-3 rounded-xl border px-3 py-2.5 text-xs leading-5 ${isDark ? "border-rose-400/20 bg-rose-400/[0.06] text-rose-200" : "border-rose-200 bg-rose-50 text-rose-800"}`}>
+                            <p>{t("evidence.unsourcedNotice")}</p>
+                            <button
+                              onClick={() => void submitQuestion(t("evidence.findSourceQuestion", { question: questionFor(message) }))}
+                              disabled={loading}
+                              className="mt-2 inline-flex h-8 items-center rounded-lg bg-[var(--ji-brand)] px-3 text-xs font-medium text-white transition-colors duration-200 hover:bg-[var(--ji-brand-strong)] disabled:opacity-50"
+                            >
+                              {t("evidence.findSource")}
+                            </button>
+                          </div>
+                        )}
 
                         {showTabs && (
                           <div className="mb-3 flex flex-wrap gap-2">
@@ -1167,23 +1758,125 @@ export default function Home() {
                                   : isDark ? "border-[var(--ji-border)] text-stone-300" : "border-slate-200 text-slate-600"
                                   }`}
                               >
-                                {cap(tab)}
+                                {t(`answer.tab.${tab}`)}
                               </button>
                             ))}
                           </div>
                         )}
 
-                        <div className={`prose max-w-none ${isDark ? "prose-invert" : ""}`}>
-                          <ReactMarkdown remarkPlugins={[remarkGfm]} components={markdownComponents(isDark)}>
-                            {markdown}
-                          </ReactMarkdown>
-                        </div>
+                        {showChecklist ? (
+                          <DocumentsChecklist
+                            items={documentItems}
+                            state={documentChecks}
+                            usage={documentUsage}
+                            language={language}
+                            isDark={isDark}
+                            onToggle={toggleDocument}
+                          />
+                        ) : tracker ? (
+                          <ApplicationTracker
+                            tracker={tracker}
+                            language={language}
+                            isDark={isDark}
+                            onChange={saveTracker}
+                            onRemove={() => removeTracker(tracker.id)}
+                          />
+                        ) : (
+                          <div className={`prose max-w-none ${isDark ? "prose-invert" : ""} ${unsourced ? `border-s-2 ps-3 ${isDark ? "border-rose-400/30" : "border-rose-200"}` : ""}`}>
+                            <ReactMarkdown remarkPlugins={[remarkGfm]} components={markdownComponents(isDark, message.sources)}>
+                              {markdown}
+                            </ReactMarkdown>
+                          </div>
+                        )}
+
+                        {canTrack && !tracker && (
+                          <button
+                            onClick={() => startTracking(message, applyContent)}
+                            className="mt-2 inline-flex h-9 items-center rounded-xl bg-[var(--ji-brand)] px-4 text-sm font-medium text-white transition-colors duration-200 hover:bg-[var(--ji-brand-strong)]"
+                          >
+                            {t("tracker.start")}
+                          </button>
+                        )}
 
                         {!isTypingThis && (
                           <div className="mt-4 flex flex-wrap items-center gap-2 opacity-75 transition-opacity duration-200 hover:opacity-100">
-                            <button onClick={() => void handleShare(message)} aria-label={sharedMessageId === message.id ? "Shared" : "Share response"} className={`inline-flex items-center rounded-md border p-2 text-xs transition-all duration-200 ${isDark ? "border-[var(--ji-border)] bg-[var(--ji-surface)] text-stone-300 hover:border-[var(--ji-border-strong)]" : "border-slate-200 bg-slate-50 text-slate-600 hover:border-slate-300"}`}>
+                            {bookmarkStore && (
+                              <button
+                                onClick={() => toggleBookmark(message)}
+                                aria-pressed={isBookmarked}
+                                aria-label={isBookmarked ? t("bookmark.remove") : t("bookmark.save")}
+                                className={`inline-flex items-center rounded-md border p-2 text-xs transition-all duration-200 ${isDark ? "border-[var(--ji-border)] bg-[var(--ji-surface)] text-stone-300 hover:border-[var(--ji-border-strong)]" : "border-slate-200 bg-slate-50 text-slate-600 hover:border-slate-300"}`}
+                              >
+                                <BookmarkIcon className="h-3.5 w-3.5" filled={isBookmarked} />
+                              </button>
+                            )}
+                            <button onClick={() => void handleShare(message)} disabled={creatingLinkId === message.id} aria-label={session ? (sharedMessageId === message.id ? t("answer.linkCopied") : t("answer.createLink")) : sharedMessageId === message.id ? t("answer.shared") : t("answer.share")} className={`inline-flex items-center rounded-md border p-2 text-xs transition-all duration-200 disabled:opacity-50 ${isDark ? "border-[var(--ji-border)] bg-[var(--ji-surface)] text-stone-300 hover:border-[var(--ji-border-strong)]" : "border-slate-200 bg-slate-50 text-slate-600 hover:border-slate-300"}`}>
                               <ShareIcon className="h-3.5 w-3.5" />
                             </button>
+                            {isComparable(message) && (
+                              <button
+                                onClick={() => toggleCompare(message)}
+                                aria-pressed={compareIds.some((id) => id.startsWith(`${message.id}:`))}
+                                aria-label={t("compare.add")}
+                                title={t("compare.add")}
+                                className={`inline-flex items-center rounded-md border p-2 text-xs transition-all duration-200 ${compareIds.some((id) => id.startsWith(`${message.id}:`))
+                                  ? "border-[var(--ji-brand)] bg-[var(--ji-brand-soft)] text-[var(--ji-brand-strong)]"
+                                  : isDark ? "border-[var(--ji-border)] bg-[var(--ji-surface)] text-stone-300 hover:border-[var(--ji-border-strong)]" : "border-slate-200 bg-slate-50 text-slate-600 hover:border-slate-300"
+                                  }`}
+                              >
+                                <CompareIcon className="h-3.5 w-3.5" />
+                              </button>
+                            )}
+                            <CopyAnswerMenu message={message} language={language} isDark={isDark} />
+                            {!message.error && (
+                              <ReadAloud
+                                key={`${message.id}-${versionIndex}-${activeTab || "all"}`}
+                                text={speechText}
+                                speechLanguage={message.language || language}
+                                language={language}
+                                isDark={isDark}
+                              />
+                            )}
+                            {messageIndex === messages.length - 1 && !loading && (
+                              <button
+                                onClick={() => regenerateAnswer(stored)}
+                                aria-label={t("message.regenerate")}
+                                title={t("message.regenerate")}
+                                className={`inline-flex items-center rounded-md border p-2 text-xs transition-all duration-200 ${isDark ? "border-[var(--ji-border)] bg-[var(--ji-surface)] text-stone-300 hover:border-[var(--ji-border-strong)]" : "border-slate-200 bg-slate-50 text-slate-600 hover:border-slate-300"}`}
+                              >
+                                <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.8" className="h-3.5 w-3.5"><path d="M20 11a8 8 0 1 0-2.3 5.7M20 4v7h-7" /></svg>
+                              </button>
+                            )}
+                            {versionCount > 1 && (
+                              <div className={`inline-flex items-center text-[11px] ${isDark ? "text-stone-400" : "text-slate-500"}`}>
+                                <button
+                                  onClick={() => setVersionViews((prev) => ({ ...prev, [message.id]: versionIndex - 1 }))}
+                                  disabled={versionIndex === 0}
+                                  aria-label={t("message.previousVersion")}
+                                  className="px-1.5 py-1 disabled:opacity-40"
+                                >
+                                  ‹
+                                </button>
+                                <span>{t("message.version", { current: versionIndex + 1, total: versionCount })}</span>
+                                <button
+                                  onClick={() => setVersionViews((prev) => ({ ...prev, [message.id]: versionIndex + 1 }))}
+                                  disabled={versionIndex === versionCount - 1}
+                                  aria-label={t("message.nextVersion")}
+                                  className="px-1.5 py-1 disabled:opacity-40"
+                                >
+                                  ›
+                                </button>
+                              </div>
+                            )}
+                            <FeedbackControl
+                              rating={feedbackRatings[message.id]}
+                              language={language}
+                              isDark={isDark}
+                              onSubmit={(rating, reason, comment) => sendFeedback(message, rating, reason, comment)}
+                            />
+                            <button onClick={() => setPrintMessageId(message.id)} aria-label={t("answer.print")} className={`inline-flex items-center rounded-md border p-2 text-xs transition-all duration-200 ${isDark ? "border-[var(--ji-border)] bg-[var(--ji-surface)] text-stone-300 hover:border-[var(--ji-border-strong)]" : "border-slate-200 bg-slate-50 text-slate-600 hover:border-slate-300"}`}>
+                              <PrintIcon className="h-3.5 w-3.5" />
+                            </button>
                           </div>
                         )}
 
@@ -1191,38 +1884,28 @@ export default function Home() {
                           <div className={`mt-5 pt-4 border-t ${isDark ? "border-white/[0.06]" : "border-black/[0.04]"}`}>
                             <div className="mb-3 flex items-center gap-2">
                               <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" className={`h-4 w-4 ${isDark ? "text-[var(--ji-brand-muted)]" : "text-[var(--ji-brand-strong)]"}`} aria-hidden="true"><path d="M13.25 15.25L17.25 11.25M17.25 11.25L13.25 7.25M17.25 11.25H6.75M12 21C16.9706 21 21 16.9706 21 12C21 7.02944 16.9706 3 12 3C7.02944 3 3 7.02944 3 12C3 16.9706 7.02944 21 12 21Z" /></svg>
-                              <p className={`text-xs font-semibold uppercase tracking-[0.08em] ${isDark ? "text-stone-400" : "text-slate-500"}`}>Sources & Evidence</p>
-                            </div>
-                            <div className="grid gap-2 sm:grid-cols-2">
-                              {message.sources.map((source, idx) => {
-                                const host = extractHostname(source.url);
-                                const type = classifySourceType(source);
-                                return (
-                                  <a
-                                    key={`${source.url}-${idx}`}
-                                    id={`src-${idx + 1}`}
-                                    href={source.url}
-                                    target="_blank"
-                                    rel="noreferrer"
-                                    className={`group rounded-xl border p-3 transition-colors duration-200 ${isDark ? "border-[var(--ji-border)] bg-[var(--ji-surface)] hover:bg-white/[0.04]" : "border-slate-200 bg-white hover:bg-black/[0.02]"}`}
-                                  >
-                                    <p className={`line-clamp-1 text-xs font-semibold transition-colors duration-200 ${isDark ? "text-stone-200 group-hover:text-sky-300" : "text-slate-800 group-hover:text-blue-700"}`}>[{idx + 1}] {source.title}</p>
-                                    <p className={`mt-0.5 text-[11px] ${isDark ? "text-stone-400" : "text-slate-500"}`}>{host} · {type}</p>
-                                    {source.snippet && <p className={`mt-1.5 line-clamp-2 text-xs leading-5 ${isDark ? "text-stone-400" : "text-slate-600"}`}>{source.snippet}</p>}
-                                  </a>
-                                );
-                              })}
+                              <p className={`text-xs font-semibold uppercase tracking-[0.08em] ${isDark ? "text-stone-400" : "text-slate-500"}`}>{t("answer.sources")}</p>
                             </div>
+                            {liteMode && !shownSourceIds.includes(message.id) ? (
+                              <button
+                                onClick={() => setShownSourceIds((prev) => [...prev, message.id])}
+                                className={`rounded-lg border px-3 py-1.5 text-xs font-medium ${isDark ? "border-[var(--ji-border)] text-stone-300 hover:border-[var(--ji-border-strong)]" : "border-slate-200 text-slate-600 hover:border-slate-300"}`}
+                              >
+                                {t("lite.showSources", { count: message.sources.length })}
+                              </button>
+                            ) : (
+                              <SourceCards sources={message.sources} language={language} isDark={isDark} onOpenPdf={setPdfSource} />
+                            )}
                           </div>
                         )}
                       </article>
                     );
                   })}
 
-                  {loading && (
+                  {loading && !streamingMessageId && (
                     <div className={`w-full px-1 py-2 text-sm ${isDark ? "text-stone-300" : "text-slate-600"}`}>
                       <div className="inline-flex items-center">
-                        <FlowerSpinner className="h-10 w-10 text-[var(--ji-brand)]" />
+                        <FlowerSpinner className="h-10 w-10 text-[var(--ji-brand)]" animated={!liteMode} />
                       </div>
                     </div>
                   )}
@@ -1232,26 +1915,104 @@ export default function Home() {
               <div className="pointer-events-none absolute inset-x-0 bottom-0 z-20 px-3 pb-3 pt-10 md:px-8 md:pb-4 md:pt-16">
                 <div className={`pointer-events-none absolute inset-x-0 bottom-0 h-44 ${isDark ? "bg-gradient-to-t from-[var(--background)] via-[var(--background)] to-transparent" : "bg-gradient-to-t from-[var(--background)] via-[var(--background)]/90 to-transparent"}`} />
                 <div className="relative mx-auto w-full max-w-4xl pointer-events-auto">{renderComposer()}</div>
-                {hasUncertainEvidence && (
-                  <p
-                    className={`pointer-events-none mx-auto mt-2 w-full max-w-4xl px-2 text-center text-[10px] md:text-[11px] ${isDark ? "text-stone-500" : "text-stone-500"
-                      }`}
-                  >
-                    Some responses may include uncertain claims when source evidence is limited.
-                  </p>
-                )}
               </div>
             </div>
           )}
 
-          {voiceErrorToast && (
+          {compareIds.length > 0 && !showComparison && (
+            <div className="absolute bottom-44 left-1/2 z-30 -translate-x-1/2 md:bottom-40">
+              <div className={`flex items-center gap-1 rounded-full border py-1 pe-1 ps-3 text-xs shadow-lg ${isDark ? "border-[var(--ji-border)] bg-[var(--ji-surface-raised)] text-stone-200" : "border-slate-200 bg-white text-slate-700"}`}>
+                <span className="me-1">{t("compare.selected", { count: comparedSchemes.length })}</span>
+                <button
+                  onClick={() => setShowComparison(true)}
+                  disabled={comparedSchemes.length < 2}
+                  className="h-7 rounded-full bg-[var(--ji-brand)] px-3 font-medium text-white transition-colors duration-200 hover:bg-[var(--ji-brand-strong)] disabled:opacity-50"
+                >
+                  {t("compare.open")}
+                </button>
+                <button onClick={() => setCompareIds([])} className={`h-7 rounded-full px-2 ${isDark ? "hover:bg-white/[0.06]" : "hover:bg-black/[0.04]"}`}>
+                  {t("compare.clear")}
+                </button>
+              </div>
+            </div>
+          )}
+
+          {showComparison && comparedSchemes.length > 0 && (
+            <SchemeComparison
+              schemes={comparedSchemes}
+              language={language}
+              isDark={isDark}
+              onRemove={(scheme) => {
+                setCompareIds((prev) => prev.filter((id) => id !== scheme.id));
+                if (comparedSchemes.length <= 2) setShowComparison(false);
+              }}
+              onClose={() => setShowComparison(false)}
+            />
+          )}
+
+          {errorToast && (
             <div className="pointer-events-none absolute bottom-28 left-1/2 z-40 w-[calc(100%-1.5rem)] max-w-md -translate-x-1/2 md:bottom-24">
               <div className={`rounded-xl border px-3 py-2 text-xs shadow-lg ${isDark ? "border-[var(--ji-border)] bg-[var(--ji-surface-muted)] text-rose-200" : "border-rose-200 bg-rose-50 text-rose-700"}`}>
-                {voiceErrorToast}
+                {errorToast}
               </div>
             </div>
           )}
 
+          {showHistory && conversationStore && (
+            <HistoryDrawer
+              conversations={conversations}
+              trackers={trackers}
+              language={language}
+              activeId={chatSessionId}
+              loading={historyLoading}
+              error={historyError}
+              localOnly={!authEnabled}
+              isDark={isDark}
+              languageLabel={(value) => languageOptions.find((lang) => lang.value === value)?.label || value}
+              onSelect={(id) => void openConversation(id)}
+              onRename={(id, title) => void renameConversation(id, title)}
+              onDelete={(id) => void deleteConversation(id)}
+              onClose={() => setShowHistory(false)}
+            />
+          )}
+
+          {showSavedSchemes && (
+            <SavedSchemes
+              bookmarks={bookmarks}
+              language={language}
+              isDark={isDark}
+              onUpdate={saveBookmark}
+              onRemove={removeBookmark}
+              onOpenConversation={conversationStore ? (id) => {
+                setShowSavedSchemes(false);
+                void openConversation(id);
+              } : undefined}
+              onClose={() => setShowSavedSchemes(false)}
+            />
+          )}
+
+          {voiceConversation && (
+            <VoiceConversation language={language} isDark={isDark} onQuestion={submitQuestion} onClose={() => setVoiceConversation(false)} />
+          )}
+
+          {pdfSource && (
+            <PdfViewer key={pdfSource.url} source={pdfSource} language={language} isDark={isDark} onClose={() => setPdfSource(null)} />
+          )}
+
+          {showProfilePanel && (
+            <ProfilePanel
+              profile={profile}
+              language={language}
+              isDark={isDark}
+              autoFilled={profileAutoFilled}
+              onChange={updateProfile}
+              onClose={() => {
+                setShowProfilePanel(false);
+                setProfileAutoFilled(false);
+              }}
+            />
+          )}
+
           {authEnabled && showAuthModal && !session && (
             <div className="absolute inset-0 z-50 flex items-center justify-center px-4">
               <button
@@ -1260,14 +2021,14 @@ export default function Home() {
                   setShowAuthModal(false);
                 }}
                 className="absolute inset-0 bg-black/35 backdrop-blur-[5px]"
-                aria-label="Close sign in"
+                aria-label={t("auth.close")}
               />
               <div className="pointer-events-none absolute inset-0 bg-[radial-gradient(circle_at_center,transparent_20%,rgba(0,0,0,0.38)_100%)]" />
               <div className={`relative w-full max-w-md rounded-3xl border p-6 shadow-[0_16px_40px_rgba(15,23,42,0.16)] ${isDark ? "border-[var(--ji-border)] bg-[var(--ji-surface)]" : "border-slate-200 bg-white"}`}>
                 <p className={`text-xs font-semibold tracking-[0.16em] ${isDark ? "text-[var(--ji-brand-muted)]" : "text-[#C05020]"}`}>JANINFRA</p>
-                <h2 className="mt-2 text-2xl font-semibold">Sign in to continue</h2>
+                <h2 className="mt-2 text-2xl font-semibold">{t("auth.title")}</h2>
                 <p className={`mt-2 text-sm ${isDark ? "text-stone-300" : "text-slate-600"}`}>
-                  {pendingMessage ? "Complete login and your message will be sent automatically." : "Continue to use the scheme assistant."}
+                  {pendingMessage ? t("auth.pendingBody") : t("auth.body")}
                 </p>
 
                 <button
@@ -1281,7 +2042,7 @@ export default function Home() {
                   <svg viewBox="0 0 24 24" className="h-4 w-4" aria-hidden="true">
                     <path fill="#EA4335" d="M12 10.2v3.9h5.4c-.2 1.3-1.5 3.9-5.4 3.9-3.2 0-5.9-2.6-5.9-5.9s2.7-5.9 5.9-5.9c1.8 0 3 .8 3.7 1.4l2.5-2.4C16.7 3.8 14.6 3 12 3 7 3 3 7 3 12s4 9 9 9c5.2 0 8.6-3.6 8.6-8.7 0-.6-.1-1.1-.2-1.5H12z" />
                   </svg>
-                  {authGoogleLoading ? "Redirecting to Google..." : "Continue with Google"}
+                  {authGoogleLoading ? t("auth.redirecting") : t("auth.google")}
                 </button>
 
                 {authError && <p className="mt-3 text-sm text-rose-500">{authError}</p>}
@@ -1291,7 +2052,7 @@ export default function Home() {
                     {authRetryUrl && (
                       <div className="mt-2">
                         <a href={authRetryUrl} className={`font-medium underline ${isDark ? "text-blue-300 hover:text-blue-200" : "text-blue-700 hover:text-blue-800"}`}>
-                          Click here if you aren&apos;t redirected automatically
+                          {t("auth.manualLink")}
                         </a>
                       </div>
                     )}
@@ -1302,6 +2063,16 @@ export default function Home() {
           )}
         </section>
       </div>
+      {printMessage && (
+        <PrintableAnswer
+          question={questionFor(printMessage)}
+          answer={printMessage.content}
+          sources={printMessage.sources || []}
+          citations={printMessage.citations}
+          language={printMessage.language || language}
+          generatedAt={new Date()}
+        />
+      )}
     </main>
   );
 }
@@ -0,0 +1,124 @@
+"use client";
+
+import { useState } from "react";
+import {
+  isReminderDue,
+  nextStepStatus,
+  trackerProgress,
+  type ApplicationTracker as Tracker,
+  type TrackerStep,
+} from "@/lib/applicationTracker";
+import { createTranslator } from "@/lib/i18n";
+
+type ApplicationTrackerProps = {
+  tracker: Tracker;
+  language: string;
+  isDark?: boolean;
+  onChange: (next: Tracker) => void;
+  onRemove: () => void;
+};
+
+export default function ApplicationTracker({ tracker, language, isDark = false, onChange, onRemove }: ApplicationTrackerProps) {
+  const t = createTranslator(language);
+  const [openStepId, setOpenStepId] = useState<string | null>(null);
+  const [draftNotes, setDraftNotes] = useState("");
+  const { done, total } = trackerProgress(tracker);
+
+  const updateStep = (id: string, patch: Partial<TrackerStep>) => {
+    onChange({
+      ...tracker,
+      steps: tracker.steps.map((step) => (step.id === id ? { ...step, ...patch } : step)),
+      updatedAt: new Date().toISOString(),
+    });
+  };
+
+  const fieldClass = `h-9 w-full rounded-lg border px-2 text-sm outline-none ${isDark
+    ? "border-[var(--ji-border)] bg-[var(--ji-surface-muted)] text-stone-100 [color-scheme:dark]"
+    : "border-slate-200 bg-slate-50 text-slate-800"
+    }`;
+  const labelClass = `mb-1 block text-[11px] font-medium uppercase tracking-[0.1em] ${isDark ? "text-stone-500" : "text-slate-400"}`;
+  const statusClass = (step: TrackerStep) =>
+    step.status === "done"
+      ? "border-emerald-600 bg-emerald-600 text-white"
+      : step.status === "in_progress"
+        ? "border-[var(--ji-brand)] bg-[var(--ji-brand-soft)] text-[var(--ji-brand-strong)]"
+        : isDark ? "border-[var(--ji-border-strong)] text-stone-400" : "border-slate-300 text-slate-500";
+
+  return (
+    <div className={`rounded-xl border p-3 md:p-4 ${isDark ? "border-[var(--ji-border)] bg-[var(--ji-surface)]" : "border-slate-200 bg-white"}`}>
+      <div className="mb-3 flex items-center justify-between gap-2">
+        <p className={`text-xs font-semibold uppercase tracking-[0.08em] ${isDark ? "text-stone-400" : "text-slate-500"}`}>
+          {t("tracker.progress", { done, total })}
+        </p>
+        <button
+          onClick={onRemove}
+          className={`rounded-md px-2 py-1 text-xs transition-colors duration-150 ${isDark ? "text-stone-400 hover:bg-white/[0.06]" : "text-slate-500 hover:bg-black/[0.04]"}`}
+        >
+          {t("tracker.stop")}
+        </button>
+      </div>
+      <div className={`mb-3 h-1.5 overflow-hidden rounded-full ${isDark ? "bg-white/[0.06]" : "bg-slate-100"}`}>
+        <div className="h-full rounded-full bg-[var(--ji-brand)] transition-[width] duration-300" style={{ width: `${total ? (done / total) * 100 : 0}%` }} />
+      </div>
+
+      <ol className="space-y-2">
+        {tracker.steps.map((step, idx) => {
+          const isOpen = openStepId === step.id;
+          return (
+            <li key={step.id} className={`rounded-lg border px-3 py-2 ${isDark ? "border-[var(--ji-border)]" : "border-slate-100"}`}>
+              <div className="flex items-start gap-3">
+                <button
+                  onClick={() => updateStep(step.id, { status: nextStepStatus(step.status) })}
+                  className={`mt-0.5 inline-flex h-6 w-6 shrink-0 items-center justify-center rounded-full border text-[11px] font-semibold ${statusClass(step)}`}
+                  aria-label={t(`tracker.status.${step.status}`)}
+                  title={t(`tracker.status.${step.status}`)}
+                >
+                  {step.status === "done" ? "✓" : idx + 1}
+                </button>
+                <button
+                  onClick={() => {
+                    setOpenStepId(isOpen ? null : step.id);
+                    setDraftNotes(step.notes || "");
+                  }}
+                  className="min-w-0 flex-1 text-start"
+                >
+                  <span className={`block text-sm ${step.status === "done" ? "line-through opacity-60" : ""} ${isDark ? "text-stone-100" : "text-slate-800"}`}>{step.text}</span>
+                  <span className={`mt-0.5 block text-[11px] ${isDark ? "text-stone-500" : "text-slate-400"}`}>
+                    {t(`tracker.status.${step.status}`)}
+                    {step.deadline && ` · ${t("tracker.deadline")} ${step.deadline}`}
+                    {isReminderDue(step) && <span className="ms-1 font-medium text-rose-500">· {t("tracker.reminderDue")}</span>}
+                  </span>
+                </button>
+              </div>
+
+              {isOpen && (
+                <div className="mt-3 grid grid-cols-1 gap-3 ps-9 sm:grid-cols-2">
+                  <label>
+                    <span className={labelClass}>{t("tracker.deadline")}</span>
+                    <input type="date" value={step.deadline || ""} onChange={(e) => updateStep(step.id, { deadline: e.target.value || undefined })} className={fieldClass} />
+                  </label>
+                  <label>
+                    <span className={labelClass}>{t("tracker.reminder")}</span>
+                    <input type="date" value={step.reminder || ""} onChange={(e) => updateStep(step.id, { reminder: e.target.value || undefined })} className={fieldClass} />
+                  </label>
+                  <label className="sm:col-span-2">
+                    <span className={labelClass}>{t("tracker.notes")}</span>
+                    <textarea
+                      value={draftNotes}
+                      onChange={(e) => setDraftNotes(e.target.value)}
+                      onBlur={() => {
+                        if (draftNotes.trim() !== (step.notes || "")) updateStep(step.id, { notes: draftNotes.trim() || undefined });
+                      }}
+                      rows={2}
+                      className={`${fieldClass} h-auto py-1.5`}
+                    />
+                  </label>
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+}
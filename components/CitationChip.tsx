@@ -0,0 +1,54 @@
+"use client";
+
+import { useState } from "react";
+import type { SourceCard } from "@/lib/chatTypes";
+import { extractHostname } from "@/lib/sources";
+
+type CitationChipProps = {
+  position: number;
+  source?: SourceCard;
+  isDark?: boolean;
+};
+
+// Hover on desktop and tap on touch screens both open the preview; the chip still jumps to the source card.
+export default function CitationChip({ position, source, isDark = false }: CitationChipProps) {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <span
+      className="relative inline-block align-super"
+      onPointerEnter={(e) => e.pointerType === "mouse" && setOpen(true)}
+      onPointerLeave={(e) => e.pointerType === "mouse" && setOpen(false)}
+    >
+      <a
+        href={`#src-${position}`}
+        onClick={(e) => {
+          if (!source || open) return;
+          e.preventDefault();
+          setOpen(true);
+        }}
+        onBlur={() => setOpen(false)}
+        aria-label={source ? `${position}: ${source.title}` : String(position)}
+        className={`ms-0.5 inline-flex h-4 min-w-4 items-center justify-center rounded px-1 text-[10px] font-semibold leading-none no-underline transition-colors duration-150 ${isDark
+          ? "bg-[var(--ji-brand-soft)] text-[var(--ji-brand-muted)] hover:bg-[var(--ji-surface-raised)]"
+          : "bg-[var(--ji-brand-soft)] text-[var(--ji-brand-strong)] hover:bg-[#ecd3bf]"
+          }`}
+      >
+        {position}
+      </a>
+      {open && source && (
+        <span
+          role="tooltip"
+          className={`absolute bottom-full start-1/2 z-30 mb-1.5 block w-64 -translate-x-1/2 rounded-lg border p-2.5 text-start text-xs leading-5 shadow-lg rtl:translate-x-1/2 ${isDark
+            ? "border-[var(--ji-border)] bg-[var(--ji-surface-raised)] text-stone-300"
+            : "border-slate-200 bg-white text-slate-600"
+            }`}
+        >
+          <span className={`block font-semibold ${isDark ? "text-stone-100" : "text-slate-800"}`}>{source.title}</span>
+          <span className={`block text-[11px] ${isDark ? "text-stone-500" : "text-slate-400"}`}>{extractHostname(source.url)}</span>
+          {source.snippet && <span className="mt-1 line-clamp-4 block">{source.snippet}</span>}
+        </span>
+      )}
+    </span>
+  );
+}
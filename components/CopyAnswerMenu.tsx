@@ -0,0 +1,62 @@
+"use client";
+
+import { useState } from "react";
+import type { Message } from "@/lib/chatTypes";
+import { createTranslator } from "@/lib/i18n";
+import { formatAnswerMarkdown, formatAnswerPlainText } from "@/lib/messageActions";
+
+type CopyAnswerMenuProps = {
+  message: Message;
+  language: string;
+  isDark?: boolean;
+};
+
+export default function CopyAnswerMenu({ message, language, isDark = false }: CopyAnswerMenuProps) {
+  const t = createTranslator(language);
+  const [open, setOpen] = useState(false);
+  const [status, setStatus] = useState<"idle" | "copied" | "failed">("idle");
+
+  const copy = async (format: "markdown" | "text") => {
+    const sourcesLabel = t("answer.sources");
+    const text = format === "markdown" ? formatAnswerMarkdown(message, sourcesLabel) : formatAnswerPlainText(message, sourcesLabel);
+    setOpen(false);
+    try {
+      // navigator.clipboard is missing outside secure contexts, and writes can be refused by permissions.
+      await navigator.clipboard.writeText(text);
+      setStatus("copied");
+      window.setTimeout(() => setStatus("idle"), 1400);
+    } catch {
+      setStatus("failed");
+      window.setTimeout(() => setStatus("idle"), 3000);
+    }
+  };
+
+  const itemClass = `block w-full rounded-md px-2.5 py-1.5 text-start text-xs ${isDark ? "hover:bg-white/[0.06]" : "hover:bg-black/[0.04]"}`;
+
+  return (
+    <div className="relative inline-flex">
+      <button
+        onClick={() => setOpen((p) => !p)}
+        aria-expanded={open}
+        aria-label={status === "copied" ? t("answer.copied") : t("answer.copy")}
+        className={`inline-flex items-center rounded-md border p-2 text-xs transition-all duration-200 ${isDark ? "border-[var(--ji-border)] bg-[var(--ji-surface)] text-stone-300 hover:border-[var(--ji-border-strong)]" : "border-slate-200 bg-slate-50 text-slate-600 hover:border-slate-300"}`}
+      >
+        <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.8" className="h-3.5 w-3.5">
+          {status === "copied" ? <path d="M5 12.5l4.5 4.5L19 7.5" /> : <path d="M9 9h10v12H9zM5 15H4V3h11v1" />}
+        </svg>
+      </button>
+      {status === "failed" && (
+        <span role="alert" className={`ms-2 self-center text-[11px] ${isDark ? "text-rose-300" : "text-rose-600"}`}>{t("answer.copyFailed")}</span>
+      )}
+      {open && (
+        <div
+          role="menu"
+          className={`absolute bottom-full start-0 z-30 mb-2 w-44 rounded-xl border p-1 shadow-lg ${isDark ? "border-[var(--ji-border)] bg-[var(--ji-surface-raised)] text-stone-200" : "border-slate-200 bg-white text-slate-700"}`}
+        >
+          <button role="menuitem" onClick={() => void copy("markdown")} className={itemClass}>{t("answer.copyMarkdown")}</button>
+          <button role="menuitem" onClick={() => void copy("text")} className={itemClass}>{t("answer.copyText")}</button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+"use client";
+
+import { useState } from "react";
+import { formatChecklistText, type ChecklistState, type DocumentItem } from "@/lib/documentsChecklist";
+import { createTranslator } from "@/lib/i18n";
+
+type DocumentsChecklistProps = {
+  items: DocumentItem[];
+  state: ChecklistState;
+  usage: Map<string, number>;
+  language: string;
+  isDark?: boolean;
+  onToggle: (key: string) => void;
+};
+
+export default function DocumentsChecklist({ items, state, usage, language, isDark = false, onToggle }: DocumentsChecklistProps) {
+  const t = createTranslator(language);
+  const [copyStatus, setCopyStatus] = useState<"idle" | "copied" | "failed">("idle");
+  const done = items.filter((item) => state[item.key]).length;
+
+  const copyAsText = async () => {
+    const text = formatChecklistText(items, state, { required: t("documents.required"), optional: t("documents.optional") });
+    try {
+      await navigator.clipboard.writeText(`${t("print.checklist")}\n\n${text}`);
+      setCopyStatus("copied");
+      window.setTimeout(() => setCopyStatus("idle"), 1400);
+    } catch {
+      // No clipboard outside secure contexts, or access was refused.
+      setCopyStatus("failed");
+      window.setTimeout(() => setCopyStatus("idle"), 3000);
+    }
+  };
+
+  return (
+    <div className={`rounded-xl border p-3 md:p-4 ${isDark ? "border-[var(--ji-border)] bg-[var(--ji-surface)]" : "border-slate-200 bg-white"}`}>
+      <div className="mb-3 flex items-center justify-between gap-2">
+        <p className={`text-xs font-semibold uppercase tracking-[0.08em] ${isDark ? "text-stone-400" : "text-slate-500"}`}>
+          {t("documents.progress", { done, total: items.length })}
+        </p>
+        <button
+          onClick={() => void copyAsText()}
+          aria-live="polite"
+          className={`rounded-md px-2 py-1 text-xs transition-colors duration-150 ${copyStatus === "failed"
+            ? isDark ? "text-rose-300" : "text-rose-600"
+            : isDark ? "text-stone-300 hover:bg-white/[0.06]" : "text-slate-600 hover:bg-black/[0.04]"
+            }`}
+        >
+          {copyStatus === "copied" ? t("documents.copied") : copyStatus === "failed" ? t("documents.copyFailed") : t("documents.copy")}
+        </button>
+      </div>
+      <ul className="space-y-1">
+        {items.map((item) => {
+          const sharedBy = usage.get(item.key) || 0;
+          return (
+            <li key={item.key}>
+              <label className={`flex cursor-pointer items-start gap-3 rounded-lg px-2 py-2 transition-colors duration-150 ${isDark ? "hover:bg-white/[0.04]" : "hover:bg-black/[0.02]"}`}>
+                <input
+                  type="checkbox"
+                  checked={state[item.key] === true}
+                  onChange={() => onToggle(item.key)}
+                  className="mt-1 h-4 w-4 shrink-0 accent-[var(--ji-brand)]"
+                />
+                <span className="min-w-0 flex-1">
+                  <span className={`text-sm ${state[item.key] ? "line-through opacity-60" : ""} ${isDark ? "text-stone-100" : "text-slate-800"}`}>{item.name}</span>
+                  <span
+                    className={`ms-2 rounded-full px-1.5 py-0.5 text-[10px] font-medium ${item.mandatory
+                      ? isDark ? "bg-[var(--ji-brand-soft)] text-[var(--ji-brand-muted)]" : "bg-[var(--ji-brand-soft)] text-[var(--ji-brand-strong)]"
+                      : isDark ? "bg-white/[0.06] text-stone-400" : "bg-slate-100 text-slate-500"
+                      }`}
+                  >
+                    {item.mandatory ? t("documents.required") : t("documents.optional")}
+                  </span>
+                  {item.notes && <span className={`mt-0.5 block text-xs ${isDark ? "text-stone-400" : "text-slate-500"}`}>{item.notes}</span>}
+                  {sharedBy > 1 && (
+                    <span className={`mt-0.5 block text-[11px] ${isDark ? "text-[var(--ji-brand-muted)]" : "text-[var(--ji-brand-strong)]"}`}>
+                      {t("documents.sharedCount", { count: sharedBy })}
+                    </span>
+                  )}
+                </span>
+              </label>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+import type { EvidenceAssessment } from "@/lib/evidence";
+import { createTranslator } from "@/lib/i18n";
+
+type EvidenceBadgeProps = {
+  evidence: EvidenceAssessment;
+  language: string;
+  isDark?: boolean;
+};
+
+const levelClasses = {
+  well: { light: "border-emerald-200 bg-emerald-50 text-emerald-700", dark: "border-emerald-400/20 bg-emerald-400/10 text-emerald-300", dot: "bg-emerald-500" },
+  partial: { light: "border-amber-200 bg-amber-50 text-amber-700", dark: "border-amber-400/20 bg-amber-400/10 text-amber-300", dot: "bg-amber-500" },
+  unsourced: { light: "border-rose-200 bg-rose-50 text-rose-700", dark: "border-rose-400/20 bg-rose-400/10 text-rose-300", dot: "bg-rose-500" },
+};
+
+export default function EvidenceBadge({ evidence, language, isDark = false }: EvidenceBadgeProps) {
+  const t = createTranslator(language);
+  const classes = levelClasses[evidence.level];
+  const details = [
+    t("evidence.details", { sources: evidence.sourceCount, official: evidence.officialCount }),
+    evidence.coverage === null ? "" : t("evidence.coverage", { percent: Math.round(evidence.coverage * 100) }),
+  ].filter(Boolean).join(" · ");
+
+  return (
+    <span
+      title={details}
+      className={`inline-flex items-center gap-1.5 rounded-full border px-2 py-0.5 text-[11px] font-medium ${isDark ? classes.dark : classes.light}`}
+    >
+      <span className={`h-1.5 w-1.5 rounded-full ${classes.dot}`} aria-hidden="true" />
+      {t(`evidence.${evidence.level}`)}
+      <span className="sr-only">({details})</span>
+    </span>
+  );
+}
@@ -0,0 +1,111 @@
+"use client";
+
+import { useState } from "react";
+import { feedbackReasons, maxFeedbackCommentLength, type FeedbackRating, type FeedbackReason } from "@/lib/feedback";
+import { createTranslator } from "@/lib/i18n";
+
+type FeedbackControlProps = {
+  rating?: FeedbackRating;
+  language: string;
+  isDark?: boolean;
+  onSubmit: (rating: FeedbackRating, reason?: FeedbackReason, comment?: string) => Promise<void>;
+};
+
+function ThumbIcon({ className, down = false }: { className?: string; down?: boolean }) {
+  return (
+    <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.8" className={`${className} ${down ? "rotate-180" : ""}`}>
+      <path d="M7 10v11H4V10zM7 10l4-7a2 2 0 0 1 3 2l-1 5h6a2 2 0 0 1 2 2.3l-1.2 7A2 2 0 0 1 17.8 21H7" />
+    </svg>
+  );
+}
+
+export default function FeedbackControl({ rating, language, isDark = false, onSubmit }: FeedbackControlProps) {
+  const t = createTranslator(language);
+  const [open, setOpen] = useState(false);
+  const [reason, setReason] = useState<FeedbackReason | null>(null);
+  const [comment, setComment] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  const submit = async (nextRating: FeedbackRating, nextReason?: FeedbackReason, nextComment?: string) => {
+    setSubmitting(true);
+    try {
+      await onSubmit(nextRating, nextReason, nextComment);
+      setOpen(false);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const buttonClass = (active: boolean) =>
+    `inline-flex items-center rounded-md border p-2 text-xs transition-all duration-200 disabled:opacity-50 ${active
+      ? "border-[var(--ji-brand)] bg-[var(--ji-brand-soft)] text-[var(--ji-brand-strong)]"
+      : isDark ? "border-[var(--ji-border)] bg-[var(--ji-surface)] text-stone-300 hover:border-[var(--ji-border-strong)]" : "border-slate-200 bg-slate-50 text-slate-600 hover:border-slate-300"
+    }`;
+
+  return (
+    <div className="relative inline-flex items-center gap-2">
+      <button
+        onClick={() => void submit("up")}
+        disabled={submitting || Boolean(rating)}
+        aria-pressed={rating === "up"}
+        aria-label={t("feedback.helpful")}
+        className={buttonClass(rating === "up")}
+      >
+        <ThumbIcon className="h-3.5 w-3.5" />
+      </button>
+      <button
+        onClick={() => setOpen((p) => !p)}
+        disabled={submitting || Boolean(rating)}
+        aria-pressed={rating === "down"}
+        aria-expanded={open}
+        aria-label={t("feedback.notHelpful")}
+        className={buttonClass(rating === "down" || open)}
+      >
+        <ThumbIcon className="h-3.5 w-3.5" down />
+      </button>
+      {rating && <span className={`text-[11px] ${isDark ? "text-stone-500" : "text-slate-400"}`}>{t("feedback.thanks")}</span>}
+
+      {open && !rating && (
+        <div
+          className={`absolute bottom-full start-0 z-30 mb-2 w-72 rounded-xl border p-3 shadow-lg ${isDark ? "border-[var(--ji-border)] bg-[var(--ji-surface-raised)] text-stone-200" : "border-slate-200 bg-white text-slate-700"}`}
+        >
+          <p className="mb-2 text-xs font-medium">{t("feedback.whatWentWrong")}</p>
+          <div className="flex flex-wrap gap-1.5">
+            {feedbackReasons.map((value) => (
+              <button
+                key={value}
+                onClick={() => setReason(value)}
+                aria-pressed={reason === value}
+                className={`rounded-full border px-2.5 py-1 text-[11px] ${reason === value
+                  ? "border-[var(--ji-brand)] bg-[var(--ji-brand-soft)] text-[var(--ji-brand-strong)]"
+                  : isDark ? "border-[var(--ji-border)] text-stone-300" : "border-slate-200 text-slate-600"
+                  }`}
+              >
+                {t(`feedback.reason.${value}`)}
+              </button>
+            ))}
+          </div>
+          <textarea
+            value={comment}
+            onChange={(e) => setComment(e.target.value.slice(0, maxFeedbackCommentLength))}
+            rows={2}
+            placeholder={t("feedback.commentPlaceholder")}
+            className={`mt-2 w-full rounded-lg border px-2 py-1.5 text-xs outline-none ${isDark ? "border-[var(--ji-border)] bg-[var(--ji-surface-muted)] text-stone-100" : "border-slate-200 bg-slate-50 text-slate-800"}`}
+          />
+          <div className="mt-2 flex justify-end gap-2">
+            <button onClick={() => setOpen(false)} className={`h-8 rounded-lg px-3 text-xs ${isDark ? "hover:bg-white/[0.06]" : "hover:bg-black/[0.04]"}`}>
+              {t("feedback.cancel")}
+            </button>
+            <button
+              onClick={() => void submit("down", reason || undefined, comment.trim() || undefined)}
+              disabled={submitting || (!reason && !comment.trim())}
+              className="h-8 rounded-lg bg-[var(--ji-brand)] px-3 text-xs font-medium text-white transition-colors duration-200 hover:bg-[var(--ji-brand-strong)] disabled:opacity-50"
+            >
+              {t("feedback.send")}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,170 @@
+"use client";
+
+import { useState } from "react";
+import { trackerProgress, type ApplicationTracker } from "@/lib/applicationTracker";
+import type { ConversationSummary } from "@/lib/conversationStore";
+import { createTranslator } from "@/lib/i18n";
+
+type HistoryDrawerProps = {
+  conversations: ConversationSummary[];
+  trackers?: ApplicationTracker[];
+  language: string;
+  activeId?: string;
+  loading?: boolean;
+  error?: string | null;
+  localOnly?: boolean;
+  isDark?: boolean;
+  languageLabel: (value: string) => string;
+  onSelect: (id: string) => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+};
+
+const formatDate = (value: string, locale: string) => {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return "";
+  return date.toLocaleDateString(locale, { day: "numeric", month: "short", year: "numeric" });
+};
+
+export default function HistoryDrawer({
+  conversations,
+  trackers = [],
+  language,
+  activeId,
+  loading = false,
+  error = null,
+  localOnly = false,
+  isDark = false,
+  languageLabel,
+  onSelect,
+  onRename,
+  onDelete,
+  onClose,
+}: HistoryDrawerProps) {
+  const t = createTranslator(language);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState("");
+  const activeTrackers = trackers.filter((tracker) => {
+    const { done, total } = trackerProgress(tracker);
+    return done < total;
+  });
+
+  const commitRename = () => {
+    const title = draftTitle.trim();
+    if (editingId && title) onRename(editingId, title);
+    setEditingId(null);
+  };
+
+  const iconButtonClass = `inline-flex h-7 w-7 items-center justify-center rounded-md transition-colors duration-150 ${isDark ? "text-stone-400 hover:bg-white/[0.08] hover:text-stone-100" : "text-slate-400 hover:bg-black/[0.05] hover:text-slate-800"}`;
+
+  return (
+    <div className="absolute inset-0 z-50 flex">
+      <button onClick={onClose} className="absolute inset-0 bg-black/25 backdrop-blur-[3px]" aria-label={t("history.close")} />
+      <aside
+        aria-label={t("history.label")}
+        className={`relative flex h-full w-[86%] max-w-sm flex-col border-r shadow-xl ${isDark ? "border-[var(--ji-border)] bg-[var(--ji-surface)]" : "border-slate-200 bg-white"}`}
+      >
+        <div className="flex items-center justify-between px-4 pb-2 pt-4">
+          <p className={`text-[11px] font-medium uppercase tracking-[0.1em] ${isDark ? "text-stone-500" : "text-slate-400"}`}>
+            {t("history.title")}
+            {conversations.length > 0 && (
+              <span className="ms-2 normal-case tracking-normal">{t("history.count", { count: conversations.length })}</span>
+            )}
+          </p>
+          <button onClick={onClose} className={iconButtonClass} aria-label={t("history.close")}>
+            <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.8" className="h-4 w-4"><path d="M6 6l12 12M18 6L6 18" /></svg>
+          </button>
+        </div>
+        {localOnly && (
+          <p className={`px-4 pb-2 text-[11px] ${isDark ? "text-stone-500" : "text-slate-400"}`}>{t("history.localOnly")}</p>
+        )}
+
+        <div className="flex-1 overflow-y-auto px-2 pb-4">
+          {activeTrackers.length > 0 && (
+            <div className={`mb-2 border-b pb-2 ${isDark ? "border-[var(--ji-border)]" : "border-slate-100"}`}>
+              <p className={`px-2 pb-1 pt-2 text-[11px] font-medium uppercase tracking-[0.1em] ${isDark ? "text-stone-500" : "text-slate-400"}`}>{t("tracker.inProgress")}</p>
+              <ul className="space-y-1">
+                {activeTrackers.map((tracker) => {
+                  const { done, total } = trackerProgress(tracker);
+                  return (
+                    <li key={tracker.id}>
+                      <button
+                        onClick={() => onSelect(tracker.conversationId)}
+                        className={`w-full rounded-lg px-2 py-2 text-start transition-colors duration-150 ${isDark ? "hover:bg-white/[0.04]" : "hover:bg-black/[0.03]"}`}
+                      >
+                        <p className={`truncate text-sm ${isDark ? "text-stone-200" : "text-slate-800"}`}>{tracker.title}</p>
+                        <p className={`mt-0.5 text-[11px] ${isDark ? "text-stone-500" : "text-slate-400"}`}>{t("tracker.progress", { done, total })}</p>
+                      </button>
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          )}
+          {loading && conversations.length === 0 && (
+            <p className={`px-2 py-3 text-sm ${isDark ? "text-stone-400" : "text-slate-500"}`}>{t("history.loading")}</p>
+          )}
+          {error && <p className="px-2 py-3 text-sm text-rose-500">{error}</p>}
+          {!loading && !error && conversations.length === 0 && (
+            <p className={`px-2 py-3 text-sm ${isDark ? "text-stone-400" : "text-slate-500"}`}>{t("history.empty")}</p>
+          )}
+          <ul className="space-y-1">
+            {conversations.map((conversation) => {
+              const isActive = conversation.id === activeId;
+              const isEditing = editingId === conversation.id;
+              return (
+                <li
+                  key={conversation.id}
+                  className={`group flex items-center gap-1 rounded-lg px-2 py-2 transition-colors duration-150 ${isActive
+                    ? isDark ? "bg-[var(--ji-surface-muted)]" : "bg-slate-100"
+                    : isDark ? "hover:bg-white/[0.04]" : "hover:bg-black/[0.03]"
+                    }`}
+                >
+                  {isEditing ? (
+                    <input
+                      autoFocus
+                      value={draftTitle}
+                      onChange={(e) => setDraftTitle(e.target.value)}
+                      onBlur={commitRename}
+                      onKeyDown={(e) => {
+                        if (e.key === "Enter") commitRename();
+                        if (e.key === "Escape") setEditingId(null);
+                      }}
+                      className={`h-8 min-w-0 flex-1 rounded-md border px-2 text-sm outline-none ${isDark ? "border-[var(--ji-border)] bg-[var(--ji-surface-muted)] text-stone-100" : "border-slate-200 bg-white text-slate-800"}`}
+                      aria-label={t("history.titleInput")}
+                    />
+                  ) : (
+                    <button onClick={() => onSelect(conversation.id)} className="min-w-0 flex-1 text-start">
+                      <p className={`truncate text-sm ${isDark ? "text-stone-200" : "text-slate-800"}`}>{conversation.title}</p>
+                      <p className={`mt-0.5 text-[11px] ${isDark ? "text-stone-500" : "text-slate-400"}`}>
+                        {formatDate(conversation.updatedAt, language)} · {languageLabel(conversation.language)}
+                      </p>
+                    </button>
+                  )}
+                  {!isEditing && (
+                    <div className="flex shrink-0 items-center opacity-70 transition-opacity duration-150 group-hover:opacity-100">
+                      <button
+                        onClick={() => {
+                          setEditingId(conversation.id);
+                          setDraftTitle(conversation.title);
+                        }}
+                        className={iconButtonClass}
+                        aria-label={t("history.rename")}
+                      >
+                        <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.8" className="h-3.5 w-3.5"><path d="M4 20h4L19 9l-4-4L4 16v4ZM13.5 6.5l4 4" /></svg>
+                      </button>
+                      <button onClick={() => onDelete(conversation.id)} className={iconButtonClass} aria-label={t("history.delete")}>
+                        <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.8" className="h-3.5 w-3.5"><path d="M5 7h14M10 11v6M14 11v6M6 7l1 13h10l1-13M9 7V4h6v3" /></svg>
+                      </button>
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      </aside>
+    </div>
+  );
+}
@@ -0,0 +1,236 @@
+"use client";
+
+import { useEffect, useRef, useState, type FormEvent } from "react";
+import type { PDFDocumentProxy } from "pdfjs-dist";
+import type { TextItem } from "pdfjs-dist/types/src/display/api";
+import type { SourceCard } from "@/lib/chatTypes";
+import { guidelinePage, pdfProxyPath } from "@/lib/guidelinePdf";
+import { createTranslator } from "@/lib/i18n";
+
+type PdfViewerProps = {
+  source: SourceCard;
+  language: string;
+  isDark?: boolean;
+  onClose: () => void;
+};
+
+type PdfJs = typeof import("pdfjs-dist");
+
+type TextRun = Pick<TextItem, "str" | "transform" | "width">;
+
+type Highlight = { left: number; top: number; width: number; height: number };
+
+type PageHighlights = { page: number; query: string; boxes: Highlight[] };
+
+const loadPdfJs = async (): Promise<PdfJs> => {
+  const pdfjs = await import("pdfjs-dist");
+  pdfjs.GlobalWorkerOptions.workerSrc = new URL("pdfjs-dist/build/pdf.worker.min.mjs", import.meta.url).toString();
+  return pdfjs;
+};
+
+const readPageText = async (cache: Map<number, TextRun[]>, pdf: PDFDocumentProxy, pageNumber: number) => {
+  const cached = cache.get(pageNumber);
+  if (cached) return cached;
+  const content = await (await pdf.getPage(pageNumber)).getTextContent();
+  const runs = content.items.filter((item): item is TextItem => "str" in item);
+  cache.set(pageNumber, runs);
+  return runs;
+};
+
+// Renders one page at a time to keep memory low on entry-level phones.
+export default function PdfViewer({ source, language, isDark = false, onClose }: PdfViewerProps) {
+  const t = createTranslator(language);
+  const [doc, setDoc] = useState<PDFDocumentProxy | null>(null);
+  const [failed, setFailed] = useState(false);
+  const [page, setPage] = useState(() => guidelinePage(source));
+  const [query, setQuery] = useState("");
+  const [activeQuery, setActiveQuery] = useState("");
+  const [matchPages, setMatchPages] = useState<number[] | null>(null);
+  const [searching, setSearching] = useState(false);
+  const [searchFailed, setSearchFailed] = useState(false);
+  const [highlights, setHighlights] = useState<PageHighlights | null>(null);
+  const pdfjsRef = useRef<PdfJs | null>(null);
+  const textCacheRef = useRef(new Map<number, TextRun[]>());
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+
+  const pageCount = doc?.numPages || 0;
+  const currentPage = pageCount ? Math.min(Math.max(page, 1), pageCount) : page;
+
+  useEffect(() => {
+    let cancelled = false;
+    let loaded: PDFDocumentProxy | null = null;
+    void loadPdfJs()
+      .then((pdfjs) => {
+        pdfjsRef.current = pdfjs;
+        return pdfjs.getDocument({ url: pdfProxyPath(source.url) }).promise;
+      })
+      .then((next) => {
+        loaded = next;
+        if (cancelled) return void next.destroy();
+        setDoc(next);
+      })
+      .catch(() => {
+        if (!cancelled) setFailed(true);
+      });
+    return () => {
+      cancelled = true;
+      void loaded?.destroy();
+    };
+  }, [source.url]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const container = containerRef.current;
+    const pdfjs = pdfjsRef.current;
+    if (!doc || !canvas || !container || !pdfjs) return;
+    let cancelled = false;
+    let renderTask: ReturnType<Awaited<ReturnType<PDFDocumentProxy["getPage"]>>["render"]> | null = null;
+
+    void (async () => {
+      const pdfPage = await doc.getPage(currentPage);
+      if (cancelled) return;
+      const base = pdfPage.getViewport({ scale: 1 });
+      const viewport = pdfPage.getViewport({ scale: Math.max(container.clientWidth - 2, 200) / base.width });
+      const outputScale = Math.min(window.devicePixelRatio || 1, 2);
+      canvas.width = Math.floor(viewport.width * outputScale);
+      canvas.height = Math.floor(viewport.height * outputScale);
+      canvas.style.width = `${Math.floor(viewport.width)}px`;
+      canvas.style.height = `${Math.floor(viewport.height)}px`;
+      renderTask = pdfPage.render({
+        canvas,
+        viewport,
+        transform: outputScale === 1 ? undefined : [outputScale, 0, 0, outputScale, 0, 0],
+      });
+      await renderTask.promise;
+      if (cancelled) return;
+
+      const needle = activeQuery.toLocaleLowerCase();
+      const runs = needle ? await readPageText(textCacheRef.current, doc, currentPage) : [];
+      if (cancelled) return;
+      setHighlights({
+        page: currentPage,
+        query: activeQuery,
+        boxes: runs
+          .filter((run) => run.str.toLocaleLowerCase().includes(needle))
+          .map((run) => {
+            const [, , c, d, x, y] = pdfjs.Util.transform(viewport.transform, run.transform) as number[];
+            const height = Math.hypot(c, d);
+            return { left: x, top: y - height, width: run.width * viewport.scale, height };
+          }),
+      });
+    })().catch(() => {
+      // A cancelled render rejects; a newer render replaces it.
+    });
+
+    return () => {
+      cancelled = true;
+      renderTask?.cancel();
+    };
+  }, [doc, currentPage, activeQuery]);
+
+  const search = async (event: FormEvent) => {
+    event.preventDefault();
+    const needle = query.trim().toLocaleLowerCase();
+    setActiveQuery(needle);
+    setSearchFailed(false);
+    if (!doc || !needle) {
+      setMatchPages(null);
+      return;
+    }
+    setSearching(true);
+    try {
+      const found: number[] = [];
+      for (let pageNumber = 1; pageNumber <= doc.numPages; pageNumber += 1) {
+        const runs = await readPageText(textCacheRef.current, doc, pageNumber);
+        if (runs.map((run) => run.str).join(" ").toLocaleLowerCase().includes(needle)) found.push(pageNumber);
+      }
+      setMatchPages(found);
+      if (found.length) setPage(found.find((pageNumber) => pageNumber >= currentPage) || found[0]);
+    } catch {
+      setMatchPages(null);
+      setSearchFailed(true);
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  const matchIndex = matchPages ? matchPages.indexOf(currentPage) : -1;
+  const stepMatch = (delta: number) => {
+    if (!matchPages?.length) return;
+    const nextIndex = matchIndex < 0 ? 0 : (matchIndex + delta + matchPages.length) % matchPages.length;
+    setPage(matchPages[nextIndex]);
+  };
+
+  const buttonClass = `inline-flex h-8 min-w-8 items-center justify-center rounded-md px-2 text-xs transition-colors duration-150 disabled:opacity-40 ${isDark ? "text-stone-300 hover:bg-white/[0.08]" : "text-slate-600 hover:bg-black/[0.05]"}`;
+
+  return (
+    <div className="absolute inset-0 z-50 flex justify-end">
+      <button onClick={onClose} className="absolute inset-0 bg-black/25 backdrop-blur-[3px]" aria-label={t("pdf.close")} />
+      <aside
+        aria-label={source.title}
+        className={`relative flex h-full w-full max-w-2xl flex-col border-s shadow-xl ${isDark ? "border-[var(--ji-border)] bg-[var(--ji-surface)]" : "border-slate-200 bg-white"}`}
+      >
+        <div className="flex items-center gap-2 px-4 pb-2 pt-4">
+          <p className={`min-w-0 flex-1 truncate text-sm font-medium ${isDark ? "text-stone-100" : "text-slate-800"}`}>{source.title}</p>
+          <a href={source.url} target="_blank" rel="noreferrer" className={buttonClass}>{t("pdf.openOriginal")}</a>
+          <button onClick={onClose} className={buttonClass} aria-label={t("pdf.close")}>
+            <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.8" className="h-4 w-4"><path d="M6 6l12 12M18 6L6 18" /></svg>
+          </button>
+        </div>
+
+        <form onSubmit={(e) => void search(e)} className="flex items-center gap-1 px-4 pb-2">
+          <input
+            type="search"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder={t("pdf.search")}
+            disabled={!doc}
+            className={`h-9 min-w-0 flex-1 rounded-lg border px-3 text-sm outline-none ${isDark ? "border-[var(--ji-border)] bg-[var(--ji-surface-muted)] text-stone-100" : "border-slate-200 bg-slate-50 text-slate-800"}`}
+          />
+          <button type="button" onClick={() => stepMatch(-1)} disabled={!matchPages?.length} className={buttonClass} aria-label={t("pdf.previousMatch")}>↑</button>
+          <button type="button" onClick={() => stepMatch(1)} disabled={!matchPages?.length} className={buttonClass} aria-label={t("pdf.nextMatch")}>↓</button>
+        </form>
+        {(searching || searchFailed || matchPages) && (
+          <p className={`px-4 pb-2 text-[11px] ${isDark ? "text-stone-500" : "text-slate-400"}`}>
+            {searching
+              ? t("pdf.searching")
+              : searchFailed
+                ? t("pdf.failed")
+                : matchPages?.length ? t("pdf.matches", { count: matchPages.length }) : t("pdf.noMatches")}
+          </p>
+        )}
+
+        <div ref={containerRef} className={`flex-1 overflow-auto px-4 pb-4 ${isDark ? "bg-black/20" : "bg-slate-100"}`}>
+          {failed ? (
+            <div className={`mt-10 text-center text-sm ${isDark ? "text-stone-400" : "text-slate-500"}`}>
+              <p>{t("pdf.failed")}</p>
+              <a href={source.url} target="_blank" rel="noreferrer" className="mt-2 inline-block text-[var(--ji-brand)] underline">{t("pdf.openOriginal")}</a>
+            </div>
+          ) : !doc ? (
+            <p className={`mt-10 text-center text-sm ${isDark ? "text-stone-400" : "text-slate-500"}`}>{t("pdf.loading")}</p>
+          ) : (
+            <div className="relative mx-auto mt-3 w-fit shadow-sm">
+              <canvas ref={canvasRef} className="block bg-white" />
+              {highlights?.page === currentPage && highlights.query === activeQuery && highlights.boxes.map((box, idx) => (
+                <span
+                  key={idx}
+                  className="pointer-events-none absolute rounded-sm bg-amber-300/45"
+                  style={{ left: box.left, top: box.top, width: box.width, height: box.height }}
+                />
+              ))}
+            </div>
+          )}
+        </div>
+
+        {doc && (
+          <div className={`flex items-center justify-center gap-3 border-t px-4 py-2 ${isDark ? "border-[var(--ji-border)]" : "border-slate-100"}`}>
+            <button onClick={() => setPage(currentPage - 1)} disabled={currentPage <= 1} className={buttonClass} aria-label={t("pdf.previous")}>‹</button>
+            <span className={`text-xs ${isDark ? "text-stone-400" : "text-slate-500"}`}>{t("pdf.page", { page: currentPage, total: pageCount })}</span>
+            <button onClick={() => setPage(currentPage + 1)} disabled={currentPage >= pageCount} className={buttonClass} aria-label={t("pdf.next")}>›</button>
+          </div>
+        )}
+      </aside>
+    </div>
+  );
+}
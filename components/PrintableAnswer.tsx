@@ -0,0 +1,99 @@
+import ReactMarkdown from "react-markdown";
+import remarkGfm from "remark-gfm";
+import { extractSections, type Section, type TabKey } from "@/lib/answerSections";
+import type { Citation, SourceCard } from "@/lib/chatTypes";
+import { renderCitations } from "@/lib/citations";
+import { parseDocumentsChecklist } from "@/lib/documentsChecklist";
+import { createTranslator } from "@/lib/i18n";
+import { getLocale } from "@/lib/locales";
+import { deriveSchemeTitle } from "@/lib/sharedAnswers";
+
+type PrintableAnswerProps = {
+  question: string;
+  answer: string;
+  sources: SourceCard[];
+  citations?: Citation[];
+  language: string;
+  generatedAt: Date;
+};
+
+const printOrder: TabKey[] = ["summary", "eligibility", "documents", "apply"];
+
+const printComponents = {
+  h1: (props: React.HTMLAttributes<HTMLHeadingElement>) => <h3 className="mb-2 mt-4 text-[13pt] font-semibold" {...props} />,
+  h2: (props: React.HTMLAttributes<HTMLHeadingElement>) => <h3 className="mb-2 mt-4 text-[13pt] font-semibold" {...props} />,
+  h3: (props: React.HTMLAttributes<HTMLHeadingElement>) => <h4 className="mb-1 mt-3 text-[12pt] font-semibold" {...props} />,
+  p: (props: React.HTMLAttributes<HTMLParagraphElement>) => <p className="my-2 leading-relaxed" {...props} />,
+  ul: (props: React.HTMLAttributes<HTMLUListElement>) => <ul className="my-2 list-disc space-y-1 ps-6" {...props} />,
+  ol: (props: React.HTMLAttributes<HTMLOListElement>) => <ol className="my-2 list-decimal space-y-1 ps-6" {...props} />,
+  a: (props: React.AnchorHTMLAttributes<HTMLAnchorElement>) =>
+    props.href?.startsWith("#src-") ? <sup>[{props.children}]</sup> : <a className="underline" {...props} />,
+  table: (props: React.HTMLAttributes<HTMLTableElement>) => <table className="my-3 w-full border-collapse text-start text-[10pt]" {...props} />,
+  th: (props: React.HTMLAttributes<HTMLTableCellElement>) => <th className="border border-slate-400 p-1.5 font-semibold" {...props} />,
+  td: (props: React.HTMLAttributes<HTMLTableCellElement>) => <td className="border border-slate-400 p-1.5" {...props} />,
+};
+
+// Print-only rendering of one answer; the rest of the app is hidden with `print:hidden` while it is mounted.
+export default function PrintableAnswer({ question, answer, sources, citations, language, generatedAt }: PrintableAnswerProps) {
+  const t = createTranslator(language);
+  const locale = getLocale(language);
+  const sections = extractSections(renderCitations(answer, sources, citations));
+  const ordered = printOrder
+    .map((key) => sections.find((section) => section.key === key))
+    .filter((section): section is Section => Boolean(section));
+  const printable = ordered.length ? ordered : sections;
+  const documents = parseDocumentsChecklist(extractSections(answer).find((section) => section.key === "documents")?.content || "");
+  const generatedOn = generatedAt.toLocaleDateString(locale.bcp47, { day: "numeric", month: "long", year: "numeric" });
+
+  return (
+    <div lang={locale.bcp47} dir={locale.dir} className="hidden bg-white text-[11pt] text-black print:block">
+      <header className="border-b border-slate-400 pb-3">
+        <p className="text-[10pt] font-semibold text-[#B85A2E]">JanInfra</p>
+        <h1 className="mt-1 text-[18pt] font-bold leading-tight">{deriveSchemeTitle(answer, question)}</h1>
+        <p className="mt-1 text-[9pt] text-slate-600">{t("print.generatedOn", { date: generatedOn })}</p>
+        <p className="mt-2 text-[10pt] italic">{question}</p>
+      </header>
+
+      {printable.map((section, idx) => (
+        <section key={`${section.key}-${idx}`} className="mt-4 break-inside-avoid-page">
+          <h2 className="text-[14pt] font-bold">{section.key === "other" ? section.title : t(`answer.tab.${section.key}`)}</h2>
+          <ReactMarkdown remarkPlugins={[remarkGfm]} components={printComponents}>
+            {section.content}
+          </ReactMarkdown>
+        </section>
+      ))}
+
+      {documents.length > 0 && (
+        <section className="mt-6 break-inside-avoid-page rounded border border-slate-400 p-3">
+          <h2 className="text-[14pt] font-bold">{t("print.checklist")}</h2>
+          <ul className="mt-2 space-y-2">
+            {documents.map((item) => (
+              <li key={item.key} className="flex items-start gap-2">
+                <span aria-hidden="true" className="mt-[3px] inline-block h-3.5 w-3.5 shrink-0 border border-black" />
+                <span>
+                  {item.name} <span className="text-[9pt] text-slate-600">({item.mandatory ? t("documents.required") : t("documents.optional")})</span>
+                  {item.notes && <span className="block text-[9pt] text-slate-600">{item.notes}</span>}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      {sources.length > 0 && (
+        <section className="mt-6 break-inside-avoid-page">
+          <h2 className="text-[14pt] font-bold">{t("answer.sources")}</h2>
+          <ol className="mt-2 list-decimal space-y-1 ps-6 text-[9pt]">
+            {sources.map((source, idx) => (
+              <li key={`${source.url}-${idx}`}>
+                {source.title} — <span dir="ltr" className="break-all">{source.url}</span>
+              </li>
+            ))}
+          </ol>
+        </section>
+      )}
+
+      <p className="mt-6 border-t border-slate-400 pt-2 text-[8pt] text-slate-600">{t("permalink.disclaimer")}</p>
+    </div>
+  );
+}
@@ -0,0 +1,170 @@
+"use client";
+
+import { createTranslator } from "@/lib/i18n";
+import {
+  categoryOptions,
+  genderOptions,
+  occupationOptions,
+  stateOptions,
+  type EligibilityProfile,
+  type Gender,
+  type SocialCategory,
+} from "@/lib/profile";
+
+type ProfilePanelProps = {
+  profile: EligibilityProfile;
+  language: string;
+  isDark?: boolean;
+  autoFilled?: boolean;
+  onChange: (next: EligibilityProfile) => void;
+  onClose: () => void;
+};
+
+export default function ProfilePanel({ profile, language, isDark = false, autoFilled = false, onChange, onClose }: ProfilePanelProps) {
+  const t = createTranslator(language);
+  const update = <K extends keyof EligibilityProfile>(key: K, value: EligibilityProfile[K]) => {
+    const next = { ...profile };
+    if (value === undefined || value === "") delete next[key];
+    else next[key] = value;
+    onChange(next);
+  };
+
+  const parseNumber = (raw: string) => {
+    if (!raw.trim()) return undefined;
+    const value = Number(raw);
+    return Number.isFinite(value) && value >= 0 ? Math.round(value) : undefined;
+  };
+
+  const fieldClass = `h-10 w-full rounded-lg border px-3 text-sm outline-none transition-colors duration-150 ${isDark
+    ? "border-[var(--ji-border)] bg-[var(--ji-surface-muted)] text-stone-100 focus:border-[var(--ji-border-strong)]"
+    : "border-slate-200 bg-slate-50 text-slate-800 focus:border-slate-300"
+    }`;
+  const labelClass = `mb-1 block text-[11px] font-medium uppercase tracking-[0.1em] ${isDark ? "text-stone-500" : "text-slate-400"}`;
+  const checkClass = `flex items-center gap-2 text-sm ${isDark ? "text-stone-300" : "text-slate-700"}`;
+
+  return (
+    <div className="absolute inset-0 z-50 flex items-center justify-center px-4">
+      <button onClick={onClose} className="absolute inset-0 bg-black/35 backdrop-blur-[5px]" aria-label={t("profile.close")} />
+      <div
+        role="dialog"
+        aria-label={t("profile.label")}
+        className={`relative max-h-[88vh] w-full max-w-lg overflow-y-auto rounded-3xl border p-6 shadow-[0_16px_40px_rgba(15,23,42,0.16)] ${isDark ? "border-[var(--ji-border)] bg-[var(--ji-surface)]" : "border-slate-200 bg-white"}`}
+      >
+        <p className={`text-xs font-semibold tracking-[0.16em] ${isDark ? "text-[var(--ji-brand-muted)]" : "text-[#C05020]"}`}>{t("profile.eyebrow")}</p>
+        <h2 className="mt-2 text-2xl font-semibold">{t("profile.title")}</h2>
+        <p className={`mt-2 text-sm ${isDark ? "text-stone-300" : "text-slate-600"}`}>
+          {t("profile.body")}
+        </p>
+        {autoFilled && (
+          <div className={`mt-3 rounded-md p-3 text-sm ${isDark ? "bg-blue-900/30 text-blue-300" : "bg-blue-50 text-blue-800"}`}>
+            {t("profile.autoFilled")}
+          </div>
+        )}
+
+        <div className="mt-5 grid grid-cols-1 gap-4 sm:grid-cols-2">
+          <label>
+            <span className={labelClass}>{t("profile.age")}</span>
+            <input
+              type="number"
+              min={0}
+              max={119}
+              inputMode="numeric"
+              value={profile.age ?? ""}
+              onChange={(e) => update("age", parseNumber(e.target.value))}
+              className={fieldClass}
+            />
+          </label>
+          <label>
+            <span className={labelClass}>{t("profile.gender")}</span>
+            <select value={profile.gender ?? ""} onChange={(e) => update("gender", (e.target.value || undefined) as Gender | undefined)} className={fieldClass}>
+              <option value="">{t("profile.notSet")}</option>
+              {genderOptions.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {t(`profile.gender.${option.value}`)}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label>
+            <span className={labelClass}>{t("profile.state")}</span>
+            <select value={profile.state ?? ""} onChange={(e) => update("state", e.target.value || undefined)} className={fieldClass}>
+              <option value="">{t("profile.notSet")}</option>
+              {stateOptions.map((state) => (
+                <option key={state} value={state}>
+                  {state}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label>
+            <span className={labelClass}>{t("profile.category")}</span>
+            <select
+              value={profile.category ?? ""}
+              onChange={(e) => update("category", (e.target.value || undefined) as SocialCategory | undefined)}
+              className={fieldClass}
+            >
+              <option value="">{t("profile.notSet")}</option>
+              {categoryOptions.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label>
+            <span className={labelClass}>{t("profile.occupation")}</span>
+            <input
+              list="profile-occupations"
+              value={profile.occupation ?? ""}
+              onChange={(e) => update("occupation", e.target.value || undefined)}
+              className={fieldClass}
+            />
+            <datalist id="profile-occupations">
+              {occupationOptions.map((occupation) => (
+                <option key={occupation} value={occupation} />
+              ))}
+            </datalist>
+          </label>
+          <label>
+            <span className={labelClass}>{t("profile.income")}</span>
+            <input
+              type="number"
+              min={0}
+              step={1000}
+              inputMode="numeric"
+              value={profile.annualIncome ?? ""}
+              onChange={(e) => update("annualIncome", parseNumber(e.target.value))}
+              className={fieldClass}
+            />
+          </label>
+        </div>
+
+        <div className="mt-4 flex flex-wrap gap-5">
+          <label className={checkClass}>
+            <input type="checkbox" checked={profile.disability === true} onChange={(e) => update("disability", e.target.checked || undefined)} className="h-4 w-4 accent-[var(--ji-brand)]" />
+            {t("profile.disability")}
+          </label>
+          <label className={checkClass}>
+            <input type="checkbox" checked={profile.student === true} onChange={(e) => update("student", e.target.checked || undefined)} className="h-4 w-4 accent-[var(--ji-brand)]" />
+            {t("profile.student")}
+          </label>
+        </div>
+
+        <div className="mt-6 flex items-center justify-between gap-2">
+          <button
+            onClick={() => onChange({})}
+            className={`rounded-lg px-3 py-2 text-sm transition-colors duration-150 ${isDark ? "text-stone-400 hover:bg-[var(--ji-surface-muted)]" : "text-slate-500 hover:bg-black/[0.04]"}`}
+          >
+            {t("profile.clear")}
+          </button>
+          <button
+            onClick={onClose}
+            className="inline-flex h-10 items-center rounded-xl bg-[var(--ji-brand)] px-5 text-sm font-medium text-white transition-colors duration-200 hover:bg-[var(--ji-brand-strong)]"
+          >
+            {t("profile.done")}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
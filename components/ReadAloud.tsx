@@ -0,0 +1,130 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import { createTranslator } from "@/lib/i18n";
+import { getLocale } from "@/lib/locales";
+import { speechSentences } from "@/lib/readAloud";
+import { playSentences, type SpeechPlayback } from "@/lib/speechPlayback";
+
+type ReadAloudProps = {
+  text: string;
+  speechLanguage: string;
+  language: string;
+  isDark?: boolean;
+};
+
+type Status = "idle" | "loading" | "playing" | "paused";
+
+function SpeakerIcon({ className }: { className?: string }) {
+  return (
+    <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.8" className={className}>
+      <path d="M4 9.5h3.5L12 5v14l-4.5-4.5H4zM15.5 9a4 4 0 0 1 0 6M18 6.5a7.5 7.5 0 0 1 0 11" />
+    </svg>
+  );
+}
+
+export default function ReadAloud({ text, speechLanguage, language, isDark = false }: ReadAloudProps) {
+  const t = createTranslator(language);
+  const locale = getLocale(speechLanguage);
+  const sentences = useMemo(() => speechSentences(text), [text]);
+  const [status, setStatus] = useState<Status>("idle");
+  const [current, setCurrent] = useState(-1);
+  const [error, setError] = useState<string | null>(null);
+  const playbackRef = useRef<SpeechPlayback | null>(null);
+  const currentRef = useRef<HTMLLIElement | null>(null);
+
+  useEffect(() => () => playbackRef.current?.stop(), []);
+
+  useEffect(() => {
+    currentRef.current?.scrollIntoView({ block: "nearest" });
+  }, [current]);
+
+  const start = async () => {
+    setError(null);
+    setStatus("loading");
+    const playback = playSentences(sentences, speechLanguage, {
+      onSentence: setCurrent,
+      onLoading: (loading) => setStatus((prev) => (prev === "paused" ? prev : loading ? "loading" : "playing")),
+    });
+    playbackRef.current = playback;
+    try {
+      const outcome = await playback.done;
+      if (outcome === "unavailable") setError(t("readAloud.unavailable"));
+    } catch {
+      setError(t("readAloud.failed"));
+    } finally {
+      if (playbackRef.current === playback) {
+        playbackRef.current = null;
+        setStatus("idle");
+        setCurrent(-1);
+      }
+    }
+  };
+
+  const stop = () => playbackRef.current?.stop();
+
+  const togglePause = () => {
+    const playback = playbackRef.current;
+    if (!playback) return;
+    if (status === "paused") {
+      playback.resume();
+      setStatus("playing");
+    } else {
+      playback.pause();
+      setStatus("paused");
+    }
+  };
+
+  if (!sentences.length) return null;
+
+  const active = status !== "idle";
+
+  return (
+    <>
+      <button
+        onClick={() => (active ? stop() : void start())}
+        aria-pressed={active}
+        aria-label={active ? t("readAloud.stop") : t("readAloud.start")}
+        title={active ? t("readAloud.stop") : t("readAloud.start")}
+        className={`inline-flex items-center rounded-md border p-2 text-xs transition-all duration-200 ${active
+          ? "border-[var(--ji-brand)] bg-[var(--ji-brand-soft)] text-[var(--ji-brand-strong)]"
+          : isDark ? "border-[var(--ji-border)] bg-[var(--ji-surface)] text-stone-300 hover:border-[var(--ji-border-strong)]" : "border-slate-200 bg-slate-50 text-slate-600 hover:border-slate-300"
+          }`}
+      >
+        <SpeakerIcon className="h-3.5 w-3.5" />
+      </button>
+      {error && <span role="alert" className={`text-[11px] ${isDark ? "text-rose-300" : "text-rose-600"}`}>{error}</span>}
+
+      {active && (
+        <div className={`basis-full rounded-xl border p-3 ${isDark ? "border-[var(--ji-border)] bg-[var(--ji-surface-muted)]" : "border-slate-200 bg-slate-50"}`}>
+          <div className="mb-2 flex items-center gap-2">
+            <button
+              onClick={togglePause}
+              className="inline-flex h-8 items-center rounded-lg bg-[var(--ji-brand)] px-3 text-xs font-medium text-white transition-colors duration-200 hover:bg-[var(--ji-brand-strong)] disabled:opacity-50"
+            >
+              {status === "paused" ? t("readAloud.resume") : t("readAloud.pause")}
+            </button>
+            <button onClick={stop} className={`h-8 rounded-lg px-3 text-xs ${isDark ? "text-stone-300 hover:bg-white/[0.06]" : "text-slate-600 hover:bg-black/[0.04]"}`}>
+              {t("readAloud.stop")}
+            </button>
+            <span className={`ms-auto text-[11px] ${isDark ? "text-stone-500" : "text-slate-400"}`} aria-live="polite">
+              {status === "loading" ? t("readAloud.loading") : t("readAloud.progress", { current: current + 1, total: sentences.length })}
+            </span>
+          </div>
+          <ol lang={locale.bcp47} dir={locale.dir} className={`max-h-40 space-y-1 overflow-y-auto text-sm leading-6 ${isDark ? "text-stone-400" : "text-slate-500"}`}>
+            {sentences.map((sentence, index) => (
+              <li
+                key={index}
+                ref={index === current ? currentRef : undefined}
+                aria-current={index === current ? "true" : undefined}
+                className={`rounded-md px-2 py-0.5 ${index === current ? `bg-[var(--ji-brand-soft)] ${isDark ? "text-stone-100" : "text-slate-900"}` : ""}`}
+              >
+                {sentence}
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+    </>
+  );
+}
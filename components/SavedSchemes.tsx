@@ -0,0 +1,154 @@
+"use client";
+
+import { useState } from "react";
+import ReactMarkdown from "react-markdown";
+import remarkGfm from "remark-gfm";
+import { markdownComponents } from "@/components/markdownComponents";
+import SourceCards from "@/components/SourceCards";
+import { extractSections, type TabKey } from "@/lib/answerSections";
+import type { Bookmark } from "@/lib/bookmarks";
+import { renderCitations } from "@/lib/citations";
+import { createTranslator } from "@/lib/i18n";
+import { getLocale } from "@/lib/locales";
+
+type SavedSchemesProps = {
+  bookmarks: Bookmark[];
+  language: string;
+  isDark?: boolean;
+  onUpdate: (bookmark: Bookmark) => void;
+  onRemove: (id: string) => void;
+  onOpenConversation?: (conversationId: string) => void;
+  onClose: () => void;
+};
+
+const tabOrder: TabKey[] = ["summary", "eligibility", "documents", "apply"];
+
+export default function SavedSchemes({ bookmarks, language, isDark = false, onUpdate, onRemove, onOpenConversation, onClose }: SavedSchemesProps) {
+  const t = createTranslator(language);
+  const locale = getLocale(language);
+  const [openId, setOpenId] = useState<string | null>(null);
+  const [activeTab, setActiveTab] = useState<TabKey>("summary");
+  const [draftNotes, setDraftNotes] = useState("");
+  const muted = isDark ? "text-stone-500" : "text-slate-400";
+
+  const renderDetail = (bookmark: Bookmark) => {
+    const cited = renderCitations(bookmark.answer, bookmark.sources, bookmark.citations);
+    const sections = extractSections(cited);
+    const tabs = tabOrder.filter((key) => sections.some((section) => section.key === key));
+    const tab = tabs.includes(activeTab) ? activeTab : tabs[0];
+    const content = tabs.length >= 2 ? sections.find((section) => section.key === tab)?.content || cited : cited;
+
+    return (
+      <div className="mt-3 space-y-3">
+        {tabs.length >= 2 && (
+          <div className="flex flex-wrap gap-2">
+            {tabs.map((key) => (
+              <button
+                key={key}
+                onClick={() => setActiveTab(key)}
+                className={`rounded-full border px-3 py-1 text-xs ${key === tab
+                  ? isDark ? "border-[var(--ji-border-strong)] bg-[var(--ji-surface-muted)] text-stone-100" : "border-slate-300 bg-slate-100 text-slate-900"
+                  : isDark ? "border-[var(--ji-border)] text-stone-300" : "border-slate-200 text-slate-600"
+                  }`}
+              >
+                {t(`answer.tab.${key}`)}
+              </button>
+            ))}
+          </div>
+        )}
+        <div className={`prose max-w-none text-sm ${isDark ? "prose-invert" : ""}`}>
+          <ReactMarkdown remarkPlugins={[remarkGfm]} components={markdownComponents(isDark, bookmark.sources)}>
+            {content}
+          </ReactMarkdown>
+        </div>
+        {bookmark.sources.length > 0 && (
+          <div>
+            <p className={`mb-2 text-[11px] font-medium uppercase tracking-[0.1em] ${muted}`}>{t("answer.sources")}</p>
+            <SourceCards sources={bookmark.sources} language={language} isDark={isDark} />
+          </div>
+        )}
+        <label className="block">
+          <span className={`mb-1 block text-[11px] font-medium uppercase tracking-[0.1em] ${muted}`}>{t("bookmark.notes")}</span>
+          <textarea
+            value={draftNotes}
+            onChange={(e) => setDraftNotes(e.target.value)}
+            onBlur={() => {
+              if (draftNotes.trim() !== (bookmark.notes || "")) {
+                onUpdate({ ...bookmark, notes: draftNotes.trim() || undefined, updatedAt: new Date().toISOString() });
+              }
+            }}
+            rows={3}
+            placeholder={t("bookmark.notesPlaceholder")}
+            className={`w-full rounded-lg border px-2 py-1.5 text-sm outline-none ${isDark ? "border-[var(--ji-border)] bg-[var(--ji-surface-muted)] text-stone-100" : "border-slate-200 bg-slate-50 text-slate-800"}`}
+          />
+        </label>
+        <div className="flex flex-wrap gap-2">
+          {onOpenConversation && (
+            <button
+              onClick={() => onOpenConversation(bookmark.conversationId)}
+              className="inline-flex h-8 items-center rounded-lg bg-[var(--ji-brand)] px-3 text-xs font-medium text-white transition-colors duration-200 hover:bg-[var(--ji-brand-strong)]"
+            >
+              {t("bookmark.openConversation")}
+            </button>
+          )}
+          <button
+            onClick={() => onRemove(bookmark.id)}
+            className={`inline-flex h-8 items-center rounded-lg px-3 text-xs transition-colors duration-150 ${isDark ? "text-rose-300 hover:bg-white/[0.06]" : "text-rose-600 hover:bg-black/[0.04]"}`}
+          >
+            {t("bookmark.remove")}
+          </button>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="absolute inset-0 z-50 flex justify-end">
+      <button onClick={onClose} className="absolute inset-0 bg-black/25 backdrop-blur-[3px]" aria-label={t("bookmark.close")} />
+      <aside
+        aria-label={t("bookmark.title")}
+        className={`relative flex h-full w-full max-w-lg flex-col border-s shadow-xl ${isDark ? "border-[var(--ji-border)] bg-[var(--ji-surface)]" : "border-slate-200 bg-white"}`}
+      >
+        <div className="flex items-center justify-between px-4 pb-2 pt-4">
+          <p className={`text-[11px] font-medium uppercase tracking-[0.1em] ${muted}`}>{t("bookmark.title")}</p>
+          <button
+            onClick={onClose}
+            className={`inline-flex h-7 w-7 items-center justify-center rounded-md transition-colors duration-150 ${isDark ? "text-stone-400 hover:bg-white/[0.08]" : "text-slate-400 hover:bg-black/[0.05]"}`}
+            aria-label={t("bookmark.close")}
+          >
+            <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.8" className="h-4 w-4"><path d="M6 6l12 12M18 6L6 18" /></svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-2 pb-4">
+          {bookmarks.length === 0 ? (
+            <p className={`px-2 py-6 text-center text-sm ${muted}`}>{t("bookmark.empty")}</p>
+          ) : (
+            <ul className="space-y-1">
+              {bookmarks.map((bookmark) => (
+                <li key={bookmark.id} className={`rounded-lg px-2 py-2 ${bookmark.id === openId ? (isDark ? "bg-white/[0.03]" : "bg-black/[0.02]") : ""}`}>
+                  <button
+                    onClick={() => {
+                      setOpenId(bookmark.id === openId ? null : bookmark.id);
+                      setActiveTab("summary");
+                      setDraftNotes(bookmark.notes || "");
+                    }}
+                    className="w-full text-start"
+                    aria-expanded={bookmark.id === openId}
+                  >
+                    <p className={`truncate text-sm font-medium ${isDark ? "text-stone-100" : "text-slate-800"}`}>{bookmark.title}</p>
+                    <p className={`mt-0.5 truncate text-[11px] ${muted}`}>
+                      {t("bookmark.savedOn", { date: new Date(bookmark.createdAt).toLocaleDateString(locale.bcp47, { day: "numeric", month: "short", year: "numeric" }) })}
+                      {bookmark.notes && ` · ${bookmark.notes}`}
+                    </p>
+                  </button>
+                  {bookmark.id === openId && renderDetail(bookmark)}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </aside>
+    </div>
+  );
+}
@@ -0,0 +1,92 @@
+import type { ReactNode } from "react";
+import { createTranslator } from "@/lib/i18n";
+import type { SchemeSummary } from "@/lib/schemeComparison";
+import { extractHostname } from "@/lib/sources";
+
+type SchemeComparisonProps = {
+  schemes: SchemeSummary[];
+  language: string;
+  isDark?: boolean;
+  onRemove: (scheme: SchemeSummary) => void;
+  onClose: () => void;
+};
+
+export default function SchemeComparison({ schemes, language, isDark = false, onRemove, onClose }: SchemeComparisonProps) {
+  const t = createTranslator(language);
+  const muted = isDark ? "text-stone-500" : "text-slate-400";
+  const cellClass = `border-t px-3 py-2.5 align-top ${isDark ? "border-[var(--ji-border)]" : "border-slate-100"}`;
+  const labelClass = `${cellClass} sticky start-0 z-10 w-32 min-w-32 text-[11px] font-medium uppercase tracking-[0.08em] ${muted} ${isDark ? "bg-[var(--ji-surface)]" : "bg-white"}`;
+  const empty = <span className={muted}>—</span>;
+  const list = (items: string[]) =>
+    items.length ? (
+      <ul className="list-disc space-y-1 ps-4">
+        {items.map((item, index) => <li key={`${index}-${item}`}>{item}</li>)}
+      </ul>
+    ) : empty;
+
+  const rows: Array<{ label: string; render: (scheme: SchemeSummary) => ReactNode }> = [
+    { label: t("compare.benefit"), render: (scheme) => scheme.benefit || empty },
+    { label: t("compare.eligibility"), render: (scheme) => list(scheme.eligibility) },
+    { label: t("compare.documents"), render: (scheme) => list(scheme.documents) },
+    { label: t("compare.mode"), render: (scheme) => (scheme.applicationMode ? t(`compare.mode.${scheme.applicationMode}`) : empty) },
+    {
+      label: t("compare.officialLink"),
+      render: (scheme) =>
+        scheme.officialLink ? (
+          <a href={scheme.officialLink.url} target="_blank" rel="noreferrer" className={`break-all underline underline-offset-2 ${isDark ? "text-sky-300" : "text-blue-700"}`}>
+            {extractHostname(scheme.officialLink.url)}
+          </a>
+        ) : empty,
+    },
+  ];
+
+  return (
+    <div className="absolute inset-0 z-50 flex items-end justify-center md:items-center md:px-6">
+      <button onClick={onClose} className="absolute inset-0 bg-black/25 backdrop-blur-[3px]" aria-label={t("compare.close")} />
+      <div
+        role="dialog"
+        aria-label={t("compare.title")}
+        className={`relative flex max-h-[90%] w-full max-w-5xl flex-col rounded-t-2xl border shadow-xl md:rounded-2xl ${isDark ? "border-[var(--ji-border)] bg-[var(--ji-surface)] text-stone-200" : "border-slate-200 bg-white text-slate-700"}`}
+      >
+        <div className="flex items-center justify-between px-4 pb-2 pt-4">
+          <p className={`text-[11px] font-medium uppercase tracking-[0.1em] ${muted}`}>{t("compare.title")}</p>
+          <button
+            onClick={onClose}
+            className={`inline-flex h-7 w-7 items-center justify-center rounded-md transition-colors duration-150 ${isDark ? "text-stone-400 hover:bg-white/[0.08]" : "text-slate-400 hover:bg-black/[0.05]"}`}
+            aria-label={t("compare.close")}
+          >
+            <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.8" className="h-4 w-4"><path d="M6 6l12 12M18 6L6 18" /></svg>
+          </button>
+        </div>
+
+        <div className="overflow-auto px-1 pb-4">
+          <table className="w-full border-separate border-spacing-0 text-start text-xs leading-5">
+            <thead>
+              <tr>
+                <th className={`sticky start-0 z-10 w-32 min-w-32 ${isDark ? "bg-[var(--ji-surface)]" : "bg-white"}`} />
+                {schemes.map((scheme) => (
+                  <th key={scheme.id} scope="col" className="min-w-48 px-3 pb-2 text-start align-bottom">
+                    <span className={`block text-sm font-semibold ${isDark ? "text-stone-100" : "text-slate-900"}`}>{scheme.title}</span>
+                    <button onClick={() => onRemove(scheme)} className={`mt-0.5 text-[11px] font-normal hover:underline ${muted}`}>
+                      {t("compare.remove")}
+                    </button>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row) => (
+                <tr key={row.label}>
+                  <th scope="row" className={`${labelClass} text-start`}>{row.label}</th>
+                  {schemes.map((scheme) => (
+                    <td key={scheme.id} className={cellClass}>{row.render(scheme)}</td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
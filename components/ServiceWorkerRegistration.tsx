@@ -0,0 +1,20 @@
+"use client";
+
+import { useEffect } from "react";
+
+// Development builds change on every save, so the worker is only registered in production.
+export default function ServiceWorkerRegistration() {
+  useEffect(() => {
+    if (process.env.NODE_ENV !== "production" || !("serviceWorker" in navigator)) return;
+    navigator.serviceWorker
+      .register("/sw.js")
+      .then(() => navigator.serviceWorker.ready)
+      .then((registration) => {
+        const urls = performance.getEntriesByType("resource").map((entry) => entry.name).filter((url) => url.startsWith(window.location.origin));
+        registration.active?.postMessage({ type: "cache-urls", urls });
+      })
+      .catch(() => undefined);
+  }, []);
+
+  return null;
+}
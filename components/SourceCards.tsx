@@ -0,0 +1,63 @@
+import type { SourceCard } from "@/lib/chatTypes";
+import { isGuidelinePdf } from "@/lib/guidelinePdf";
+import { createTranslator } from "@/lib/i18n";
+import { getLocale } from "@/lib/locales";
+import { extractHostname } from "@/lib/sources";
+import { rankSources } from "@/lib/sourceTrust";
+
+type SourceCardsProps = {
+  sources: SourceCard[];
+  language: string;
+  isDark?: boolean;
+  onOpenPdf?: (source: SourceCard) => void;
+};
+
+export default function SourceCards({ sources, language, isDark = false, onOpenPdf }: SourceCardsProps) {
+  const t = createTranslator(language);
+  const locale = getLocale(language);
+  const formatDate = (value: string) => new Date(value).toLocaleDateString(locale.bcp47, { day: "numeric", month: "short", year: "numeric" });
+
+  return (
+    <div className="grid gap-2 sm:grid-cols-2">
+      {rankSources(sources).map(({ source, position, trust }) => {
+        const viewable = Boolean(onOpenPdf) && isGuidelinePdf(source);
+        return (
+          <a
+            key={`${source.url}-${position}`}
+            id={`src-${position}`}
+            href={source.url}
+            target="_blank"
+            rel="noreferrer"
+            onClick={viewable ? (e) => {
+              e.preventDefault();
+              onOpenPdf?.(source);
+            } : undefined}
+            className={`group rounded-xl border p-3 transition-colors duration-200 ${isDark ? "border-[var(--ji-border)] bg-[var(--ji-surface)] hover:bg-white/[0.04]" : "border-slate-200 bg-white hover:bg-black/[0.02]"}`}
+          >
+            <p className={`line-clamp-1 text-xs font-semibold transition-colors duration-200 ${isDark ? "text-stone-200 group-hover:text-sky-300" : "text-slate-800 group-hover:text-blue-700"}`}>[{position}] {source.title}</p>
+            <p className={`mt-0.5 text-[11px] ${isDark ? "text-stone-400" : "text-slate-500"}`}>
+              {trust.official && <span className="me-1 text-emerald-600" aria-hidden="true">✓</span>}
+              {extractHostname(source.url)} · {t(`sources.kind.${trust.kind}`)}
+              {trust.guideline && ` · ${t("sources.guideline")}`}
+              {trust.lastUpdated && ` · ${t("sources.updated", { date: formatDate(trust.lastUpdated) })}`}
+            </p>
+            {(!trust.official || trust.stale || viewable) && (
+              <p className="mt-1 flex flex-wrap gap-1">
+                {!trust.official && (
+                  <span className={`rounded px-1.5 py-0.5 text-[10px] font-medium ${isDark ? "bg-amber-400/10 text-amber-300" : "bg-amber-50 text-amber-700"}`}>{t("sources.unofficial")}</span>
+                )}
+                {viewable && (
+                  <span className={`rounded px-1.5 py-0.5 text-[10px] font-medium ${isDark ? "bg-[var(--ji-brand-soft)] text-[var(--ji-brand-muted)]" : "bg-[var(--ji-brand-soft)] text-[var(--ji-brand-strong)]"}`}>{t("pdf.view")}</span>
+                )}
+                {trust.stale && (
+                  <span className={`rounded px-1.5 py-0.5 text-[10px] font-medium ${isDark ? "bg-rose-400/10 text-rose-300" : "bg-rose-50 text-rose-700"}`}>{t("sources.stale")}</span>
+                )}
+              </p>
+            )}
+            {source.snippet && <p className={`mt-1.5 line-clamp-2 text-xs leading-5 ${isDark ? "text-stone-400" : "text-slate-600"}`}>{source.snippet}</p>}
+          </a>
+        );
+      })}
+    </div>
+  );
+}
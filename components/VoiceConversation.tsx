@@ -0,0 +1,183 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import VoiceRecorder from "@/components/VoiceRecorder";
+import { extractSections } from "@/lib/answerSections";
+import { createTranslator } from "@/lib/i18n";
+import { speechSentences } from "@/lib/readAloud";
+import { playSentences, type SpeechPlayback } from "@/lib/speechPlayback";
+import { createBargeInDetector, monitorInputLevel } from "@/lib/voiceActivity";
+
+type VoiceConversationProps = {
+  language: string;
+  isDark?: boolean;
+  // Sends the question and resolves with the answer text, or null when there is nothing to read back.
+  onQuestion: (question: string) => Promise<string | null>;
+  onClose: () => void;
+};
+
+type Phase = "listening" | "thinking" | "speaking" | "paused";
+
+// Only the summary is spoken; the full answer stays on screen.
+const spokenPart = (answer: string) => {
+  const sections = extractSections(answer);
+  return (sections.find((section) => section.key === "summary") || sections[0])?.content || answer;
+};
+
+export default function VoiceConversation({ language, isDark = false, onQuestion, onClose }: VoiceConversationProps) {
+  const t = createTranslator(language);
+  const [phase, setPhase] = useState<Phase>("listening");
+  const [turn, setTurn] = useState(0);
+  const [heard, setHeard] = useState("");
+  const [caption, setCaption] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const closedRef = useRef(false);
+  const playbackRef = useRef<SpeechPlayback | null>(null);
+  const stopBargeInRef = useRef<(() => void) | null>(null);
+
+  useEffect(() => {
+    closedRef.current = false;
+    return () => {
+      closedRef.current = true;
+      playbackRef.current?.stop();
+      stopBargeInRef.current?.();
+    };
+  }, []);
+
+  const listenAgain = () => {
+    if (closedRef.current) return;
+    setError(null);
+    setCaption("");
+    setPhase("listening");
+    setTurn((prev) => prev + 1);
+  };
+
+  // Talking over the answer stops it, the same as pressing "Interrupt".
+  const watchForBargeIn = async () => {
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: { echoCancellation: true, noiseSuppression: true } });
+      const detect = createBargeInDetector();
+      const stopMonitor = monitorInputLevel(stream, (level) => {
+        if (detect(level)) playbackRef.current?.stop();
+      });
+      const stop = () => {
+        stopMonitor?.();
+        stream.getTracks().forEach((track) => track.stop());
+      };
+      if (!playbackRef.current) stop();
+      else stopBargeInRef.current = stop;
+    } catch {
+      // Without a mic stream the "Interrupt" button is still there.
+    }
+  };
+
+  const speak = async (answer: string) => {
+    const sentences = speechSentences(spokenPart(answer));
+    if (!sentences.length) return;
+    setPhase("speaking");
+    const playback = playSentences(sentences, language, { onSentence: (index) => setCaption(sentences[index]) });
+    playbackRef.current = playback;
+    void watchForBargeIn();
+    try {
+      const outcome = await playback.done;
+      if (outcome === "unavailable") setError(t("readAloud.unavailable"));
+    } catch {
+      setError(t("readAloud.failed"));
+    } finally {
+      playbackRef.current = null;
+      stopBargeInRef.current?.();
+      stopBargeInRef.current = null;
+    }
+  };
+
+  const handleTranscription = async (text: string) => {
+    const question = text.trim();
+    if (!question) {
+      listenAgain();
+      return;
+    }
+    setHeard(question);
+    setPhase("thinking");
+    const answer = await onQuestion(question);
+    if (closedRef.current) return;
+    if (answer) await speak(answer);
+    listenAgain();
+  };
+
+  const handleError = (message: string) => {
+    if (closedRef.current) return;
+    setError(message);
+    setPhase("paused");
+  };
+
+  const phaseLabel = {
+    listening: t("voiceMode.listening"),
+    thinking: t("voiceMode.thinking"),
+    speaking: t("voiceMode.speaking"),
+    paused: t("voiceMode.paused"),
+  }[phase];
+
+  return (
+    <div
+      role="dialog"
+      aria-label={t("voiceMode.title")}
+      className={`absolute inset-x-3 bottom-3 z-50 mx-auto max-w-md rounded-2xl border p-4 shadow-xl md:bottom-6 ${isDark ? "border-[var(--ji-border)] bg-[var(--ji-surface-raised)] text-stone-200" : "border-slate-200 bg-white text-slate-700"}`}
+    >
+      <div className="flex items-center gap-3">
+        <span
+          className={`relative inline-flex h-10 w-10 shrink-0 items-center justify-center rounded-full ${phase === "listening"
+            ? isDark ? "bg-[var(--ji-danger-surface)] text-[var(--ji-danger-text)]" : "bg-rose-50 text-rose-600"
+            : "bg-[var(--ji-brand-soft)] text-[var(--ji-brand-strong)]"
+            }`}
+          aria-hidden="true"
+        >
+          {phase !== "paused" && <span className="absolute inset-0 animate-ping rounded-full bg-current opacity-15" />}
+          <span className={`h-3 w-3 rounded-full bg-current ${phase === "thinking" ? "animate-pulse" : ""}`} />
+        </span>
+        <div className="min-w-0 flex-1">
+          <p className="text-sm font-semibold" aria-live="polite">{phaseLabel}</p>
+          <p className={`truncate text-xs ${isDark ? "text-stone-400" : "text-slate-500"}`}>
+            {error || (phase === "speaking" ? caption : heard) || t("voiceMode.hint")}
+          </p>
+        </div>
+        <button
+          onClick={onClose}
+          className={`h-8 shrink-0 rounded-lg px-3 text-xs ${isDark ? "hover:bg-white/[0.06]" : "hover:bg-black/[0.04]"}`}
+        >
+          {t("voiceMode.end")}
+        </button>
+      </div>
+
+      <div className="mt-3 flex items-center justify-end gap-2">
+        {phase === "listening" && (
+          <VoiceRecorder
+            key={turn}
+            language={language}
+            isDark={isDark}
+            streaming={false}
+            autoStart
+            stopOnSilence
+            onError={handleError}
+            onTranscription={(text) => void handleTranscription(text)}
+          />
+        )}
+        {phase === "speaking" && (
+          <button
+            onClick={() => playbackRef.current?.stop()}
+            className="inline-flex h-9 items-center rounded-full bg-[var(--ji-brand)] px-4 text-xs font-medium text-white transition-colors duration-200 hover:bg-[var(--ji-brand-strong)]"
+          >
+            {t("voiceMode.interrupt")}
+          </button>
+        )}
+        {phase === "paused" && (
+          <button
+            onClick={listenAgain}
+            className="inline-flex h-9 items-center rounded-full bg-[var(--ji-brand)] px-4 text-xs font-medium text-white transition-colors duration-200 hover:bg-[var(--ji-brand-strong)]"
+          >
+            {t("voiceMode.tapToTalk")}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,17 +1,34 @@
 "use client";
 
-import { useEffect, useRef, useState } from "react";
-import { transcribeAudio } from "@/lib/voiceApi";
+import { useEffect, useEffectEvent, useRef, useState } from "react";
+import { createTranslator } from "@/lib/i18n";
+import { createSilenceDetector, monitorInputLevel, speechLevelThreshold } from "@/lib/voiceActivity";
+import { maxVoiceUploadBytes, transcribeAudio, transcribePartialAudio } from "@/lib/voiceApi";
 
 type VoiceRecorderProps = {
   language: string;
   disabled?: boolean;
   isDark?: boolean;
   embedded?: boolean;
+  streaming?: boolean;
+  // Start recording on mount, for hands-free turns where there is no button press.
+  autoStart?: boolean;
+  // Stop by itself once the speaker goes quiet, and give up if nobody speaks at all.
+  stopOnSilence?: boolean;
+  // Recording stops by itself after this many seconds and is then transcribed as usual.
+  maxDurationSeconds?: number;
   onError?: (message: string) => void;
+  onInterimTranscription?: (text: string) => void;
   onTranscription: (text: string) => void;
 };
 
+const streamTimesliceMs = 1000;
+const partialIntervalMs = 2500;
+const silenceMs = 1500;
+const noSpeechMs = 8000;
+const meterBars = 12;
+const maxUploadMb = Math.round(maxVoiceUploadBytes / (1024 * 1024));
+
 function formatSeconds(totalSeconds: number) {
   const mins = Math.floor(totalSeconds / 60)
     .toString()
@@ -20,29 +37,58 @@ function formatSeconds(totalSeconds: number) {
   return `${mins}:${secs}`;
 }
 
+function LevelMeter({ levels, className }: { levels: number[]; className?: string }) {
+  return (
+    <span className={`inline-flex items-center gap-[2px] ${className}`} aria-hidden="true">
+      {Array.from({ length: meterBars }, (_, idx) => {
+        const level = levels[levels.length - meterBars + idx] ?? 0;
+        // Square root so quiet speech still moves the bars visibly.
+        const height = Math.max(0.12, Math.min(1, Math.sqrt(level) * 2.4));
+        return <span key={idx} className="w-[2px] rounded-full bg-current" style={{ height: `${height * 100}%` }} />;
+      })}
+    </span>
+  );
+}
+
 export default function VoiceRecorder({
   language,
   disabled = false,
   isDark = false,
   embedded = false,
+  streaming = true,
+  autoStart = false,
+  stopOnSilence = false,
+  maxDurationSeconds = 120,
   onError,
+  onInterimTranscription,
   onTranscription,
 }: VoiceRecorderProps) {
+  const t = createTranslator(language);
   const [isRecording, setIsRecording] = useState(false);
   const [isTranscribing, setIsTranscribing] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [elapsedSeconds, setElapsedSeconds] = useState(0);
+  const [levels, setLevels] = useState<number[]>([]);
 
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const streamRef = useRef<MediaStream | null>(null);
   const chunksRef = useRef<BlobPart[]>([]);
   const timerRef = useRef<number | null>(null);
+  const streamingSupportedRef = useRef(true);
+  const partialInFlightRef = useRef(false);
+  const partialSequenceRef = useRef(0);
+  const lastPartialAtRef = useRef(0);
+  const partialAbortRef = useRef<AbortController | null>(null);
+  const stopLevelMonitorRef = useRef<(() => void) | null>(null);
+  const heardSpeechRef = useRef(false);
 
   useEffect(() => {
     return () => {
       if (timerRef.current) {
         window.clearInterval(timerRef.current);
       }
+      partialAbortRef.current?.abort();
+      stopLevelMonitorRef.current?.();
       if (mediaRecorderRef.current && mediaRecorderRef.current.state !== "inactive") {
         mediaRecorderRef.current.stop();
       }
@@ -53,23 +99,64 @@ export default function VoiceRecorder({
     };
   }, []);
 
+  const stopRecording = () => {
+    const recorder = mediaRecorderRef.current;
+    if (!recorder || recorder.state === "inactive") return;
+    recorder.stop();
+  };
+
   const stopStream = () => {
+    stopLevelMonitorRef.current?.();
+    stopLevelMonitorRef.current = null;
     if (!streamRef.current) return;
     streamRef.current.getTracks().forEach((track) => track.stop());
     streamRef.current = null;
   };
 
+  const sendPartial = async (mimeType: string) => {
+    if (partialInFlightRef.current || chunksRef.current.length === 0) return;
+    const now = Date.now();
+    if (now - lastPartialAtRef.current < partialIntervalMs) return;
+
+    partialInFlightRef.current = true;
+    lastPartialAtRef.current = now;
+    partialSequenceRef.current += 1;
+    const sequence = partialSequenceRef.current;
+    const controller = new AbortController();
+    partialAbortRef.current = controller;
+
+    try {
+      // Send everything captured so far: later timeslices lack the container header.
+      const audioBlob = new Blob(chunksRef.current, { type: mimeType });
+      if (audioBlob.size > maxVoiceUploadBytes) return;
+      const result = await transcribePartialAudio(audioBlob, language, sequence, controller.signal);
+      if (!result) {
+        streamingSupportedRef.current = false;
+        return;
+      }
+      if (sequence === partialSequenceRef.current && !controller.signal.aborted && result.text.trim()) {
+        onInterimTranscription?.(result.text);
+      }
+    } catch {
+      // Interim text is best-effort; the final transcription on stop still runs.
+    } finally {
+      partialInFlightRef.current = false;
+      if (partialAbortRef.current === controller) partialAbortRef.current = null;
+    }
+  };
+
   const startRecording = async () => {
     setError(null);
     setElapsedSeconds(0);
+    setLevels([]);
 
     if (typeof window === "undefined" || !navigator.mediaDevices?.getUserMedia) {
-      setError("Voice input is not supported in this browser.");
+      setError(t("voice.unsupported"));
       return;
     }
 
     if (typeof MediaRecorder === "undefined") {
-      setError("MediaRecorder is not supported in this browser.");
+      setError(t("voice.recorderUnsupported"));
       return;
     }
 
@@ -83,7 +170,7 @@ export default function VoiceRecorder({
     const supportedMimeType = preferredMimeTypes.find((type) => MediaRecorder.isTypeSupported(type));
 
     if (!supportedMimeType) {
-      setError("Audio recording is not supported in this browser.");
+      setError(t("voice.formatUnsupported"));
       return;
     }
 
@@ -91,6 +178,10 @@ export default function VoiceRecorder({
       const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
       streamRef.current = stream;
       chunksRef.current = [];
+      heardSpeechRef.current = false;
+      partialSequenceRef.current = 0;
+      lastPartialAtRef.current = Date.now();
+      const liveTranscription = streaming && streamingSupportedRef.current && Boolean(onInterimTranscription);
 
       const recorder = new MediaRecorder(stream, { mimeType: supportedMimeType });
       mediaRecorderRef.current = recorder;
@@ -98,10 +189,15 @@ export default function VoiceRecorder({
       recorder.ondataavailable = (event: BlobEvent) => {
         if (event.data && event.data.size > 0) {
           chunksRef.current.push(event.data);
+          if (liveTranscription && streamingSupportedRef.current && recorder.state === "recording") {
+            void sendPartial(recorder.mimeType || supportedMimeType);
+          }
         }
       };
 
       recorder.onstop = async () => {
+        partialAbortRef.current?.abort();
+        partialSequenceRef.current += 1;
         stopStream();
         setIsRecording(false);
         if (timerRef.current) {
@@ -110,31 +206,60 @@ export default function VoiceRecorder({
         }
 
         if (chunksRef.current.length === 0) {
-          setError("No audio captured. Please try again.");
+          setError(t("voice.noAudio"));
+          return;
+        }
+
+        // A silent recording would only come back as an empty or made-up transcript, so it isn't uploaded.
+        if (!heardSpeechRef.current) {
+          chunksRef.current = [];
+          setError(t("voice.noSpeech"));
+          return;
+        }
+
+        const blobType = recorder.mimeType || supportedMimeType;
+        const audioBlob = new Blob(chunksRef.current, { type: blobType });
+        if (audioBlob.size > maxVoiceUploadBytes) {
+          chunksRef.current = [];
+          setError(t("voice.tooLarge", { size: maxUploadMb }));
           return;
         }
 
         try {
           setIsTranscribing(true);
-          const blobType = recorder.mimeType || supportedMimeType;
-          const audioBlob = new Blob(chunksRef.current, { type: blobType });
           const { text } = await transcribeAudio(audioBlob, language);
           onTranscription(text);
         } catch (err) {
-          setError(err instanceof Error ? err.message : "Transcription failed.");
+          setError(err instanceof Error ? err.message : t("voice.failed"));
         } finally {
           chunksRef.current = [];
           setIsTranscribing(false);
         }
       };
 
-      recorder.start();
+      if (liveTranscription) {
+        recorder.start(streamTimesliceMs);
+      } else {
+        recorder.start();
+      }
       setIsRecording(true);
+      const startedAt = Date.now();
       timerRef.current = window.setInterval(() => {
-        setElapsedSeconds((prev) => prev + 1);
+        const elapsed = Math.floor((Date.now() - startedAt) / 1000);
+        setElapsedSeconds(elapsed);
+        if (elapsed >= maxDurationSeconds) stopRecording();
       }, 1000);
+
+      const detectSilence = stopOnSilence ? createSilenceDetector({ silenceMs, noSpeechMs }) : null;
+      stopLevelMonitorRef.current = monitorInputLevel(stream, (level) => {
+        if (level >= speechLevelThreshold) heardSpeechRef.current = true;
+        setLevels((prev) => [...prev.slice(1 - meterBars), level]);
+        if (detectSilence?.(level)) stopRecording();
+      });
+      // Without Web Audio there is no level to check, so every recording is treated as speech.
+      if (!stopLevelMonitorRef.current) heardSpeechRef.current = true;
     } catch {
-      setError("Microphone permission denied or unavailable.");
+      setError(t("voice.permissionDenied"));
       stopStream();
       setIsRecording(false);
       if (timerRef.current) {
@@ -144,14 +269,20 @@ export default function VoiceRecorder({
     }
   };
 
-  const stopRecording = () => {
-    const recorder = mediaRecorderRef.current;
-    if (!recorder || recorder.state === "inactive") return;
-    recorder.stop();
-  };
-
   const busy = disabled || isTranscribing;
-  const statusText = isTranscribing ? "Transcribing" : isRecording ? `Listening ${formatSeconds(elapsedSeconds)}` : "Voice";
+  const statusText = isTranscribing
+    ? t("voice.transcribing")
+    : isRecording
+      ? t("voice.listening", { time: `${formatSeconds(elapsedSeconds)} / ${formatSeconds(maxDurationSeconds)}` })
+      : t("voice.idle");
+
+  const startOnMount = useEffectEvent(() => {
+    void startRecording();
+  });
+
+  useEffect(() => {
+    if (autoStart) startOnMount();
+  }, [autoStart]);
 
   useEffect(() => {
     if (!error || !onError) return;
@@ -165,7 +296,8 @@ export default function VoiceRecorder({
           type="button"
           onClick={isRecording ? stopRecording : () => void startRecording()}
           disabled={busy}
-          aria-label={isRecording ? "Stop recording" : "Start voice input"}
+          aria-label={isRecording ? t("voice.stop") : t("voice.start")}
+          title={isRecording ? statusText : undefined}
           className={`inline-flex items-center rounded-full border text-xs font-medium tracking-[0.01em] transition-all duration-300 ${
             embedded ? "h-9 w-9 justify-center px-0" : "h-9 gap-2 px-3"
           } ${
@@ -200,6 +332,7 @@ export default function VoiceRecorder({
             </svg>
           )}
           {!embedded && <span className="whitespace-nowrap tabular-nums">{statusText}</span>}
+          {isRecording && !embedded && <LevelMeter levels={levels} className="h-4" />}
           {isRecording && !embedded && (
             <span
               className={`inline-flex h-5 w-5 items-center justify-center rounded-full ${
@@ -210,6 +343,9 @@ export default function VoiceRecorder({
             </span>
           )}
         </button>
+        {isRecording && embedded && (
+          <LevelMeter levels={levels} className={`ms-1 h-5 ${isDark ? "text-[var(--ji-danger-text)]" : "text-rose-500"}`} />
+        )}
       </div>
       {error && !embedded && <span className={`max-w-[220px] text-[11px] text-right text-rose-500`}>{error}</span>}
     </div>
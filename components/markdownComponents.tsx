@@ -0,0 +1,159 @@
+import CitationChip from "@/components/CitationChip";
+import type { SourceCard } from "@/lib/chatTypes";
+
+export const markdownComponents = (isDark: boolean, sources: SourceCard[] = []) => ({
+  h1: (props: React.HTMLAttributes<HTMLHeadingElement>) => (
+    <h1
+      className={`mb-6 mt-10 text-[26px] font-bold leading-tight tracking-[0.01em] md:text-[30px] ${isDark ? "text-stone-100" : "text-slate-900"
+        }`}
+      {...props}
+    />
+  ),
+  h2: (props: React.HTMLAttributes<HTMLHeadingElement>) => (
+    <h2
+      className={`mb-5 mt-10 flex items-center gap-3 text-[20px] font-semibold leading-snug tracking-tight md:text-[24px] ${isDark ? "text-stone-100" : "text-slate-900"
+        }`}
+      {...props}
+    />
+  ),
+  h3: (props: React.HTMLAttributes<HTMLHeadingElement>) => (
+    <h3
+      className={`mb-3 mt-8 text-[17px] font-semibold tracking-tight md:text-[19px] ${isDark ? "text-stone-200" : "text-slate-800"
+        }`}
+      {...props}
+    />
+  ),
+  p: (props: React.HTMLAttributes<HTMLParagraphElement>) => (
+    <p
+      className={`my-4 text-[15px] leading-[1.8] tracking-[0.01em] md:text-[16px] ${isDark ? "text-stone-300" : "text-slate-600"
+        }`}
+      {...props}
+    />
+  ),
+  ul: (props: React.HTMLAttributes<HTMLUListElement>) => (
+    <ul
+      className={`my-6 list-disc space-y-4 ps-6 marker:text-[var(--ji-brand)] text-[15px] leading-[1.8] md:text-[16px] ${isDark ? "text-stone-300" : "text-slate-600"
+        }`}
+      {...props}
+    />
+  ),
+  ol: (props: React.HTMLAttributes<HTMLOListElement>) => (
+    <ol
+      className={`my-6 list-decimal space-y-4 ps-6 marker:font-semibold marker:text-[var(--ji-brand)] text-[15px] leading-[1.8] md:text-[16px] ${isDark ? "text-stone-300" : "text-slate-600"
+        }`}
+      {...props}
+    />
+  ),
+  li: (props: React.HTMLAttributes<HTMLLIElement>) => (
+    <li className="ps-2" {...props} />
+  ),
+  a: (props: React.AnchorHTMLAttributes<HTMLAnchorElement>) => {
+    const citation = props.href?.match(/^#src-(\d+)$/);
+    if (citation) {
+      const position = Number(citation[1]);
+      return <CitationChip position={position} source={sources[position - 1]} isDark={isDark} />;
+    }
+    return (
+      <a
+        className={`group relative inline-flex items-center gap-1 font-medium transition-colors duration-200 ${isDark
+            ? "text-[var(--ji-brand)] hover:text-orange-300"
+            : "text-[var(--ji-brand-strong)] hover:text-[var(--ji-brand)]"
+          }`}
+        target="_blank"
+        rel="noreferrer"
+        {...props}
+      >
+        <span className="relative">
+          {props.children}
+          <span
+            className={`absolute -bottom-0.5 left-0 h-[1.5px] w-full origin-left scale-x-0 transition-transform duration-300 ease-out group-hover:scale-x-100 ${isDark ? "bg-orange-300/40" : "bg-[var(--ji-brand)]/30"
+              }`}
+          />
+        </span>
+        <svg
+          className={`h-3.5 w-3.5 transition-transform duration-300 group-hover:-translate-y-0.5 group-hover:translate-x-0.5 ${isDark
+              ? "text-[var(--ji-brand)]/70 group-hover:text-orange-300"
+              : "text-[var(--ji-brand-strong)]/60 group-hover:text-[var(--ji-brand)]"
+            }`}
+          fill="none"
+          viewBox="0 0 24 24"
+          stroke="currentColor"
+          strokeWidth={2.5}
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            d="M13.5 6H5.25A2.25 2.25 0 0 0 3 8.25v10.5A2.25 2.25 0 0 0 5.25 21h10.5A2.25 2.25 0 0 0 18 18.75V10.5m-10.5 6L21 3m0 0h-5.25M21 3v5.25"
+          />
+        </svg>
+      </a>
+    );
+  },
+  strong: (props: React.HTMLAttributes<HTMLElement>) => (
+    <strong
+      className={`font-semibold tracking-[0.01em] ${isDark ? "text-stone-100" : "text-slate-900"
+        }`}
+      {...props}
+    />
+  ),
+  blockquote: (props: React.HTMLAttributes<HTMLElement>) => (
+    <blockquote
+      className={`my-6 border-s-[3px] border-[var(--ji-brand)]/60 py-2 ps-5 italic ${isDark ? "bg-white/[0.02] text-stone-400" : "bg-black/[0.02] text-slate-500"
+        }`}
+      {...props}
+    />
+  ),
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  code: ({ inline, className, children, ...props }: any) => {
+    if (!inline) {
+      return (
+        <code className={className} {...props}>
+          {children}
+        </code>
+      );
+    }
+    return (
+      <code
+        className={`rounded-md px-1.5 py-0.5 text-[0.85em] font-medium tracking-wide ${isDark ? "bg-white/10 text-stone-300" : "bg-black/5 text-slate-700"
+          }`}
+        {...props}
+      >
+        {children}
+      </code>
+    );
+  },
+  pre: (props: React.HTMLAttributes<HTMLPreElement>) => (
+    <pre
+      className={`my-6 overflow-x-auto rounded-xl p-4 text-[14px] leading-relaxed shadow-sm md:p-5 ${isDark
+          ? "border border-white/5 bg-[#1c1a18]"
+          : "border border-slate-200 bg-slate-50 text-slate-800"
+        }`}
+      {...props}
+    />
+  ),
+  table: (props: React.HTMLAttributes<HTMLTableElement>) => (
+    <div className="my-6 overflow-x-auto rounded-xl border border-[var(--ji-border)] shadow-sm">
+      <table
+        className={`w-full border-collapse text-start text-sm ${isDark ? "text-stone-200" : "text-slate-700"
+          }`}
+        {...props}
+      />
+    </div>
+  ),
+  th: (props: React.HTMLAttributes<HTMLTableCellElement>) => (
+    <th
+      className={`border-b p-3 font-semibold md:p-4 ${isDark
+          ? "border-white/10 bg-white/[0.02] text-stone-200"
+          : "border-slate-200 bg-slate-50 text-slate-800"
+        }`}
+      {...props}
+    />
+  ),
+  td: (props: React.HTMLAttributes<HTMLTableCellElement>) => (
+    <td
+      className={`border-b p-3 md:p-4 ${isDark ? "border-white/5" : "border-slate-100"
+        }`}
+      {...props}
+    />
+  ),
+});
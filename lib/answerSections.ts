@@ -0,0 +1,58 @@
+export type TabKey = "summary" | "eligibility" | "documents" | "apply";
+
+export type Section = {
+  key: TabKey | "other";
+  title: string;
+  content: string;
+};
+
+const listItemPattern = /^\s*(?:[-*+]|\d+[.)])\s+(.+)$/;
+
+export const stripInlineMarkdown = (value: string) =>
+  value
+    .replace(/\[(?:\^|src:)[\w.-]+\]|\[\d+\](?!\()/g, "")
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, "$1")
+    .replace(/[*_`~]/g, "")
+    .trim();
+
+export const classifyHeading = (title: string): Section["key"] => {
+  const lower = title.toLowerCase();
+  if (lower.includes("eligib")) return "eligibility";
+  if (lower.includes("document")) return "documents";
+  if (lower.includes("apply") || lower.includes("process")) return "apply";
+  if (lower.includes("summary") || lower.includes("overview")) return "summary";
+  return "other";
+};
+
+export const extractSections = (content: string): Section[] => {
+  const lines = content.split("\n");
+  const out: Section[] = [];
+  let title = "Summary";
+  let key: Section["key"] = "summary";
+  let buffer: string[] = [];
+  const flush = () => {
+    const c = buffer.join("\n").trim();
+    if (c) out.push({ title, key, content: c });
+  };
+  for (const line of lines) {
+    const h = line.match(/^#{1,6}\s+(.+)$/);
+    if (!h) {
+      buffer.push(line);
+      continue;
+    }
+    flush();
+    title = h[1].trim();
+    key = classifyHeading(title);
+    buffer = [];
+  }
+  flush();
+  return out.length ? out : [{ title: "Summary", key: "summary", content }];
+};
+
+export const extractListItems = (content: string) =>
+  content
+    .split("\n")
+    .map((line) => line.match(listItemPattern)?.[1])
+    .filter((item): item is string => Boolean(item))
+    .map(stripInlineMarkdown)
+    .filter(Boolean);
@@ -0,0 +1,177 @@
+import { extractListItems } from "@/lib/answerSections";
+
+export type StepStatus = "not_started" | "in_progress" | "done";
+
+export type TrackerStep = {
+  id: string;
+  text: string;
+  status: StepStatus;
+  deadline?: string;
+  reminder?: string;
+  notes?: string;
+};
+
+export type ApplicationTracker = {
+  id: string;
+  conversationId: string;
+  messageId: string;
+  title: string;
+  steps: TrackerStep[];
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type TrackerStore = {
+  list: () => Promise<ApplicationTracker[]>;
+  save: (tracker: ApplicationTracker) => Promise<void>;
+  remove: (id: string) => Promise<void>;
+};
+
+type TrackerRow = {
+  id: string;
+  conversation_id: string;
+  message_id: string;
+  title: string;
+  steps?: TrackerStep[];
+  created_at: string;
+  updated_at: string;
+};
+
+export const stepStatuses: StepStatus[] = ["not_started", "in_progress", "done"];
+
+export const nextStepStatus = (status: StepStatus) => stepStatuses[(stepStatuses.indexOf(status) + 1) % stepStatuses.length];
+
+// One tracker per answer; the id is derived so re-tracking the same answer updates it instead of duplicating.
+export const trackerId = (conversationId: string, messageId: string) => `${conversationId}:${messageId}`;
+
+export const parseApplySteps = (content: string) => extractListItems(content);
+
+export function createTracker(conversationId: string, messageId: string, title: string, applyContent: string): ApplicationTracker {
+  const now = new Date().toISOString();
+  return {
+    id: trackerId(conversationId, messageId),
+    conversationId,
+    messageId,
+    title,
+    steps: parseApplySteps(applyContent).map((text, idx) => ({ id: `step-${idx + 1}`, text, status: "not_started" })),
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+export const trackerProgress = (tracker: ApplicationTracker) => ({
+  done: tracker.steps.filter((step) => step.status === "done").length,
+  total: tracker.steps.length,
+});
+
+export const isReminderDue = (step: TrackerStep, today = new Date().toISOString().slice(0, 10)) =>
+  Boolean(step.reminder && step.status !== "done" && step.reminder <= today);
+
+const fromRow = (row: TrackerRow): ApplicationTracker => ({
+  id: row.id,
+  conversationId: row.conversation_id,
+  messageId: row.message_id,
+  title: row.title,
+  steps: Array.isArray(row.steps) ? row.steps : [],
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+export function createSupabaseTrackerStore(supabaseUrl: string, anonKey: string, accessToken: string, userId: string): TrackerStore {
+  const endpoint = `${supabaseUrl}/rest/v1/application_trackers`;
+  const headers = {
+    "Content-Type": "application/json",
+    apikey: anonKey,
+    Authorization: `Bearer ${accessToken}`,
+  };
+
+  const request = async (query: string, init: RequestInit = {}) => {
+    const res = await fetch(`${endpoint}${query}`, { ...init, headers: { ...headers, ...init.headers } });
+    if (!res.ok) {
+      const data = (await res.json().catch(() => ({}))) as { message?: string };
+      throw new Error(data.message || `Application tracker request failed (HTTP ${res.status}).`);
+    }
+    return res;
+  };
+
+  // Requests for one tracker run in order, and a save is skipped once a newer one is queued behind it,
+  // so rapid date edits can't land out of order.
+  const pending = new Map<string, Promise<unknown>>();
+  const latestSave = new Map<string, number>();
+  let saveCount = 0;
+
+  const enqueue = (id: string, task: () => Promise<unknown>) => {
+    const next = (pending.get(id) || Promise.resolve()).catch(() => undefined).then(task);
+    pending.set(id, next);
+    next
+      .finally(() => {
+        if (pending.get(id) === next) pending.delete(id);
+      })
+      .catch(() => undefined);
+    return next.then(() => undefined);
+  };
+
+  return {
+    list: async () => {
+      const res = await request(`?select=*&user_id=eq.${encodeURIComponent(userId)}&order=updated_at.desc`);
+      return ((await res.json()) as TrackerRow[]).map(fromRow);
+    },
+    save: (tracker) => {
+      const ticket = ++saveCount;
+      latestSave.set(tracker.id, ticket);
+      return enqueue(tracker.id, async () => {
+        if (latestSave.get(tracker.id) !== ticket) return;
+        await request("", {
+          method: "POST",
+          headers: { Prefer: "resolution=merge-duplicates,return=minimal" },
+          body: JSON.stringify({
+            id: tracker.id,
+            user_id: userId,
+            conversation_id: tracker.conversationId,
+            message_id: tracker.messageId,
+            title: tracker.title,
+            steps: tracker.steps,
+            created_at: tracker.createdAt,
+            updated_at: tracker.updatedAt,
+          }),
+        });
+      });
+    },
+    remove: (id) => {
+      latestSave.delete(id);
+      return enqueue(id, () =>
+        request(`?id=eq.${encodeURIComponent(id)}&user_id=eq.${encodeURIComponent(userId)}`, {
+          method: "DELETE",
+          headers: { Prefer: "return=minimal" },
+        })
+      );
+    },
+  };
+}
+
+const localTrackersKey = "yojana-application-trackers";
+
+const readLocalTrackers = (): ApplicationTracker[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(localTrackersKey) || "[]") as unknown;
+    return Array.isArray(parsed) ? (parsed as ApplicationTracker[]) : [];
+  } catch {
+    return [];
+  }
+};
+
+const writeLocalTrackers = (trackers: ApplicationTracker[]) => {
+  localStorage.setItem(localTrackersKey, JSON.stringify(trackers));
+};
+
+export function createLocalTrackerStore(): TrackerStore {
+  return {
+    list: async () => readLocalTrackers().sort((a, b) => b.updatedAt.localeCompare(a.updatedAt)),
+    save: async (tracker) => {
+      writeLocalTrackers([tracker, ...readLocalTrackers().filter((t) => t.id !== tracker.id)]);
+    },
+    remove: async (id) => {
+      writeLocalTrackers(readLocalTrackers().filter((t) => t.id !== id));
+    },
+  };
+}
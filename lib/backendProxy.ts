@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server";
+
+export type ProxyErrorPayload = {
+  error: string;
+  details?: unknown;
+};
+
+export const resolveBackendBaseUrl = (...candidates: Array<string | undefined>) =>
+  (candidates.find((value) => Boolean(value && value.trim())) || "http://localhost:3001").trim().replace(/\/+$/, "");
+
+export function proxyError(error: string, status: number, details?: unknown) {
+  const body: ProxyErrorPayload = details === undefined ? { error } : { error, details };
+  return NextResponse.json(body, { status });
+}
+
+// Pointing the backend at this app would make the proxy call itself forever.
+export function misconfiguredOriginResponse(request: Request, apiBaseUrl: string, message: string) {
+  const origin = request.headers.get("origin");
+  if (origin && apiBaseUrl === origin.replace(/\/+$/, "")) {
+    return proxyError(message, 500);
+  }
+  return null;
+}
+
+export async function readBackendPayload(response: Response, fallbackMessage: string): Promise<unknown> {
+  const raw = await response.text();
+  try {
+    return raw ? JSON.parse(raw) : {};
+  } catch {
+    return { error: raw || fallbackMessage };
+  }
+}
+
+export function normalizeBackendError(payload: unknown, status: number, fallbackMessage: string): ProxyErrorPayload {
+  if (typeof payload === "string" && payload.trim()) return { error: payload.trim() };
+  if (!payload || typeof payload !== "object") return { error: `${fallbackMessage} (HTTP ${status}).` };
+  const r = payload as Record<string, unknown>;
+  const candidate = [r.error, r.message, r.detail].find((value) => typeof value === "string" && value.trim());
+  const nested = r.error && typeof r.error === "object" ? (r.error as Record<string, unknown>).message : undefined;
+  const error = typeof candidate === "string" ? candidate.trim() : typeof nested === "string" ? nested : `${fallbackMessage} (HTTP ${status}).`;
+  const details = r.details ?? (typeof r.detail === "object" ? r.detail : undefined);
+  return details === undefined ? { error } : { error, details };
+}
@@ -0,0 +1,162 @@
+import type { Citation, SourceCard } from "@/lib/chatTypes";
+
+export type Bookmark = {
+  id: string;
+  conversationId: string;
+  messageId: string;
+  title: string;
+  question: string;
+  answer: string;
+  sources: SourceCard[];
+  citations: Citation[];
+  language: string;
+  notes?: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type BookmarkStore = {
+  list: () => Promise<Bookmark[]>;
+  save: (bookmark: Bookmark) => Promise<void>;
+  remove: (id: string) => Promise<void>;
+};
+
+type BookmarkRow = {
+  id: string;
+  conversation_id: string;
+  message_id: string;
+  title: string;
+  question: string;
+  answer: string;
+  sources?: SourceCard[];
+  citations?: Citation[];
+  language: string;
+  notes?: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+// Saving the same answer twice updates the bookmark, so the id is derived from where the answer lives.
+export const bookmarkId = (conversationId: string, messageId: string) => `${conversationId}:${messageId}`;
+
+const fromRow = (row: BookmarkRow): Bookmark => ({
+  id: row.id,
+  conversationId: row.conversation_id,
+  messageId: row.message_id,
+  title: row.title,
+  question: row.question,
+  answer: row.answer,
+  sources: Array.isArray(row.sources) ? row.sources : [],
+  citations: Array.isArray(row.citations) ? row.citations : [],
+  language: row.language,
+  notes: row.notes || undefined,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+export function createSupabaseBookmarkStore(supabaseUrl: string, anonKey: string, accessToken: string, userId: string): BookmarkStore {
+  const endpoint = `${supabaseUrl}/rest/v1/bookmarks`;
+  const headers = {
+    "Content-Type": "application/json",
+    apikey: anonKey,
+    Authorization: `Bearer ${accessToken}`,
+  };
+
+  const request = async (query: string, init: RequestInit = {}) => {
+    const res = await fetch(`${endpoint}${query}`, { ...init, headers: { ...headers, ...init.headers } });
+    if (!res.ok) {
+      const data = (await res.json().catch(() => ({}))) as { message?: string };
+      throw new Error(data.message || `Bookmark request failed (HTTP ${res.status}).`);
+    }
+    return res;
+  };
+
+  return {
+    list: async () => {
+      const res = await request(`?select=*&user_id=eq.${encodeURIComponent(userId)}&order=updated_at.desc`);
+      return ((await res.json()) as BookmarkRow[]).map(fromRow);
+    },
+    save: async (bookmark) => {
+      await request("", {
+        method: "POST",
+        headers: { Prefer: "resolution=merge-duplicates,return=minimal" },
+        body: JSON.stringify({
+          id: bookmark.id,
+          user_id: userId,
+          conversation_id: bookmark.conversationId,
+          message_id: bookmark.messageId,
+          title: bookmark.title,
+          question: bookmark.question,
+          answer: bookmark.answer,
+          sources: bookmark.sources,
+          citations: bookmark.citations,
+          language: bookmark.language,
+          notes: bookmark.notes || null,
+          created_at: bookmark.createdAt,
+          updated_at: bookmark.updatedAt,
+        }),
+      });
+    },
+    remove: async (id) => {
+      await request(`?id=eq.${encodeURIComponent(id)}&user_id=eq.${encodeURIComponent(userId)}`, {
+        method: "DELETE",
+        headers: { Prefer: "return=minimal" },
+      });
+    },
+  };
+}
+
+const localBookmarksKey = "yojana-bookmarks";
+
+export const bookmarkCacheKey = (userId: string) => `${localBookmarksKey}-cache-${userId}`;
+
+const readLocalBookmarks = (key: string): Bookmark[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(key) || "[]") as unknown;
+    return Array.isArray(parsed) ? (parsed as Bookmark[]) : [];
+  } catch {
+    return [];
+  }
+};
+
+const writeLocalBookmarks = (key: string, bookmarks: Bookmark[]) => {
+  localStorage.setItem(key, JSON.stringify(bookmarks));
+};
+
+export function createLocalBookmarkStore(key = localBookmarksKey): BookmarkStore {
+  return {
+    list: async () => readLocalBookmarks(key).sort((a, b) => b.updatedAt.localeCompare(a.updatedAt)),
+    save: async (bookmark) => {
+      writeLocalBookmarks(key, [bookmark, ...readLocalBookmarks(key).filter((b) => b.id !== bookmark.id)]);
+    },
+    remove: async (id) => {
+      writeLocalBookmarks(key, readLocalBookmarks(key).filter((b) => b.id !== id));
+    },
+  };
+}
+
+// Keeps a copy of the remote bookmarks under `cacheKey` so saved answers stay readable offline.
+export function createCachedBookmarkStore(remote: BookmarkStore, cacheKey: string): BookmarkStore {
+  const cache = createLocalBookmarkStore(cacheKey);
+  return {
+    list: async () => {
+      try {
+        const bookmarks = await remote.list();
+        writeLocalBookmarks(cacheKey, bookmarks);
+        return bookmarks;
+      } catch (err) {
+        const cached = await cache.list();
+        if (!cached.length) throw err;
+        return cached;
+      }
+    },
+    save: async (bookmark) => {
+      await remote.save(bookmark);
+      await cache.save(bookmark);
+    },
+    remove: async (id) => {
+      await remote.remove(id);
+      await cache.remove(id);
+    },
+  };
+}
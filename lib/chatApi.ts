@@ -0,0 +1,203 @@
+import type { Message } from "@/lib/chatTypes";
+import type { EligibilityProfile } from "@/lib/profile";
+
+export type ChatTurn = {
+  role: "user" | "assistant";
+  content: string;
+};
+
+export type ChatRequest = {
+  question: string;
+  language: string;
+  sessionId: string;
+  profile?: EligibilityProfile;
+  lite?: boolean;
+  // Earlier turns to seed a new backend session with; the backend otherwise remembers the session itself.
+  history?: ChatTurn[];
+};
+
+export type ChatResult = {
+  answer: string;
+  sources?: unknown;
+  citations?: unknown;
+  streamed: boolean;
+};
+
+type ChatOptions = {
+  accessToken?: string;
+  signal?: AbortSignal;
+  onToken?: (text: string) => void;
+  onSources?: (sources: unknown) => void;
+};
+
+type ChatResponse = {
+  answer?: string;
+  error?: string;
+  details?: unknown;
+  sources?: unknown;
+  citations?: unknown;
+};
+
+type StreamEvent = {
+  type: string;
+  payload: unknown;
+};
+
+const streamContentTypes = ["text/event-stream", "application/x-ndjson", "application/jsonl"];
+
+// Failed answers are left out so the model never sees them as something it said.
+export const toChatHistory = (messages: Message[]): ChatTurn[] =>
+  messages.filter((m) => !m.error && m.content.trim()).map(({ role, content }) => ({ role, content }));
+
+const readText = (payload: unknown) => {
+  if (typeof payload === "string") return payload;
+  if (!payload || typeof payload !== "object") return "";
+  const r = payload as Record<string, unknown>;
+  const value = r.text ?? r.token ?? r.delta ?? r.content;
+  return typeof value === "string" ? value : "";
+};
+
+const parseEventData = (data: string): unknown => {
+  try {
+    return JSON.parse(data);
+  } catch {
+    return data;
+  }
+};
+
+const parseSseBlock = (block: string): StreamEvent | null => {
+  let type = "";
+  const data: string[] = [];
+  for (const line of block.split("\n")) {
+    if (!line || line.startsWith(":")) continue;
+    const sep = line.indexOf(":");
+    const field = sep === -1 ? line : line.slice(0, sep);
+    const value = sep === -1 ? "" : line.slice(sep + 1).replace(/^ /, "");
+    if (field === "event") type = value;
+    else if (field === "data") data.push(value);
+  }
+  if (!data.length) return null;
+  const joined = data.join("\n");
+  if (joined === "[DONE]") return { type: "done", payload: null };
+  const payload = parseEventData(joined);
+  const embeddedType =
+    payload && typeof payload === "object" && typeof (payload as Record<string, unknown>).type === "string"
+      ? String((payload as Record<string, unknown>).type)
+      : "";
+  return { type: type || embeddedType || "token", payload };
+};
+
+const parseNdjsonLine = (line: string): StreamEvent | null => {
+  const trimmed = line.trim();
+  if (!trimmed) return null;
+  const payload = parseEventData(trimmed);
+  if (!payload || typeof payload !== "object") return { type: "token", payload };
+  const type = (payload as Record<string, unknown>).type;
+  return { type: typeof type === "string" ? type : "token", payload };
+};
+
+async function readStream(response: Response, isSse: boolean, options: ChatOptions): Promise<ChatResult> {
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  const separator = isSse ? /\r?\n\r?\n/ : /\r?\n/;
+  let buffer = "";
+  let answer = "";
+  let sources: unknown;
+  let citations: unknown;
+  let done = false;
+
+  const handle = (event: StreamEvent | null) => {
+    if (!event) return;
+    switch (event.type) {
+      case "sources": {
+        const payload = event.payload as Record<string, unknown> | unknown[] | null;
+        sources = Array.isArray(payload) ? payload : payload?.sources;
+        options.onSources?.(sources);
+        break;
+      }
+      case "citations": {
+        const payload = event.payload as Record<string, unknown> | unknown[] | null;
+        citations = Array.isArray(payload) ? payload : payload?.citations;
+        break;
+      }
+      case "done":
+      case "end": {
+        const payload = event.payload as ChatResponse | null;
+        if (payload && typeof payload === "object") {
+          if (typeof payload.answer === "string" && payload.answer) answer = payload.answer;
+          if (payload.sources !== undefined) {
+            sources = payload.sources;
+            options.onSources?.(sources);
+          }
+          if (payload.citations !== undefined) citations = payload.citations;
+        }
+        done = true;
+        break;
+      }
+      case "error": {
+        const message = readText(event.payload) || (event.payload as ChatResponse | null)?.error;
+        throw new Error(message || "Streaming response failed.");
+      }
+      default: {
+        const text = readText(event.payload);
+        if (!text) return;
+        answer += text;
+        options.onToken?.(text);
+      }
+    }
+  };
+
+  const parse = isSse ? parseSseBlock : parseNdjsonLine;
+
+  try {
+    while (!done) {
+      const { value, done: streamDone } = await reader.read();
+      if (streamDone) break;
+      buffer += decoder.decode(value, { stream: true });
+      const parts = buffer.split(separator);
+      buffer = parts.pop() ?? "";
+      for (const part of parts) {
+        handle(parse(part));
+        if (done) break;
+      }
+    }
+    buffer += decoder.decode();
+    if (!done && buffer.trim()) handle(parse(buffer));
+  } finally {
+    if (done) void reader.cancel().catch(() => undefined);
+    reader.releaseLock();
+  }
+
+  return { answer, sources, citations, streamed: true };
+}
+
+// Lite requests skip streaming: a single JSON answer can be compressed in transit, an event stream cannot.
+export async function sendChatMessage(request: ChatRequest, options: ChatOptions = {}): Promise<ChatResult> {
+  const res = await fetch("/api/chat", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Accept: request.lite ? "application/json" : "text/event-stream, application/x-ndjson;q=0.9, application/json;q=0.8",
+      ...(options.accessToken ? { Authorization: `Bearer ${options.accessToken}` } : {}),
+    },
+    body: JSON.stringify({ ...request, stream: !request.lite }),
+    signal: options.signal,
+  });
+
+  const contentType = (res.headers.get("content-type") || "").toLowerCase();
+  const isStream = streamContentTypes.some((type) => contentType.includes(type));
+
+  if (res.ok && isStream && res.body) {
+    return readStream(res, contentType.includes("text/event-stream"), options);
+  }
+
+  // Backend answered in one-shot JSON mode (or with an error); keep the original behaviour.
+  const data = (await res.json().catch(() => ({}))) as ChatResponse;
+
+  if (!res.ok) {
+    const details = data.details && typeof data.details === "object" ? ` ${JSON.stringify(data.details)}` : "";
+    throw new Error(data.error ? `${data.error}${details}` : `Failed to get an answer (HTTP ${res.status}).`);
+  }
+
+  return { answer: data.answer || "", sources: data.sources, citations: data.citations, streamed: false };
+}
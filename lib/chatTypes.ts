@@ -0,0 +1,35 @@
+export type SourceCard = {
+  id?: string;
+  title: string;
+  url: string;
+  snippet?: string;
+  lastUpdated?: string;
+};
+
+// A claim in the answer backed by one or more sources; offsets index into the answer text and
+// `sources` holds 1-based positions in the message's source list.
+export type Citation = {
+  start: number;
+  end: number;
+  sources: number[];
+};
+
+// An earlier answer kept when the user regenerates; oldest first.
+export type AnswerVersion = {
+  content: string;
+  sources?: SourceCard[];
+  citations?: Citation[];
+};
+
+export type Message = {
+  id: string;
+  role: "user" | "assistant";
+  content: string;
+  sources?: SourceCard[];
+  citations?: Citation[];
+  versions?: AnswerVersion[];
+  // Locale the answer was requested in; used to read it aloud in that language.
+  language?: string;
+  // Set when the request failed; the content then ends with the error message.
+  error?: boolean;
+};
@@ -0,0 +1,55 @@
+import type { Citation, SourceCard } from "@/lib/chatTypes";
+
+// Inline markers the backend may emit: [1], [^1] or [src:<source id>]. Links and footnote definitions are left alone.
+const markerPattern = /\[(\^|src:)?([\w.-]{1,40})\](?![(:])/g;
+
+// Unresolved numeric or explicitly prefixed markers are citations we can't honour; anything else is ordinary text.
+const dropUnresolved = (marker: string, prefix: string | undefined, ref: string) => (prefix || /^\d+$/.test(ref) ? "" : marker);
+
+const resolveSource = (sources: SourceCard[], ref: unknown) => {
+  if (typeof ref !== "string" && typeof ref !== "number") return -1;
+  return sources.findIndex((source) => source.id === String(ref));
+};
+
+const citationLink = (position: number) => `[${position}](#src-${position})`;
+
+export const normalizeCitations = (value: unknown, sources: SourceCard[]): Citation[] => {
+  if (!Array.isArray(value)) return [];
+  return value
+    .map((item): Citation | null => {
+      if (!item || typeof item !== "object") return null;
+      const r = item as Record<string, unknown>;
+      const end = Number(r.end ?? r.end_index ?? r.endIndex);
+      const start = Number(r.start ?? r.start_index ?? r.startIndex);
+      if (!Number.isInteger(end) || end < 0) return null;
+      const refs = [r.sources, r.source_ids, r.sourceIds, r.source, r.source_id, r.sourceId].flat();
+      const positions = Array.from(new Set(refs.map((ref) => resolveSource(sources, ref)).filter((idx) => idx >= 0))).map((idx) => idx + 1);
+      if (!positions.length) return null;
+      return { start: Number.isInteger(start) && start <= end ? start : end, end, sources: positions };
+    })
+    .filter((c): c is Citation => Boolean(c));
+};
+
+// Turns backend citations into `[n](#src-n)` links. Span citations are inserted at the end of their claim;
+// inline markers that don't resolve to a known source are dropped rather than guessed.
+export function renderCitations(markdown: string, sources: SourceCard[], citations: Citation[] = []) {
+  if (!sources.length) return markdown.replace(markerPattern, dropUnresolved);
+
+  let text = markdown;
+  const byEnd = new Map<number, Set<number>>();
+  for (const citation of citations) {
+    if (citation.end > text.length) continue;
+    const positions = byEnd.get(citation.end) || new Set<number>();
+    for (const position of citation.sources) if (position >= 1 && position <= sources.length) positions.add(position);
+    byEnd.set(citation.end, positions);
+  }
+  for (const end of Array.from(byEnd.keys()).sort((a, b) => b - a)) {
+    const links = Array.from(byEnd.get(end)!).sort((a, b) => a - b).map(citationLink).join("");
+    if (links) text = `${text.slice(0, end)} ${links}${text.slice(end)}`;
+  }
+
+  return text.replace(markerPattern, (marker, prefix: string | undefined, ref: string) => {
+    const idx = resolveSource(sources, ref);
+    return idx >= 0 ? citationLink(idx + 1) : dropUnresolved(marker, prefix, ref);
+  });
+}
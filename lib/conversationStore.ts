@@ -0,0 +1,231 @@
+import type { Message } from "@/lib/chatTypes";
+
+export type ConversationSummary = {
+  id: string;
+  title: string;
+  language: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type Conversation = ConversationSummary & {
+  messages: Message[];
+  // Set once the conversation was edited or regenerated and moved to a fresh backend session.
+  backendSessionId?: string;
+};
+
+export type ConversationStore = {
+  list: () => Promise<ConversationSummary[]>;
+  get: (id: string) => Promise<Conversation | null>;
+  save: (conversation: Conversation) => Promise<void>;
+  rename: (id: string, title: string) => Promise<void>;
+  remove: (id: string) => Promise<void>;
+};
+
+type ConversationRow = {
+  id: string;
+  title: string;
+  language: string;
+  created_at: string;
+  updated_at: string;
+  messages?: Message[];
+  backend_session_id?: string | null;
+};
+
+const maxTitleLength = 80;
+const listLimit = 50;
+
+export const deriveConversationTitle = (question: string) => {
+  const firstLine = question.trim().split("\n")[0].replace(/\s+/g, " ");
+  if (firstLine.length <= maxTitleLength) return firstLine || "Untitled conversation";
+  return `${firstLine.slice(0, maxTitleLength - 1).trimEnd()}…`;
+};
+
+const fromRow = (row: ConversationRow): Conversation => ({
+  id: row.id,
+  title: row.title,
+  language: row.language,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+  messages: Array.isArray(row.messages) ? row.messages : [],
+  ...(row.backend_session_id ? { backendSessionId: row.backend_session_id } : {}),
+});
+
+export function createSupabaseConversationStore(
+  supabaseUrl: string,
+  anonKey: string,
+  accessToken: string,
+  userId: string
+): ConversationStore {
+  const endpoint = `${supabaseUrl}/rest/v1/chat_conversations`;
+  const headers = {
+    "Content-Type": "application/json",
+    apikey: anonKey,
+    Authorization: `Bearer ${accessToken}`,
+  };
+
+  const request = async (query: string, init: RequestInit = {}) => {
+    const res = await fetch(`${endpoint}${query}`, { ...init, headers: { ...headers, ...init.headers } });
+    if (!res.ok) {
+      const data = (await res.json().catch(() => ({}))) as { message?: string };
+      throw new Error(data.message || `Conversation history request failed (HTTP ${res.status}).`);
+    }
+    return res;
+  };
+
+  return {
+    list: async () => {
+      const res = await request(
+        `?select=id,title,language,created_at,updated_at&user_id=eq.${encodeURIComponent(userId)}&order=updated_at.desc&limit=${listLimit}`
+      );
+      const rows = (await res.json()) as ConversationRow[];
+      return rows.map(({ id, title, language, created_at, updated_at }) => ({
+        id,
+        title,
+        language,
+        createdAt: created_at,
+        updatedAt: updated_at,
+      }));
+    },
+    get: async (id) => {
+      const res = await request(`?select=*&id=eq.${encodeURIComponent(id)}&user_id=eq.${encodeURIComponent(userId)}&limit=1`);
+      const rows = (await res.json()) as ConversationRow[];
+      return rows[0] ? fromRow(rows[0]) : null;
+    },
+    save: async (conversation) => {
+      await request("", {
+        method: "POST",
+        headers: { Prefer: "resolution=merge-duplicates,return=minimal" },
+        body: JSON.stringify({
+          id: conversation.id,
+          user_id: userId,
+          title: conversation.title,
+          language: conversation.language,
+          messages: conversation.messages,
+          backend_session_id: conversation.backendSessionId ?? null,
+          created_at: conversation.createdAt,
+          updated_at: conversation.updatedAt,
+        }),
+      });
+    },
+    rename: async (id, title) => {
+      await request(`?id=eq.${encodeURIComponent(id)}&user_id=eq.${encodeURIComponent(userId)}`, {
+        method: "PATCH",
+        headers: { Prefer: "return=minimal" },
+        body: JSON.stringify({ title }),
+      });
+    },
+    remove: async (id) => {
+      await request(`?id=eq.${encodeURIComponent(id)}&user_id=eq.${encodeURIComponent(userId)}`, {
+        method: "DELETE",
+        headers: { Prefer: "return=minimal" },
+      });
+    },
+  };
+}
+
+const localDbName = "yojana-web";
+const localStoreName = "conversations";
+
+const openLocalDb = (dbName: string) =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === "undefined") {
+      reject(new Error("IndexedDB is not available in this browser."));
+      return;
+    }
+    const open = indexedDB.open(dbName, 1);
+    open.onupgradeneeded = () => {
+      const db = open.result;
+      if (!db.objectStoreNames.contains(localStoreName)) {
+        db.createObjectStore(localStoreName, { keyPath: "id" }).createIndex("updatedAt", "updatedAt");
+      }
+    };
+    open.onsuccess = () => resolve(open.result);
+    open.onerror = () => reject(open.error || new Error("Unable to open local history."));
+  });
+
+const runLocal = async <T>(dbName: string, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>) => {
+  const db = await openLocalDb(dbName);
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const req = action(db.transaction(localStoreName, mode).objectStore(localStoreName));
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error || new Error("Local history request failed."));
+    });
+  } finally {
+    db.close();
+  }
+};
+
+export const conversationCacheName = (userId: string) => `${localDbName}-cache-${userId}`;
+
+export const clearConversationCache = (dbName: string) =>
+  new Promise<void>((resolve) => {
+    if (typeof indexedDB === "undefined") return resolve();
+    const req = indexedDB.deleteDatabase(dbName);
+    req.onsuccess = req.onerror = req.onblocked = () => resolve();
+  });
+
+// Pass a separate database name to keep a device-local copy of a signed-in user's history apart from guest history.
+export function createLocalConversationStore(dbName = localDbName): ConversationStore {
+  return {
+    list: async () => {
+      const all = await runLocal<Conversation[]>(dbName, "readonly", (store) => store.getAll());
+      return all
+        .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+        .slice(0, listLimit)
+        .map(({ id, title, language, createdAt, updatedAt }) => ({ id, title, language, createdAt, updatedAt }));
+    },
+    get: async (id) => (await runLocal<Conversation | undefined>(dbName, "readonly", (store) => store.get(id))) || null,
+    save: async (conversation) => {
+      await runLocal(dbName, "readwrite", (store) => store.put(conversation));
+    },
+    rename: async (id, title) => {
+      const existing = await runLocal<Conversation | undefined>(dbName, "readonly", (store) => store.get(id));
+      if (!existing) return;
+      await runLocal(dbName, "readwrite", (store) => store.put({ ...existing, title }));
+    },
+    remove: async (id) => {
+      await runLocal(dbName, "readwrite", (store) => store.delete(id));
+    },
+  };
+}
+
+// Reads fall back to the cache when the remote store is unreachable; conversations are cached as they are opened or saved.
+export function createCachedConversationStore(remote: ConversationStore, cache: ConversationStore): ConversationStore {
+  const quietly = (action: Promise<void>) => action.catch(() => undefined);
+  return {
+    list: async () => {
+      try {
+        return await remote.list();
+      } catch (err) {
+        const cached = await cache.list().catch(() => []);
+        if (!cached.length) throw err;
+        return cached;
+      }
+    },
+    get: async (id) => {
+      try {
+        const conversation = await remote.get(id);
+        if (conversation) await quietly(cache.save(conversation));
+        return conversation;
+      } catch (err) {
+        const cached = await cache.get(id).catch(() => null);
+        if (!cached) throw err;
+        return cached;
+      }
+    },
+    save: async (conversation) => {
+      await quietly(cache.save(conversation));
+      await remote.save(conversation);
+    },
+    rename: async (id, title) => {
+      await remote.rename(id, title);
+      await quietly(cache.rename(id, title));
+    },
+    remove: async (id) => {
+      await remote.remove(id);
+      await quietly(cache.remove(id));
+    },
+  };
+}
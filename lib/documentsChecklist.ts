@@ -0,0 +1,93 @@
+import { extractListItems } from "@/lib/answerSections";
+
+export type DocumentItem = {
+  key: string;
+  name: string;
+  mandatory: boolean;
+  notes?: string;
+};
+
+export type ChecklistState = Record<string, boolean>;
+
+// Common documents are matched by alias so the same paper is counted once across schemes and languages.
+const knownDocuments: [string, RegExp][] = [
+  ["aadhaar", /aadha?a?r|आधार|আধার/i],
+  ["pan", /\bpan\b|पैन|প্যান/i],
+  ["ration-card", /ration card|राशन कार्ड|रेशन कार्ड|রেশন কার্ড/i],
+  ["income-certificate", /income certificate|income proof|आय प्रमाण|उत्पन्नाचा दाखला|আয়ের শংসাপত্র/i],
+  ["caste-certificate", /caste certificate|जाति प्रमाण|जातीचा दाखला|জাতি শংসাপত্র/i],
+  ["domicile-certificate", /domicile|residence certificate|निवास प्रमाण|अधिवास|বাসস্থান/i],
+  ["bank-account", /bank (?:account|passbook)|बैंक (?:खाता|पासबुक)|बँक|ব্যাংক/i],
+  ["photograph", /photo(?:graph)?s?\b|फोटो|ছবি/i],
+  ["voter-id", /voter id|\bepic\b|मतदाता पहचान|मतदार ओळखपत्र|ভোটার/i],
+  ["birth-certificate", /birth certificate|जन्म प्रमाण|जन्म दाखला|জন্ম শংসাপত্র/i],
+  ["disability-certificate", /disability certificate|\budid\b|दिव्यांग(?:ता)? प्रमाण/i],
+  ["land-records", /land records?|khatauni|\b7\/12\b|खतौनी|सातबारा|জমির/i],
+  ["mobile-number", /mobile number|मोबाइल नंबर|मोबाईल क्रमांक|মোবাইল নম্বর/i],
+];
+
+const optionalPattern = /\b(?:optional|if applicable|if any|where applicable)\b|वैकल्पिक|यदि लागू|लागू असल्यास|ঐচ্ছিক/i;
+const mandatoryPattern = /\b(?:mandatory|required|compulsory|must)\b|अनिवार्य|ज़रूरी|जरूरी|आवश्यक|বাধ্যতামূলক/i;
+const markerOnlyNotes = /^(?:\s*(?:mandatory|required|compulsory|optional|if applicable|if any)\s*)$/i;
+
+const checklistStorageKey = (sessionId: string) => `yojana-documents-checklist:${sessionId}`;
+
+const documentKey = (name: string) =>
+  knownDocuments.find(([, pattern]) => pattern.test(name))?.[0] ||
+  name
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+
+const splitNameAndNotes = (item: string) => {
+  const match = item.match(/^(.+?)(?:\s*[:–—]\s*|\s+-\s+|\s*\()(.+?)\)?$/);
+  if (!match) return { name: item, notes: undefined };
+  const notes = match[2].trim();
+  return { name: match[1].trim(), notes: notes && !markerOnlyNotes.test(notes) ? notes : undefined };
+};
+
+export function parseDocumentsChecklist(content: string): DocumentItem[] {
+  const items = new Map<string, DocumentItem>();
+  for (const raw of extractListItems(content)) {
+    const { name, notes } = splitNameAndNotes(raw);
+    const key = documentKey(name);
+    if (!key || items.has(key)) continue;
+    const mandatory = mandatoryPattern.test(raw) || !optionalPattern.test(raw);
+    items.set(key, { key, name, mandatory, notes });
+  }
+  return Array.from(items.values());
+}
+
+// How many answers in the conversation ask for each document.
+export const countDocumentUsage = (lists: DocumentItem[][]) => {
+  const counts = new Map<string, number>();
+  for (const list of lists) {
+    for (const item of list) counts.set(item.key, (counts.get(item.key) || 0) + 1);
+  }
+  return counts;
+};
+
+export const formatChecklistText = (items: DocumentItem[], state: ChecklistState, labels: { required: string; optional: string }) =>
+  items
+    .map((item) => {
+      const box = state[item.key] ? "[x]" : "[ ]";
+      const detail = [item.mandatory ? labels.required : labels.optional, item.notes].filter(Boolean).join(", ");
+      return `${box} ${item.name} (${detail})`;
+    })
+    .join("\n");
+
+export function loadChecklistState(sessionId: string): ChecklistState {
+  if (typeof window === "undefined" || !sessionId) return {};
+  try {
+    const raw = localStorage.getItem(checklistStorageKey(sessionId));
+    const parsed = raw ? (JSON.parse(raw) as unknown) : null;
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? (parsed as ChecklistState) : {};
+  } catch {
+    return {};
+  }
+}
+
+export function saveChecklistState(sessionId: string, state: ChecklistState) {
+  if (typeof window === "undefined" || !sessionId) return;
+  localStorage.setItem(checklistStorageKey(sessionId), JSON.stringify(state));
+}
@@ -0,0 +1,36 @@
+import type { SourceCard } from "@/lib/chatTypes";
+import { assessSource } from "@/lib/sourceTrust";
+
+export type EvidenceLevel = "well" | "partial" | "unsourced";
+
+export type EvidenceAssessment = {
+  level: EvidenceLevel;
+  sourceCount: number;
+  officialCount: number;
+  // Share of claim lines carrying a citation; null when the answer has no citations at all.
+  coverage: number | null;
+};
+
+const citationLinkPattern = /\]\(#src-\d+\)/;
+
+// Paragraphs and list items with a few words of prose count as claims; headings and table rules don't.
+const claimLines = (markdown: string) =>
+  markdown
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line) => line && !line.startsWith("#") && !/^\|?[\s:|-]+\|?$/.test(line))
+    .filter((line) => line.replace(/\[\d+\]\(#src-\d+\)/g, "").split(/\s+/).filter(Boolean).length >= 4);
+
+// Expects markdown that has already been through renderCitations, so every resolved citation is a `#src-n` link.
+export function assessEvidence(citedMarkdown: string, sources: SourceCard[]): EvidenceAssessment {
+  const officialCount = sources.filter((source) => assessSource(source).official).length;
+  if (!sources.length) return { level: "unsourced", sourceCount: 0, officialCount: 0, coverage: null };
+
+  const claims = claimLines(citedMarkdown);
+  const cited = claims.filter((line) => citationLinkPattern.test(line)).length;
+  const coverage = cited ? cited / claims.length : null;
+
+  // Without citations we can only judge the sources themselves, so ask for more corroboration.
+  const well = coverage === null ? officialCount >= 2 : officialCount >= 1 && coverage >= 0.5;
+  return { level: well ? "well" : "partial", sourceCount: sources.length, officialCount, coverage };
+}
@@ -0,0 +1,88 @@
+import type { SourceCard } from "@/lib/chatTypes";
+
+export type FeedbackRating = "up" | "down";
+
+export type FeedbackReason = "outdated" | "wrong_eligibility" | "broken_link" | "wrong_language" | "other";
+
+export type FeedbackPayload = {
+  sessionId: string;
+  messageId: string;
+  rating: FeedbackRating;
+  reason?: FeedbackReason;
+  comment?: string;
+  language: string;
+  sources: Pick<SourceCard, "title" | "url">[];
+  createdAt: string;
+};
+
+export const feedbackReasons: FeedbackReason[] = ["outdated", "wrong_eligibility", "broken_link", "wrong_language", "other"];
+
+export const maxFeedbackCommentLength = 1000;
+
+export const isFeedbackRating = (value: unknown): value is FeedbackRating => value === "up" || value === "down";
+
+export const isFeedbackReason = (value: unknown): value is FeedbackReason => feedbackReasons.includes(value as FeedbackReason);
+
+export const sanitizeFeedbackSources = (value: unknown): FeedbackPayload["sources"] =>
+  (Array.isArray(value) ? value : [])
+    .filter((item): item is Record<string, unknown> => Boolean(item) && typeof item === "object")
+    .filter((item) => typeof item.url === "string" && item.url.trim())
+    .slice(0, 20)
+    .map((item) => ({ title: typeof item.title === "string" ? item.title.slice(0, 200) : "", url: String(item.url).slice(0, 500) }));
+
+const feedbackQueueKey = "yojana-feedback-queue";
+
+const readQueue = (): FeedbackPayload[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(feedbackQueueKey) || "[]") as unknown;
+    return Array.isArray(parsed) ? (parsed as FeedbackPayload[]) : [];
+  } catch {
+    return [];
+  }
+};
+
+const writeQueue = (queue: FeedbackPayload[]) => {
+  if (queue.length) localStorage.setItem(feedbackQueueKey, JSON.stringify(queue));
+  else localStorage.removeItem(feedbackQueueKey);
+};
+
+// Network failures and 5xx are worth retrying; a 4xx means the payload itself was rejected, so that throws.
+const postFeedback = async (payload: FeedbackPayload, accessToken?: string): Promise<"sent" | "retry"> => {
+  let response: Response;
+  try {
+    response = await fetch("/api/feedback", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(accessToken ? { Authorization: `Bearer ${accessToken}` } : {}),
+      },
+      body: JSON.stringify(payload),
+    });
+  } catch {
+    return "retry";
+  }
+  if (response.ok) return "sent";
+  if (response.status >= 500) return "retry";
+  const data = (await response.json().catch(() => ({}))) as { error?: string };
+  throw new Error(data.error || `Feedback request failed (HTTP ${response.status}).`);
+};
+
+// Resolves to "queued" when the feedback is stored for a later retry instead of being sent now.
+export async function submitFeedback(payload: FeedbackPayload, accessToken?: string): Promise<"sent" | "queued"> {
+  const result = typeof navigator !== "undefined" && !navigator.onLine ? "retry" : await postFeedback(payload, accessToken);
+  if (result === "sent") return "sent";
+  writeQueue([...readQueue(), payload]);
+  return "queued";
+}
+
+export async function flushFeedbackQueue(accessToken?: string) {
+  const queue = readQueue();
+  if (!queue.length) return;
+  const remaining: FeedbackPayload[] = [];
+  for (const payload of queue) {
+    const result = await postFeedback(payload, accessToken).catch(() => "rejected" as const);
+    if (result === "retry") remaining.push(payload);
+  }
+  // Feedback queued while this flush was running is kept after the entries still pending.
+  writeQueue([...remaining, ...readQueue().slice(queue.length)]);
+}
@@ -0,0 +1,26 @@
+import type { SourceCard } from "@/lib/chatTypes";
+import { extractHostname } from "@/lib/sources";
+import { classifySourceKind } from "@/lib/sourceTrust";
+
+export const pdfProxyPath = (url: string) => `/api/pdf?url=${encodeURIComponent(url)}`;
+
+// The proxy only fetches from official hosts so it cannot be used to reach arbitrary or internal addresses.
+export const isProxyablePdfUrl = (value: string) => {
+  try {
+    const url = new URL(value);
+    if (url.protocol !== "https:" && url.protocol !== "http:") return false;
+    return classifySourceKind(extractHostname(url.toString()).toLowerCase()) !== "reference";
+  } catch {
+    return false;
+  }
+};
+
+export const isGuidelinePdf = (source: SourceCard) => /\.pdf(?:$|[?#])/i.test(source.url) && isProxyablePdfUrl(source.url);
+
+// Page hints come from a #page= fragment on the URL or a "page 12" / "p. 12" / "पृष्ठ 12" mention in the snippet.
+export const guidelinePage = (source: SourceCard) => {
+  const fragment = source.url.match(/#.*\bpage=(\d+)/i);
+  const mention = (source.snippet || "").match(/(?:\bpage|\bpg\.?|\bp\.|पृष्ठ|पेज)\s*(?:no\.?\s*)?(\d{1,4})\b/i);
+  const page = Number(fragment?.[1] || mention?.[1] || 1);
+  return Number.isFinite(page) && page > 0 ? page : 1;
+};
@@ -0,0 +1,47 @@
+import { getLocale, resolveLocale, type LocaleCode } from "@/lib/locales";
+import { bn } from "./messages/bn";
+import { en } from "./messages/en";
+import { gu } from "./messages/gu";
+import { hi } from "./messages/hi";
+import { kn } from "./messages/kn";
+import { ml } from "./messages/ml";
+import { mr } from "./messages/mr";
+import { or } from "./messages/or";
+import { pa } from "./messages/pa";
+import { ta } from "./messages/ta";
+import { te } from "./messages/te";
+import { ur } from "./messages/ur";
+import type { MessageCatalog, MessageKey, MessageParams, MessageValue, PluralMessage, Translator } from "./types";
+
+export type { MessageKey, MessageParams, Translator } from "./types";
+
+const catalogs: Record<LocaleCode, MessageCatalog> = { en, hi, mr, bn, ta, te, gu, kn, ml, pa, or, ur };
+
+const pluralRulesCache = new Map<LocaleCode, Intl.PluralRules>();
+
+const selectPlural = (locale: LocaleCode, message: PluralMessage, count: number) => {
+  let rules = pluralRulesCache.get(locale);
+  if (!rules) {
+    rules = new Intl.PluralRules(getLocale(locale).bcp47);
+    pluralRulesCache.set(locale, rules);
+  }
+  const form = count === 0 && message.zero ? "zero" : rules.select(count);
+  return message[form as keyof PluralMessage] ?? message.other;
+};
+
+const formatParam = (locale: LocaleCode, value: string | number) =>
+  typeof value === "number" ? value.toLocaleString(getLocale(locale).bcp47) : value;
+
+export function translate(language: string, key: MessageKey, params: MessageParams = {}) {
+  const locale = resolveLocale(language);
+  const localized = catalogs[locale][key];
+  const value: MessageValue = localized ?? en[key];
+  const source = localized === null ? "en" : locale;
+  const template =
+    typeof value === "string" ? value : selectPlural(source, value, typeof params.count === "number" ? params.count : Number(params.count) || 0);
+  return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+    name in params ? formatParam(locale, params[name]) : match
+  );
+}
+
+export const createTranslator = (language: string): Translator => (key, params) => translate(language, key, params);
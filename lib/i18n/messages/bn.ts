@@ -0,0 +1,251 @@
+import type { MessageCatalog } from "../types";
+
+export const bn: MessageCatalog = {
+  "header.newSearch": "নতুন অনুসন্ধান",
+  "header.openHistory": "কথোপকথনের ইতিহাস খুলুন",
+  "header.lightMode": "লাইট মোডে যান",
+  "header.darkMode": "ডার্ক মোডে যান",
+  "header.openAccountMenu": "অ্যাকাউন্ট মেনু খুলুন",
+  "header.closeAccountMenu": "অ্যাকাউন্ট মেনু বন্ধ করুন",
+  "menu.language": "ভাষা",
+  "menu.signIn": "সাইন ইন করুন",
+  "menu.signOut": "সাইন আউট করুন",
+
+  "composer.responseLanguage": "উত্তরের ভাষা",
+  "composer.selectLanguage": "ভাষা বেছে নিন",
+  "composer.editProfile": "যোগ্যতার প্রোফাইল সম্পাদনা করুন",
+  "composer.addProfile": "প্রোফাইল যোগ করুন",
+  "composer.send": "বার্তা পাঠান",
+  "composer.stop": "উত্তর থামান",
+
+  "answer.tab.summary": "সারসংক্ষেপ",
+  "answer.tab.eligibility": "যোগ্যতা",
+  "answer.tab.documents": "নথিপত্র",
+  "answer.tab.apply": "আবেদন",
+  "answer.share": "উত্তর শেয়ার করুন",
+  "answer.shared": "শেয়ার করা হয়েছে",
+  "answer.shareTitle": "JanInfra উত্তর",
+  "answer.sources": "উৎস ও প্রমাণ",
+  "answer.empty": "সার্ভার থেকে কোনো উত্তর আসেনি।",
+  "answer.connectionFailed": "সংযোগ করা যায়নি।",
+  "answer.createLink": "লিংক তৈরি করুন",
+  "answer.linkCopied": "লিংক কপি হয়েছে",
+  "answer.linkFailed": "লিংক তৈরি করা যায়নি।",
+  "answer.print": "প্রিন্ট করুন বা PDF হিসেবে সংরক্ষণ করুন",
+
+  "auth.title": "চালিয়ে যেতে সাইন ইন করুন",
+  "auth.pendingBody": "লগইন সম্পূর্ণ করুন, আপনার বার্তা নিজে থেকেই পাঠানো হবে।",
+  "auth.body": "স্কিম সহায়ক ব্যবহার চালিয়ে যান।",
+  "auth.google": "Google দিয়ে চালিয়ে যান",
+  "auth.redirecting": "Google-এ নিয়ে যাওয়া হচ্ছে...",
+  "auth.manualLink": "নিজে থেকে না গেলে এখানে ক্লিক করুন",
+  "auth.close": "সাইন ইন বন্ধ করুন",
+  "auth.signInToSend": "বার্তা পাঠাতে একবার সাইন ইন করুন।",
+  "auth.missingConfig": "yojana-web-এ Supabase env vars পাওয়া যায়নি।",
+  "auth.slowRedirect": "Google সাইন-ইনে অনেক সময় লাগছে। আবার চালিয়ে যান চাপুন বা সরাসরি লিংক ব্যবহার করুন।",
+
+  "voice.idle": "ভয়েস",
+  "voice.listening": "শুনছি {time}",
+  "voice.transcribing": "লেখা হচ্ছে",
+  "voice.start": "ভয়েস ইনপুট শুরু করুন",
+  "voice.stop": "রেকর্ডিং থামান",
+  "voice.unsupported": "এই ব্রাউজারে ভয়েস ইনপুট সমর্থিত নয়।",
+  "voice.recorderUnsupported": "এই ব্রাউজারে MediaRecorder সমর্থিত নয়।",
+  "voice.formatUnsupported": "এই ব্রাউজারে অডিও রেকর্ডিং সমর্থিত নয়।",
+  "voice.noAudio": "কোনো অডিও ধরা পড়েনি। আবার চেষ্টা করুন।",
+  "voice.noSpeech": "কিছু শোনা যায়নি। আবার চেষ্টা করুন।",
+  "voice.tooLarge": "রেকর্ডিংটি আপলোডের জন্য খুব বড় (সর্বোচ্চ {size} MB)। ছোট প্রশ্ন রেকর্ড করুন।",
+  "voice.permissionDenied": "মাইক্রোফোনের অনুমতি দেওয়া হয়নি বা মাইক্রোফোন পাওয়া যাচ্ছে না।",
+  "voice.failed": "ভয়েস লেখায় রূপান্তর করা যায়নি।",
+
+  "history.title": "ইতিহাস",
+  "history.label": "কথোপকথনের ইতিহাস",
+  "history.close": "ইতিহাস বন্ধ করুন",
+  "history.count": { one: "{count}টি কথোপকথন", other: "{count}টি কথোপকথন" },
+  "history.localOnly": "শুধু এই ডিভাইসে সংরক্ষিত।",
+  "history.loading": "লোড হচ্ছে…",
+  "history.empty": "এখনও কোনো পুরোনো কথোপকথন নেই।",
+  "history.rename": "কথোপকথনের নাম বদলান",
+  "history.delete": "কথোপকথন মুছুন",
+  "history.titleInput": "কথোপকথনের শিরোনাম",
+  "history.loadFailed": "ইতিহাস লোড করা যায়নি।",
+  "history.openFailed": "কথোপকথন খোলা যায়নি।",
+  "history.renameFailed": "কথোপকথনের নাম বদলানো যায়নি।",
+  "history.deleteFailed": "কথোপকথন মোছা যায়নি।",
+  "history.missing": "এই কথোপকথনটি আর পাওয়া যাচ্ছে না।",
+
+  "profile.eyebrow": "আপনার প্রোফাইল",
+  "profile.title": "যোগ্যতার বিবরণ",
+  "profile.label": "যোগ্যতার প্রোফাইল",
+  "profile.body": "এই তথ্য প্রতিটি প্রশ্নের সঙ্গে পাঠানো হয়, যাতে উত্তরগুলি একই তথ্যের উপর ভিত্তি করে থাকে।",
+  "profile.autoFilled": "কিছু তথ্য আপনার প্রথম বার্তা থেকে পূরণ করা হয়েছে। পরের প্রশ্নের আগে একবার দেখে নিন।",
+  "profile.close": "প্রোফাইল বন্ধ করুন",
+  "profile.age": "বয়স",
+  "profile.gender": "লিঙ্গ",
+  "profile.gender.female": "মহিলা",
+  "profile.gender.male": "পুরুষ",
+  "profile.gender.other": "অন্যান্য",
+  "profile.state": "রাজ্য / কেন্দ্রশাসিত অঞ্চল",
+  "profile.category": "সামাজিক শ্রেণী",
+  "profile.occupation": "পেশা",
+  "profile.income": "বার্ষিক পারিবারিক আয় (₹)",
+  "profile.disability": "প্রতিবন্ধী ব্যক্তি",
+  "profile.student": "বর্তমানে ছাত্র/ছাত্রী",
+  "profile.notSet": "বেছে নেওয়া হয়নি",
+  "profile.clear": "মুছে ফেলুন",
+  "profile.done": "হয়ে গেছে",
+  "profile.saveFailed": "আপনার প্রোফাইল অ্যাকাউন্টে সংরক্ষণ করা যায়নি। এটি এখনও এই ডিভাইসে সংরক্ষিত আছে।",
+
+  "permalink.eyebrow": "শেয়ার করা উত্তর",
+  "permalink.sharedOn": "{date} তারিখে শেয়ার করা",
+  "permalink.continue": "এই কথোপকথন চালিয়ে যান",
+  "permalink.disclaimer": "এটি একটি স্ন্যাপশট। প্রকল্পের নিয়ম বদলায়, তাই আবেদনের আগে উৎসগুলি দেখে নিন।",
+
+  "print.generatedOn": "{date} তারিখে তৈরি",
+  "print.checklist": "নথিপত্রের তালিকা",
+
+  "documents.progress": "{total}টির মধ্যে {done}টি তৈরি",
+  "documents.required": "প্রয়োজনীয়",
+  "documents.optional": "ঐচ্ছিক",
+  "documents.copy": "লেখা হিসেবে কপি করুন",
+  "documents.copied": "কপি হয়েছে",
+  "documents.copyFailed": "কপি করা যায়নি",
+  "documents.sharedCount": { one: "এই কথোপকথনের {count}টি প্রকল্পের জন্য প্রয়োজন", other: "এই কথোপকথনের {count}টি প্রকল্পের জন্য প্রয়োজন" },
+
+  "tracker.start": "এই আবেদন ট্র্যাক করুন",
+  "tracker.progress": "{total}টির মধ্যে {done}টি ধাপ সম্পন্ন",
+  "tracker.status.not_started": "শুরু হয়নি",
+  "tracker.status.in_progress": "চলছে",
+  "tracker.status.done": "সম্পন্ন",
+  "tracker.deadline": "শেষ তারিখ",
+  "tracker.reminder": "রিমাইন্ডার",
+  "tracker.notes": "নোট",
+  "tracker.reminderDue": "রিমাইন্ডারের সময় হয়েছে",
+  "tracker.stop": "ট্র্যাক করা বন্ধ করুন",
+  "tracker.inProgress": "চলমান আবেদন",
+  "tracker.saveFailed": "আপনার অগ্রগতি সংরক্ষণ করা যায়নি।",
+
+  "sources.kind.national": "জাতীয় পোর্টাল",
+  "sources.kind.central": "কেন্দ্রীয় সরকার",
+  "sources.kind.state": "রাজ্য সরকার",
+  "sources.kind.govHosted": "সরকারি হোস্টেড",
+  "sources.kind.publicBody": "সরকারি সংস্থা",
+  "sources.kind.reference": "তথ্যসূত্র",
+  "sources.guideline": "নির্দেশিকা",
+  "sources.unofficial": "সরকারি উৎস নয়",
+  "sources.stale": "পুরোনো হতে পারে",
+  "sources.updated": "{date} আপডেট করা হয়েছে",
+
+  "pdf.view": "অ্যাপে পড়ুন",
+  "pdf.close": "নথি বন্ধ করুন",
+  "pdf.openOriginal": "মূল খুলুন",
+  "pdf.loading": "নথি লোড হচ্ছে…",
+  "pdf.failed": "এই নথি এখানে খোলা যায়নি।",
+  "pdf.page": "পৃষ্ঠা {page} / {total}",
+  "pdf.previous": "আগের পৃষ্ঠা",
+  "pdf.next": "পরের পৃষ্ঠা",
+  "pdf.search": "নথিতে খুঁজুন",
+  "pdf.searching": "খোঁজা হচ্ছে…",
+  "pdf.matches": { one: "{count}টি পৃষ্ঠায় পাওয়া গেছে", other: "{count}টি পৃষ্ঠায় পাওয়া গেছে" },
+  "pdf.noMatches": "এই নথিতে কিছু পাওয়া যায়নি",
+  "pdf.previousMatch": "আগের ফলাফল",
+  "pdf.nextMatch": "পরের ফলাফল",
+
+  "evidence.well": "ভালোভাবে সমর্থিত",
+  "evidence.partial": "আংশিক সমর্থিত",
+  "evidence.unsourced": "উৎসহীন",
+  "evidence.details": "উৎস: {sources} · সরকারি: {official}",
+  "evidence.coverage": "{percent}% দাবির উৎস দেওয়া আছে",
+  "evidence.unsourcedNotice": "এই উত্তরের কোনো উৎস নেই। কাজে লাগানোর আগে সরকারি প্রকল্প পোর্টালে যাচাই করুন।",
+  "evidence.findSource": "সরকারি উৎস খুঁজুন",
+  "evidence.findSourceQuestion": "এর জন্য সরকারি উৎস খুঁজে দিন: {question}",
+
+  "compare.add": "তুলনায় যোগ করুন",
+  "compare.selected": { one: "{count}টি প্রকল্প বাছাই করা হয়েছে", other: "{count}টি প্রকল্প বাছাই করা হয়েছে" },
+  "compare.open": "তুলনা করুন",
+  "compare.clear": "মুছুন",
+  "compare.title": "প্রকল্পের তুলনা",
+  "compare.close": "তুলনা বন্ধ করুন",
+  "compare.remove": "সরান",
+  "compare.benefit": "সুবিধা",
+  "compare.eligibility": "যোগ্যতা",
+  "compare.documents": "প্রয়োজনীয় নথি",
+  "compare.mode": "আবেদনের পদ্ধতি",
+  "compare.mode.online": "অনলাইন",
+  "compare.mode.offline": "অফলাইন (অফিস বা CSC)",
+  "compare.mode.both": "অনলাইন বা অফলাইন",
+  "compare.officialLink": "সরকারি লিঙ্ক",
+
+  "bookmark.save": "প্রকল্প সংরক্ষণ করুন",
+  "bookmark.remove": "সংরক্ষিত তালিকা থেকে সরান",
+  "bookmark.title": "আমার প্রকল্প",
+  "bookmark.close": "সংরক্ষিত প্রকল্প বন্ধ করুন",
+  "bookmark.empty": "আপনার সংরক্ষিত প্রকল্প এখানে দেখা যাবে।",
+  "bookmark.savedOn": "{date} সংরক্ষিত",
+  "bookmark.notes": "নোট",
+  "bookmark.notesPlaceholder": "নোট যোগ করুন, যেমন কোন নথি এখনও বাকি",
+  "bookmark.openConversation": "কথোপকথন খুলুন",
+  "bookmark.saveFailed": "আপনার সংরক্ষিত প্রকল্প আপডেট করা যায়নি।",
+
+  "feedback.helpful": "সহায়ক",
+  "feedback.notHelpful": "সহায়ক নয়",
+  "feedback.thanks": "মতামতের জন্য ধন্যবাদ",
+  "feedback.whatWentWrong": "কী ভুল ছিল?",
+  "feedback.reason.outdated": "পুরোনো তথ্য",
+  "feedback.reason.wrong_eligibility": "ভুল যোগ্যতা",
+  "feedback.reason.broken_link": "ভাঙা লিঙ্ক",
+  "feedback.reason.wrong_language": "ভুল ভাষা",
+  "feedback.reason.other": "অন্যান্য",
+  "feedback.commentPlaceholder": "আরও জানান (ঐচ্ছিক)",
+  "feedback.cancel": "বাতিল",
+  "feedback.send": "পাঠান",
+  "feedback.failed": "মতামত পাঠানো যায়নি।",
+
+  "answer.copy": "উত্তর কপি করুন",
+  "answer.copied": "কপি হয়েছে",
+  "answer.copyMarkdown": "Markdown হিসেবে কপি করুন",
+  "answer.copyText": "সাধারণ টেক্সট হিসেবে কপি করুন",
+  "answer.copyFailed": "কপি করা যায়নি। আপনার ব্রাউজার ক্লিপবোর্ডে প্রবেশাধিকার আটকে দিয়েছে।",
+  "message.edit": "সম্পাদনা",
+  "message.cancelEdit": "বাতিল",
+  "message.resend": "পাঠান",
+  "message.regenerate": "আবার উত্তর তৈরি করুন",
+  "message.version": "{current} / {total}",
+  "message.previousVersion": "আগের সংস্করণ",
+  "message.nextVersion": "পরের সংস্করণ",
+
+  "offline.online": "অনলাইন",
+  "offline.offline": "অফলাইন",
+  "offline.offlineHint": "আপনি অফলাইনে আছেন। সংরক্ষিত কথোপকথন ও বুকমার্ক এখনও দেখা যাবে।",
+  "offline.queuedNotice": { one: "অনলাইনে ফিরলে {count}টি প্রশ্ন পাঠানো হবে", other: "অনলাইনে ফিরলে {count}টি প্রশ্ন পাঠানো হবে" },
+  "offline.sendingQueued": { one: "অপেক্ষমাণ {count}টি প্রশ্ন পাঠানো হচ্ছে", other: "অপেক্ষমাণ {count}টি প্রশ্ন পাঠানো হচ্ছে" },
+  "offline.removeQueued": "অপেক্ষমাণ প্রশ্ন সরান",
+
+  "lite.title": "লাইট মোড",
+  "lite.auto": "অটো",
+  "lite.on": "চালু",
+  "lite.off": "বন্ধ",
+  "lite.hint": "অ্যানিমেশন বন্ধ করে এবং ছোট উত্তর লোড করে। ধীর সংযোগে অটো এটি চালু করে।",
+  "lite.autoActive": "চালু আছে কারণ আপনার সংযোগ ধীর বা ডেটা সেভার চালু।",
+  "lite.showSources": { one: "{count}টি উৎস দেখান", other: "{count}টি উৎস দেখান" },
+
+  "readAloud.start": "পড়ে শোনান",
+  "readAloud.stop": "পড়া বন্ধ করুন",
+  "readAloud.pause": "থামান",
+  "readAloud.resume": "আবার চালু করুন",
+  "readAloud.loading": "অডিও তৈরি হচ্ছে…",
+  "readAloud.progress": "বাক্য {current} / {total}",
+  "readAloud.failed": "এই উত্তরটি পড়ে শোনানো যায়নি। আবার চেষ্টা করুন।",
+  "readAloud.unavailable": "এই ডিভাইসে পড়ে শোনানোর সুবিধা নেই।",
+
+  "voiceMode.title": "কণ্ঠে কথোপকথন",
+  "voiceMode.start": "কণ্ঠে কথোপকথন শুরু করুন",
+  "voiceMode.listening": "শুনছি",
+  "voiceMode.thinking": "ভাবছি",
+  "voiceMode.speaking": "বলছি",
+  "voiceMode.paused": "থামানো",
+  "voiceMode.hint": "আপনার প্রশ্ন বলুন। উত্তর পড়ে শোনানো হবে, তারপর আবার শুনব।",
+  "voiceMode.interrupt": "থামান",
+  "voiceMode.tapToTalk": "বলতে ট্যাপ করুন",
+  "voiceMode.end": "শেষ করুন",
+};
@@ -0,0 +1,251 @@
+import type { MessageValue } from "../types";
+
+export const en = {
+  "header.newSearch": "New search",
+  "header.openHistory": "Open conversation history",
+  "header.lightMode": "Switch to light mode",
+  "header.darkMode": "Switch to dark mode",
+  "header.openAccountMenu": "Open account menu",
+  "header.closeAccountMenu": "Close account menu",
+  "menu.language": "Language",
+  "menu.signIn": "Sign in",
+  "menu.signOut": "Sign out",
+
+  "composer.responseLanguage": "Response language",
+  "composer.selectLanguage": "Select language",
+  "composer.editProfile": "Edit eligibility profile",
+  "composer.addProfile": "Add profile",
+  "composer.send": "Send message",
+  "composer.stop": "Stop generating",
+
+  "answer.tab.summary": "Summary",
+  "answer.tab.eligibility": "Eligibility",
+  "answer.tab.documents": "Documents",
+  "answer.tab.apply": "Apply",
+  "answer.share": "Share response",
+  "answer.shared": "Shared",
+  "answer.shareTitle": "JanInfra response",
+  "answer.sources": "Sources & Evidence",
+  "answer.empty": "No answer returned from backend.",
+  "answer.connectionFailed": "Failed to connect.",
+  "answer.createLink": "Create link",
+  "answer.linkCopied": "Link copied",
+  "answer.linkFailed": "Unable to create a link.",
+  "answer.print": "Print or save as PDF",
+
+  "auth.title": "Sign in to continue",
+  "auth.pendingBody": "Complete login and your message will be sent automatically.",
+  "auth.body": "Continue to use the scheme assistant.",
+  "auth.google": "Continue with Google",
+  "auth.redirecting": "Redirecting to Google...",
+  "auth.manualLink": "Click here if you aren't redirected automatically",
+  "auth.close": "Close sign in",
+  "auth.signInToSend": "Sign in once to send your message.",
+  "auth.missingConfig": "Missing Supabase env vars in yojana-web.",
+  "auth.slowRedirect": "Google sign-in is taking too long. Tap Continue again or use the direct fallback link.",
+
+  "voice.idle": "Voice",
+  "voice.listening": "Listening {time}",
+  "voice.transcribing": "Transcribing",
+  "voice.start": "Start voice input",
+  "voice.stop": "Stop recording",
+  "voice.unsupported": "Voice input is not supported in this browser.",
+  "voice.recorderUnsupported": "MediaRecorder is not supported in this browser.",
+  "voice.formatUnsupported": "Audio recording is not supported in this browser.",
+  "voice.noAudio": "No audio captured. Please try again.",
+  "voice.noSpeech": "Didn't hear anything. Please try again.",
+  "voice.tooLarge": "Recording is too large to upload (max {size} MB). Please record a shorter question.",
+  "voice.permissionDenied": "Microphone permission denied or unavailable.",
+  "voice.failed": "Transcription failed.",
+
+  "history.title": "History",
+  "history.label": "Conversation history",
+  "history.close": "Close history",
+  "history.count": { one: "{count} conversation", other: "{count} conversations" },
+  "history.localOnly": "Saved on this device only.",
+  "history.loading": "Loading…",
+  "history.empty": "No past conversations yet.",
+  "history.rename": "Rename conversation",
+  "history.delete": "Delete conversation",
+  "history.titleInput": "Conversation title",
+  "history.loadFailed": "Unable to load history.",
+  "history.openFailed": "Unable to open conversation.",
+  "history.renameFailed": "Unable to rename conversation.",
+  "history.deleteFailed": "Unable to delete conversation.",
+  "history.missing": "That conversation is no longer available.",
+
+  "profile.eyebrow": "YOUR PROFILE",
+  "profile.title": "Eligibility details",
+  "profile.label": "Eligibility profile",
+  "profile.body": "These details are sent with every question so answers stay grounded in the same facts.",
+  "profile.autoFilled": "Some fields were filled in from your first message. Check them before your next question.",
+  "profile.close": "Close profile",
+  "profile.age": "Age",
+  "profile.gender": "Gender",
+  "profile.gender.female": "Female",
+  "profile.gender.male": "Male",
+  "profile.gender.other": "Other",
+  "profile.state": "State / UT",
+  "profile.category": "Social category",
+  "profile.occupation": "Occupation",
+  "profile.income": "Annual family income (₹)",
+  "profile.disability": "Person with disability",
+  "profile.student": "Currently a student",
+  "profile.notSet": "Not set",
+  "profile.clear": "Clear",
+  "profile.done": "Done",
+  "profile.saveFailed": "Unable to save your profile to your account. It is still saved on this device.",
+
+  "permalink.eyebrow": "SHARED ANSWER",
+  "permalink.sharedOn": "Shared on {date}",
+  "permalink.continue": "Continue this conversation",
+  "permalink.disclaimer": "This is a snapshot. Scheme rules change, so check the sources before applying.",
+
+  "print.generatedOn": "Generated on {date}",
+  "print.checklist": "Documents checklist",
+
+  "documents.progress": "{done} of {total} ready",
+  "documents.required": "Required",
+  "documents.optional": "Optional",
+  "documents.copy": "Copy as text",
+  "documents.copied": "Copied",
+  "documents.copyFailed": "Couldn't copy",
+  "documents.sharedCount": { one: "Needed for {count} scheme in this conversation", other: "Needed for {count} schemes in this conversation" },
+
+  "tracker.start": "Track this application",
+  "tracker.progress": "{done} of {total} steps done",
+  "tracker.status.not_started": "Not started",
+  "tracker.status.in_progress": "In progress",
+  "tracker.status.done": "Done",
+  "tracker.deadline": "Deadline",
+  "tracker.reminder": "Reminder",
+  "tracker.notes": "Notes",
+  "tracker.reminderDue": "Reminder due",
+  "tracker.stop": "Stop tracking",
+  "tracker.inProgress": "Applications in progress",
+  "tracker.saveFailed": "Unable to save your progress.",
+
+  "sources.kind.national": "National portal",
+  "sources.kind.central": "Central government",
+  "sources.kind.state": "State government",
+  "sources.kind.govHosted": "Government hosted",
+  "sources.kind.publicBody": "Public body",
+  "sources.kind.reference": "Reference",
+  "sources.guideline": "Guidelines",
+  "sources.unofficial": "Not an official source",
+  "sources.stale": "May be outdated",
+  "sources.updated": "Updated {date}",
+
+  "pdf.view": "Read in app",
+  "pdf.close": "Close document",
+  "pdf.openOriginal": "Open original",
+  "pdf.loading": "Loading document…",
+  "pdf.failed": "Unable to open this document here.",
+  "pdf.page": "Page {page} of {total}",
+  "pdf.previous": "Previous page",
+  "pdf.next": "Next page",
+  "pdf.search": "Search in document",
+  "pdf.searching": "Searching…",
+  "pdf.matches": { one: "Found on {count} page", other: "Found on {count} pages" },
+  "pdf.noMatches": "No matches in this document",
+  "pdf.previousMatch": "Previous match",
+  "pdf.nextMatch": "Next match",
+
+  "evidence.well": "Well sourced",
+  "evidence.partial": "Partially sourced",
+  "evidence.unsourced": "Unsourced",
+  "evidence.details": "Sources: {sources} · Official: {official}",
+  "evidence.coverage": "{percent}% of claims cited",
+  "evidence.unsourcedNotice": "No source backs this answer. Verify it on the official scheme portal before you act on it.",
+  "evidence.findSource": "Find official source",
+  "evidence.findSourceQuestion": "Find the official government source for this: {question}",
+
+  "compare.add": "Add to comparison",
+  "compare.selected": { one: "{count} scheme selected", other: "{count} schemes selected" },
+  "compare.open": "Compare",
+  "compare.clear": "Clear",
+  "compare.title": "Scheme comparison",
+  "compare.close": "Close comparison",
+  "compare.remove": "Remove",
+  "compare.benefit": "Benefit",
+  "compare.eligibility": "Eligibility",
+  "compare.documents": "Documents required",
+  "compare.mode": "Application mode",
+  "compare.mode.online": "Online",
+  "compare.mode.offline": "Offline (office or CSC)",
+  "compare.mode.both": "Online or offline",
+  "compare.officialLink": "Official link",
+
+  "bookmark.save": "Save scheme",
+  "bookmark.remove": "Remove from saved",
+  "bookmark.title": "My schemes",
+  "bookmark.close": "Close saved schemes",
+  "bookmark.empty": "Schemes you save appear here.",
+  "bookmark.savedOn": "Saved {date}",
+  "bookmark.notes": "Notes",
+  "bookmark.notesPlaceholder": "Add a note, e.g. which documents are still pending",
+  "bookmark.openConversation": "Open conversation",
+  "bookmark.saveFailed": "Unable to update your saved schemes.",
+
+  "feedback.helpful": "Helpful",
+  "feedback.notHelpful": "Not helpful",
+  "feedback.thanks": "Thanks for the feedback",
+  "feedback.whatWentWrong": "What went wrong?",
+  "feedback.reason.outdated": "Outdated",
+  "feedback.reason.wrong_eligibility": "Wrong eligibility",
+  "feedback.reason.broken_link": "Broken link",
+  "feedback.reason.wrong_language": "Wrong language",
+  "feedback.reason.other": "Other",
+  "feedback.commentPlaceholder": "Tell us more (optional)",
+  "feedback.cancel": "Cancel",
+  "feedback.send": "Send",
+  "feedback.failed": "Unable to send feedback.",
+
+  "answer.copy": "Copy answer",
+  "answer.copied": "Copied",
+  "answer.copyMarkdown": "Copy as Markdown",
+  "answer.copyText": "Copy as plain text",
+  "answer.copyFailed": "Couldn't copy. Your browser blocked clipboard access.",
+  "message.edit": "Edit",
+  "message.cancelEdit": "Cancel",
+  "message.resend": "Send",
+  "message.regenerate": "Regenerate answer",
+  "message.version": "{current} / {total}",
+  "message.previousVersion": "Previous version",
+  "message.nextVersion": "Next version",
+
+  "offline.online": "Online",
+  "offline.offline": "Offline",
+  "offline.offlineHint": "You're offline. Saved conversations and bookmarks are still available.",
+  "offline.queuedNotice": { one: "{count} question will be sent when you're back online", other: "{count} questions will be sent when you're back online" },
+  "offline.sendingQueued": { one: "Sending {count} queued question", other: "Sending {count} queued questions" },
+  "offline.removeQueued": "Remove queued question",
+
+  "lite.title": "Lite mode",
+  "lite.auto": "Auto",
+  "lite.on": "On",
+  "lite.off": "Off",
+  "lite.hint": "Turns off animations and loads shorter answers. Auto switches it on for slow connections.",
+  "lite.autoActive": "On because your connection is slow or Data Saver is enabled.",
+  "lite.showSources": { one: "Show {count} source", other: "Show {count} sources" },
+
+  "readAloud.start": "Read aloud",
+  "readAloud.stop": "Stop reading",
+  "readAloud.pause": "Pause",
+  "readAloud.resume": "Resume",
+  "readAloud.loading": "Preparing audio…",
+  "readAloud.progress": "Sentence {current} of {total}",
+  "readAloud.failed": "Couldn't read this answer aloud. Please try again.",
+  "readAloud.unavailable": "Read aloud isn't available on this device.",
+
+  "voiceMode.title": "Voice conversation",
+  "voiceMode.start": "Start a voice conversation",
+  "voiceMode.listening": "Listening",
+  "voiceMode.thinking": "Thinking",
+  "voiceMode.speaking": "Speaking",
+  "voiceMode.paused": "Paused",
+  "voiceMode.hint": "Ask your question. I'll answer out loud, then listen again.",
+  "voiceMode.interrupt": "Interrupt",
+  "voiceMode.tapToTalk": "Tap to talk",
+  "voiceMode.end": "End",
+} as const satisfies Record<string, MessageValue>;
@@ -0,0 +1,251 @@
+import type { MessageCatalog } from "../types";
+
+export const gu: MessageCatalog = {
+  "header.newSearch": "નવી શોધ",
+  "header.openHistory": null,
+  "header.lightMode": null,
+  "header.darkMode": null,
+  "header.openAccountMenu": null,
+  "header.closeAccountMenu": null,
+  "menu.language": "ભાષા",
+  "menu.signIn": "સાઇન ઇન",
+  "menu.signOut": "સાઇન આઉટ",
+
+  "composer.responseLanguage": "જવાબની ભાષા",
+  "composer.selectLanguage": "ભાષા પસંદ કરો",
+  "composer.editProfile": null,
+  "composer.addProfile": "પ્રોફાઇલ ઉમેરો",
+  "composer.send": "સંદેશ મોકલો",
+  "composer.stop": "જવાબ રોકો",
+
+  "answer.tab.summary": "સારાંશ",
+  "answer.tab.eligibility": "પાત્રતા",
+  "answer.tab.documents": "દસ્તાવેજો",
+  "answer.tab.apply": "અરજી",
+  "answer.share": "જવાબ શેર કરો",
+  "answer.shared": "શેર કર્યું",
+  "answer.shareTitle": null,
+  "answer.sources": "સ્ત્રોતો અને પુરાવા",
+  "answer.empty": "બેકએન્ડ તરફથી કોઈ જવાબ મળ્યો નથી.",
+  "answer.connectionFailed": "કનેક્ટ થઈ શક્યું નહીં.",
+  "answer.createLink": null,
+  "answer.linkCopied": null,
+  "answer.linkFailed": "લિંક બનાવી શકાઈ નથી.",
+  "answer.print": null,
+
+  "auth.title": "આગળ વધવા સાઇન ઇન કરો",
+  "auth.pendingBody": "લૉગિન પૂર્ણ કરો, તમારો સંદેશ આપમેળે મોકલાશે.",
+  "auth.body": "યોજના સહાયકનો ઉપયોગ કરવા માટે આગળ વધો.",
+  "auth.google": "Google સાથે આગળ વધો",
+  "auth.redirecting": "Google પર લઈ જઈ રહ્યા છીએ...",
+  "auth.manualLink": "જો આપમેળે રીડાયરેક્ટ ન થાય તો અહીં ક્લિક કરો",
+  "auth.close": "સાઇન ઇન બંધ કરો",
+  "auth.signInToSend": "તમારો સંદેશ મોકલવા માટે એક વાર સાઇન ઇન કરો.",
+  "auth.missingConfig": "yojana-web માં Supabase env vars મળ્યા નથી.",
+  "auth.slowRedirect": "Google સાઇન ઇનમાં વધુ સમય લાગી રહ્યો છે. ફરીથી ચાલુ રાખો દબાવો અથવા સીધી લિંકનો ઉપયોગ કરો.",
+
+  "voice.idle": "અવાજ",
+  "voice.listening": "સાંભળી રહ્યા છીએ {time}",
+  "voice.transcribing": "લખી રહ્યા છીએ",
+  "voice.start": "અવાજથી લખવાનું શરૂ કરો",
+  "voice.stop": "રેકોર્ડિંગ રોકો",
+  "voice.unsupported": "આ બ્રાઉઝરમાં વૉઇસ ઇનપુટ સપોર્ટેડ નથી.",
+  "voice.recorderUnsupported": "આ બ્રાઉઝરમાં MediaRecorder સપોર્ટેડ નથી.",
+  "voice.formatUnsupported": "આ બ્રાઉઝરમાં ઑડિયો રેકોર્ડિંગ સપોર્ટેડ નથી.",
+  "voice.noAudio": "કોઈ ઑડિયો રેકોર્ડ થયો નથી. કૃપા કરીને ફરી પ્રયાસ કરો.",
+  "voice.noSpeech": "કંઈ સંભળાયું નહીં. કૃપા કરીને ફરી પ્રયાસ કરો.",
+  "voice.tooLarge": "રેકોર્ડિંગ અપલોડ કરવા માટે ખૂબ મોટું છે (મહત્તમ {size} MB). કૃપા કરીને ટૂંકો પ્રશ્ન રેકોર્ડ કરો.",
+  "voice.permissionDenied": "માઇક્રોફોનની પરવાનગી નકારાઈ અથવા ઉપલબ્ધ નથી.",
+  "voice.failed": "લખાણમાં રૂપાંતર નિષ્ફળ ગયું.",
+
+  "history.title": "ઇતિહાસ",
+  "history.label": null,
+  "history.close": null,
+  "history.count": null,
+  "history.localOnly": null,
+  "history.loading": null,
+  "history.empty": null,
+  "history.rename": null,
+  "history.delete": null,
+  "history.titleInput": null,
+  "history.loadFailed": "ઇતિહાસ લોડ થઈ શક્યો નહીં.",
+  "history.openFailed": "વાતચીત ખોલી શકાઈ નહીં.",
+  "history.renameFailed": "વાતચીતનું નામ બદલી શકાયું નહીં.",
+  "history.deleteFailed": "વાતચીત કાઢી શકાઈ નહીં.",
+  "history.missing": "તે વાતચીત હવે ઉપલબ્ધ નથી.",
+
+  "profile.eyebrow": "તમારી પ્રોફાઇલ",
+  "profile.title": "પાત્રતાની વિગતો",
+  "profile.label": "પાત્રતા પ્રોફાઇલ",
+  "profile.body": "જવાબો એક જ હકીકતો પર આધારિત રહે તે માટે આ વિગતો દરેક પ્રશ્ન સાથે મોકલાય છે.",
+  "profile.autoFilled": "કેટલાક ક્ષેત્રો તમારા પહેલા સંદેશમાંથી ભરાયા છે. આગલા પ્રશ્ન પહેલાં તેમને તપાસો.",
+  "profile.close": "પ્રોફાઇલ બંધ કરો",
+  "profile.age": "ઉંમર",
+  "profile.gender": "લિંગ",
+  "profile.gender.female": "સ્ત્રી",
+  "profile.gender.male": "પુરુષ",
+  "profile.gender.other": "અન્ય",
+  "profile.state": "રાજ્ય / કેન્દ્રશાસિત પ્રદેશ",
+  "profile.category": "સામાજિક વર્ગ",
+  "profile.occupation": "વ્યવસાય",
+  "profile.income": "વાર્ષિક કૌટુંબિક આવક (₹)",
+  "profile.disability": "દિવ્યાંગ વ્યક્તિ",
+  "profile.student": "હાલમાં વિદ્યાર્થી",
+  "profile.notSet": "સેટ નથી",
+  "profile.clear": "સાફ કરો",
+  "profile.done": "થઈ ગયું",
+  "profile.saveFailed": "તમારી પ્રોફાઇલ ખાતામાં સાચવી શકાઈ નહીં. તે હજુ પણ આ ઉપકરણ પર સાચવેલી છે.",
+
+  "permalink.eyebrow": null,
+  "permalink.sharedOn": null,
+  "permalink.continue": null,
+  "permalink.disclaimer": null,
+
+  "print.generatedOn": null,
+  "print.checklist": null,
+
+  "documents.progress": null,
+  "documents.required": null,
+  "documents.optional": null,
+  "documents.copy": null,
+  "documents.copied": null,
+  "documents.copyFailed": "કૉપિ થઈ શક્યું નહીં",
+  "documents.sharedCount": null,
+
+  "tracker.start": null,
+  "tracker.progress": null,
+  "tracker.status.not_started": null,
+  "tracker.status.in_progress": null,
+  "tracker.status.done": null,
+  "tracker.deadline": null,
+  "tracker.reminder": null,
+  "tracker.notes": null,
+  "tracker.reminderDue": null,
+  "tracker.stop": null,
+  "tracker.inProgress": null,
+  "tracker.saveFailed": "તમારી પ્રગતિ સાચવી શકાઈ નહીં.",
+
+  "sources.kind.national": null,
+  "sources.kind.central": null,
+  "sources.kind.state": null,
+  "sources.kind.govHosted": null,
+  "sources.kind.publicBody": null,
+  "sources.kind.reference": null,
+  "sources.guideline": null,
+  "sources.unofficial": null,
+  "sources.stale": null,
+  "sources.updated": null,
+
+  "pdf.view": null,
+  "pdf.close": null,
+  "pdf.openOriginal": null,
+  "pdf.loading": null,
+  "pdf.failed": "આ દસ્તાવેજ અહીં ખોલી શકાયો નહીં.",
+  "pdf.page": null,
+  "pdf.previous": null,
+  "pdf.next": null,
+  "pdf.search": null,
+  "pdf.searching": null,
+  "pdf.matches": null,
+  "pdf.noMatches": null,
+  "pdf.previousMatch": null,
+  "pdf.nextMatch": null,
+
+  "evidence.well": null,
+  "evidence.partial": null,
+  "evidence.unsourced": null,
+  "evidence.details": null,
+  "evidence.coverage": null,
+  "evidence.unsourcedNotice": null,
+  "evidence.findSource": null,
+  "evidence.findSourceQuestion": null,
+
+  "compare.add": null,
+  "compare.selected": null,
+  "compare.open": null,
+  "compare.clear": null,
+  "compare.title": null,
+  "compare.close": null,
+  "compare.remove": null,
+  "compare.benefit": null,
+  "compare.eligibility": null,
+  "compare.documents": null,
+  "compare.mode": null,
+  "compare.mode.online": null,
+  "compare.mode.offline": null,
+  "compare.mode.both": null,
+  "compare.officialLink": null,
+
+  "bookmark.save": null,
+  "bookmark.remove": null,
+  "bookmark.title": null,
+  "bookmark.close": null,
+  "bookmark.empty": null,
+  "bookmark.savedOn": null,
+  "bookmark.notes": null,
+  "bookmark.notesPlaceholder": null,
+  "bookmark.openConversation": null,
+  "bookmark.saveFailed": "સાચવેલી યોજનાઓ અપડેટ થઈ શકી નહીં.",
+
+  "feedback.helpful": null,
+  "feedback.notHelpful": null,
+  "feedback.thanks": null,
+  "feedback.whatWentWrong": null,
+  "feedback.reason.outdated": null,
+  "feedback.reason.wrong_eligibility": null,
+  "feedback.reason.broken_link": null,
+  "feedback.reason.wrong_language": null,
+  "feedback.reason.other": null,
+  "feedback.commentPlaceholder": null,
+  "feedback.cancel": null,
+  "feedback.send": null,
+  "feedback.failed": "પ્રતિસાદ મોકલી શકાયો નહીં.",
+
+  "answer.copy": null,
+  "answer.copied": null,
+  "answer.copyMarkdown": null,
+  "answer.copyText": null,
+  "answer.copyFailed": "કૉપિ થઈ શક્યું નહીં. તમારા બ્રાઉઝરે ક્લિપબોર્ડની ઍક્સેસ અટકાવી.",
+  "message.edit": null,
+  "message.cancelEdit": null,
+  "message.resend": null,
+  "message.regenerate": null,
+  "message.version": null,
+  "message.previousVersion": null,
+  "message.nextVersion": null,
+
+  "offline.online": null,
+  "offline.offline": null,
+  "offline.offlineHint": null,
+  "offline.queuedNotice": null,
+  "offline.sendingQueued": null,
+  "offline.removeQueued": null,
+
+  "lite.title": null,
+  "lite.auto": null,
+  "lite.on": null,
+  "lite.off": null,
+  "lite.hint": null,
+  "lite.autoActive": null,
+  "lite.showSources": null,
+
+  "readAloud.start": "મોટેથી વાંચો",
+  "readAloud.stop": "વાંચવાનું બંધ કરો",
+  "readAloud.pause": "થોભાવો",
+  "readAloud.resume": "ફરી શરૂ કરો",
+  "readAloud.loading": "ઑડિયો તૈયાર થઈ રહ્યો છે…",
+  "readAloud.progress": "વાક્ય {current} / {total}",
+  "readAloud.failed": "આ જવાબ મોટેથી વાંચી શકાયો નહીં. કૃપા કરીને ફરી પ્રયાસ કરો.",
+  "readAloud.unavailable": "આ ઉપકરણ પર મોટેથી વાંચવાની સુવિધા ઉપલબ્ધ નથી.",
+
+  "voiceMode.title": "વૉઇસ વાતચીત",
+  "voiceMode.start": "વૉઇસ વાતચીત શરૂ કરો",
+  "voiceMode.listening": "સાંભળી રહ્યું છે",
+  "voiceMode.thinking": "વિચારી રહ્યું છે",
+  "voiceMode.speaking": "બોલી રહ્યું છે",
+  "voiceMode.paused": "થોભાવ્યું",
+  "voiceMode.hint": "તમારો પ્રશ્ન પૂછો. જવાબ બોલીને સંભળાવાશે, પછી ફરી સાંભળીશું.",
+  "voiceMode.interrupt": "અટકાવો",
+  "voiceMode.tapToTalk": "બોલવા માટે ટૅપ કરો",
+  "voiceMode.end": "સમાપ્ત",
+};
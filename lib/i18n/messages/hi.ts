@@ -0,0 +1,251 @@
+import type { MessageCatalog } from "../types";
+
+export const hi: MessageCatalog = {
+  "header.newSearch": "नई खोज",
+  "header.openHistory": "बातचीत का इतिहास खोलें",
+  "header.lightMode": "लाइट मोड पर जाएँ",
+  "header.darkMode": "डार्क मोड पर जाएँ",
+  "header.openAccountMenu": "खाता मेनू खोलें",
+  "header.closeAccountMenu": "खाता मेनू बंद करें",
+  "menu.language": "भाषा",
+  "menu.signIn": "साइन इन करें",
+  "menu.signOut": "साइन आउट करें",
+
+  "composer.responseLanguage": "उत्तर की भाषा",
+  "composer.selectLanguage": "भाषा चुनें",
+  "composer.editProfile": "पात्रता प्रोफ़ाइल बदलें",
+  "composer.addProfile": "प्रोफ़ाइल जोड़ें",
+  "composer.send": "संदेश भेजें",
+  "composer.stop": "उत्तर रोकें",
+
+  "answer.tab.summary": "सारांश",
+  "answer.tab.eligibility": "पात्रता",
+  "answer.tab.documents": "दस्तावेज़",
+  "answer.tab.apply": "आवेदन",
+  "answer.share": "उत्तर साझा करें",
+  "answer.shared": "साझा किया गया",
+  "answer.shareTitle": "JanInfra उत्तर",
+  "answer.sources": "स्रोत और प्रमाण",
+  "answer.empty": "सर्वर से कोई उत्तर नहीं मिला।",
+  "answer.connectionFailed": "कनेक्ट नहीं हो सका।",
+  "answer.createLink": "लिंक बनाएं",
+  "answer.linkCopied": "लिंक कॉपी हो गया",
+  "answer.linkFailed": "लिंक नहीं बन सका।",
+  "answer.print": "प्रिंट करें या PDF के रूप में सहेजें",
+
+  "auth.title": "जारी रखने के लिए साइन इन करें",
+  "auth.pendingBody": "लॉगिन पूरा करें, आपका संदेश अपने-आप भेज दिया जाएगा।",
+  "auth.body": "योजना सहायक का उपयोग जारी रखें।",
+  "auth.google": "Google से जारी रखें",
+  "auth.redirecting": "Google पर ले जाया जा रहा है...",
+  "auth.manualLink": "अगर अपने-आप रीडायरेक्ट न हो तो यहाँ क्लिक करें",
+  "auth.close": "साइन इन बंद करें",
+  "auth.signInToSend": "संदेश भेजने के लिए एक बार साइन इन करें।",
+  "auth.missingConfig": "yojana-web में Supabase env vars नहीं मिले।",
+  "auth.slowRedirect": "Google साइन-इन में बहुत समय लग रहा है। फिर से जारी रखें दबाएँ या सीधा लिंक इस्तेमाल करें।",
+
+  "voice.idle": "आवाज़",
+  "voice.listening": "सुन रहे हैं {time}",
+  "voice.transcribing": "लिखा जा रहा है",
+  "voice.start": "आवाज़ से लिखना शुरू करें",
+  "voice.stop": "रिकॉर्डिंग रोकें",
+  "voice.unsupported": "इस ब्राउज़र में आवाज़ इनपुट समर्थित नहीं है।",
+  "voice.recorderUnsupported": "इस ब्राउज़र में MediaRecorder समर्थित नहीं है।",
+  "voice.formatUnsupported": "इस ब्राउज़र में ऑडियो रिकॉर्डिंग समर्थित नहीं है।",
+  "voice.noAudio": "कोई आवाज़ रिकॉर्ड नहीं हुई। कृपया फिर से कोशिश करें।",
+  "voice.noSpeech": "कुछ सुनाई नहीं दिया। कृपया फिर कोशिश करें।",
+  "voice.tooLarge": "रिकॉर्डिंग अपलोड करने के लिए बहुत बड़ी है (अधिकतम {size} MB)। कृपया छोटा सवाल रिकॉर्ड करें।",
+  "voice.permissionDenied": "माइक्रोफ़ोन की अनुमति नहीं मिली या माइक्रोफ़ोन उपलब्ध नहीं है।",
+  "voice.failed": "आवाज़ को लिखा नहीं जा सका।",
+
+  "history.title": "इतिहास",
+  "history.label": "बातचीत का इतिहास",
+  "history.close": "इतिहास बंद करें",
+  "history.count": { one: "{count} बातचीत", other: "{count} बातचीत" },
+  "history.localOnly": "केवल इस डिवाइस पर सहेजा गया।",
+  "history.loading": "लोड हो रहा है…",
+  "history.empty": "अभी कोई पुरानी बातचीत नहीं है।",
+  "history.rename": "बातचीत का नाम बदलें",
+  "history.delete": "बातचीत हटाएँ",
+  "history.titleInput": "बातचीत का शीर्षक",
+  "history.loadFailed": "इतिहास लोड नहीं हो सका।",
+  "history.openFailed": "बातचीत खोली नहीं जा सकी।",
+  "history.renameFailed": "बातचीत का नाम नहीं बदला जा सका।",
+  "history.deleteFailed": "बातचीत हटाई नहीं जा सकी।",
+  "history.missing": "यह बातचीत अब उपलब्ध नहीं है।",
+
+  "profile.eyebrow": "आपकी प्रोफ़ाइल",
+  "profile.title": "पात्रता विवरण",
+  "profile.label": "पात्रता प्रोफ़ाइल",
+  "profile.body": "ये विवरण हर सवाल के साथ भेजे जाते हैं ताकि उत्तर एक जैसे तथ्यों पर आधारित रहें।",
+  "profile.autoFilled": "कुछ जानकारी आपके पहले संदेश से भरी गई है। अगले सवाल से पहले इसे जाँच लें।",
+  "profile.close": "प्रोफ़ाइल बंद करें",
+  "profile.age": "आयु",
+  "profile.gender": "लिंग",
+  "profile.gender.female": "महिला",
+  "profile.gender.male": "पुरुष",
+  "profile.gender.other": "अन्य",
+  "profile.state": "राज्य / केंद्र शासित प्रदेश",
+  "profile.category": "सामाजिक वर्ग",
+  "profile.occupation": "व्यवसाय",
+  "profile.income": "वार्षिक पारिवारिक आय (₹)",
+  "profile.disability": "दिव्यांग व्यक्ति",
+  "profile.student": "अभी छात्र/छात्रा हैं",
+  "profile.notSet": "नहीं चुना",
+  "profile.clear": "साफ़ करें",
+  "profile.done": "हो गया",
+  "profile.saveFailed": "आपकी प्रोफ़ाइल खाते में सहेजी नहीं जा सकी। यह अभी भी इस डिवाइस पर सहेजी है।",
+
+  "permalink.eyebrow": "साझा किया गया उत्तर",
+  "permalink.sharedOn": "{date} को साझा किया गया",
+  "permalink.continue": "यह बातचीत जारी रखें",
+  "permalink.disclaimer": "यह एक स्नैपशॉट है। योजना के नियम बदलते रहते हैं, इसलिए आवेदन से पहले स्रोत ज़रूर देखें।",
+
+  "print.generatedOn": "{date} को तैयार किया गया",
+  "print.checklist": "दस्तावेज़ चेकलिस्ट",
+
+  "documents.progress": "{total} में से {done} तैयार",
+  "documents.required": "ज़रूरी",
+  "documents.optional": "वैकल्पिक",
+  "documents.copy": "टेक्स्ट के रूप में कॉपी करें",
+  "documents.copied": "कॉपी हो गया",
+  "documents.copyFailed": "कॉपी नहीं हो सका",
+  "documents.sharedCount": { one: "इस बातचीत की {count} योजना के लिए ज़रूरी", other: "इस बातचीत की {count} योजनाओं के लिए ज़रूरी" },
+
+  "tracker.start": "इस आवेदन को ट्रैक करें",
+  "tracker.progress": "{total} में से {done} चरण पूरे",
+  "tracker.status.not_started": "शुरू नहीं हुआ",
+  "tracker.status.in_progress": "जारी है",
+  "tracker.status.done": "पूरा",
+  "tracker.deadline": "अंतिम तिथि",
+  "tracker.reminder": "रिमाइंडर",
+  "tracker.notes": "नोट्स",
+  "tracker.reminderDue": "रिमाइंडर का समय",
+  "tracker.stop": "ट्रैक करना बंद करें",
+  "tracker.inProgress": "जारी आवेदन",
+  "tracker.saveFailed": "आपकी प्रगति सहेजी नहीं जा सकी।",
+
+  "sources.kind.national": "राष्ट्रीय पोर्टल",
+  "sources.kind.central": "केंद्र सरकार",
+  "sources.kind.state": "राज्य सरकार",
+  "sources.kind.govHosted": "सरकारी होस्टेड",
+  "sources.kind.publicBody": "सार्वजनिक संस्था",
+  "sources.kind.reference": "संदर्भ",
+  "sources.guideline": "दिशानिर्देश",
+  "sources.unofficial": "आधिकारिक स्रोत नहीं",
+  "sources.stale": "पुराना हो सकता है",
+  "sources.updated": "{date} को अपडेट किया गया",
+
+  "pdf.view": "ऐप में पढ़ें",
+  "pdf.close": "दस्तावेज़ बंद करें",
+  "pdf.openOriginal": "मूल खोलें",
+  "pdf.loading": "दस्तावेज़ लोड हो रहा है…",
+  "pdf.failed": "यह दस्तावेज़ यहाँ नहीं खुल सका।",
+  "pdf.page": "पृष्ठ {page} / {total}",
+  "pdf.previous": "पिछला पृष्ठ",
+  "pdf.next": "अगला पृष्ठ",
+  "pdf.search": "दस्तावेज़ में खोजें",
+  "pdf.searching": "खोज रहे हैं…",
+  "pdf.matches": { one: "{count} पृष्ठ पर मिला", other: "{count} पृष्ठों पर मिला" },
+  "pdf.noMatches": "इस दस्तावेज़ में कुछ नहीं मिला",
+  "pdf.previousMatch": "पिछला परिणाम",
+  "pdf.nextMatch": "अगला परिणाम",
+
+  "evidence.well": "अच्छे स्रोतों से समर्थित",
+  "evidence.partial": "आंशिक रूप से समर्थित",
+  "evidence.unsourced": "बिना स्रोत",
+  "evidence.details": "स्रोत: {sources} · आधिकारिक: {official}",
+  "evidence.coverage": "{percent}% दावों के स्रोत दिए गए",
+  "evidence.unsourcedNotice": "इस उत्तर का कोई स्रोत नहीं है। इस पर अमल करने से पहले आधिकारिक योजना पोर्टल पर इसकी पुष्टि करें।",
+  "evidence.findSource": "आधिकारिक स्रोत खोजें",
+  "evidence.findSourceQuestion": "इसके लिए आधिकारिक सरकारी स्रोत खोजें: {question}",
+
+  "compare.add": "तुलना में जोड़ें",
+  "compare.selected": { one: "{count} योजना चुनी गई", other: "{count} योजनाएँ चुनी गईं" },
+  "compare.open": "तुलना करें",
+  "compare.clear": "हटाएँ",
+  "compare.title": "योजनाओं की तुलना",
+  "compare.close": "तुलना बंद करें",
+  "compare.remove": "हटाएँ",
+  "compare.benefit": "लाभ",
+  "compare.eligibility": "पात्रता",
+  "compare.documents": "ज़रूरी दस्तावेज़",
+  "compare.mode": "आवेदन का तरीका",
+  "compare.mode.online": "ऑनलाइन",
+  "compare.mode.offline": "ऑफलाइन (कार्यालय या CSC)",
+  "compare.mode.both": "ऑनलाइन या ऑफलाइन",
+  "compare.officialLink": "आधिकारिक लिंक",
+
+  "bookmark.save": "योजना सहेजें",
+  "bookmark.remove": "सहेजी गई सूची से हटाएँ",
+  "bookmark.title": "मेरी योजनाएँ",
+  "bookmark.close": "सहेजी गई योजनाएँ बंद करें",
+  "bookmark.empty": "आपकी सहेजी गई योजनाएँ यहाँ दिखेंगी।",
+  "bookmark.savedOn": "{date} को सहेजा गया",
+  "bookmark.notes": "नोट्स",
+  "bookmark.notesPlaceholder": "नोट जोड़ें, जैसे कौन से दस्तावेज़ बाकी हैं",
+  "bookmark.openConversation": "बातचीत खोलें",
+  "bookmark.saveFailed": "आपकी सहेजी गई योजनाएँ अपडेट नहीं हो सकीं।",
+
+  "feedback.helpful": "उपयोगी",
+  "feedback.notHelpful": "उपयोगी नहीं",
+  "feedback.thanks": "प्रतिक्रिया के लिए धन्यवाद",
+  "feedback.whatWentWrong": "क्या गलत था?",
+  "feedback.reason.outdated": "पुरानी जानकारी",
+  "feedback.reason.wrong_eligibility": "गलत पात्रता",
+  "feedback.reason.broken_link": "टूटा लिंक",
+  "feedback.reason.wrong_language": "गलत भाषा",
+  "feedback.reason.other": "अन्य",
+  "feedback.commentPlaceholder": "और बताएँ (वैकल्पिक)",
+  "feedback.cancel": "रद्द करें",
+  "feedback.send": "भेजें",
+  "feedback.failed": "प्रतिक्रिया भेजी नहीं जा सकी।",
+
+  "answer.copy": "उत्तर कॉपी करें",
+  "answer.copied": "कॉपी हो गया",
+  "answer.copyMarkdown": "Markdown के रूप में कॉपी करें",
+  "answer.copyText": "सादे टेक्स्ट के रूप में कॉपी करें",
+  "answer.copyFailed": "कॉपी नहीं हो सका। आपके ब्राउज़र ने क्लिपबोर्ड की अनुमति नहीं दी।",
+  "message.edit": "संपादित करें",
+  "message.cancelEdit": "रद्द करें",
+  "message.resend": "भेजें",
+  "message.regenerate": "उत्तर दोबारा बनाएँ",
+  "message.version": "{current} / {total}",
+  "message.previousVersion": "पिछला संस्करण",
+  "message.nextVersion": "अगला संस्करण",
+
+  "offline.online": "ऑनलाइन",
+  "offline.offline": "ऑफ़लाइन",
+  "offline.offlineHint": "आप ऑफ़लाइन हैं। सहेजी गई बातचीत और बुकमार्क अब भी उपलब्ध हैं।",
+  "offline.queuedNotice": { one: "{count} सवाल ऑनलाइन होने पर भेजा जाएगा", other: "{count} सवाल ऑनलाइन होने पर भेजे जाएंगे" },
+  "offline.sendingQueued": { one: "{count} रुका हुआ सवाल भेजा जा रहा है", other: "{count} रुके हुए सवाल भेजे जा रहे हैं" },
+  "offline.removeQueued": "रुका हुआ सवाल हटाएं",
+
+  "lite.title": "लाइट मोड",
+  "lite.auto": "ऑटो",
+  "lite.on": "चालू",
+  "lite.off": "बंद",
+  "lite.hint": "एनिमेशन बंद करता है और छोटे जवाब लोड करता है। ऑटो धीमे कनेक्शन पर इसे चालू कर देता है।",
+  "lite.autoActive": "चालू है क्योंकि आपका कनेक्शन धीमा है या डेटा सेवर चालू है।",
+  "lite.showSources": { one: "{count} स्रोत दिखाएं", other: "{count} स्रोत दिखाएं" },
+
+  "readAloud.start": "पढ़कर सुनाएं",
+  "readAloud.stop": "पढ़ना बंद करें",
+  "readAloud.pause": "रोकें",
+  "readAloud.resume": "जारी रखें",
+  "readAloud.loading": "ऑडियो तैयार हो रहा है…",
+  "readAloud.progress": "वाक्य {current} / {total}",
+  "readAloud.failed": "यह जवाब पढ़कर नहीं सुनाया जा सका। कृपया फिर कोशिश करें।",
+  "readAloud.unavailable": "इस डिवाइस पर पढ़कर सुनाने की सुविधा उपलब्ध नहीं है।",
+
+  "voiceMode.title": "आवाज़ से बातचीत",
+  "voiceMode.start": "आवाज़ से बातचीत शुरू करें",
+  "voiceMode.listening": "सुन रहे हैं",
+  "voiceMode.thinking": "सोच रहे हैं",
+  "voiceMode.speaking": "बोल रहे हैं",
+  "voiceMode.paused": "रुका हुआ",
+  "voiceMode.hint": "अपना सवाल पूछें। जवाब बोलकर सुनाया जाएगा, फिर हम दोबारा सुनेंगे।",
+  "voiceMode.interrupt": "बीच में रोकें",
+  "voiceMode.tapToTalk": "बोलने के लिए टैप करें",
+  "voiceMode.end": "बंद करें",
+};
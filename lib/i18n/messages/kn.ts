@@ -0,0 +1,251 @@
+import type { MessageCatalog } from "../types";
+
+export const kn: MessageCatalog = {
+  "header.newSearch": "ಹೊಸ ಹುಡುಕಾಟ",
+  "header.openHistory": null,
+  "header.lightMode": null,
+  "header.darkMode": null,
+  "header.openAccountMenu": null,
+  "header.closeAccountMenu": null,
+  "menu.language": "ಭಾಷೆ",
+  "menu.signIn": "ಸೈನ್ ಇನ್",
+  "menu.signOut": "ಸೈನ್ ಔಟ್",
+
+  "composer.responseLanguage": "ಉತ್ತರದ ಭಾಷೆ",
+  "composer.selectLanguage": "ಭಾಷೆ ಆಯ್ಕೆಮಾಡಿ",
+  "composer.editProfile": null,
+  "composer.addProfile": "ಪ್ರೊಫೈಲ್ ಸೇರಿಸಿ",
+  "composer.send": "ಸಂದೇಶ ಕಳುಹಿಸಿ",
+  "composer.stop": "ಉತ್ತರ ನಿಲ್ಲಿಸಿ",
+
+  "answer.tab.summary": "ಸಾರಾಂಶ",
+  "answer.tab.eligibility": "ಅರ್ಹತೆ",
+  "answer.tab.documents": "ದಾಖಲೆಗಳು",
+  "answer.tab.apply": "ಅರ್ಜಿ",
+  "answer.share": "ಉತ್ತರ ಹಂಚಿಕೊಳ್ಳಿ",
+  "answer.shared": "ಹಂಚಿಕೊಳ್ಳಲಾಗಿದೆ",
+  "answer.shareTitle": null,
+  "answer.sources": "ಮೂಲಗಳು ಮತ್ತು ಪುರಾವೆಗಳು",
+  "answer.empty": "ಬ್ಯಾಕೆಂಡ್‌ನಿಂದ ಯಾವುದೇ ಉತ್ತರ ಬಂದಿಲ್ಲ.",
+  "answer.connectionFailed": "ಸಂಪರ್ಕಿಸಲು ವಿಫಲವಾಗಿದೆ.",
+  "answer.createLink": null,
+  "answer.linkCopied": null,
+  "answer.linkFailed": "ಲಿಂಕ್ ರಚಿಸಲು ಸಾಧ್ಯವಾಗಲಿಲ್ಲ.",
+  "answer.print": null,
+
+  "auth.title": "ಮುಂದುವರಿಯಲು ಸೈನ್ ಇನ್ ಮಾಡಿ",
+  "auth.pendingBody": "ಲಾಗಿನ್ ಪೂರ್ಣಗೊಳಿಸಿ, ನಿಮ್ಮ ಸಂದೇಶ ಸ್ವಯಂಚಾಲಿತವಾಗಿ ಕಳುಹಿಸಲ್ಪಡುತ್ತದೆ.",
+  "auth.body": "ಯೋಜನಾ ಸಹಾಯಕವನ್ನು ಬಳಸಲು ಮುಂದುವರಿಯಿರಿ.",
+  "auth.google": "Google ಮೂಲಕ ಮುಂದುವರಿಯಿರಿ",
+  "auth.redirecting": "Googleಗೆ ಮರುನಿರ್ದೇಶಿಸಲಾಗುತ್ತಿದೆ...",
+  "auth.manualLink": "ಸ್ವಯಂಚಾಲಿತವಾಗಿ ಮರುನಿರ್ದೇಶನವಾಗದಿದ್ದರೆ ಇಲ್ಲಿ ಕ್ಲಿಕ್ ಮಾಡಿ",
+  "auth.close": "ಸೈನ್ ಇನ್ ಮುಚ್ಚಿ",
+  "auth.signInToSend": "ನಿಮ್ಮ ಸಂದೇಶ ಕಳುಹಿಸಲು ಒಮ್ಮೆ ಸೈನ್ ಇನ್ ಮಾಡಿ.",
+  "auth.missingConfig": "yojana-web ನಲ್ಲಿ Supabase env vars ಇಲ್ಲ.",
+  "auth.slowRedirect": "Google ಸೈನ್ ಇನ್‌ಗೆ ಹೆಚ್ಚು ಸಮಯ ಹಿಡಿಯುತ್ತಿದೆ. ಮತ್ತೆ ಮುಂದುವರಿಸಿ ಒತ್ತಿ ಅಥವಾ ನೇರ ಲಿಂಕ್ ಬಳಸಿ.",
+
+  "voice.idle": "ಧ್ವನಿ",
+  "voice.listening": "ಕೇಳುತ್ತಿದೆ {time}",
+  "voice.transcribing": "ಬರೆಯುತ್ತಿದೆ",
+  "voice.start": "ಧ್ವನಿ ಇನ್‌ಪುಟ್ ಪ್ರಾರಂಭಿಸಿ",
+  "voice.stop": "ರೆಕಾರ್ಡಿಂಗ್ ನಿಲ್ಲಿಸಿ",
+  "voice.unsupported": "ಈ ಬ್ರೌಸರ್‌ನಲ್ಲಿ ಧ್ವನಿ ಇನ್‌ಪುಟ್‌ಗೆ ಬೆಂಬಲವಿಲ್ಲ.",
+  "voice.recorderUnsupported": "ಈ ಬ್ರೌಸರ್‌ನಲ್ಲಿ MediaRecorderಗೆ ಬೆಂಬಲವಿಲ್ಲ.",
+  "voice.formatUnsupported": "ಈ ಬ್ರೌಸರ್‌ನಲ್ಲಿ ಆಡಿಯೊ ರೆಕಾರ್ಡಿಂಗ್‌ಗೆ ಬೆಂಬಲವಿಲ್ಲ.",
+  "voice.noAudio": "ಯಾವುದೇ ಆಡಿಯೊ ದಾಖಲಾಗಿಲ್ಲ. ದಯವಿಟ್ಟು ಮತ್ತೆ ಪ್ರಯತ್ನಿಸಿ.",
+  "voice.noSpeech": "ಏನೂ ಕೇಳಿಸಲಿಲ್ಲ. ದಯವಿಟ್ಟು ಮತ್ತೆ ಪ್ರಯತ್ನಿಸಿ.",
+  "voice.tooLarge": "ರೆಕಾರ್ಡಿಂಗ್ ಅಪ್‌ಲೋಡ್ ಮಾಡಲು ತುಂಬಾ ದೊಡ್ಡದಾಗಿದೆ (ಗರಿಷ್ಠ {size} MB). ದಯವಿಟ್ಟು ಚಿಕ್ಕ ಪ್ರಶ್ನೆಯನ್ನು ರೆಕಾರ್ಡ್ ಮಾಡಿ.",
+  "voice.permissionDenied": "ಮೈಕ್ರೊಫೋನ್ ಅನುಮತಿ ನಿರಾಕರಿಸಲಾಗಿದೆ ಅಥವಾ ಲಭ್ಯವಿಲ್ಲ.",
+  "voice.failed": "ಲಿಪ್ಯಂತರ ವಿಫಲವಾಗಿದೆ.",
+
+  "history.title": "ಇತಿಹಾಸ",
+  "history.label": null,
+  "history.close": null,
+  "history.count": null,
+  "history.localOnly": null,
+  "history.loading": null,
+  "history.empty": null,
+  "history.rename": null,
+  "history.delete": null,
+  "history.titleInput": null,
+  "history.loadFailed": "ಇತಿಹಾಸವನ್ನು ಲೋಡ್ ಮಾಡಲು ಸಾಧ್ಯವಾಗಲಿಲ್ಲ.",
+  "history.openFailed": "ಸಂಭಾಷಣೆಯನ್ನು ತೆರೆಯಲು ಸಾಧ್ಯವಾಗಲಿಲ್ಲ.",
+  "history.renameFailed": "ಸಂಭಾಷಣೆಯ ಹೆಸರು ಬದಲಿಸಲು ಸಾಧ್ಯವಾಗಲಿಲ್ಲ.",
+  "history.deleteFailed": "ಸಂಭಾಷಣೆಯನ್ನು ಅಳಿಸಲು ಸಾಧ್ಯವಾಗಲಿಲ್ಲ.",
+  "history.missing": "ಆ ಸಂಭಾಷಣೆ ಈಗ ಲಭ್ಯವಿಲ್ಲ.",
+
+  "profile.eyebrow": "ನಿಮ್ಮ ಪ್ರೊಫೈಲ್",
+  "profile.title": "ಅರ್ಹತೆಯ ವಿವರಗಳು",
+  "profile.label": "ಅರ್ಹತಾ ಪ್ರೊಫೈಲ್",
+  "profile.body": "ಉತ್ತರಗಳು ಒಂದೇ ಸಂಗತಿಗಳನ್ನು ಆಧರಿಸಿರಲು ಈ ವಿವರಗಳನ್ನು ಪ್ರತಿ ಪ್ರಶ್ನೆಯೊಂದಿಗೆ ಕಳುಹಿಸಲಾಗುತ್ತದೆ.",
+  "profile.autoFilled": "ಕೆಲವು ಕ್ಷೇತ್ರಗಳನ್ನು ನಿಮ್ಮ ಮೊದಲ ಸಂದೇಶದಿಂದ ತುಂಬಲಾಗಿದೆ. ಮುಂದಿನ ಪ್ರಶ್ನೆಗೆ ಮೊದಲು ಅವುಗಳನ್ನು ಪರಿಶೀಲಿಸಿ.",
+  "profile.close": "ಪ್ರೊಫೈಲ್ ಮುಚ್ಚಿ",
+  "profile.age": "ವಯಸ್ಸು",
+  "profile.gender": "ಲಿಂಗ",
+  "profile.gender.female": "ಮಹಿಳೆ",
+  "profile.gender.male": "ಪುರುಷ",
+  "profile.gender.other": "ಇತರೆ",
+  "profile.state": "ರಾಜ್ಯ / ಕೇಂದ್ರಾಡಳಿತ ಪ್ರದೇಶ",
+  "profile.category": "ಸಾಮಾಜಿಕ ವರ್ಗ",
+  "profile.occupation": "ಉದ್ಯೋಗ",
+  "profile.income": "ವಾರ್ಷಿಕ ಕುಟುಂಬ ಆದಾಯ (₹)",
+  "profile.disability": "ಅಂಗವಿಕಲ ವ್ಯಕ್ತಿ",
+  "profile.student": "ಪ್ರಸ್ತುತ ವಿದ್ಯಾರ್ಥಿ",
+  "profile.notSet": "ಹೊಂದಿಸಿಲ್ಲ",
+  "profile.clear": "ತೆರವುಗೊಳಿಸಿ",
+  "profile.done": "ಮುಗಿದಿದೆ",
+  "profile.saveFailed": "ನಿಮ್ಮ ಪ್ರೊಫೈಲ್ ಅನ್ನು ಖಾತೆಗೆ ಉಳಿಸಲು ಸಾಧ್ಯವಾಗಲಿಲ್ಲ. ಇದು ಇನ್ನೂ ಈ ಸಾಧನದಲ್ಲಿ ಉಳಿದಿದೆ.",
+
+  "permalink.eyebrow": null,
+  "permalink.sharedOn": null,
+  "permalink.continue": null,
+  "permalink.disclaimer": null,
+
+  "print.generatedOn": null,
+  "print.checklist": null,
+
+  "documents.progress": null,
+  "documents.required": null,
+  "documents.optional": null,
+  "documents.copy": null,
+  "documents.copied": null,
+  "documents.copyFailed": "ನಕಲಿಸಲಾಗಲಿಲ್ಲ",
+  "documents.sharedCount": null,
+
+  "tracker.start": null,
+  "tracker.progress": null,
+  "tracker.status.not_started": null,
+  "tracker.status.in_progress": null,
+  "tracker.status.done": null,
+  "tracker.deadline": null,
+  "tracker.reminder": null,
+  "tracker.notes": null,
+  "tracker.reminderDue": null,
+  "tracker.stop": null,
+  "tracker.inProgress": null,
+  "tracker.saveFailed": "ನಿಮ್ಮ ಪ್ರಗತಿಯನ್ನು ಉಳಿಸಲು ಸಾಧ್ಯವಾಗಲಿಲ್ಲ.",
+
+  "sources.kind.national": null,
+  "sources.kind.central": null,
+  "sources.kind.state": null,
+  "sources.kind.govHosted": null,
+  "sources.kind.publicBody": null,
+  "sources.kind.reference": null,
+  "sources.guideline": null,
+  "sources.unofficial": null,
+  "sources.stale": null,
+  "sources.updated": null,
+
+  "pdf.view": null,
+  "pdf.close": null,
+  "pdf.openOriginal": null,
+  "pdf.loading": null,
+  "pdf.failed": "ಈ ದಾಖಲೆಯನ್ನು ಇಲ್ಲಿ ತೆರೆಯಲು ಸಾಧ್ಯವಾಗಲಿಲ್ಲ.",
+  "pdf.page": null,
+  "pdf.previous": null,
+  "pdf.next": null,
+  "pdf.search": null,
+  "pdf.searching": null,
+  "pdf.matches": null,
+  "pdf.noMatches": null,
+  "pdf.previousMatch": null,
+  "pdf.nextMatch": null,
+
+  "evidence.well": null,
+  "evidence.partial": null,
+  "evidence.unsourced": null,
+  "evidence.details": null,
+  "evidence.coverage": null,
+  "evidence.unsourcedNotice": null,
+  "evidence.findSource": null,
+  "evidence.findSourceQuestion": null,
+
+  "compare.add": null,
+  "compare.selected": null,
+  "compare.open": null,
+  "compare.clear": null,
+  "compare.title": null,
+  "compare.close": null,
+  "compare.remove": null,
+  "compare.benefit": null,
+  "compare.eligibility": null,
+  "compare.documents": null,
+  "compare.mode": null,
+  "compare.mode.online": null,
+  "compare.mode.offline": null,
+  "compare.mode.both": null,
+  "compare.officialLink": null,
+
+  "bookmark.save": null,
+  "bookmark.remove": null,
+  "bookmark.title": null,
+  "bookmark.close": null,
+  "bookmark.empty": null,
+  "bookmark.savedOn": null,
+  "bookmark.notes": null,
+  "bookmark.notesPlaceholder": null,
+  "bookmark.openConversation": null,
+  "bookmark.saveFailed": "ಉಳಿಸಿದ ಯೋಜನೆಗಳನ್ನು ನವೀಕರಿಸಲು ಸಾಧ್ಯವಾಗಲಿಲ್ಲ.",
+
+  "feedback.helpful": null,
+  "feedback.notHelpful": null,
+  "feedback.thanks": null,
+  "feedback.whatWentWrong": null,
+  "feedback.reason.outdated": null,
+  "feedback.reason.wrong_eligibility": null,
+  "feedback.reason.broken_link": null,
+  "feedback.reason.wrong_language": null,
+  "feedback.reason.other": null,
+  "feedback.commentPlaceholder": null,
+  "feedback.cancel": null,
+  "feedback.send": null,
+  "feedback.failed": "ಪ್ರತಿಕ್ರಿಯೆ ಕಳುಹಿಸಲು ಸಾಧ್ಯವಾಗಲಿಲ್ಲ.",
+
+  "answer.copy": null,
+  "answer.copied": null,
+  "answer.copyMarkdown": null,
+  "answer.copyText": null,
+  "answer.copyFailed": "ನಕಲಿಸಲು ಸಾಧ್ಯವಾಗಲಿಲ್ಲ. ನಿಮ್ಮ ಬ್ರೌಸರ್ ಕ್ಲಿಪ್‌ಬೋರ್ಡ್ ಪ್ರವೇಶವನ್ನು ತಡೆದಿದೆ.",
+  "message.edit": null,
+  "message.cancelEdit": null,
+  "message.resend": null,
+  "message.regenerate": null,
+  "message.version": null,
+  "message.previousVersion": null,
+  "message.nextVersion": null,
+
+  "offline.online": null,
+  "offline.offline": null,
+  "offline.offlineHint": null,
+  "offline.queuedNotice": null,
+  "offline.sendingQueued": null,
+  "offline.removeQueued": null,
+
+  "lite.title": null,
+  "lite.auto": null,
+  "lite.on": null,
+  "lite.off": null,
+  "lite.hint": null,
+  "lite.autoActive": null,
+  "lite.showSources": null,
+
+  "readAloud.start": "ಗಟ್ಟಿಯಾಗಿ ಓದಿ",
+  "readAloud.stop": "ಓದುವುದನ್ನು ನಿಲ್ಲಿಸಿ",
+  "readAloud.pause": "ವಿರಾಮ",
+  "readAloud.resume": "ಮುಂದುವರಿಸಿ",
+  "readAloud.loading": "ಆಡಿಯೊ ಸಿದ್ಧವಾಗುತ್ತಿದೆ…",
+  "readAloud.progress": "ವಾಕ್ಯ {current} / {total}",
+  "readAloud.failed": "ಈ ಉತ್ತರವನ್ನು ಗಟ್ಟಿಯಾಗಿ ಓದಲು ಸಾಧ್ಯವಾಗಲಿಲ್ಲ. ದಯವಿಟ್ಟು ಮತ್ತೆ ಪ್ರಯತ್ನಿಸಿ.",
+  "readAloud.unavailable": "ಈ ಸಾಧನದಲ್ಲಿ ಗಟ್ಟಿಯಾಗಿ ಓದುವ ಸೌಲಭ್ಯ ಲಭ್ಯವಿಲ್ಲ.",
+
+  "voiceMode.title": "ಧ್ವನಿ ಸಂಭಾಷಣೆ",
+  "voiceMode.start": "ಧ್ವನಿ ಸಂಭಾಷಣೆ ಪ್ರಾರಂಭಿಸಿ",
+  "voiceMode.listening": "ಕೇಳುತ್ತಿದೆ",
+  "voiceMode.thinking": "ಯೋಚಿಸುತ್ತಿದೆ",
+  "voiceMode.speaking": "ಮಾತನಾಡುತ್ತಿದೆ",
+  "voiceMode.paused": "ವಿರಾಮಗೊಳಿಸಲಾಗಿದೆ",
+  "voiceMode.hint": "ನಿಮ್ಮ ಪ್ರಶ್ನೆ ಕೇಳಿ. ಉತ್ತರವನ್ನು ಗಟ್ಟಿಯಾಗಿ ಹೇಳಿ, ನಂತರ ಮತ್ತೆ ಕೇಳುತ್ತೇವೆ.",
+  "voiceMode.interrupt": "ಅಡ್ಡಿಪಡಿಸಿ",
+  "voiceMode.tapToTalk": "ಮಾತನಾಡಲು ಟ್ಯಾಪ್ ಮಾಡಿ",
+  "voiceMode.end": "ಮುಗಿಸಿ",
+};
@@ -0,0 +1,251 @@
+import type { MessageCatalog } from "../types";
+
+export const ml: MessageCatalog = {
+  "header.newSearch": "പുതിയ തിരയൽ",
+  "header.openHistory": null,
+  "header.lightMode": null,
+  "header.darkMode": null,
+  "header.openAccountMenu": null,
+  "header.closeAccountMenu": null,
+  "menu.language": "ഭാഷ",
+  "menu.signIn": "സൈൻ ഇൻ",
+  "menu.signOut": "സൈൻ ഔട്ട്",
+
+  "composer.responseLanguage": "മറുപടിയുടെ ഭാഷ",
+  "composer.selectLanguage": "ഭാഷ തിരഞ്ഞെടുക്കുക",
+  "composer.editProfile": null,
+  "composer.addProfile": "പ്രൊഫൈൽ ചേർക്കുക",
+  "composer.send": "സന്ദേശം അയയ്ക്കുക",
+  "composer.stop": "മറുപടി നിർത്തുക",
+
+  "answer.tab.summary": "സംഗ്രഹം",
+  "answer.tab.eligibility": "യോഗ്യത",
+  "answer.tab.documents": "രേഖകൾ",
+  "answer.tab.apply": "അപേക്ഷ",
+  "answer.share": "മറുപടി പങ്കിടുക",
+  "answer.shared": "പങ്കിട്ടു",
+  "answer.shareTitle": null,
+  "answer.sources": "ഉറവിടങ്ങളും തെളിവുകളും",
+  "answer.empty": "ബാക്കെൻഡിൽ നിന്ന് മറുപടി ലഭിച്ചില്ല.",
+  "answer.connectionFailed": "കണക്റ്റ് ചെയ്യാനായില്ല.",
+  "answer.createLink": null,
+  "answer.linkCopied": null,
+  "answer.linkFailed": "ലിങ്ക് സൃഷ്ടിക്കാനായില്ല.",
+  "answer.print": null,
+
+  "auth.title": "തുടരാൻ സൈൻ ഇൻ ചെയ്യുക",
+  "auth.pendingBody": "ലോഗിൻ പൂർത്തിയാക്കൂ, നിങ്ങളുടെ സന്ദേശം സ്വയം അയയ്ക്കപ്പെടും.",
+  "auth.body": "പദ്ധതി സഹായി ഉപയോഗിക്കാൻ തുടരുക.",
+  "auth.google": "Google ഉപയോഗിച്ച് തുടരുക",
+  "auth.redirecting": "Google-ലേക്ക് റീഡയറക്ട് ചെയ്യുന്നു...",
+  "auth.manualLink": "സ്വയം റീഡയറക്ട് ആകുന്നില്ലെങ്കിൽ ഇവിടെ ക്ലിക്ക് ചെയ്യുക",
+  "auth.close": "സൈൻ ഇൻ അടയ്ക്കുക",
+  "auth.signInToSend": "നിങ്ങളുടെ സന്ദേശം അയയ്ക്കാൻ ഒരിക്കൽ സൈൻ ഇൻ ചെയ്യുക.",
+  "auth.missingConfig": "yojana-web-ൽ Supabase env vars ഇല്ല.",
+  "auth.slowRedirect": "Google സൈൻ ഇൻ വളരെ സമയമെടുക്കുന്നു. വീണ്ടും തുടരുക അമർത്തുക അല്ലെങ്കിൽ നേരിട്ടുള്ള ലിങ്ക് ഉപയോഗിക്കുക.",
+
+  "voice.idle": "ശബ്ദം",
+  "voice.listening": "കേൾക്കുന്നു {time}",
+  "voice.transcribing": "എഴുതുന്നു",
+  "voice.start": "ശബ്ദ ഇൻപുട്ട് ആരംഭിക്കുക",
+  "voice.stop": "റെക്കോർഡിംഗ് നിർത്തുക",
+  "voice.unsupported": "ഈ ബ്രൗസറിൽ വോയ്സ് ഇൻപുട്ട് പിന്തുണയ്ക്കുന്നില്ല.",
+  "voice.recorderUnsupported": "ഈ ബ്രൗസറിൽ MediaRecorder പിന്തുണയ്ക്കുന്നില്ല.",
+  "voice.formatUnsupported": "ഈ ബ്രൗസറിൽ ഓഡിയോ റെക്കോർഡിംഗ് പിന്തുണയ്ക്കുന്നില്ല.",
+  "voice.noAudio": "ഓഡിയോ ഒന്നും റെക്കോർഡ് ആയില്ല. ദയവായി വീണ്ടും ശ്രമിക്കുക.",
+  "voice.noSpeech": "ഒന്നും കേട്ടില്ല. ദയവായി വീണ്ടും ശ്രമിക്കുക.",
+  "voice.tooLarge": "അപ്‌ലോഡ് ചെയ്യാൻ റെക്കോർഡിംഗ് വളരെ വലുതാണ് (പരമാവധി {size} MB). ദയവായി ചെറിയ ചോദ്യം റെക്കോർഡ് ചെയ്യുക.",
+  "voice.permissionDenied": "മൈക്രോഫോൺ അനുമതി നിഷേധിച്ചു അല്ലെങ്കിൽ ലഭ്യമല്ല.",
+  "voice.failed": "ട്രാൻസ്ക്രിപ്ഷൻ പരാജയപ്പെട്ടു.",
+
+  "history.title": "ചരിത്രം",
+  "history.label": null,
+  "history.close": null,
+  "history.count": null,
+  "history.localOnly": null,
+  "history.loading": null,
+  "history.empty": null,
+  "history.rename": null,
+  "history.delete": null,
+  "history.titleInput": null,
+  "history.loadFailed": "ചരിത്രം ലോഡ് ചെയ്യാനായില്ല.",
+  "history.openFailed": "സംഭാഷണം തുറക്കാനായില്ല.",
+  "history.renameFailed": "സംഭാഷണത്തിന്റെ പേര് മാറ്റാനായില്ല.",
+  "history.deleteFailed": "സംഭാഷണം ഇല്ലാതാക്കാനായില്ല.",
+  "history.missing": "ആ സംഭാഷണം ഇപ്പോൾ ലഭ്യമല്ല.",
+
+  "profile.eyebrow": "നിങ്ങളുടെ പ്രൊഫൈൽ",
+  "profile.title": "യോഗ്യതാ വിവരങ്ങൾ",
+  "profile.label": "യോഗ്യതാ പ്രൊഫൈൽ",
+  "profile.body": "മറുപടികൾ ഒരേ വസ്തുതകളെ അടിസ്ഥാനമാക്കാൻ ഈ വിവരങ്ങൾ ഓരോ ചോദ്യത്തോടൊപ്പവും അയയ്ക്കുന്നു.",
+  "profile.autoFilled": "ചില ഫീൽഡുകൾ നിങ്ങളുടെ ആദ്യ സന്ദേശത്തിൽ നിന്ന് പൂരിപ്പിച്ചു. അടുത്ത ചോദ്യത്തിന് മുമ്പ് അവ പരിശോധിക്കുക.",
+  "profile.close": "പ്രൊഫൈൽ അടയ്ക്കുക",
+  "profile.age": "പ്രായം",
+  "profile.gender": "ലിംഗം",
+  "profile.gender.female": "സ്ത്രീ",
+  "profile.gender.male": "പുരുഷൻ",
+  "profile.gender.other": "മറ്റുള്ളവ",
+  "profile.state": "സംസ്ഥാനം / കേന്ദ്രഭരണ പ്രദേശം",
+  "profile.category": "സാമൂഹിക വിഭാഗം",
+  "profile.occupation": "തൊഴിൽ",
+  "profile.income": "വാർഷിക കുടുംബ വരുമാനം (₹)",
+  "profile.disability": "ഭിന്നശേഷിയുള്ള വ്യക്തി",
+  "profile.student": "നിലവിൽ വിദ്യാർത്ഥി",
+  "profile.notSet": "സജ്ജമാക്കിയിട്ടില്ല",
+  "profile.clear": "മായ്ക്കുക",
+  "profile.done": "പൂർത്തിയായി",
+  "profile.saveFailed": "നിങ്ങളുടെ പ്രൊഫൈൽ അക്കൗണ്ടിൽ സംരക്ഷിക്കാനായില്ല. ഇത് ഇപ്പോഴും ഈ ഉപകരണത്തിൽ സംരക്ഷിച്ചിട്ടുണ്ട്.",
+
+  "permalink.eyebrow": null,
+  "permalink.sharedOn": null,
+  "permalink.continue": null,
+  "permalink.disclaimer": null,
+
+  "print.generatedOn": null,
+  "print.checklist": null,
+
+  "documents.progress": null,
+  "documents.required": null,
+  "documents.optional": null,
+  "documents.copy": null,
+  "documents.copied": null,
+  "documents.copyFailed": "പകർത്താനായില്ല",
+  "documents.sharedCount": null,
+
+  "tracker.start": null,
+  "tracker.progress": null,
+  "tracker.status.not_started": null,
+  "tracker.status.in_progress": null,
+  "tracker.status.done": null,
+  "tracker.deadline": null,
+  "tracker.reminder": null,
+  "tracker.notes": null,
+  "tracker.reminderDue": null,
+  "tracker.stop": null,
+  "tracker.inProgress": null,
+  "tracker.saveFailed": "നിങ്ങളുടെ പുരോഗതി സംരക്ഷിക്കാനായില്ല.",
+
+  "sources.kind.national": null,
+  "sources.kind.central": null,
+  "sources.kind.state": null,
+  "sources.kind.govHosted": null,
+  "sources.kind.publicBody": null,
+  "sources.kind.reference": null,
+  "sources.guideline": null,
+  "sources.unofficial": null,
+  "sources.stale": null,
+  "sources.updated": null,
+
+  "pdf.view": null,
+  "pdf.close": null,
+  "pdf.openOriginal": null,
+  "pdf.loading": null,
+  "pdf.failed": "ഈ രേഖ ഇവിടെ തുറക്കാനായില്ല.",
+  "pdf.page": null,
+  "pdf.previous": null,
+  "pdf.next": null,
+  "pdf.search": null,
+  "pdf.searching": null,
+  "pdf.matches": null,
+  "pdf.noMatches": null,
+  "pdf.previousMatch": null,
+  "pdf.nextMatch": null,
+
+  "evidence.well": null,
+  "evidence.partial": null,
+  "evidence.unsourced": null,
+  "evidence.details": null,
+  "evidence.coverage": null,
+  "evidence.unsourcedNotice": null,
+  "evidence.findSource": null,
+  "evidence.findSourceQuestion": null,
+
+  "compare.add": null,
+  "compare.selected": null,
+  "compare.open": null,
+  "compare.clear": null,
+  "compare.title": null,
+  "compare.close": null,
+  "compare.remove": null,
+  "compare.benefit": null,
+  "compare.eligibility": null,
+  "compare.documents": null,
+  "compare.mode": null,
+  "compare.mode.online": null,
+  "compare.mode.offline": null,
+  "compare.mode.both": null,
+  "compare.officialLink": null,
+
+  "bookmark.save": null,
+  "bookmark.remove": null,
+  "bookmark.title": null,
+  "bookmark.close": null,
+  "bookmark.empty": null,
+  "bookmark.savedOn": null,
+  "bookmark.notes": null,
+  "bookmark.notesPlaceholder": null,
+  "bookmark.openConversation": null,
+  "bookmark.saveFailed": "സംരക്ഷിച്ച പദ്ധതികൾ പുതുക്കാനായില്ല.",
+
+  "feedback.helpful": null,
+  "feedback.notHelpful": null,
+  "feedback.thanks": null,
+  "feedback.whatWentWrong": null,
+  "feedback.reason.outdated": null,
+  "feedback.reason.wrong_eligibility": null,
+  "feedback.reason.broken_link": null,
+  "feedback.reason.wrong_language": null,
+  "feedback.reason.other": null,
+  "feedback.commentPlaceholder": null,
+  "feedback.cancel": null,
+  "feedback.send": null,
+  "feedback.failed": "അഭിപ്രായം അയയ്ക്കാനായില്ല.",
+
+  "answer.copy": null,
+  "answer.copied": null,
+  "answer.copyMarkdown": null,
+  "answer.copyText": null,
+  "answer.copyFailed": "പകർത്താനായില്ല. നിങ്ങളുടെ ബ്രൗസർ ക്ലിപ്പ്ബോർഡ് ആക്സസ് തടഞ്ഞു.",
+  "message.edit": null,
+  "message.cancelEdit": null,
+  "message.resend": null,
+  "message.regenerate": null,
+  "message.version": null,
+  "message.previousVersion": null,
+  "message.nextVersion": null,
+
+  "offline.online": null,
+  "offline.offline": null,
+  "offline.offlineHint": null,
+  "offline.queuedNotice": null,
+  "offline.sendingQueued": null,
+  "offline.removeQueued": null,
+
+  "lite.title": null,
+  "lite.auto": null,
+  "lite.on": null,
+  "lite.off": null,
+  "lite.hint": null,
+  "lite.autoActive": null,
+  "lite.showSources": null,
+
+  "readAloud.start": "ഉറക്കെ വായിക്കുക",
+  "readAloud.stop": "വായന നിർത്തുക",
+  "readAloud.pause": "താൽക്കാലികമായി നിർത്തുക",
+  "readAloud.resume": "തുടരുക",
+  "readAloud.loading": "ഓഡിയോ തയ്യാറാകുന്നു…",
+  "readAloud.progress": "വാക്യം {current} / {total}",
+  "readAloud.failed": "ഈ മറുപടി ഉറക്കെ വായിക്കാനായില്ല. ദയവായി വീണ്ടും ശ്രമിക്കുക.",
+  "readAloud.unavailable": "ഈ ഉപകരണത്തിൽ ഉറക്കെ വായിക്കൽ ലഭ്യമല്ല.",
+
+  "voiceMode.title": "വോയ്സ് സംഭാഷണം",
+  "voiceMode.start": "വോയ്സ് സംഭാഷണം ആരംഭിക്കുക",
+  "voiceMode.listening": "കേൾക്കുന്നു",
+  "voiceMode.thinking": "ആലോചിക്കുന്നു",
+  "voiceMode.speaking": "സംസാരിക്കുന്നു",
+  "voiceMode.paused": "താൽക്കാലികമായി നിർത്തി",
+  "voiceMode.hint": "നിങ്ങളുടെ ചോദ്യം ചോദിക്കൂ. മറുപടി ഉറക്കെ പറഞ്ഞ ശേഷം വീണ്ടും കേൾക്കും.",
+  "voiceMode.interrupt": "ഇടയ്ക്ക് നിർത്തുക",
+  "voiceMode.tapToTalk": "സംസാരിക്കാൻ ടാപ്പ് ചെയ്യുക",
+  "voiceMode.end": "അവസാനിപ്പിക്കുക",
+};
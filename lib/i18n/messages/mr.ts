@@ -0,0 +1,251 @@
+import type { MessageCatalog } from "../types";
+
+export const mr: MessageCatalog = {
+  "header.newSearch": "नवीन शोध",
+  "header.openHistory": "संभाषणांचा इतिहास उघडा",
+  "header.lightMode": "लाइट मोडवर जा",
+  "header.darkMode": "डार्क मोडवर जा",
+  "header.openAccountMenu": "खाते मेनू उघडा",
+  "header.closeAccountMenu": "खाते मेनू बंद करा",
+  "menu.language": "भाषा",
+  "menu.signIn": "साइन इन करा",
+  "menu.signOut": "साइन आउट करा",
+
+  "composer.responseLanguage": "उत्तराची भाषा",
+  "composer.selectLanguage": "भाषा निवडा",
+  "composer.editProfile": "पात्रता प्रोफाइल बदला",
+  "composer.addProfile": "प्रोफाइल जोडा",
+  "composer.send": "संदेश पाठवा",
+  "composer.stop": "उत्तर थांबवा",
+
+  "answer.tab.summary": "सारांश",
+  "answer.tab.eligibility": "पात्रता",
+  "answer.tab.documents": "कागदपत्रे",
+  "answer.tab.apply": "अर्ज",
+  "answer.share": "उत्तर शेअर करा",
+  "answer.shared": "शेअर केले",
+  "answer.shareTitle": "JanInfra उत्तर",
+  "answer.sources": "स्रोत आणि पुरावे",
+  "answer.empty": "सर्व्हरकडून कोणतेही उत्तर मिळाले नाही.",
+  "answer.connectionFailed": "कनेक्ट होऊ शकले नाही.",
+  "answer.createLink": "लिंक तयार करा",
+  "answer.linkCopied": "लिंक कॉपी झाली",
+  "answer.linkFailed": "लिंक तयार करता आली नाही.",
+  "answer.print": "प्रिंट करा किंवा PDF म्हणून जतन करा",
+
+  "auth.title": "पुढे जाण्यासाठी साइन इन करा",
+  "auth.pendingBody": "लॉगिन पूर्ण करा, तुमचा संदेश आपोआप पाठवला जाईल.",
+  "auth.body": "योजना सहाय्यक वापरणे सुरू ठेवा.",
+  "auth.google": "Google ने पुढे जा",
+  "auth.redirecting": "Google कडे नेत आहोत...",
+  "auth.manualLink": "आपोआप पुढे न गेल्यास इथे क्लिक करा",
+  "auth.close": "साइन इन बंद करा",
+  "auth.signInToSend": "संदेश पाठवण्यासाठी एकदा साइन इन करा.",
+  "auth.missingConfig": "yojana-web मध्ये Supabase env vars सापडले नाहीत.",
+  "auth.slowRedirect": "Google साइन-इनला खूप वेळ लागत आहे. पुन्हा पुढे जा दाबा किंवा थेट लिंक वापरा.",
+
+  "voice.idle": "आवाज",
+  "voice.listening": "ऐकत आहोत {time}",
+  "voice.transcribing": "लिहीत आहोत",
+  "voice.start": "आवाजाने लिहिणे सुरू करा",
+  "voice.stop": "रेकॉर्डिंग थांबवा",
+  "voice.unsupported": "या ब्राउझरमध्ये आवाज इनपुट समर्थित नाही.",
+  "voice.recorderUnsupported": "या ब्राउझरमध्ये MediaRecorder समर्थित नाही.",
+  "voice.formatUnsupported": "या ब्राउझरमध्ये ऑडिओ रेकॉर्डिंग समर्थित नाही.",
+  "voice.noAudio": "कोणताही आवाज रेकॉर्ड झाला नाही. कृपया पुन्हा प्रयत्न करा.",
+  "voice.noSpeech": "काहीही ऐकू आले नाही. कृपया पुन्हा प्रयत्न करा.",
+  "voice.tooLarge": "रेकॉर्डिंग अपलोड करण्यासाठी खूप मोठे आहे (कमाल {size} MB). कृपया छोटा प्रश्न रेकॉर्ड करा.",
+  "voice.permissionDenied": "मायक्रोफोनची परवानगी नाकारली किंवा मायक्रोफोन उपलब्ध नाही.",
+  "voice.failed": "आवाज लिहिता आला नाही.",
+
+  "history.title": "इतिहास",
+  "history.label": "संभाषणांचा इतिहास",
+  "history.close": "इतिहास बंद करा",
+  "history.count": { one: "{count} संभाषण", other: "{count} संभाषणे" },
+  "history.localOnly": "फक्त या डिव्हाइसवर जतन केले.",
+  "history.loading": "लोड होत आहे…",
+  "history.empty": "अजून कोणतेही जुने संभाषण नाही.",
+  "history.rename": "संभाषणाचे नाव बदला",
+  "history.delete": "संभाषण हटवा",
+  "history.titleInput": "संभाषणाचे शीर्षक",
+  "history.loadFailed": "इतिहास लोड होऊ शकला नाही.",
+  "history.openFailed": "संभाषण उघडता आले नाही.",
+  "history.renameFailed": "संभाषणाचे नाव बदलता आले नाही.",
+  "history.deleteFailed": "संभाषण हटवता आले नाही.",
+  "history.missing": "हे संभाषण आता उपलब्ध नाही.",
+
+  "profile.eyebrow": "तुमची प्रोफाइल",
+  "profile.title": "पात्रता तपशील",
+  "profile.label": "पात्रता प्रोफाइल",
+  "profile.body": "हे तपशील प्रत्येक प्रश्नासोबत पाठवले जातात, त्यामुळे उत्तरे एकाच माहितीवर आधारित राहतात.",
+  "profile.autoFilled": "काही माहिती तुमच्या पहिल्या संदेशातून भरली आहे. पुढच्या प्रश्नाआधी ती तपासा.",
+  "profile.close": "प्रोफाइल बंद करा",
+  "profile.age": "वय",
+  "profile.gender": "लिंग",
+  "profile.gender.female": "स्त्री",
+  "profile.gender.male": "पुरुष",
+  "profile.gender.other": "इतर",
+  "profile.state": "राज्य / केंद्रशासित प्रदेश",
+  "profile.category": "सामाजिक प्रवर्ग",
+  "profile.occupation": "व्यवसाय",
+  "profile.income": "वार्षिक कौटुंबिक उत्पन्न (₹)",
+  "profile.disability": "दिव्यांग व्यक्ती",
+  "profile.student": "सध्या विद्यार्थी",
+  "profile.notSet": "निवडलेले नाही",
+  "profile.clear": "साफ करा",
+  "profile.done": "झाले",
+  "profile.saveFailed": "तुमची प्रोफाइल खात्यात जतन करता आली नाही. ती अजूनही या डिव्हाइसवर जतन आहे.",
+
+  "permalink.eyebrow": "शेअर केलेले उत्तर",
+  "permalink.sharedOn": "{date} रोजी शेअर केले",
+  "permalink.continue": "हे संभाषण पुढे सुरू ठेवा",
+  "permalink.disclaimer": "हा एक स्नॅपशॉट आहे. योजनेचे नियम बदलतात, त्यामुळे अर्ज करण्यापूर्वी स्रोत तपासा.",
+
+  "print.generatedOn": "{date} रोजी तयार केले",
+  "print.checklist": "कागदपत्रांची यादी",
+
+  "documents.progress": "{total} पैकी {done} तयार",
+  "documents.required": "आवश्यक",
+  "documents.optional": "ऐच्छिक",
+  "documents.copy": "मजकूर म्हणून कॉपी करा",
+  "documents.copied": "कॉपी झाले",
+  "documents.copyFailed": "कॉपी करता आले नाही",
+  "documents.sharedCount": { one: "या संभाषणातील {count} योजनेसाठी आवश्यक", other: "या संभाषणातील {count} योजनांसाठी आवश्यक" },
+
+  "tracker.start": "हा अर्ज ट्रॅक करा",
+  "tracker.progress": "{total} पैकी {done} टप्पे पूर्ण",
+  "tracker.status.not_started": "सुरू नाही",
+  "tracker.status.in_progress": "सुरू आहे",
+  "tracker.status.done": "पूर्ण",
+  "tracker.deadline": "अंतिम तारीख",
+  "tracker.reminder": "स्मरणपत्र",
+  "tracker.notes": "नोंदी",
+  "tracker.reminderDue": "स्मरणपत्राची वेळ",
+  "tracker.stop": "ट्रॅक करणे थांबवा",
+  "tracker.inProgress": "चालू अर्ज",
+  "tracker.saveFailed": "तुमची प्रगती जतन करता आली नाही.",
+
+  "sources.kind.national": "राष्ट्रीय पोर्टल",
+  "sources.kind.central": "केंद्र सरकार",
+  "sources.kind.state": "राज्य सरकार",
+  "sources.kind.govHosted": "सरकारी होस्टेड",
+  "sources.kind.publicBody": "सार्वजनिक संस्था",
+  "sources.kind.reference": "संदर्भ",
+  "sources.guideline": "मार्गदर्शक सूचना",
+  "sources.unofficial": "अधिकृत स्रोत नाही",
+  "sources.stale": "जुने असू शकते",
+  "sources.updated": "{date} रोजी अद्ययावत",
+
+  "pdf.view": "ॲपमध्ये वाचा",
+  "pdf.close": "दस्तऐवज बंद करा",
+  "pdf.openOriginal": "मूळ उघडा",
+  "pdf.loading": "दस्तऐवज लोड होत आहे…",
+  "pdf.failed": "हा दस्तऐवज येथे उघडता आला नाही.",
+  "pdf.page": "पृष्ठ {page} / {total}",
+  "pdf.previous": "मागील पृष्ठ",
+  "pdf.next": "पुढील पृष्ठ",
+  "pdf.search": "दस्तऐवजात शोधा",
+  "pdf.searching": "शोधत आहे…",
+  "pdf.matches": { one: "{count} पृष्ठावर सापडले", other: "{count} पृष्ठांवर सापडले" },
+  "pdf.noMatches": "या दस्तऐवजात काहीही सापडले नाही",
+  "pdf.previousMatch": "मागील निकाल",
+  "pdf.nextMatch": "पुढील निकाल",
+
+  "evidence.well": "चांगल्या स्रोतांवर आधारित",
+  "evidence.partial": "अंशतः आधारित",
+  "evidence.unsourced": "स्रोत नाही",
+  "evidence.details": "स्रोत: {sources} · अधिकृत: {official}",
+  "evidence.coverage": "{percent}% दाव्यांना स्रोत दिले आहेत",
+  "evidence.unsourcedNotice": "या उत्तराला कोणताही स्रोत नाही. त्यावर कृती करण्यापूर्वी अधिकृत योजना पोर्टलवर खात्री करा.",
+  "evidence.findSource": "अधिकृत स्रोत शोधा",
+  "evidence.findSourceQuestion": "यासाठी अधिकृत सरकारी स्रोत शोधा: {question}",
+
+  "compare.add": "तुलनेत जोडा",
+  "compare.selected": { one: "{count} योजना निवडली", other: "{count} योजना निवडल्या" },
+  "compare.open": "तुलना करा",
+  "compare.clear": "काढा",
+  "compare.title": "योजनांची तुलना",
+  "compare.close": "तुलना बंद करा",
+  "compare.remove": "काढा",
+  "compare.benefit": "लाभ",
+  "compare.eligibility": "पात्रता",
+  "compare.documents": "आवश्यक कागदपत्रे",
+  "compare.mode": "अर्जाची पद्धत",
+  "compare.mode.online": "ऑनलाइन",
+  "compare.mode.offline": "ऑफलाइन (कार्यालय किंवा CSC)",
+  "compare.mode.both": "ऑनलाइन किंवा ऑफलाइन",
+  "compare.officialLink": "अधिकृत दुवा",
+
+  "bookmark.save": "योजना जतन करा",
+  "bookmark.remove": "जतन केलेल्यांमधून काढा",
+  "bookmark.title": "माझ्या योजना",
+  "bookmark.close": "जतन केलेल्या योजना बंद करा",
+  "bookmark.empty": "तुम्ही जतन केलेल्या योजना येथे दिसतील.",
+  "bookmark.savedOn": "{date} रोजी जतन केले",
+  "bookmark.notes": "नोंदी",
+  "bookmark.notesPlaceholder": "नोंद जोडा, उदा. कोणती कागदपत्रे बाकी आहेत",
+  "bookmark.openConversation": "संभाषण उघडा",
+  "bookmark.saveFailed": "तुमच्या जतन केलेल्या योजना अद्ययावत करता आल्या नाहीत.",
+
+  "feedback.helpful": "उपयुक्त",
+  "feedback.notHelpful": "उपयुक्त नाही",
+  "feedback.thanks": "अभिप्रायाबद्दल धन्यवाद",
+  "feedback.whatWentWrong": "काय चुकले?",
+  "feedback.reason.outdated": "जुनी माहिती",
+  "feedback.reason.wrong_eligibility": "चुकीची पात्रता",
+  "feedback.reason.broken_link": "तुटलेला दुवा",
+  "feedback.reason.wrong_language": "चुकीची भाषा",
+  "feedback.reason.other": "इतर",
+  "feedback.commentPlaceholder": "अधिक सांगा (पर्यायी)",
+  "feedback.cancel": "रद्द करा",
+  "feedback.send": "पाठवा",
+  "feedback.failed": "अभिप्राय पाठवता आला नाही.",
+
+  "answer.copy": "उत्तर कॉपी करा",
+  "answer.copied": "कॉपी केले",
+  "answer.copyMarkdown": "Markdown म्हणून कॉपी करा",
+  "answer.copyText": "साधा मजकूर म्हणून कॉपी करा",
+  "answer.copyFailed": "कॉपी करता आले नाही. तुमच्या ब्राउझरने क्लिपबोर्डची परवानगी नाकारली.",
+  "message.edit": "संपादित करा",
+  "message.cancelEdit": "रद्द करा",
+  "message.resend": "पाठवा",
+  "message.regenerate": "उत्तर पुन्हा तयार करा",
+  "message.version": "{current} / {total}",
+  "message.previousVersion": "मागील आवृत्ती",
+  "message.nextVersion": "पुढील आवृत्ती",
+
+  "offline.online": "ऑनलाइन",
+  "offline.offline": "ऑफलाइन",
+  "offline.offlineHint": "तुम्ही ऑफलाइन आहात. जतन केलेली संभाषणे आणि बुकमार्क अजूनही उपलब्ध आहेत.",
+  "offline.queuedNotice": { one: "ऑनलाइन आल्यावर {count} प्रश्न पाठवला जाईल", other: "ऑनलाइन आल्यावर {count} प्रश्न पाठवले जातील" },
+  "offline.sendingQueued": { one: "रांगेतील {count} प्रश्न पाठवत आहोत", other: "रांगेतील {count} प्रश्न पाठवत आहोत" },
+  "offline.removeQueued": "रांगेतील प्रश्न काढा",
+
+  "lite.title": "लाइट मोड",
+  "lite.auto": "ऑटो",
+  "lite.on": "चालू",
+  "lite.off": "बंद",
+  "lite.hint": "अ‍ॅनिमेशन बंद करते आणि लहान उत्तरे लोड करते. धीम्या कनेक्शनवर ऑटो हे चालू करते.",
+  "lite.autoActive": "चालू आहे कारण तुमचे कनेक्शन धीमे आहे किंवा डेटा सेव्हर चालू आहे.",
+  "lite.showSources": { one: "{count} स्रोत दाखवा", other: "{count} स्रोत दाखवा" },
+
+  "readAloud.start": "वाचून दाखवा",
+  "readAloud.stop": "वाचन थांबवा",
+  "readAloud.pause": "थांबवा",
+  "readAloud.resume": "पुन्हा सुरू करा",
+  "readAloud.loading": "ऑडिओ तयार होत आहे…",
+  "readAloud.progress": "वाक्य {current} / {total}",
+  "readAloud.failed": "हे उत्तर वाचून दाखवता आले नाही. कृपया पुन्हा प्रयत्न करा.",
+  "readAloud.unavailable": "या डिव्हाइसवर वाचून दाखवण्याची सुविधा उपलब्ध नाही.",
+
+  "voiceMode.title": "आवाजाने संवाद",
+  "voiceMode.start": "आवाजाने संवाद सुरू करा",
+  "voiceMode.listening": "ऐकत आहोत",
+  "voiceMode.thinking": "विचार करत आहोत",
+  "voiceMode.speaking": "बोलत आहोत",
+  "voiceMode.paused": "थांबवले",
+  "voiceMode.hint": "तुमचा प्रश्न विचारा. उत्तर बोलून सांगितले जाईल, मग पुन्हा ऐकू.",
+  "voiceMode.interrupt": "मध्येच थांबवा",
+  "voiceMode.tapToTalk": "बोलण्यासाठी टॅप करा",
+  "voiceMode.end": "बंद करा",
+};
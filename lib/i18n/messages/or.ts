@@ -0,0 +1,251 @@
+import type { MessageCatalog } from "../types";
+
+export const or: MessageCatalog = {
+  "header.newSearch": "ନୂଆ ସନ୍ଧାନ",
+  "header.openHistory": null,
+  "header.lightMode": null,
+  "header.darkMode": null,
+  "header.openAccountMenu": null,
+  "header.closeAccountMenu": null,
+  "menu.language": "ଭାଷା",
+  "menu.signIn": "ସାଇନ ଇନ",
+  "menu.signOut": "ସାଇନ ଆଉଟ",
+
+  "composer.responseLanguage": "ଉତ୍ତରର ଭାଷା",
+  "composer.selectLanguage": "ଭାଷା ବାଛନ୍ତୁ",
+  "composer.editProfile": null,
+  "composer.addProfile": "ପ୍ରୋଫାଇଲ୍ ଯୋଡନ୍ତୁ",
+  "composer.send": "ବାର୍ତ୍ତା ପଠାନ୍ତୁ",
+  "composer.stop": "ଉତ୍ତର ବନ୍ଦ କରନ୍ତୁ",
+
+  "answer.tab.summary": "ସାରାଂଶ",
+  "answer.tab.eligibility": "ଯୋଗ୍ୟତା",
+  "answer.tab.documents": "ଦସ୍ତାବିଜ",
+  "answer.tab.apply": "ଆବେଦନ",
+  "answer.share": "ଉତ୍ତର ସେୟାର୍ କରନ୍ତୁ",
+  "answer.shared": "ସେୟାର୍ ହେଲା",
+  "answer.shareTitle": null,
+  "answer.sources": "ଉତ୍ସ ଓ ପ୍ରମାଣ",
+  "answer.empty": "ବ୍ୟାକଏଣ୍ଡରୁ କୌଣସି ଉତ୍ତର ମିଳିଲା ନାହିଁ।",
+  "answer.connectionFailed": "ସଂଯୋଗ ହୋଇପାରିଲା ନାହିଁ।",
+  "answer.createLink": null,
+  "answer.linkCopied": null,
+  "answer.linkFailed": "ଲିଙ୍କ୍ ତିଆରି କରିହେଲା ନାହିଁ।",
+  "answer.print": null,
+
+  "auth.title": "ଜାରି ରଖିବାକୁ ସାଇନ ଇନ କରନ୍ତୁ",
+  "auth.pendingBody": "ଲଗଇନ୍ ସମ୍ପୂର୍ଣ୍ଣ କରନ୍ତୁ, ଆପଣଙ୍କ ବାର୍ତ୍ତା ସ୍ୱୟଂଚାଳିତ ଭାବେ ପଠାଯିବ।",
+  "auth.body": "ଯୋଜନା ସହାୟକ ବ୍ୟବହାର କରିବାକୁ ଜାରି ରଖନ୍ତୁ।",
+  "auth.google": "Google ସହିତ ଜାରି ରଖନ୍ତୁ",
+  "auth.redirecting": "Google କୁ ପଠାଯାଉଛି...",
+  "auth.manualLink": "ସ୍ୱୟଂଚାଳିତ ଭାବେ ରିଡାଇରେକ୍ଟ ନ ହେଲେ ଏଠାରେ କ୍ଲିକ୍ କରନ୍ତୁ",
+  "auth.close": "ସାଇନ୍ ଇନ୍ ବନ୍ଦ କରନ୍ତୁ",
+  "auth.signInToSend": "ଆପଣଙ୍କ ବାର୍ତ୍ତା ପଠାଇବାକୁ ଥରେ ସାଇନ୍ ଇନ୍ କରନ୍ତୁ।",
+  "auth.missingConfig": "yojana-web ରେ Supabase env vars ନାହିଁ।",
+  "auth.slowRedirect": "Google ସାଇନ୍ ଇନ୍ ବହୁତ ସମୟ ନେଉଛି। ପୁଣି ଜାରି ରଖନ୍ତୁ ଦବାନ୍ତୁ କିମ୍ବା ସିଧା ଲିଙ୍କ୍ ବ୍ୟବହାର କରନ୍ତୁ।",
+
+  "voice.idle": "ସ୍ୱର",
+  "voice.listening": "ଶୁଣୁଛି {time}",
+  "voice.transcribing": "ଲେଖାରେ ବଦଳାଉଛି",
+  "voice.start": "ସ୍ୱର ଇନପୁଟ୍ ଆରମ୍ଭ କରନ୍ତୁ",
+  "voice.stop": "ରେକର୍ଡିଂ ବନ୍ଦ କରନ୍ତୁ",
+  "voice.unsupported": "ଏହି ବ୍ରାଉଜରରେ ସ୍ୱର ଇନପୁଟ୍ ସମର୍ଥିତ ନୁହେଁ।",
+  "voice.recorderUnsupported": "ଏହି ବ୍ରାଉଜରରେ MediaRecorder ସମର୍ଥିତ ନୁହେଁ।",
+  "voice.formatUnsupported": "ଏହି ବ୍ରାଉଜରରେ ଅଡିଓ ରେକର୍ଡିଂ ସମର୍ଥିତ ନୁହେଁ।",
+  "voice.noAudio": "କୌଣସି ଅଡିଓ ରେକର୍ଡ ହେଲା ନାହିଁ। ଦୟାକରି ପୁଣି ଚେଷ୍ଟା କରନ୍ତୁ।",
+  "voice.noSpeech": "କିଛି ଶୁଣାଗଲା ନାହିଁ। ଦୟାକରି ପୁଣି ଚେଷ୍ଟା କରନ୍ତୁ।",
+  "voice.tooLarge": "ରେକର୍ଡିଂ ଅପଲୋଡ୍ ପାଇଁ ବହୁତ ବଡ଼ (ସର୍ବାଧିକ {size} MB)। ଦୟାକରି ଛୋଟ ପ୍ରଶ୍ନ ରେକର୍ଡ କରନ୍ତୁ।",
+  "voice.permissionDenied": "ମାଇକ୍ରୋଫୋନ୍ ଅନୁମତି ମିଳିଲା ନାହିଁ କିମ୍ବା ଉପଲବ୍ଧ ନାହିଁ।",
+  "voice.failed": "ଲେଖାରେ ବଦଳାଇବା ବିଫଳ ହେଲା।",
+
+  "history.title": "ଇତିହାସ",
+  "history.label": null,
+  "history.close": null,
+  "history.count": null,
+  "history.localOnly": null,
+  "history.loading": null,
+  "history.empty": null,
+  "history.rename": null,
+  "history.delete": null,
+  "history.titleInput": null,
+  "history.loadFailed": "ଇତିହାସ ଲୋଡ୍ ହୋଇପାରିଲା ନାହିଁ।",
+  "history.openFailed": "କଥାବାର୍ତ୍ତା ଖୋଲିହେଲା ନାହିଁ।",
+  "history.renameFailed": "କଥାବାର୍ତ୍ତାର ନାମ ବଦଳାଇହେଲା ନାହିଁ।",
+  "history.deleteFailed": "କଥାବାର୍ତ୍ତା ବିଲୋପ କରିହେଲା ନାହିଁ।",
+  "history.missing": "ସେହି କଥାବାର୍ତ୍ତା ଆଉ ଉପଲବ୍ଧ ନାହିଁ।",
+
+  "profile.eyebrow": "ଆପଣଙ୍କ ପ୍ରୋଫାଇଲ୍",
+  "profile.title": "ଯୋଗ୍ୟତା ବିବରଣୀ",
+  "profile.label": "ଯୋଗ୍ୟତା ପ୍ରୋଫାଇଲ୍",
+  "profile.body": "ଉତ୍ତରଗୁଡ଼ିକ ସମାନ ତଥ୍ୟ ଉପରେ ଆଧାରିତ ରହିବା ପାଇଁ ଏହି ବିବରଣୀ ପ୍ରତ୍ୟେକ ପ୍ରଶ୍ନ ସହିତ ପଠାଯାଏ।",
+  "profile.autoFilled": "କିଛି ଫିଲ୍ଡ ଆପଣଙ୍କ ପ୍ରଥମ ବାର୍ତ୍ତାରୁ ପୂରଣ ହୋଇଛି। ପରବର୍ତ୍ତୀ ପ୍ରଶ୍ନ ପୂର୍ବରୁ ସେଗୁଡ଼ିକୁ ଯାଞ୍ଚ କରନ୍ତୁ।",
+  "profile.close": "ପ୍ରୋଫାଇଲ୍ ବନ୍ଦ କରନ୍ତୁ",
+  "profile.age": "ବୟସ",
+  "profile.gender": "ଲିଙ୍ଗ",
+  "profile.gender.female": "ମହିଳା",
+  "profile.gender.male": "ପୁରୁଷ",
+  "profile.gender.other": "ଅନ୍ୟ",
+  "profile.state": "ରାଜ୍ୟ / କେନ୍ଦ୍ରଶାସିତ ଅଞ୍ଚଳ",
+  "profile.category": "ସାମାଜିକ ବର୍ଗ",
+  "profile.occupation": "ବୃତ୍ତି",
+  "profile.income": "ବାର୍ଷିକ ପାରିବାରିକ ଆୟ (₹)",
+  "profile.disability": "ଭିନ୍ନକ୍ଷମ ବ୍ୟକ୍ତି",
+  "profile.student": "ବର୍ତ୍ତମାନ ଛାତ୍ର",
+  "profile.notSet": "ସେଟ୍ ହୋଇନାହିଁ",
+  "profile.clear": "ସଫା କରନ୍ତୁ",
+  "profile.done": "ହୋଇଗଲା",
+  "profile.saveFailed": "ଆପଣଙ୍କ ପ୍ରୋଫାଇଲ୍ ଖାତାରେ ସଞ୍ଚୟ କରିହେଲା ନାହିଁ। ଏହା ଏବେ ବି ଏହି ଡିଭାଇସରେ ସଞ୍ଚିତ ଅଛି।",
+
+  "permalink.eyebrow": null,
+  "permalink.sharedOn": null,
+  "permalink.continue": null,
+  "permalink.disclaimer": null,
+
+  "print.generatedOn": null,
+  "print.checklist": null,
+
+  "documents.progress": null,
+  "documents.required": null,
+  "documents.optional": null,
+  "documents.copy": null,
+  "documents.copied": null,
+  "documents.copyFailed": "କପି ହୋଇପାରିଲା ନାହିଁ",
+  "documents.sharedCount": null,
+
+  "tracker.start": null,
+  "tracker.progress": null,
+  "tracker.status.not_started": null,
+  "tracker.status.in_progress": null,
+  "tracker.status.done": null,
+  "tracker.deadline": null,
+  "tracker.reminder": null,
+  "tracker.notes": null,
+  "tracker.reminderDue": null,
+  "tracker.stop": null,
+  "tracker.inProgress": null,
+  "tracker.saveFailed": "ଆପଣଙ୍କ ପ୍ରଗତି ସଞ୍ଚୟ କରିହେଲା ନାହିଁ।",
+
+  "sources.kind.national": null,
+  "sources.kind.central": null,
+  "sources.kind.state": null,
+  "sources.kind.govHosted": null,
+  "sources.kind.publicBody": null,
+  "sources.kind.reference": null,
+  "sources.guideline": null,
+  "sources.unofficial": null,
+  "sources.stale": null,
+  "sources.updated": null,
+
+  "pdf.view": null,
+  "pdf.close": null,
+  "pdf.openOriginal": null,
+  "pdf.loading": null,
+  "pdf.failed": "ଏହି ଦସ୍ତାବିଜ ଏଠାରେ ଖୋଲିହେଲା ନାହିଁ।",
+  "pdf.page": null,
+  "pdf.previous": null,
+  "pdf.next": null,
+  "pdf.search": null,
+  "pdf.searching": null,
+  "pdf.matches": null,
+  "pdf.noMatches": null,
+  "pdf.previousMatch": null,
+  "pdf.nextMatch": null,
+
+  "evidence.well": null,
+  "evidence.partial": null,
+  "evidence.unsourced": null,
+  "evidence.details": null,
+  "evidence.coverage": null,
+  "evidence.unsourcedNotice": null,
+  "evidence.findSource": null,
+  "evidence.findSourceQuestion": null,
+
+  "compare.add": null,
+  "compare.selected": null,
+  "compare.open": null,
+  "compare.clear": null,
+  "compare.title": null,
+  "compare.close": null,
+  "compare.remove": null,
+  "compare.benefit": null,
+  "compare.eligibility": null,
+  "compare.documents": null,
+  "compare.mode": null,
+  "compare.mode.online": null,
+  "compare.mode.offline": null,
+  "compare.mode.both": null,
+  "compare.officialLink": null,
+
+  "bookmark.save": null,
+  "bookmark.remove": null,
+  "bookmark.title": null,
+  "bookmark.close": null,
+  "bookmark.empty": null,
+  "bookmark.savedOn": null,
+  "bookmark.notes": null,
+  "bookmark.notesPlaceholder": null,
+  "bookmark.openConversation": null,
+  "bookmark.saveFailed": "ସଞ୍ଚିତ ଯୋଜନାଗୁଡ଼ିକ ଅପଡେଟ୍ କରିହେଲା ନାହିଁ।",
+
+  "feedback.helpful": null,
+  "feedback.notHelpful": null,
+  "feedback.thanks": null,
+  "feedback.whatWentWrong": null,
+  "feedback.reason.outdated": null,
+  "feedback.reason.wrong_eligibility": null,
+  "feedback.reason.broken_link": null,
+  "feedback.reason.wrong_language": null,
+  "feedback.reason.other": null,
+  "feedback.commentPlaceholder": null,
+  "feedback.cancel": null,
+  "feedback.send": null,
+  "feedback.failed": "ମତାମତ ପଠାଇହେଲା ନାହିଁ।",
+
+  "answer.copy": null,
+  "answer.copied": null,
+  "answer.copyMarkdown": null,
+  "answer.copyText": null,
+  "answer.copyFailed": "କପି ହୋଇପାରିଲା ନାହିଁ। ଆପଣଙ୍କ ବ୍ରାଉଜର୍ କ୍ଲିପବୋର୍ଡ ପ୍ରବେଶ ଅଟକାଇଦେଲା।",
+  "message.edit": null,
+  "message.cancelEdit": null,
+  "message.resend": null,
+  "message.regenerate": null,
+  "message.version": null,
+  "message.previousVersion": null,
+  "message.nextVersion": null,
+
+  "offline.online": null,
+  "offline.offline": null,
+  "offline.offlineHint": null,
+  "offline.queuedNotice": null,
+  "offline.sendingQueued": null,
+  "offline.removeQueued": null,
+
+  "lite.title": null,
+  "lite.auto": null,
+  "lite.on": null,
+  "lite.off": null,
+  "lite.hint": null,
+  "lite.autoActive": null,
+  "lite.showSources": null,
+
+  "readAloud.start": "ଜୋରରେ ପଢ଼ନ୍ତୁ",
+  "readAloud.stop": "ପଢ଼ିବା ବନ୍ଦ କରନ୍ତୁ",
+  "readAloud.pause": "ବିରତି",
+  "readAloud.resume": "ପୁଣି ଆରମ୍ଭ କରନ୍ତୁ",
+  "readAloud.loading": "ଅଡିଓ ପ୍ରସ୍ତୁତ ହେଉଛି…",
+  "readAloud.progress": "ବାକ୍ୟ {current} / {total}",
+  "readAloud.failed": "ଏହି ଉତ୍ତର ଜୋରରେ ପଢ଼ିହେଲା ନାହିଁ। ଦୟାକରି ପୁଣି ଚେଷ୍ଟା କରନ୍ତୁ।",
+  "readAloud.unavailable": "ଏହି ଡିଭାଇସରେ ଜୋରରେ ପଢ଼ିବା ସୁବିଧା ଉପଲବ୍ଧ ନାହିଁ।",
+
+  "voiceMode.title": "ସ୍ୱର କଥାବାର୍ତ୍ତା",
+  "voiceMode.start": "ସ୍ୱର କଥାବାର୍ତ୍ତା ଆରମ୍ଭ କରନ୍ତୁ",
+  "voiceMode.listening": "ଶୁଣୁଛି",
+  "voiceMode.thinking": "ଭାବୁଛି",
+  "voiceMode.speaking": "କହୁଛି",
+  "voiceMode.paused": "ବିରତ",
+  "voiceMode.hint": "ଆପଣଙ୍କ ପ୍ରଶ୍ନ ପଚାରନ୍ତୁ। ଉତ୍ତର ଜୋରରେ କୁହାଯିବ, ତା'ପରେ ପୁଣି ଶୁଣାଯିବ।",
+  "voiceMode.interrupt": "ମଝିରେ ଅଟକାନ୍ତୁ",
+  "voiceMode.tapToTalk": "କହିବାକୁ ଟ୍ୟାପ୍ କରନ୍ତୁ",
+  "voiceMode.end": "ଶେଷ କରନ୍ତୁ",
+};
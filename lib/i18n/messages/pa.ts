@@ -0,0 +1,251 @@
+import type { MessageCatalog } from "../types";
+
+export const pa: MessageCatalog = {
+  "header.newSearch": "ਨਵੀਂ ਖੋਜ",
+  "header.openHistory": null,
+  "header.lightMode": null,
+  "header.darkMode": null,
+  "header.openAccountMenu": null,
+  "header.closeAccountMenu": null,
+  "menu.language": "ਭਾਸ਼ਾ",
+  "menu.signIn": "ਸਾਈਨ ਇਨ",
+  "menu.signOut": "ਸਾਈਨ ਆਊਟ",
+
+  "composer.responseLanguage": "ਜਵਾਬ ਦੀ ਭਾਸ਼ਾ",
+  "composer.selectLanguage": "ਭਾਸ਼ਾ ਚੁਣੋ",
+  "composer.editProfile": null,
+  "composer.addProfile": "ਪ੍ਰੋਫਾਈਲ ਜੋੜੋ",
+  "composer.send": "ਸੁਨੇਹਾ ਭੇਜੋ",
+  "composer.stop": "ਜਵਾਬ ਰੋਕੋ",
+
+  "answer.tab.summary": "ਸਾਰ",
+  "answer.tab.eligibility": "ਯੋਗਤਾ",
+  "answer.tab.documents": "ਦਸਤਾਵੇਜ਼",
+  "answer.tab.apply": "ਅਰਜ਼ੀ",
+  "answer.share": "ਜਵਾਬ ਸਾਂਝਾ ਕਰੋ",
+  "answer.shared": "ਸਾਂਝਾ ਕੀਤਾ",
+  "answer.shareTitle": null,
+  "answer.sources": "ਸਰੋਤ ਅਤੇ ਸਬੂਤ",
+  "answer.empty": "ਬੈਕਐਂਡ ਤੋਂ ਕੋਈ ਜਵਾਬ ਨਹੀਂ ਮਿਲਿਆ।",
+  "answer.connectionFailed": "ਕਨੈਕਟ ਨਹੀਂ ਹੋ ਸਕਿਆ।",
+  "answer.createLink": null,
+  "answer.linkCopied": null,
+  "answer.linkFailed": "ਲਿੰਕ ਨਹੀਂ ਬਣਾਇਆ ਜਾ ਸਕਿਆ।",
+  "answer.print": null,
+
+  "auth.title": "ਜਾਰੀ ਰੱਖਣ ਲਈ ਸਾਈਨ ਇਨ ਕਰੋ",
+  "auth.pendingBody": "ਲੌਗਇਨ ਪੂਰਾ ਕਰੋ, ਤੁਹਾਡਾ ਸੁਨੇਹਾ ਆਪਣੇ-ਆਪ ਭੇਜਿਆ ਜਾਵੇਗਾ।",
+  "auth.body": "ਯੋਜਨਾ ਸਹਾਇਕ ਦੀ ਵਰਤੋਂ ਕਰਨ ਲਈ ਜਾਰੀ ਰੱਖੋ।",
+  "auth.google": "Google ਨਾਲ ਜਾਰੀ ਰੱਖੋ",
+  "auth.redirecting": "Google ਵੱਲ ਭੇਜਿਆ ਜਾ ਰਿਹਾ ਹੈ...",
+  "auth.manualLink": "ਜੇ ਆਪਣੇ-ਆਪ ਰੀਡਾਇਰੈਕਟ ਨਾ ਹੋਵੇ ਤਾਂ ਇੱਥੇ ਕਲਿੱਕ ਕਰੋ",
+  "auth.close": "ਸਾਈਨ ਇਨ ਬੰਦ ਕਰੋ",
+  "auth.signInToSend": "ਆਪਣਾ ਸੁਨੇਹਾ ਭੇਜਣ ਲਈ ਇੱਕ ਵਾਰ ਸਾਈਨ ਇਨ ਕਰੋ।",
+  "auth.missingConfig": "yojana-web ਵਿੱਚ Supabase env vars ਨਹੀਂ ਮਿਲੇ।",
+  "auth.slowRedirect": "Google ਸਾਈਨ ਇਨ ਵਿੱਚ ਬਹੁਤ ਸਮਾਂ ਲੱਗ ਰਿਹਾ ਹੈ। ਦੁਬਾਰਾ ਜਾਰੀ ਰੱਖੋ ਦਬਾਓ ਜਾਂ ਸਿੱਧਾ ਲਿੰਕ ਵਰਤੋ।",
+
+  "voice.idle": "ਆਵਾਜ਼",
+  "voice.listening": "ਸੁਣ ਰਹੇ ਹਾਂ {time}",
+  "voice.transcribing": "ਲਿਖ ਰਹੇ ਹਾਂ",
+  "voice.start": "ਆਵਾਜ਼ ਇਨਪੁਟ ਸ਼ੁਰੂ ਕਰੋ",
+  "voice.stop": "ਰਿਕਾਰਡਿੰਗ ਰੋਕੋ",
+  "voice.unsupported": "ਇਸ ਬ੍ਰਾਊਜ਼ਰ ਵਿੱਚ ਅਵਾਜ਼ ਇਨਪੁਟ ਸਮਰਥਿਤ ਨਹੀਂ ਹੈ।",
+  "voice.recorderUnsupported": "ਇਸ ਬ੍ਰਾਊਜ਼ਰ ਵਿੱਚ MediaRecorder ਸਮਰਥਿਤ ਨਹੀਂ ਹੈ।",
+  "voice.formatUnsupported": "ਇਸ ਬ੍ਰਾਊਜ਼ਰ ਵਿੱਚ ਆਡੀਓ ਰਿਕਾਰਡਿੰਗ ਸਮਰਥਿਤ ਨਹੀਂ ਹੈ।",
+  "voice.noAudio": "ਕੋਈ ਆਡੀਓ ਰਿਕਾਰਡ ਨਹੀਂ ਹੋਇਆ। ਕਿਰਪਾ ਕਰਕੇ ਦੁਬਾਰਾ ਕੋਸ਼ਿਸ਼ ਕਰੋ।",
+  "voice.noSpeech": "ਕੁਝ ਸੁਣਾਈ ਨਹੀਂ ਦਿੱਤਾ। ਕਿਰਪਾ ਕਰਕੇ ਦੁਬਾਰਾ ਕੋਸ਼ਿਸ਼ ਕਰੋ।",
+  "voice.tooLarge": "ਰਿਕਾਰਡਿੰਗ ਅੱਪਲੋਡ ਕਰਨ ਲਈ ਬਹੁਤ ਵੱਡੀ ਹੈ (ਵੱਧ ਤੋਂ ਵੱਧ {size} MB)। ਕਿਰਪਾ ਕਰਕੇ ਛੋਟਾ ਸਵਾਲ ਰਿਕਾਰਡ ਕਰੋ।",
+  "voice.permissionDenied": "ਮਾਈਕ੍ਰੋਫ਼ੋਨ ਦੀ ਇਜਾਜ਼ਤ ਨਹੀਂ ਮਿਲੀ ਜਾਂ ਉਪਲਬਧ ਨਹੀਂ ਹੈ।",
+  "voice.failed": "ਲਿਖਤ ਵਿੱਚ ਬਦਲਣਾ ਅਸਫਲ ਰਿਹਾ।",
+
+  "history.title": "ਇਤਿਹਾਸ",
+  "history.label": null,
+  "history.close": null,
+  "history.count": null,
+  "history.localOnly": null,
+  "history.loading": null,
+  "history.empty": null,
+  "history.rename": null,
+  "history.delete": null,
+  "history.titleInput": null,
+  "history.loadFailed": "ਇਤਿਹਾਸ ਲੋਡ ਨਹੀਂ ਹੋ ਸਕਿਆ।",
+  "history.openFailed": "ਗੱਲਬਾਤ ਖੋਲ੍ਹੀ ਨਹੀਂ ਜਾ ਸਕੀ।",
+  "history.renameFailed": "ਗੱਲਬਾਤ ਦਾ ਨਾਂ ਬਦਲਿਆ ਨਹੀਂ ਜਾ ਸਕਿਆ।",
+  "history.deleteFailed": "ਗੱਲਬਾਤ ਮਿਟਾਈ ਨਹੀਂ ਜਾ ਸਕੀ।",
+  "history.missing": "ਉਹ ਗੱਲਬਾਤ ਹੁਣ ਉਪਲਬਧ ਨਹੀਂ ਹੈ।",
+
+  "profile.eyebrow": "ਤੁਹਾਡੀ ਪ੍ਰੋਫਾਈਲ",
+  "profile.title": "ਯੋਗਤਾ ਵੇਰਵੇ",
+  "profile.label": "ਯੋਗਤਾ ਪ੍ਰੋਫਾਈਲ",
+  "profile.body": "ਜਵਾਬ ਇੱਕੋ ਤੱਥਾਂ 'ਤੇ ਅਧਾਰਤ ਰਹਿਣ, ਇਸ ਲਈ ਇਹ ਵੇਰਵੇ ਹਰ ਸਵਾਲ ਨਾਲ ਭੇਜੇ ਜਾਂਦੇ ਹਨ।",
+  "profile.autoFilled": "ਕੁਝ ਖੇਤਰ ਤੁਹਾਡੇ ਪਹਿਲੇ ਸੁਨੇਹੇ ਤੋਂ ਭਰੇ ਗਏ ਹਨ। ਅਗਲੇ ਸਵਾਲ ਤੋਂ ਪਹਿਲਾਂ ਉਨ੍ਹਾਂ ਦੀ ਜਾਂਚ ਕਰੋ।",
+  "profile.close": "ਪ੍ਰੋਫਾਈਲ ਬੰਦ ਕਰੋ",
+  "profile.age": "ਉਮਰ",
+  "profile.gender": "ਲਿੰਗ",
+  "profile.gender.female": "ਔਰਤ",
+  "profile.gender.male": "ਮਰਦ",
+  "profile.gender.other": "ਹੋਰ",
+  "profile.state": "ਰਾਜ / ਕੇਂਦਰ ਸ਼ਾਸਿਤ ਪ੍ਰਦੇਸ਼",
+  "profile.category": "ਸਮਾਜਿਕ ਵਰਗ",
+  "profile.occupation": "ਕਿੱਤਾ",
+  "profile.income": "ਸਾਲਾਨਾ ਪਰਿਵਾਰਕ ਆਮਦਨ (₹)",
+  "profile.disability": "ਅਪਾਹਜ ਵਿਅਕਤੀ",
+  "profile.student": "ਇਸ ਸਮੇਂ ਵਿਦਿਆਰਥੀ",
+  "profile.notSet": "ਸੈੱਟ ਨਹੀਂ",
+  "profile.clear": "ਸਾਫ਼ ਕਰੋ",
+  "profile.done": "ਹੋ ਗਿਆ",
+  "profile.saveFailed": "ਤੁਹਾਡੀ ਪ੍ਰੋਫਾਈਲ ਖਾਤੇ ਵਿੱਚ ਸੁਰੱਖਿਅਤ ਨਹੀਂ ਹੋ ਸਕੀ। ਇਹ ਅਜੇ ਵੀ ਇਸ ਡਿਵਾਈਸ 'ਤੇ ਸੁਰੱਖਿਅਤ ਹੈ।",
+
+  "permalink.eyebrow": null,
+  "permalink.sharedOn": null,
+  "permalink.continue": null,
+  "permalink.disclaimer": null,
+
+  "print.generatedOn": null,
+  "print.checklist": null,
+
+  "documents.progress": null,
+  "documents.required": null,
+  "documents.optional": null,
+  "documents.copy": null,
+  "documents.copied": null,
+  "documents.copyFailed": "ਕਾਪੀ ਨਹੀਂ ਹੋ ਸਕਿਆ",
+  "documents.sharedCount": null,
+
+  "tracker.start": null,
+  "tracker.progress": null,
+  "tracker.status.not_started": null,
+  "tracker.status.in_progress": null,
+  "tracker.status.done": null,
+  "tracker.deadline": null,
+  "tracker.reminder": null,
+  "tracker.notes": null,
+  "tracker.reminderDue": null,
+  "tracker.stop": null,
+  "tracker.inProgress": null,
+  "tracker.saveFailed": "ਤੁਹਾਡੀ ਪ੍ਰਗਤੀ ਸੁਰੱਖਿਅਤ ਨਹੀਂ ਹੋ ਸਕੀ।",
+
+  "sources.kind.national": null,
+  "sources.kind.central": null,
+  "sources.kind.state": null,
+  "sources.kind.govHosted": null,
+  "sources.kind.publicBody": null,
+  "sources.kind.reference": null,
+  "sources.guideline": null,
+  "sources.unofficial": null,
+  "sources.stale": null,
+  "sources.updated": null,
+
+  "pdf.view": null,
+  "pdf.close": null,
+  "pdf.openOriginal": null,
+  "pdf.loading": null,
+  "pdf.failed": "ਇਹ ਦਸਤਾਵੇਜ਼ ਇੱਥੇ ਨਹੀਂ ਖੁੱਲ੍ਹ ਸਕਿਆ।",
+  "pdf.page": null,
+  "pdf.previous": null,
+  "pdf.next": null,
+  "pdf.search": null,
+  "pdf.searching": null,
+  "pdf.matches": null,
+  "pdf.noMatches": null,
+  "pdf.previousMatch": null,
+  "pdf.nextMatch": null,
+
+  "evidence.well": null,
+  "evidence.partial": null,
+  "evidence.unsourced": null,
+  "evidence.details": null,
+  "evidence.coverage": null,
+  "evidence.unsourcedNotice": null,
+  "evidence.findSource": null,
+  "evidence.findSourceQuestion": null,
+
+  "compare.add": null,
+  "compare.selected": null,
+  "compare.open": null,
+  "compare.clear": null,
+  "compare.title": null,
+  "compare.close": null,
+  "compare.remove": null,
+  "compare.benefit": null,
+  "compare.eligibility": null,
+  "compare.documents": null,
+  "compare.mode": null,
+  "compare.mode.online": null,
+  "compare.mode.offline": null,
+  "compare.mode.both": null,
+  "compare.officialLink": null,
+
+  "bookmark.save": null,
+  "bookmark.remove": null,
+  "bookmark.title": null,
+  "bookmark.close": null,
+  "bookmark.empty": null,
+  "bookmark.savedOn": null,
+  "bookmark.notes": null,
+  "bookmark.notesPlaceholder": null,
+  "bookmark.openConversation": null,
+  "bookmark.saveFailed": "ਸੁਰੱਖਿਅਤ ਯੋਜਨਾਵਾਂ ਅੱਪਡੇਟ ਨਹੀਂ ਹੋ ਸਕੀਆਂ।",
+
+  "feedback.helpful": null,
+  "feedback.notHelpful": null,
+  "feedback.thanks": null,
+  "feedback.whatWentWrong": null,
+  "feedback.reason.outdated": null,
+  "feedback.reason.wrong_eligibility": null,
+  "feedback.reason.broken_link": null,
+  "feedback.reason.wrong_language": null,
+  "feedback.reason.other": null,
+  "feedback.commentPlaceholder": null,
+  "feedback.cancel": null,
+  "feedback.send": null,
+  "feedback.failed": "ਫੀਡਬੈਕ ਭੇਜਿਆ ਨਹੀਂ ਜਾ ਸਕਿਆ।",
+
+  "answer.copy": null,
+  "answer.copied": null,
+  "answer.copyMarkdown": null,
+  "answer.copyText": null,
+  "answer.copyFailed": "ਕਾਪੀ ਨਹੀਂ ਹੋ ਸਕਿਆ। ਤੁਹਾਡੇ ਬ੍ਰਾਊਜ਼ਰ ਨੇ ਕਲਿੱਪਬੋਰਡ ਦੀ ਪਹੁੰਚ ਰੋਕ ਦਿੱਤੀ।",
+  "message.edit": null,
+  "message.cancelEdit": null,
+  "message.resend": null,
+  "message.regenerate": null,
+  "message.version": null,
+  "message.previousVersion": null,
+  "message.nextVersion": null,
+
+  "offline.online": null,
+  "offline.offline": null,
+  "offline.offlineHint": null,
+  "offline.queuedNotice": null,
+  "offline.sendingQueued": null,
+  "offline.removeQueued": null,
+
+  "lite.title": null,
+  "lite.auto": null,
+  "lite.on": null,
+  "lite.off": null,
+  "lite.hint": null,
+  "lite.autoActive": null,
+  "lite.showSources": null,
+
+  "readAloud.start": "ਉੱਚੀ ਪੜ੍ਹੋ",
+  "readAloud.stop": "ਪੜ੍ਹਨਾ ਬੰਦ ਕਰੋ",
+  "readAloud.pause": "ਰੋਕੋ",
+  "readAloud.resume": "ਮੁੜ ਸ਼ੁਰੂ ਕਰੋ",
+  "readAloud.loading": "ਆਡੀਓ ਤਿਆਰ ਹੋ ਰਿਹਾ ਹੈ…",
+  "readAloud.progress": "ਵਾਕ {current} / {total}",
+  "readAloud.failed": "ਇਹ ਜਵਾਬ ਉੱਚੀ ਨਹੀਂ ਪੜ੍ਹਿਆ ਜਾ ਸਕਿਆ। ਕਿਰਪਾ ਕਰਕੇ ਦੁਬਾਰਾ ਕੋਸ਼ਿਸ਼ ਕਰੋ।",
+  "readAloud.unavailable": "ਇਸ ਡਿਵਾਈਸ 'ਤੇ ਉੱਚੀ ਪੜ੍ਹਨ ਦੀ ਸਹੂਲਤ ਉਪਲਬਧ ਨਹੀਂ ਹੈ।",
+
+  "voiceMode.title": "ਅਵਾਜ਼ ਗੱਲਬਾਤ",
+  "voiceMode.start": "ਅਵਾਜ਼ ਗੱਲਬਾਤ ਸ਼ੁਰੂ ਕਰੋ",
+  "voiceMode.listening": "ਸੁਣ ਰਿਹਾ ਹੈ",
+  "voiceMode.thinking": "ਸੋਚ ਰਿਹਾ ਹੈ",
+  "voiceMode.speaking": "ਬੋਲ ਰਿਹਾ ਹੈ",
+  "voiceMode.paused": "ਰੁਕਿਆ ਹੋਇਆ",
+  "voiceMode.hint": "ਆਪਣਾ ਸਵਾਲ ਪੁੱਛੋ। ਜਵਾਬ ਬੋਲ ਕੇ ਸੁਣਾਇਆ ਜਾਵੇਗਾ, ਫਿਰ ਅਸੀਂ ਦੁਬਾਰਾ ਸੁਣਾਂਗੇ।",
+  "voiceMode.interrupt": "ਵਿਚਕਾਰ ਰੋਕੋ",
+  "voiceMode.tapToTalk": "ਬੋਲਣ ਲਈ ਟੈਪ ਕਰੋ",
+  "voiceMode.end": "ਖਤਮ ਕਰੋ",
+};
@@ -0,0 +1,251 @@
+import type { MessageCatalog } from "../types";
+
+export const ta: MessageCatalog = {
+  "header.newSearch": "புதிய தேடல்",
+  "header.openHistory": null,
+  "header.lightMode": null,
+  "header.darkMode": null,
+  "header.openAccountMenu": null,
+  "header.closeAccountMenu": null,
+  "menu.language": "மொழி",
+  "menu.signIn": "உள்நுழைக",
+  "menu.signOut": "வெளியேறு",
+
+  "composer.responseLanguage": "பதில் மொழி",
+  "composer.selectLanguage": "மொழியைத் தேர்ந்தெடுக்கவும்",
+  "composer.editProfile": null,
+  "composer.addProfile": "சுயவிவரம் சேர்க்க",
+  "composer.send": "செய்தி அனுப்பு",
+  "composer.stop": "பதிலை நிறுத்து",
+
+  "answer.tab.summary": "சுருக்கம்",
+  "answer.tab.eligibility": "தகுதி",
+  "answer.tab.documents": "ஆவணங்கள்",
+  "answer.tab.apply": "விண்ணப்பம்",
+  "answer.share": "பதிலைப் பகிர்",
+  "answer.shared": "பகிரப்பட்டது",
+  "answer.shareTitle": null,
+  "answer.sources": "ஆதாரங்கள் & சான்றுகள்",
+  "answer.empty": "பின்தளத்திலிருந்து பதில் எதுவும் வரவில்லை.",
+  "answer.connectionFailed": "இணைக்க முடியவில்லை.",
+  "answer.createLink": null,
+  "answer.linkCopied": null,
+  "answer.linkFailed": "இணைப்பை உருவாக்க முடியவில்லை.",
+  "answer.print": null,
+
+  "auth.title": "தொடர உள்நுழையவும்",
+  "auth.pendingBody": "உள்நுழைவை முடித்தால் உங்கள் செய்தி தானாக அனுப்பப்படும்.",
+  "auth.body": "திட்ட உதவியாளரைப் பயன்படுத்தத் தொடரவும்.",
+  "auth.google": "Google மூலம் தொடரவும்",
+  "auth.redirecting": "Google-க்கு திருப்பிவிடப்படுகிறது...",
+  "auth.manualLink": "தானாகத் திருப்பிவிடப்படவில்லை என்றால் இங்கே கிளிக் செய்யவும்",
+  "auth.close": "உள்நுழைவை மூடு",
+  "auth.signInToSend": "உங்கள் செய்தியை அனுப்ப ஒருமுறை உள்நுழையவும்.",
+  "auth.missingConfig": "yojana-web-இல் Supabase env vars இல்லை.",
+  "auth.slowRedirect": "Google உள்நுழைவு அதிக நேரம் எடுக்கிறது. மீண்டும் தொடரவும் என்பதைத் தட்டவும் அல்லது நேரடி இணைப்பைப் பயன்படுத்தவும்.",
+
+  "voice.idle": "குரல்",
+  "voice.listening": "கேட்கிறது {time}",
+  "voice.transcribing": "எழுத்தாக்குகிறது",
+  "voice.start": "குரல் உள்ளீட்டைத் தொடங்கு",
+  "voice.stop": "பதிவை நிறுத்து",
+  "voice.unsupported": "இந்த உலாவியில் குரல் உள்ளீடு ஆதரிக்கப்படவில்லை.",
+  "voice.recorderUnsupported": "இந்த உலாவியில் MediaRecorder ஆதரிக்கப்படவில்லை.",
+  "voice.formatUnsupported": "இந்த உலாவியில் ஒலிப்பதிவு ஆதரிக்கப்படவில்லை.",
+  "voice.noAudio": "ஒலி எதுவும் பதிவாகவில்லை. மீண்டும் முயற்சிக்கவும்.",
+  "voice.noSpeech": "எதுவும் கேட்கவில்லை. மீண்டும் முயற்சிக்கவும்.",
+  "voice.tooLarge": "பதிவேற்ற முடியாத அளவுக்குப் பதிவு பெரியது (அதிகபட்சம் {size} MB). குறுகிய கேள்வியைப் பதிவு செய்யவும்.",
+  "voice.permissionDenied": "மைக்ரோஃபோன் அனுமதி மறுக்கப்பட்டது அல்லது கிடைக்கவில்லை.",
+  "voice.failed": "எழுத்தாக்கம் தோல்வியடைந்தது.",
+
+  "history.title": "வரலாறு",
+  "history.label": null,
+  "history.close": null,
+  "history.count": null,
+  "history.localOnly": null,
+  "history.loading": null,
+  "history.empty": null,
+  "history.rename": null,
+  "history.delete": null,
+  "history.titleInput": null,
+  "history.loadFailed": "வரலாற்றை ஏற்ற முடியவில்லை.",
+  "history.openFailed": "உரையாடலைத் திறக்க முடியவில்லை.",
+  "history.renameFailed": "உரையாடலின் பெயரை மாற்ற முடியவில்லை.",
+  "history.deleteFailed": "உரையாடலை நீக்க முடியவில்லை.",
+  "history.missing": "அந்த உரையாடல் இப்போது கிடைக்கவில்லை.",
+
+  "profile.eyebrow": "உங்கள் சுயவிவரம்",
+  "profile.title": "தகுதி விவரங்கள்",
+  "profile.label": "தகுதி சுயவிவரம்",
+  "profile.body": "பதில்கள் ஒரே உண்மைகளின் அடிப்படையில் இருக்க, இந்த விவரங்கள் ஒவ்வொரு கேள்வியுடனும் அனுப்பப்படும்.",
+  "profile.autoFilled": "சில புலங்கள் உங்கள் முதல் செய்தியிலிருந்து நிரப்பப்பட்டன. அடுத்த கேள்விக்கு முன் அவற்றைச் சரிபார்க்கவும்.",
+  "profile.close": "சுயவிவரத்தை மூடு",
+  "profile.age": "வயது",
+  "profile.gender": "பாலினம்",
+  "profile.gender.female": "பெண்",
+  "profile.gender.male": "ஆண்",
+  "profile.gender.other": "மற்றவை",
+  "profile.state": "மாநிலம் / யூனியன் பிரதேசம்",
+  "profile.category": "சமூகப் பிரிவு",
+  "profile.occupation": "தொழில்",
+  "profile.income": "ஆண்டு குடும்ப வருமானம் (₹)",
+  "profile.disability": "மாற்றுத்திறனாளி",
+  "profile.student": "தற்போது மாணவர்",
+  "profile.notSet": "அமைக்கப்படவில்லை",
+  "profile.clear": "அழி",
+  "profile.done": "முடிந்தது",
+  "profile.saveFailed": "உங்கள் சுயவிவரத்தைக் கணக்கில் சேமிக்க முடியவில்லை. இது இந்தச் சாதனத்தில் இன்னும் சேமிக்கப்பட்டுள்ளது.",
+
+  "permalink.eyebrow": null,
+  "permalink.sharedOn": null,
+  "permalink.continue": null,
+  "permalink.disclaimer": null,
+
+  "print.generatedOn": null,
+  "print.checklist": null,
+
+  "documents.progress": null,
+  "documents.required": null,
+  "documents.optional": null,
+  "documents.copy": null,
+  "documents.copied": null,
+  "documents.copyFailed": "நகலெடுக்க முடியவில்லை",
+  "documents.sharedCount": null,
+
+  "tracker.start": null,
+  "tracker.progress": null,
+  "tracker.status.not_started": null,
+  "tracker.status.in_progress": null,
+  "tracker.status.done": null,
+  "tracker.deadline": null,
+  "tracker.reminder": null,
+  "tracker.notes": null,
+  "tracker.reminderDue": null,
+  "tracker.stop": null,
+  "tracker.inProgress": null,
+  "tracker.saveFailed": "உங்கள் முன்னேற்றத்தைச் சேமிக்க முடியவில்லை.",
+
+  "sources.kind.national": null,
+  "sources.kind.central": null,
+  "sources.kind.state": null,
+  "sources.kind.govHosted": null,
+  "sources.kind.publicBody": null,
+  "sources.kind.reference": null,
+  "sources.guideline": null,
+  "sources.unofficial": null,
+  "sources.stale": null,
+  "sources.updated": null,
+
+  "pdf.view": null,
+  "pdf.close": null,
+  "pdf.openOriginal": null,
+  "pdf.loading": null,
+  "pdf.failed": "இந்த ஆவணத்தை இங்கே திறக்க முடியவில்லை.",
+  "pdf.page": null,
+  "pdf.previous": null,
+  "pdf.next": null,
+  "pdf.search": null,
+  "pdf.searching": null,
+  "pdf.matches": null,
+  "pdf.noMatches": null,
+  "pdf.previousMatch": null,
+  "pdf.nextMatch": null,
+
+  "evidence.well": null,
+  "evidence.partial": null,
+  "evidence.unsourced": null,
+  "evidence.details": null,
+  "evidence.coverage": null,
+  "evidence.unsourcedNotice": null,
+  "evidence.findSource": null,
+  "evidence.findSourceQuestion": null,
+
+  "compare.add": null,
+  "compare.selected": null,
+  "compare.open": null,
+  "compare.clear": null,
+  "compare.title": null,
+  "compare.close": null,
+  "compare.remove": null,
+  "compare.benefit": null,
+  "compare.eligibility": null,
+  "compare.documents": null,
+  "compare.mode": null,
+  "compare.mode.online": null,
+  "compare.mode.offline": null,
+  "compare.mode.both": null,
+  "compare.officialLink": null,
+
+  "bookmark.save": null,
+  "bookmark.remove": null,
+  "bookmark.title": null,
+  "bookmark.close": null,
+  "bookmark.empty": null,
+  "bookmark.savedOn": null,
+  "bookmark.notes": null,
+  "bookmark.notesPlaceholder": null,
+  "bookmark.openConversation": null,
+  "bookmark.saveFailed": "சேமித்த திட்டங்களைப் புதுப்பிக்க முடியவில்லை.",
+
+  "feedback.helpful": null,
+  "feedback.notHelpful": null,
+  "feedback.thanks": null,
+  "feedback.whatWentWrong": null,
+  "feedback.reason.outdated": null,
+  "feedback.reason.wrong_eligibility": null,
+  "feedback.reason.broken_link": null,
+  "feedback.reason.wrong_language": null,
+  "feedback.reason.other": null,
+  "feedback.commentPlaceholder": null,
+  "feedback.cancel": null,
+  "feedback.send": null,
+  "feedback.failed": "கருத்தை அனுப்ப முடியவில்லை.",
+
+  "answer.copy": null,
+  "answer.copied": null,
+  "answer.copyMarkdown": null,
+  "answer.copyText": null,
+  "answer.copyFailed": "நகலெடுக்க முடியவில்லை. உங்கள் உலாவி கிளிப்போர்டு அணுகலைத் தடுத்தது.",
+  "message.edit": null,
+  "message.cancelEdit": null,
+  "message.resend": null,
+  "message.regenerate": null,
+  "message.version": null,
+  "message.previousVersion": null,
+  "message.nextVersion": null,
+
+  "offline.online": null,
+  "offline.offline": null,
+  "offline.offlineHint": null,
+  "offline.queuedNotice": null,
+  "offline.sendingQueued": null,
+  "offline.removeQueued": null,
+
+  "lite.title": null,
+  "lite.auto": null,
+  "lite.on": null,
+  "lite.off": null,
+  "lite.hint": null,
+  "lite.autoActive": null,
+  "lite.showSources": null,
+
+  "readAloud.start": "சத்தமாகப் படி",
+  "readAloud.stop": "படிப்பதை நிறுத்து",
+  "readAloud.pause": "இடைநிறுத்து",
+  "readAloud.resume": "தொடர்",
+  "readAloud.loading": "ஒலி தயாராகிறது…",
+  "readAloud.progress": "வாக்கியம் {current} / {total}",
+  "readAloud.failed": "இந்தப் பதிலைச் சத்தமாகப் படிக்க முடியவில்லை. மீண்டும் முயற்சிக்கவும்.",
+  "readAloud.unavailable": "இந்தச் சாதனத்தில் சத்தமாகப் படிக்கும் வசதி இல்லை.",
+
+  "voiceMode.title": "குரல் உரையாடல்",
+  "voiceMode.start": "குரல் உரையாடலைத் தொடங்கு",
+  "voiceMode.listening": "கேட்கிறது",
+  "voiceMode.thinking": "யோசிக்கிறது",
+  "voiceMode.speaking": "பேசுகிறது",
+  "voiceMode.paused": "இடைநிறுத்தப்பட்டது",
+  "voiceMode.hint": "உங்கள் கேள்வியைக் கேளுங்கள். பதில் சத்தமாகச் சொல்லப்படும், பிறகு மீண்டும் கேட்கப்படும்.",
+  "voiceMode.interrupt": "இடைமறி",
+  "voiceMode.tapToTalk": "பேச தட்டவும்",
+  "voiceMode.end": "முடி",
+};
@@ -0,0 +1,251 @@
+import type { MessageCatalog } from "../types";
+
+export const te: MessageCatalog = {
+  "header.newSearch": "కొత్త శోధన",
+  "header.openHistory": null,
+  "header.lightMode": null,
+  "header.darkMode": null,
+  "header.openAccountMenu": null,
+  "header.closeAccountMenu": null,
+  "menu.language": "భాష",
+  "menu.signIn": "సైన్ ఇన్",
+  "menu.signOut": "సైన్ అవుట్",
+
+  "composer.responseLanguage": "సమాధానం భాష",
+  "composer.selectLanguage": "భాషను ఎంచుకోండి",
+  "composer.editProfile": null,
+  "composer.addProfile": "ప్రొఫైల్ జోడించండి",
+  "composer.send": "సందేశం పంపండి",
+  "composer.stop": "సమాధానం ఆపండి",
+
+  "answer.tab.summary": "సారాంశం",
+  "answer.tab.eligibility": "అర్హత",
+  "answer.tab.documents": "పత్రాలు",
+  "answer.tab.apply": "దరఖాస్తు",
+  "answer.share": "సమాధానం పంచుకోండి",
+  "answer.shared": "పంచుకోబడింది",
+  "answer.shareTitle": null,
+  "answer.sources": "మూలాలు & ఆధారాలు",
+  "answer.empty": "బ్యాకెండ్ నుండి సమాధానం రాలేదు.",
+  "answer.connectionFailed": "కనెక్ట్ చేయడం విఫలమైంది.",
+  "answer.createLink": null,
+  "answer.linkCopied": null,
+  "answer.linkFailed": "లింక్ సృష్టించడం సాధ్యం కాలేదు.",
+  "answer.print": null,
+
+  "auth.title": "కొనసాగడానికి సైన్ ఇన్ చేయండి",
+  "auth.pendingBody": "లాగిన్ పూర్తి చేయండి, మీ సందేశం ఆటోమేటిక్‌గా పంపబడుతుంది.",
+  "auth.body": "పథకాల సహాయకుడిని ఉపయోగించడానికి కొనసాగండి.",
+  "auth.google": "Google తో కొనసాగండి",
+  "auth.redirecting": "Googleకి మళ్లిస్తోంది...",
+  "auth.manualLink": "ఆటోమేటిక్‌గా మళ్లించబడకపోతే ఇక్కడ క్లిక్ చేయండి",
+  "auth.close": "సైన్ ఇన్ మూసివేయండి",
+  "auth.signInToSend": "మీ సందేశం పంపడానికి ఒకసారి సైన్ ఇన్ చేయండి.",
+  "auth.missingConfig": "yojana-webలో Supabase env vars లేవు.",
+  "auth.slowRedirect": "Google సైన్ ఇన్‌కు చాలా సమయం పడుతోంది. మళ్లీ కొనసాగించు నొక్కండి లేదా నేరుగా లింక్ ఉపయోగించండి.",
+
+  "voice.idle": "వాయిస్",
+  "voice.listening": "వింటోంది {time}",
+  "voice.transcribing": "రాస్తోంది",
+  "voice.start": "వాయిస్ ఇన్‌పుట్ ప్రారంభించండి",
+  "voice.stop": "రికార్డింగ్ ఆపండి",
+  "voice.unsupported": "ఈ బ్రౌజర్‌లో వాయిస్ ఇన్‌పుట్‌కు మద్దతు లేదు.",
+  "voice.recorderUnsupported": "ఈ బ్రౌజర్‌లో MediaRecorderకు మద్దతు లేదు.",
+  "voice.formatUnsupported": "ఈ బ్రౌజర్‌లో ఆడియో రికార్డింగ్‌కు మద్దతు లేదు.",
+  "voice.noAudio": "ఆడియో రికార్డ్ కాలేదు. దయచేసి మళ్లీ ప్రయత్నించండి.",
+  "voice.noSpeech": "ఏమీ వినిపించలేదు. దయచేసి మళ్లీ ప్రయత్నించండి.",
+  "voice.tooLarge": "రికార్డింగ్ అప్‌లోడ్ చేయడానికి చాలా పెద్దది (గరిష్ఠం {size} MB). దయచేసి చిన్న ప్రశ్నను రికార్డ్ చేయండి.",
+  "voice.permissionDenied": "మైక్రోఫోన్ అనుమతి నిరాకరించబడింది లేదా అందుబాటులో లేదు.",
+  "voice.failed": "ట్రాన్స్‌క్రిప్షన్ విఫలమైంది.",
+
+  "history.title": "చరిత్ర",
+  "history.label": null,
+  "history.close": null,
+  "history.count": null,
+  "history.localOnly": null,
+  "history.loading": null,
+  "history.empty": null,
+  "history.rename": null,
+  "history.delete": null,
+  "history.titleInput": null,
+  "history.loadFailed": "చరిత్రను లోడ్ చేయలేకపోయాం.",
+  "history.openFailed": "సంభాషణను తెరవలేకపోయాం.",
+  "history.renameFailed": "సంభాషణ పేరు మార్చలేకపోయాం.",
+  "history.deleteFailed": "సంభాషణను తొలగించలేకపోయాం.",
+  "history.missing": "ఆ సంభాషణ ఇప్పుడు అందుబాటులో లేదు.",
+
+  "profile.eyebrow": "మీ ప్రొఫైల్",
+  "profile.title": "అర్హత వివరాలు",
+  "profile.label": "అర్హత ప్రొఫైల్",
+  "profile.body": "సమాధానాలు ఒకే వాస్తవాలపై ఆధారపడేలా, ఈ వివరాలు ప్రతి ప్రశ్నతో పంపబడతాయి.",
+  "profile.autoFilled": "కొన్ని ఫీల్డ్‌లు మీ మొదటి సందేశం నుండి నింపబడ్డాయి. తదుపరి ప్రశ్నకు ముందు వాటిని సరిచూసుకోండి.",
+  "profile.close": "ప్రొఫైల్ మూసివేయండి",
+  "profile.age": "వయసు",
+  "profile.gender": "లింగం",
+  "profile.gender.female": "స్త్రీ",
+  "profile.gender.male": "పురుషుడు",
+  "profile.gender.other": "ఇతర",
+  "profile.state": "రాష్ట్రం / కేంద్రపాలిత ప్రాంతం",
+  "profile.category": "సామాజిక వర్గం",
+  "profile.occupation": "వృత్తి",
+  "profile.income": "వార్షిక కుటుంబ ఆదాయం (₹)",
+  "profile.disability": "దివ్యాంగులు",
+  "profile.student": "ప్రస్తుతం విద్యార్థి",
+  "profile.notSet": "సెట్ చేయలేదు",
+  "profile.clear": "తొలగించు",
+  "profile.done": "పూర్తయింది",
+  "profile.saveFailed": "మీ ప్రొఫైల్‌ను ఖాతాలో సేవ్ చేయలేకపోయాం. ఇది ఇప్పటికీ ఈ పరికరంలో సేవ్ అయి ఉంది.",
+
+  "permalink.eyebrow": null,
+  "permalink.sharedOn": null,
+  "permalink.continue": null,
+  "permalink.disclaimer": null,
+
+  "print.generatedOn": null,
+  "print.checklist": null,
+
+  "documents.progress": null,
+  "documents.required": null,
+  "documents.optional": null,
+  "documents.copy": null,
+  "documents.copied": null,
+  "documents.copyFailed": "కాపీ కాలేదు",
+  "documents.sharedCount": null,
+
+  "tracker.start": null,
+  "tracker.progress": null,
+  "tracker.status.not_started": null,
+  "tracker.status.in_progress": null,
+  "tracker.status.done": null,
+  "tracker.deadline": null,
+  "tracker.reminder": null,
+  "tracker.notes": null,
+  "tracker.reminderDue": null,
+  "tracker.stop": null,
+  "tracker.inProgress": null,
+  "tracker.saveFailed": "మీ పురోగతిని సేవ్ చేయలేకపోయాం.",
+
+  "sources.kind.national": null,
+  "sources.kind.central": null,
+  "sources.kind.state": null,
+  "sources.kind.govHosted": null,
+  "sources.kind.publicBody": null,
+  "sources.kind.reference": null,
+  "sources.guideline": null,
+  "sources.unofficial": null,
+  "sources.stale": null,
+  "sources.updated": null,
+
+  "pdf.view": null,
+  "pdf.close": null,
+  "pdf.openOriginal": null,
+  "pdf.loading": null,
+  "pdf.failed": "ఈ పత్రాన్ని ఇక్కడ తెరవలేకపోయాం.",
+  "pdf.page": null,
+  "pdf.previous": null,
+  "pdf.next": null,
+  "pdf.search": null,
+  "pdf.searching": null,
+  "pdf.matches": null,
+  "pdf.noMatches": null,
+  "pdf.previousMatch": null,
+  "pdf.nextMatch": null,
+
+  "evidence.well": null,
+  "evidence.partial": null,
+  "evidence.unsourced": null,
+  "evidence.details": null,
+  "evidence.coverage": null,
+  "evidence.unsourcedNotice": null,
+  "evidence.findSource": null,
+  "evidence.findSourceQuestion": null,
+
+  "compare.add": null,
+  "compare.selected": null,
+  "compare.open": null,
+  "compare.clear": null,
+  "compare.title": null,
+  "compare.close": null,
+  "compare.remove": null,
+  "compare.benefit": null,
+  "compare.eligibility": null,
+  "compare.documents": null,
+  "compare.mode": null,
+  "compare.mode.online": null,
+  "compare.mode.offline": null,
+  "compare.mode.both": null,
+  "compare.officialLink": null,
+
+  "bookmark.save": null,
+  "bookmark.remove": null,
+  "bookmark.title": null,
+  "bookmark.close": null,
+  "bookmark.empty": null,
+  "bookmark.savedOn": null,
+  "bookmark.notes": null,
+  "bookmark.notesPlaceholder": null,
+  "bookmark.openConversation": null,
+  "bookmark.saveFailed": "సేవ్ చేసిన పథకాలను అప్‌డేట్ చేయలేకపోయాం.",
+
+  "feedback.helpful": null,
+  "feedback.notHelpful": null,
+  "feedback.thanks": null,
+  "feedback.whatWentWrong": null,
+  "feedback.reason.outdated": null,
+  "feedback.reason.wrong_eligibility": null,
+  "feedback.reason.broken_link": null,
+  "feedback.reason.wrong_language": null,
+  "feedback.reason.other": null,
+  "feedback.commentPlaceholder": null,
+  "feedback.cancel": null,
+  "feedback.send": null,
+  "feedback.failed": "అభిప్రాయాన్ని పంపలేకపోయాం.",
+
+  "answer.copy": null,
+  "answer.copied": null,
+  "answer.copyMarkdown": null,
+  "answer.copyText": null,
+  "answer.copyFailed": "కాపీ చేయలేకపోయాం. మీ బ్రౌజర్ క్లిప్‌బోర్డ్ యాక్సెస్‌ను నిరోధించింది.",
+  "message.edit": null,
+  "message.cancelEdit": null,
+  "message.resend": null,
+  "message.regenerate": null,
+  "message.version": null,
+  "message.previousVersion": null,
+  "message.nextVersion": null,
+
+  "offline.online": null,
+  "offline.offline": null,
+  "offline.offlineHint": null,
+  "offline.queuedNotice": null,
+  "offline.sendingQueued": null,
+  "offline.removeQueued": null,
+
+  "lite.title": null,
+  "lite.auto": null,
+  "lite.on": null,
+  "lite.off": null,
+  "lite.hint": null,
+  "lite.autoActive": null,
+  "lite.showSources": null,
+
+  "readAloud.start": "బిగ్గరగా చదవండి",
+  "readAloud.stop": "చదవడం ఆపండి",
+  "readAloud.pause": "పాజ్",
+  "readAloud.resume": "కొనసాగించు",
+  "readAloud.loading": "ఆడియో సిద్ధమవుతోంది…",
+  "readAloud.progress": "వాక్యం {current} / {total}",
+  "readAloud.failed": "ఈ సమాధానాన్ని బిగ్గరగా చదవలేకపోయాం. దయచేసి మళ్లీ ప్రయత్నించండి.",
+  "readAloud.unavailable": "ఈ పరికరంలో బిగ్గరగా చదివే సౌకర్యం లేదు.",
+
+  "voiceMode.title": "వాయిస్ సంభాషణ",
+  "voiceMode.start": "వాయిస్ సంభాషణ ప్రారంభించండి",
+  "voiceMode.listening": "వింటోంది",
+  "voiceMode.thinking": "ఆలోచిస్తోంది",
+  "voiceMode.speaking": "మాట్లాడుతోంది",
+  "voiceMode.paused": "పాజ్ చేయబడింది",
+  "voiceMode.hint": "మీ ప్రశ్న అడగండి. సమాధానం బిగ్గరగా చెప్పి, మళ్లీ వింటాం.",
+  "voiceMode.interrupt": "ఆపండి",
+  "voiceMode.tapToTalk": "మాట్లాడటానికి నొక్కండి",
+  "voiceMode.end": "ముగించు",
+};
@@ -0,0 +1,251 @@
+import type { MessageCatalog } from "../types";
+
+export const ur: MessageCatalog = {
+  "header.newSearch": "نئی تلاش",
+  "header.openHistory": null,
+  "header.lightMode": null,
+  "header.darkMode": null,
+  "header.openAccountMenu": null,
+  "header.closeAccountMenu": null,
+  "menu.language": "زبان",
+  "menu.signIn": "سائن ان",
+  "menu.signOut": "سائن آؤٹ",
+
+  "composer.responseLanguage": "جواب کی زبان",
+  "composer.selectLanguage": "زبان منتخب کریں",
+  "composer.editProfile": null,
+  "composer.addProfile": "پروفائل شامل کریں",
+  "composer.send": "پیغام بھیجیں",
+  "composer.stop": "جواب روکیں",
+
+  "answer.tab.summary": "خلاصہ",
+  "answer.tab.eligibility": "اہلیت",
+  "answer.tab.documents": "دستاویزات",
+  "answer.tab.apply": "درخواست",
+  "answer.share": "جواب شیئر کریں",
+  "answer.shared": "شیئر ہو گیا",
+  "answer.shareTitle": null,
+  "answer.sources": "ذرائع اور شواہد",
+  "answer.empty": "بیک اینڈ سے کوئی جواب نہیں ملا۔",
+  "answer.connectionFailed": "رابطہ نہیں ہو سکا۔",
+  "answer.createLink": null,
+  "answer.linkCopied": null,
+  "answer.linkFailed": "لنک نہیں بنایا جا سکا۔",
+  "answer.print": null,
+
+  "auth.title": "جاری رکھنے کے لیے سائن ان کریں",
+  "auth.pendingBody": "لاگ اِن مکمل کریں، آپ کا پیغام خود بخود بھیج دیا جائے گا۔",
+  "auth.body": "اسکیم اسسٹنٹ استعمال کرنے کے لیے جاری رکھیں۔",
+  "auth.google": "Google کے ساتھ جاری رکھیں",
+  "auth.redirecting": "Google کی طرف بھیجا جا رہا ہے...",
+  "auth.manualLink": "اگر خود بخود ری ڈائریکٹ نہ ہو تو یہاں کلک کریں",
+  "auth.close": "سائن اِن بند کریں",
+  "auth.signInToSend": "اپنا پیغام بھیجنے کے لیے ایک بار سائن اِن کریں۔",
+  "auth.missingConfig": "yojana-web میں Supabase env vars موجود نہیں ہیں۔",
+  "auth.slowRedirect": "Google سائن اِن میں بہت وقت لگ رہا ہے۔ دوبارہ جاری رکھیں دبائیں یا براہِ راست لنک استعمال کریں۔",
+
+  "voice.idle": "آواز",
+  "voice.listening": "سن رہے ہیں {time}",
+  "voice.transcribing": "لکھا جا رہا ہے",
+  "voice.start": "آواز سے لکھنا شروع کریں",
+  "voice.stop": "ریکارڈنگ روکیں",
+  "voice.unsupported": "اس براؤزر میں آواز کے ذریعے اندراج کی سہولت نہیں ہے۔",
+  "voice.recorderUnsupported": "اس براؤزر میں MediaRecorder کی سہولت نہیں ہے۔",
+  "voice.formatUnsupported": "اس براؤزر میں آڈیو ریکارڈنگ کی سہولت نہیں ہے۔",
+  "voice.noAudio": "کوئی آڈیو ریکارڈ نہیں ہوا۔ براہِ کرم دوبارہ کوشش کریں۔",
+  "voice.noSpeech": "کچھ سنائی نہیں دیا۔ براہِ کرم دوبارہ کوشش کریں۔",
+  "voice.tooLarge": "ریکارڈنگ اپ لوڈ کرنے کے لیے بہت بڑی ہے (زیادہ سے زیادہ {size} MB)۔ براہِ کرم مختصر سوال ریکارڈ کریں۔",
+  "voice.permissionDenied": "مائیکروفون کی اجازت نہیں ملی یا دستیاب نہیں ہے۔",
+  "voice.failed": "تحریر میں تبدیلی ناکام رہی۔",
+
+  "history.title": "تاریخچہ",
+  "history.label": null,
+  "history.close": null,
+  "history.count": null,
+  "history.localOnly": null,
+  "history.loading": null,
+  "history.empty": null,
+  "history.rename": null,
+  "history.delete": null,
+  "history.titleInput": null,
+  "history.loadFailed": "تاریخچہ لوڈ نہیں ہو سکا۔",
+  "history.openFailed": "گفتگو کھولی نہیں جا سکی۔",
+  "history.renameFailed": "گفتگو کا نام تبدیل نہیں ہو سکا۔",
+  "history.deleteFailed": "گفتگو حذف نہیں ہو سکی۔",
+  "history.missing": "وہ گفتگو اب دستیاب نہیں ہے۔",
+
+  "profile.eyebrow": "آپ کی پروفائل",
+  "profile.title": "اہلیت کی تفصیلات",
+  "profile.label": "اہلیت پروفائل",
+  "profile.body": "یہ تفصیلات ہر سوال کے ساتھ بھیجی جاتی ہیں تاکہ جوابات انہی حقائق پر مبنی رہیں۔",
+  "profile.autoFilled": "کچھ خانے آپ کے پہلے پیغام سے بھرے گئے ہیں۔ اگلے سوال سے پہلے انہیں جانچ لیں۔",
+  "profile.close": "پروفائل بند کریں",
+  "profile.age": "عمر",
+  "profile.gender": "جنس",
+  "profile.gender.female": "خاتون",
+  "profile.gender.male": "مرد",
+  "profile.gender.other": "دیگر",
+  "profile.state": "ریاست / مرکزی علاقہ",
+  "profile.category": "سماجی زمرہ",
+  "profile.occupation": "پیشہ",
+  "profile.income": "سالانہ خاندانی آمدنی (₹)",
+  "profile.disability": "معذور فرد",
+  "profile.student": "فی الحال طالب علم",
+  "profile.notSet": "مقرر نہیں",
+  "profile.clear": "صاف کریں",
+  "profile.done": "ہو گیا",
+  "profile.saveFailed": "آپ کی پروفائل اکاؤنٹ میں محفوظ نہیں ہو سکی۔ یہ اب بھی اس ڈیوائس پر محفوظ ہے۔",
+
+  "permalink.eyebrow": null,
+  "permalink.sharedOn": null,
+  "permalink.continue": null,
+  "permalink.disclaimer": null,
+
+  "print.generatedOn": null,
+  "print.checklist": null,
+
+  "documents.progress": null,
+  "documents.required": null,
+  "documents.optional": null,
+  "documents.copy": null,
+  "documents.copied": null,
+  "documents.copyFailed": "کاپی نہیں ہو سکا",
+  "documents.sharedCount": null,
+
+  "tracker.start": null,
+  "tracker.progress": null,
+  "tracker.status.not_started": null,
+  "tracker.status.in_progress": null,
+  "tracker.status.done": null,
+  "tracker.deadline": null,
+  "tracker.reminder": null,
+  "tracker.notes": null,
+  "tracker.reminderDue": null,
+  "tracker.stop": null,
+  "tracker.inProgress": null,
+  "tracker.saveFailed": "آپ کی پیش رفت محفوظ نہیں ہو سکی۔",
+
+  "sources.kind.national": null,
+  "sources.kind.central": null,
+  "sources.kind.state": null,
+  "sources.kind.govHosted": null,
+  "sources.kind.publicBody": null,
+  "sources.kind.reference": null,
+  "sources.guideline": null,
+  "sources.unofficial": null,
+  "sources.stale": null,
+  "sources.updated": null,
+
+  "pdf.view": null,
+  "pdf.close": null,
+  "pdf.openOriginal": null,
+  "pdf.loading": null,
+  "pdf.failed": "یہ دستاویز یہاں نہیں کھل سکی۔",
+  "pdf.page": null,
+  "pdf.previous": null,
+  "pdf.next": null,
+  "pdf.search": null,
+  "pdf.searching": null,
+  "pdf.matches": null,
+  "pdf.noMatches": null,
+  "pdf.previousMatch": null,
+  "pdf.nextMatch": null,
+
+  "evidence.well": null,
+  "evidence.partial": null,
+  "evidence.unsourced": null,
+  "evidence.details": null,
+  "evidence.coverage": null,
+  "evidence.unsourcedNotice": null,
+  "evidence.findSource": null,
+  "evidence.findSourceQuestion": null,
+
+  "compare.add": null,
+  "compare.selected": null,
+  "compare.open": null,
+  "compare.clear": null,
+  "compare.title": null,
+  "compare.close": null,
+  "compare.remove": null,
+  "compare.benefit": null,
+  "compare.eligibility": null,
+  "compare.documents": null,
+  "compare.mode": null,
+  "compare.mode.online": null,
+  "compare.mode.offline": null,
+  "compare.mode.both": null,
+  "compare.officialLink": null,
+
+  "bookmark.save": null,
+  "bookmark.remove": null,
+  "bookmark.title": null,
+  "bookmark.close": null,
+  "bookmark.empty": null,
+  "bookmark.savedOn": null,
+  "bookmark.notes": null,
+  "bookmark.notesPlaceholder": null,
+  "bookmark.openConversation": null,
+  "bookmark.saveFailed": "محفوظ کی گئی اسکیمیں اپ ڈیٹ نہیں ہو سکیں۔",
+
+  "feedback.helpful": null,
+  "feedback.notHelpful": null,
+  "feedback.thanks": null,
+  "feedback.whatWentWrong": null,
+  "feedback.reason.outdated": null,
+  "feedback.reason.wrong_eligibility": null,
+  "feedback.reason.broken_link": null,
+  "feedback.reason.wrong_language": null,
+  "feedback.reason.other": null,
+  "feedback.commentPlaceholder": null,
+  "feedback.cancel": null,
+  "feedback.send": null,
+  "feedback.failed": "رائے نہیں بھیجی جا سکی۔",
+
+  "answer.copy": null,
+  "answer.copied": null,
+  "answer.copyMarkdown": null,
+  "answer.copyText": null,
+  "answer.copyFailed": "کاپی نہیں ہو سکا۔ آپ کے براؤزر نے کلپ بورڈ تک رسائی روک دی۔",
+  "message.edit": null,
+  "message.cancelEdit": null,
+  "message.resend": null,
+  "message.regenerate": null,
+  "message.version": null,
+  "message.previousVersion": null,
+  "message.nextVersion": null,
+
+  "offline.online": null,
+  "offline.offline": null,
+  "offline.offlineHint": null,
+  "offline.queuedNotice": null,
+  "offline.sendingQueued": null,
+  "offline.removeQueued": null,
+
+  "lite.title": null,
+  "lite.auto": null,
+  "lite.on": null,
+  "lite.off": null,
+  "lite.hint": null,
+  "lite.autoActive": null,
+  "lite.showSources": null,
+
+  "readAloud.start": "بلند آواز میں پڑھیں",
+  "readAloud.stop": "پڑھنا بند کریں",
+  "readAloud.pause": "روکیں",
+  "readAloud.resume": "دوبارہ شروع کریں",
+  "readAloud.loading": "آڈیو تیار ہو رہا ہے…",
+  "readAloud.progress": "جملہ {current} / {total}",
+  "readAloud.failed": "یہ جواب بلند آواز میں نہیں پڑھا جا سکا۔ براہِ کرم دوبارہ کوشش کریں۔",
+  "readAloud.unavailable": "اس ڈیوائس پر بلند آواز میں پڑھنے کی سہولت دستیاب نہیں ہے۔",
+
+  "voiceMode.title": "آواز میں گفتگو",
+  "voiceMode.start": "آواز میں گفتگو شروع کریں",
+  "voiceMode.listening": "سن رہا ہے",
+  "voiceMode.thinking": "سوچ رہا ہے",
+  "voiceMode.speaking": "بول رہا ہے",
+  "voiceMode.paused": "رکا ہوا",
+  "voiceMode.hint": "اپنا سوال پوچھیں۔ جواب بول کر سنایا جائے گا، پھر ہم دوبارہ سنیں گے۔",
+  "voiceMode.interrupt": "بیچ میں روکیں",
+  "voiceMode.tapToTalk": "بولنے کے لیے ٹیپ کریں",
+  "voiceMode.end": "ختم کریں",
+};
@@ -0,0 +1,23 @@
+import type { en } from "./messages/en";
+
+export type PluralMessage = {
+  zero?: string;
+  one?: string;
+  two?: string;
+  few?: string;
+  many?: string;
+  other: string;
+};
+
+export type MessageValue = string | PluralMessage;
+
+export type MessageKey = keyof typeof en;
+
+export type MessageParams = Record<string, string | number>;
+
+// Every locale must list every key; null marks a string that is not translated yet and falls back to English.
+export type MessageCatalog = {
+  [K in MessageKey]: ((typeof en)[K] extends string ? string : PluralMessage) | null;
+};
+
+export type Translator = (key: MessageKey, params?: MessageParams) => string;
@@ -0,0 +1,32 @@
+export type LitePreference = "auto" | "on" | "off";
+
+export const litePreferences: LitePreference[] = ["auto", "on", "off"];
+
+const litePreferenceKey = "yojana-lite-mode";
+
+// The Network Information API is Chromium-only, so elsewhere "auto" simply stays off.
+type NetworkInformation = EventTarget & { saveData?: boolean; effectiveType?: string };
+
+const getConnection = () => (navigator as Navigator & { connection?: NetworkInformation }).connection;
+
+export const readLitePreference = (): LitePreference => {
+  const saved = localStorage.getItem(litePreferenceKey);
+  return litePreferences.includes(saved as LitePreference) ? (saved as LitePreference) : "auto";
+};
+
+export const writeLitePreference = (preference: LitePreference) => {
+  if (preference === "auto") localStorage.removeItem(litePreferenceKey);
+  else localStorage.setItem(litePreferenceKey, preference);
+};
+
+export const isSlowConnection = () => {
+  const connection = getConnection();
+  if (!connection) return false;
+  return Boolean(connection.saveData) || connection.effectiveType === "slow-2g" || connection.effectiveType === "2g";
+};
+
+export const watchConnection = (onChange: () => void) => {
+  const connection = getConnection();
+  connection?.addEventListener("change", onChange);
+  return () => connection?.removeEventListener("change", onChange);
+};
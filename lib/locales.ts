@@ -0,0 +1,267 @@
+export const localeCodes = ["en", "hi", "mr", "bn", "ta", "te", "gu", "kn", "ml", "pa", "or", "ur"] as const;
+
+export type LocaleCode = (typeof localeCodes)[number];
+
+type LocaleDefinition = {
+  label: string;
+  short: string;
+  dir: "ltr" | "rtl";
+  bcp47: string;
+  // Google Fonts family that covers the script; Latin locales use the default font.
+  fontFamily?: string;
+  examples?: readonly string[];
+  followUpPlaceholder?: string;
+  hero?: {
+    headline?: string;
+    sub?: string;
+  };
+};
+
+export const defaultLocale: LocaleCode = "en";
+
+export const locales: Record<LocaleCode, LocaleDefinition> = {
+  en: {
+    label: "English",
+    short: "EN",
+    dir: "ltr",
+    bcp47: "en-IN",
+    examples: [
+      "e.g. I'm 28, from UP, OBC, farmer, need housing loan",
+      "e.g. 35-year-old woman, Maharashtra, looking for education scholarship",
+      "e.g. Senior citizen, 62, Tamil Nadu, looking for pension scheme",
+      "e.g. SC category, Bihar, daily wage worker, family income ₹50,000",
+      "e.g. Student, 19, Kerala, looking for merit scholarships",
+      "e.g. Widow, 45, Rajasthan, need livelihood support",
+    ],
+    followUpPlaceholder: "Need more details? Ask here…",
+    hero: {
+      headline: "Discover the benefits meant for you.",
+      sub: "4,600+ government schemes. One intelligent search.",
+    },
+  },
+  hi: {
+    label: "हिंदी",
+    short: "HI",
+    dir: "ltr",
+    bcp47: "hi-IN",
+    fontFamily: "Noto Sans Devanagari",
+    examples: [
+      "जैसे: मैं 28 साल, UP से, OBC, किसान, आवास ऋण चाहिए",
+      "जैसे: 35 साल की महिला, महाराष्ट्र, शिक्षा छात्रवृत्ति चाहिए",
+      "जैसे: वरिष्ठ नागरिक, 62, तमिलनाडु, पेंशन योजना चाहिए",
+      "जैसे: SC वर्ग, बिहार, दिहाड़ी मज़दूर, पारिवारिक आय ₹50,000",
+      "जैसे: छात्र, 19 साल, केरल, मेरिट स्कॉलरशिप चाहिए",
+      "जैसे: विधवा, 45, राजस्थान, आजीविका सहायता चाहिए",
+    ],
+    followUpPlaceholder: "और जानकारी चाहिए? यहाँ पूछें…",
+    hero: {
+      headline: "आपके लिए बने लाभों की खोज करें।",
+      sub: "4,600+ सरकारी योजनाएँ। एक बुद्धिमान खोज।",
+    },
+  },
+  mr: {
+    label: "मराठी",
+    short: "MR",
+    dir: "ltr",
+    bcp47: "mr-IN",
+    fontFamily: "Noto Sans Devanagari",
+    examples: [
+      "उदा. मी 28, UP मधून, OBC, शेतकरी, गृहकर्ज हवे",
+      "उदा. 35 वर्षांची महिला, महाराष्ट्र, शिक्षण शिष्यवृत्ती हवी",
+      "उदा. ज्येष्ठ नागरिक, 62, तामिळनाडू, पेन्शन योजना हवी",
+      "उदा. SC प्रवर्ग, बिहार, रोजंदारी कामगार, कौटुंबिक उत्पन्न ₹50,000",
+      "उदा. विद्यार्थी, 19, केरळ, मेरिट स्कॉलरशिप हवी",
+      "उदा. विधवा, 45, राजस्थान, उपजीविका सहाय्य हवे",
+    ],
+    followUpPlaceholder: "अधिक माहिती हवी? इथे विचारा…",
+    hero: {
+      headline: "तुमच्यासाठी असलेले लाभ शोधा.",
+      sub: "4,600+ सरकारी योजना. एक बुद्धिमान शोध.",
+    },
+  },
+  bn: {
+    label: "বাংলা",
+    short: "BN",
+    dir: "ltr",
+    bcp47: "bn-IN",
+    fontFamily: "Noto Sans Bengali",
+    examples: [
+      "যেমন: আমি ২৮, UP থেকে, OBC, কৃষক, আবাসন ঋণ চাই",
+      "যেমন: ৩৫ বছরের মহিলা, মহারাষ্ট্র, শিক্ষা বৃত্তি চাই",
+      "যেমন: প্রবীণ নাগরিক, ৬২, তামিলনাড়ু, পেনশন স্কিম চাই",
+      "যেমন: SC শ্রেণী, বিহার, দিনমজুর, পরিবারের আয় ₹৫০,০০০",
+      "যেমন: ছাত্র, ১৯, কেরালা, মেরিট স্কলারশিপ চাই",
+      "যেমন: বিধবা, ৪৫, রাজস্থান, জীবিকা সহায়তা চাই",
+    ],
+    followUpPlaceholder: "আরও তথ্য চাই? এখানে জিজ্ঞাসা করুন…",
+    hero: {
+      headline: "আপনার জন্য তৈরি সুবিধাগুলি খুঁজুন।",
+      sub: "৪,৬০০+ সরকারি স্কিম। একটি বুদ্ধিমান অনুসন্ধান।",
+    },
+  },
+  ta: {
+    label: "தமிழ்",
+    short: "TA",
+    dir: "ltr",
+    bcp47: "ta-IN",
+    fontFamily: "Noto Sans Tamil",
+    examples: [
+      "எ.கா. மூத்த குடிமகன், 62, தமிழ்நாடு, ஓய்வூதியத் திட்டம் வேண்டும்",
+      "எ.கா. மாணவர், 19, கேரளா, மெரிட் உதவித்தொகை வேண்டும்",
+      "எ.கா. 35 வயது பெண், மகாராஷ்டிரா, கல்வி உதவித்தொகை வேண்டும்",
+    ],
+    followUpPlaceholder: "மேலும் விவரங்கள் வேண்டுமா? இங்கே கேளுங்கள்…",
+    hero: {
+      headline: "உங்களுக்கான நலத்திட்டங்களைக் கண்டறியுங்கள்.",
+      sub: "4,600+ அரசுத் திட்டங்கள். ஒரே அறிவார்ந்த தேடல்.",
+    },
+  },
+  te: {
+    label: "తెలుగు",
+    short: "TE",
+    dir: "ltr",
+    bcp47: "te-IN",
+    fontFamily: "Noto Sans Telugu",
+    examples: [
+      "ఉదా. నా వయసు 28, UP, OBC, రైతు, గృహ రుణం కావాలి",
+      "ఉదా. సీనియర్ సిటిజన్, 62, తమిళనాడు, పెన్షన్ పథకం కావాలి",
+      "ఉదా. విద్యార్థి, 19, కేరళ, మెరిట్ స్కాలర్‌షిప్ కావాలి",
+    ],
+    followUpPlaceholder: "మరిన్ని వివరాలు కావాలా? ఇక్కడ అడగండి…",
+    hero: {
+      headline: "మీ కోసం ఉద్దేశించిన ప్రయోజనాలను కనుగొనండి.",
+      sub: "4,600+ ప్రభుత్వ పథకాలు. ఒకే తెలివైన శోధన.",
+    },
+  },
+  gu: {
+    label: "ગુજરાતી",
+    short: "GU",
+    dir: "ltr",
+    bcp47: "gu-IN",
+    fontFamily: "Noto Sans Gujarati",
+    examples: [
+      "દા.ત. હું 28 વર્ષનો, UP થી, OBC, ખેડૂત, ઘર લોન જોઈએ",
+      "દા.ત. 35 વર્ષની મહિલા, મહારાષ્ટ્ર, શિક્ષણ શિષ્યવૃત્તિ જોઈએ",
+      "દા.ત. વિધવા, 45, રાજસ્થાન, આજીવિકા સહાય જોઈએ",
+    ],
+    followUpPlaceholder: "વધુ માહિતી જોઈએ? અહીં પૂછો…",
+    hero: {
+      headline: "તમારા માટેના લાભો શોધો.",
+      sub: "4,600+ સરકારી યોજનાઓ. એક બુદ્ધિશાળી શોધ.",
+    },
+  },
+  kn: {
+    label: "ಕನ್ನಡ",
+    short: "KN",
+    dir: "ltr",
+    bcp47: "kn-IN",
+    fontFamily: "Noto Sans Kannada",
+    examples: [
+      "ಉದಾ. ನನಗೆ 28, UP ಇಂದ, OBC, ರೈತ, ಗೃಹ ಸಾಲ ಬೇಕು",
+      "ಉದಾ. ಹಿರಿಯ ನಾಗರಿಕ, 62, ತಮಿಳುನಾಡು, ಪಿಂಚಣಿ ಯೋಜನೆ ಬೇಕು",
+      "ಉದಾ. ವಿದ್ಯಾರ್ಥಿ, 19, ಕೇರಳ, ಮೆರಿಟ್ ವಿದ್ಯಾರ್ಥಿವೇತನ ಬೇಕು",
+    ],
+    followUpPlaceholder: "ಇನ್ನಷ್ಟು ವಿವರ ಬೇಕೆ? ಇಲ್ಲಿ ಕೇಳಿ…",
+    hero: {
+      headline: "ನಿಮಗಾಗಿ ಇರುವ ಸೌಲಭ್ಯಗಳನ್ನು ಹುಡುಕಿ.",
+      sub: "4,600+ ಸರ್ಕಾರಿ ಯೋಜನೆಗಳು. ಒಂದೇ ಬುದ್ಧಿವಂತ ಹುಡುಕಾಟ.",
+    },
+  },
+  ml: {
+    label: "മലയാളം",
+    short: "ML",
+    dir: "ltr",
+    bcp47: "ml-IN",
+    fontFamily: "Noto Sans Malayalam",
+    examples: [
+      "ഉദാ. വിദ്യാർത്ഥി, 19, കേരളം, മെറിറ്റ് സ്കോളർഷിപ്പ് വേണം",
+      "ഉദാ. മുതിർന്ന പൗരൻ, 62, തമിഴ്നാട്, പെൻഷൻ പദ്ധതി വേണം",
+      "ഉദാ. വിധവ, 45, രാജസ്ഥാൻ, ഉപജീവന സഹായം വേണം",
+    ],
+    followUpPlaceholder: "കൂടുതൽ വിവരങ്ങൾ വേണോ? ഇവിടെ ചോദിക്കൂ…",
+    hero: {
+      headline: "നിങ്ങൾക്കായുള്ള ആനുകൂല്യങ്ങൾ കണ്ടെത്തൂ.",
+      sub: "4,600+ സർക്കാർ പദ്ധതികൾ. ഒരൊറ്റ സ്മാർട്ട് തിരയൽ.",
+    },
+  },
+  pa: {
+    label: "ਪੰਜਾਬੀ",
+    short: "PA",
+    dir: "ltr",
+    bcp47: "pa-IN",
+    fontFamily: "Noto Sans Gurmukhi",
+    examples: [
+      "ਜਿਵੇਂ: ਮੈਂ 28 ਸਾਲ, UP ਤੋਂ, OBC, ਕਿਸਾਨ, ਘਰ ਲਈ ਕਰਜ਼ਾ ਚਾਹੀਦਾ",
+      "ਜਿਵੇਂ: ਸੀਨੀਅਰ ਸਿਟੀਜ਼ਨ, 62, ਤਾਮਿਲਨਾਡੂ, ਪੈਨਸ਼ਨ ਸਕੀਮ ਚਾਹੀਦੀ",
+      "ਜਿਵੇਂ: ਵਿਧਵਾ, 45, ਰਾਜਸਥਾਨ, ਰੋਜ਼ੀ-ਰੋਟੀ ਸਹਾਇਤਾ ਚਾਹੀਦੀ",
+    ],
+    followUpPlaceholder: "ਹੋਰ ਜਾਣਕਾਰੀ ਚਾਹੀਦੀ ਹੈ? ਇੱਥੇ ਪੁੱਛੋ…",
+    hero: {
+      headline: "ਤੁਹਾਡੇ ਲਈ ਬਣੇ ਲਾਭ ਲੱਭੋ।",
+      sub: "4,600+ ਸਰਕਾਰੀ ਸਕੀਮਾਂ। ਇੱਕ ਸਮਝਦਾਰ ਖੋਜ।",
+    },
+  },
+  or: {
+    label: "ଓଡ଼ିଆ",
+    short: "OR",
+    dir: "ltr",
+    bcp47: "or-IN",
+    fontFamily: "Noto Sans Oriya",
+    examples: [
+      "ଯେପରି: ମୁଁ 28, UP ରୁ, OBC, କୃଷକ, ଗୃହ ଋଣ ଦରକାର",
+      "ଯେପରି: ବରିଷ୍ଠ ନାଗରିକ, 62, ତାମିଲନାଡୁ, ପେନସନ ଯୋଜନା ଦରକାର",
+    ],
+    followUpPlaceholder: "ଅଧିକ ତଥ୍ୟ ଦରକାର? ଏଠାରେ ପଚାରନ୍ତୁ…",
+    hero: {
+      headline: "ଆପଣଙ୍କ ପାଇଁ ଥିବା ସୁବିଧା ଖୋଜନ୍ତୁ।",
+    },
+  },
+  ur: {
+    label: "اردو",
+    short: "UR",
+    dir: "rtl",
+    bcp47: "ur-IN",
+    fontFamily: "Noto Naskh Arabic",
+    examples: [
+      "مثلاً: میں 28 سال، UP سے، OBC، کسان، ہاؤسنگ لون چاہیے",
+      "مثلاً: 35 سالہ خاتون، مہاراشٹر، تعلیمی وظیفہ چاہیے",
+      "مثلاً: بیوہ، 45، راجستھان، روزگار میں مدد چاہیے",
+    ],
+    followUpPlaceholder: "مزید معلومات چاہییں؟ یہاں پوچھیں…",
+    hero: {
+      headline: "اپنے لیے بنی سہولتیں دریافت کریں۔",
+      sub: "4,600+ سرکاری اسکیمیں۔ ایک ذہین تلاش۔",
+    },
+  },
+};
+
+export const languageOptions = localeCodes.map((code) => ({
+  value: code,
+  label: locales[code].label,
+  short: locales[code].short,
+}));
+
+export const isLocaleCode = (value: unknown): value is LocaleCode =>
+  typeof value === "string" && (localeCodes as readonly string[]).includes(value);
+
+export const resolveLocale = (value: string): LocaleCode => (isLocaleCode(value) ? value : defaultLocale);
+
+const fallback = locales[defaultLocale];
+
+export const getLocale = (value: string) => locales[resolveLocale(value)];
+
+export const getExamples = (value: string) => {
+  const examples = getLocale(value).examples;
+  return examples && examples.length ? examples : fallback.examples!;
+};
+
+export const getFollowUpPlaceholder = (value: string) =>
+  getLocale(value).followUpPlaceholder || fallback.followUpPlaceholder!;
+
+export const getHeroCopy = (value: string) => {
+  const hero = getLocale(value).hero;
+  return {
+    headline: hero?.headline || fallback.hero!.headline!,
+    sub: hero?.sub || fallback.hero!.sub!,
+  };
+};
@@ -0,0 +1,45 @@
+import type { Message } from "@/lib/chatTypes";
+import { renderCitations } from "@/lib/citations";
+
+const citationLink = /\[(\d+)\]\(#src-\d+\)/g;
+
+// Index 0 is the oldest answer; an index past the stored versions (or none) is the current answer.
+export const viewAnswerVersion = (message: Message, index?: number): Message => {
+  const version = index === undefined ? undefined : message.versions?.[index];
+  return version ? { ...message, content: version.content, sources: version.sources, citations: version.citations } : message;
+};
+
+export const answerVersionCount = (message: Message) => (message.versions?.length || 0) + 1;
+
+const citedBody = (message: Message) =>
+  renderCitations(message.content, message.sources || [], message.citations).replace(citationLink, "[$1]");
+
+// Citations become [n] markers pointing at a numbered source list, since #src anchors mean nothing outside the app.
+export function formatAnswerMarkdown(message: Message, sourcesLabel: string) {
+  const sources = message.sources || [];
+  const body = citedBody(message).trim();
+  if (!sources.length) return body;
+  const list = sources.map((source, idx) => `${idx + 1}. [${source.title}](${source.url})`).join("\n");
+  return `${body}\n\n**${sourcesLabel}**\n\n${list}`;
+}
+
+export function formatAnswerPlainText(message: Message, sourcesLabel: string) {
+  const sources = message.sources || [];
+  const body = citedBody(message)
+    .split("\n")
+    .filter((line) => !/^\s*\|?[\s:|-]+\|?\s*$/.test(line) || !line.includes("-"))
+    .map((line) =>
+      line
+        .replace(/^#{1,6}\s+/, "")
+        .replace(/^(\s*)[-*+]\s+/, "$1• ")
+        .replace(/!?\[([^\]]+)\]\(([^)]+)\)/g, "$1 ($2)")
+        .replace(/(\*\*|__|~~|`)/g, "")
+        .replace(/(^|\W)[*_]([^*_\n]+)[*_](?=\W|$)/g, "$1$2")
+    )
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+  if (!sources.length) return body;
+  const list = sources.map((source, idx) => `${idx + 1}. ${source.title} - ${source.url}`).join("\n");
+  return `${body}\n\n${sourcesLabel}\n${list}`;
+}
@@ -0,0 +1,21 @@
+export type QueuedQuestion = {
+  id: string;
+  question: string;
+  queuedAt: string;
+};
+
+const offlineQuestionsKey = "yojana-offline-questions";
+
+export const readQueuedQuestions = (): QueuedQuestion[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(offlineQuestionsKey) || "[]") as unknown;
+    return Array.isArray(parsed) ? (parsed as QueuedQuestion[]) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const writeQueuedQuestions = (queue: QueuedQuestion[]) => {
+  if (queue.length) localStorage.setItem(offlineQuestionsKey, JSON.stringify(queue));
+  else localStorage.removeItem(offlineQuestionsKey);
+};
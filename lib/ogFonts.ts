@@ -0,0 +1,37 @@
+import { getLocale } from "@/lib/locales";
+
+type OgFont = {
+  name: string;
+  data: ArrayBuffer;
+  weight: 400 | 700;
+  style: "normal";
+};
+
+const latinFamily = "Noto Sans";
+
+// Without a browser user agent Google Fonts serves TTF, which is what satori can read.
+// Passing the rendered text keeps the download to the glyphs the card actually uses.
+const loadGoogleFont = async (family: string, weight: 400 | 700, text: string): Promise<OgFont> => {
+  const query = `family=${encodeURIComponent(family)}:wght@${weight}&text=${encodeURIComponent(text)}`;
+  const css = await (await fetch(`https://fonts.googleapis.com/css2?${query}`)).text();
+  const url = css.match(/src: url\((.+?)\) format\('(?:opentype|truetype)'\)/)?.[1];
+  if (!url) throw new Error(`No font file found for ${family}.`);
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`Unable to load ${family} (HTTP ${res.status}).`);
+  return { name: family, data: await res.arrayBuffer(), weight, style: "normal" };
+};
+
+// Returns undefined when the fonts cannot be fetched so ImageResponse falls back to its bundled Latin font.
+export async function loadOgFonts(language: string, text: string): Promise<OgFont[] | undefined> {
+  const families = [latinFamily, getLocale(language).fontFamily].filter((family): family is string => Boolean(family));
+  try {
+    return await Promise.all(
+      families.flatMap((family) => [loadGoogleFont(family, 400, text), loadGoogleFont(family, 700, text)])
+    );
+  } catch {
+    return undefined;
+  }
+}
+
+export const ogFontFamily = (language: string) =>
+  [latinFamily, getLocale(language).fontFamily].filter(Boolean).map((family) => `"${family}"`).join(", ");
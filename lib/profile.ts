@@ -0,0 +1,294 @@
+export type Gender = "female" | "male" | "other";
+export type SocialCategory = "general" | "obc" | "sc" | "st" | "ews";
+
+export type EligibilityProfile = {
+  age?: number;
+  gender?: Gender;
+  state?: string;
+  category?: SocialCategory;
+  occupation?: string;
+  annualIncome?: number;
+  disability?: boolean;
+  student?: boolean;
+};
+
+export const genderOptions: { value: Gender; label: string }[] = [
+  { value: "female", label: "Female" },
+  { value: "male", label: "Male" },
+  { value: "other", label: "Other" },
+];
+
+export const categoryOptions: { value: SocialCategory; label: string }[] = [
+  { value: "general", label: "General" },
+  { value: "obc", label: "OBC" },
+  { value: "sc", label: "SC" },
+  { value: "st", label: "ST" },
+  { value: "ews", label: "EWS" },
+];
+
+export const occupationOptions = [
+  "Farmer",
+  "Agricultural labourer",
+  "Daily wage worker",
+  "Self-employed",
+  "Salaried",
+  "Street vendor",
+  "Artisan",
+  "Fisherman",
+  "Homemaker",
+  "Unemployed",
+  "Retired",
+] as const;
+
+const stateAliases: Record<string, string[]> = {
+  "Andhra Pradesh": ["AP"],
+  "Arunachal Pradesh": [],
+  Assam: [],
+  Bihar: [],
+  Chhattisgarh: ["CG"],
+  Goa: [],
+  Gujarat: [],
+  Haryana: [],
+  "Himachal Pradesh": ["HP"],
+  Jharkhand: [],
+  Karnataka: [],
+  Kerala: [],
+  "Madhya Pradesh": ["MP"],
+  Maharashtra: [],
+  Manipur: [],
+  Meghalaya: [],
+  Mizoram: [],
+  Nagaland: [],
+  Odisha: ["Orissa"],
+  Punjab: [],
+  Rajasthan: [],
+  Sikkim: [],
+  "Tamil Nadu": ["TN"],
+  Telangana: [],
+  Tripura: [],
+  "Uttar Pradesh": ["UP"],
+  Uttarakhand: ["Uttaranchal"],
+  "West Bengal": ["WB"],
+  "Andaman and Nicobar Islands": [],
+  Chandigarh: [],
+  "Dadra and Nagar Haveli and Daman and Diu": [],
+  Delhi: ["NCT of Delhi"],
+  "Jammu and Kashmir": ["J&K"],
+  Ladakh: [],
+  Lakshadweep: [],
+  Puducherry: ["Pondicherry"],
+};
+
+export const stateOptions = Object.keys(stateAliases);
+
+const occupationPatterns: [RegExp, string][] = [
+  [/\bagricultur\w* (?:labou?rer|worker)\b/i, "Agricultural labourer"],
+  [/\b(?:farmer|kisan)\b|किसान|शेतकरी|কৃষক/i, "Farmer"],
+  [/\bdaily[- ]wage\b|\blabou?rer\b|दिहाड़ी|मज़दूर|मजदूर|रोजंदारी|দিনমজুর/i, "Daily wage worker"],
+  [/\bstreet vendor\b|\bhawker\b/i, "Street vendor"],
+  [/\bartisan\b|\bweaver\b|\bcraftsm[ae]n\b/i, "Artisan"],
+  [/\bfisher(?:man|men|woman|folk)?\b/i, "Fisherman"],
+  [/\bhomemaker\b|\bhousewife\b/i, "Homemaker"],
+  [/\bunemployed\b|\bjobless\b|बेरोजगार/i, "Unemployed"],
+  [/\bretired\b|\bpensioner\b/i, "Retired"],
+  [/\bself[- ]employed\b|\bshop ?keeper\b|\bsmall business\b/i, "Self-employed"],
+  [/\bsalaried\b|\bemployee\b/i, "Salaried"],
+];
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+const toAsciiDigits = (value: string) =>
+  value
+    .replace(/[०-९]/g, (d) => String(d.charCodeAt(0) - 0x0966))
+    .replace(/[০-৯]/g, (d) => String(d.charCodeAt(0) - 0x09e6));
+
+const parseAmount = (raw: string, unit?: string) => {
+  const amount = Number(raw.replace(/,/g, ""));
+  if (!Number.isFinite(amount)) return undefined;
+  const lower = (unit || "").toLowerCase();
+  if (lower.startsWith("lakh") || lower.startsWith("lac") || lower === "l") return Math.round(amount * 100000);
+  if (lower.startsWith("crore") || lower === "cr") return Math.round(amount * 10000000);
+  if (lower === "k") return Math.round(amount * 1000);
+  return Math.round(amount);
+};
+
+export function parseProfileFromText(text: string): EligibilityProfile {
+  const source = toAsciiDigits(text);
+  const profile: EligibilityProfile = {};
+
+  const age =
+    source.match(/\b(\d{1,3})\s*(?:-|\s)?\s*(?:years?|yrs?|year-old|yo)\b/i) ||
+    source.match(/\b(?:i'?m|i am|aged?)\s*(\d{1,3})\b/i) ||
+    source.match(/(\d{1,3})\s*(?:साल|वर्ष|বছর)/) ||
+    source.match(/(?:^|[,:;]\s*)(\d{2})\s*(?=,|$)/);
+  if (age) {
+    const value = Number(age[1]);
+    if (value > 0 && value < 120) profile.age = value;
+  }
+
+  if (/\b(?:woman|women|female|girl|widow|mother|lady)\b|महिला|विधवा|स्त्री|মহিলা|বিধবা/i.test(source)) {
+    profile.gender = "female";
+  } else if (/\b(?:man|male|boy|widower)\b|पुरुष|পুরুষ/i.test(source)) {
+    profile.gender = "male";
+  } else if (/\b(?:transgender|non-binary)\b/i.test(source)) {
+    profile.gender = "other";
+  }
+
+  for (const [state, aliases] of Object.entries(stateAliases)) {
+    const names = [state, ...aliases.filter((alias) => alias.length > 3)].map(escapeRegExp);
+    const abbreviations = aliases.filter((alias) => alias.length <= 3).map(escapeRegExp);
+    const byName = new RegExp(`\\b(?:${names.join("|")})\\b`, "i");
+    const byAbbreviation = abbreviations.length ? new RegExp(`\\b(?:${abbreviations.join("|")})\\b`) : null;
+    if (byName.test(source) || byAbbreviation?.test(source)) {
+      profile.state = state;
+      break;
+    }
+  }
+
+  if (/\bOBC\b/i.test(source)) profile.category = "obc";
+  else if (/\bEWS\b/i.test(source)) profile.category = "ews";
+  else if (/\bSC\b|scheduled caste|अनुसूचित जाति/.test(source)) profile.category = "sc";
+  else if (/\bST\b|scheduled tribe|अनुसूचित जनजाति/.test(source)) profile.category = "st";
+  else if (/\bgeneral category\b|सामान्य वर्ग/i.test(source)) profile.category = "general";
+
+  for (const [pattern, occupation] of occupationPatterns) {
+    if (pattern.test(source)) {
+      profile.occupation = occupation;
+      break;
+    }
+  }
+
+  const income =
+    source.match(/(?:income|earn\w*|आय|उत्पन्न|আয়)[^\d₹]{0,24}(?:₹|rs\.?|inr)?\s*([\d,]+(?:\.\d+)?)\s*(lakhs?|lacs?|crores?|cr|k|l)?\b/i) ||
+    source.match(/(?:₹|rs\.?|inr)\s*([\d,]+(?:\.\d+)?)\s*(lakhs?|lacs?|crores?|cr|k|l)?\b/i);
+  if (income) {
+    const value = parseAmount(income[1], income[2]);
+    if (value && value > 0) profile.annualIncome = value;
+  }
+
+  if (/\b(?:disabled|disability|divyang|handicapped|pwd|blind|deaf)\b|दिव्यांग|विकलांग/i.test(source)) {
+    profile.disability = true;
+  }
+
+  if (/\bstudent\b|छात्र|छात्रा|विद्यार्थी|ছাত্র|ছাত্রী/i.test(source)) {
+    profile.student = true;
+  }
+
+  return profile;
+}
+
+export function sanitizeProfile(value: unknown): EligibilityProfile | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return null;
+  const r = value as Record<string, unknown>;
+  const profile: EligibilityProfile = {};
+
+  if (typeof r.age === "number" && Number.isInteger(r.age) && r.age > 0 && r.age < 120) profile.age = r.age;
+  if (genderOptions.some((o) => o.value === r.gender)) profile.gender = r.gender as Gender;
+  if (typeof r.state === "string" && stateOptions.includes(r.state)) profile.state = r.state;
+  if (categoryOptions.some((o) => o.value === r.category)) profile.category = r.category as SocialCategory;
+  if (typeof r.occupation === "string" && r.occupation.trim()) profile.occupation = r.occupation.trim().slice(0, 80);
+  if (typeof r.annualIncome === "number" && Number.isFinite(r.annualIncome) && r.annualIncome >= 0) {
+    profile.annualIncome = Math.round(r.annualIncome);
+  }
+  if (typeof r.disability === "boolean") profile.disability = r.disability;
+  if (typeof r.student === "boolean") profile.student = r.student;
+
+  return profile;
+}
+
+export const isProfileEmpty = (profile: EligibilityProfile) =>
+  Object.values(profile).every((value) => value === undefined || value === "");
+
+// Fields the user already set win over anything inferred from free text.
+export const mergeProfile = (current: EligibilityProfile, inferred: EligibilityProfile): EligibilityProfile => {
+  const merged: EligibilityProfile = { ...current };
+  for (const [key, value] of Object.entries(inferred) as [keyof EligibilityProfile, unknown][]) {
+    if (merged[key] === undefined && value !== undefined) {
+      (merged as Record<string, unknown>)[key] = value;
+    }
+  }
+  return merged;
+};
+
+export const formatIncome = (value: number) => `₹${value.toLocaleString("en-IN")}`;
+
+export const summarizeProfile = (profile: EligibilityProfile) => {
+  const parts: string[] = [];
+  if (profile.age !== undefined) parts.push(`${profile.age}`);
+  if (profile.state) parts.push(profile.state);
+  if (profile.category) parts.push(categoryOptions.find((o) => o.value === profile.category)?.label || profile.category);
+  if (profile.occupation) parts.push(profile.occupation);
+  return parts.join(" · ");
+};
+
+export type ProfileStore = {
+  // Resolves with null when nothing has been saved for this user yet.
+  load: () => Promise<EligibilityProfile | null>;
+  save: (profile: EligibilityProfile) => Promise<void>;
+};
+
+type ProfileRow = {
+  profile?: unknown;
+};
+
+export function createSupabaseProfileStore(supabaseUrl: string, anonKey: string, accessToken: string, userId: string): ProfileStore {
+  const endpoint = `${supabaseUrl}/rest/v1/eligibility_profiles`;
+  const headers = {
+    "Content-Type": "application/json",
+    apikey: anonKey,
+    Authorization: `Bearer ${accessToken}`,
+  };
+
+  const request = async (query: string, init: RequestInit = {}) => {
+    const res = await fetch(`${endpoint}${query}`, { ...init, headers: { ...headers, ...init.headers } });
+    if (!res.ok) {
+      const data = (await res.json().catch(() => ({}))) as { message?: string };
+      throw new Error(data.message || `Profile request failed (HTTP ${res.status}).`);
+    }
+    return res;
+  };
+
+  // Saves go out one after another so a slow earlier edit can't land after a later one.
+  let pending: Promise<unknown> = Promise.resolve();
+
+  return {
+    load: async () => {
+      const res = await request(`?select=profile&user_id=eq.${encodeURIComponent(userId)}&limit=1`);
+      const rows = (await res.json()) as ProfileRow[];
+      return rows[0] ? sanitizeProfile(rows[0].profile) || {} : null;
+    },
+    save: (profile) => {
+      const next = pending.catch(() => undefined).then(() =>
+        request("", {
+          method: "POST",
+          headers: { Prefer: "resolution=merge-duplicates,return=minimal" },
+          body: JSON.stringify({ user_id: userId, profile, updated_at: new Date().toISOString() }),
+        })
+      );
+      pending = next;
+      return next.then(() => undefined);
+    },
+  };
+}
+
+// The device copy is what guests use, and what signed-in users see until their saved profile has loaded.
+const profileStorageKey = (userId?: string) => `yojana-eligibility-profile:${userId || "guest"}`;
+
+export function loadProfile(userId?: string): EligibilityProfile {
+  if (typeof window === "undefined") return {};
+  try {
+    const raw = localStorage.getItem(profileStorageKey(userId));
+    return (raw && sanitizeProfile(JSON.parse(raw))) || {};
+  } catch {
+    return {};
+  }
+}
+
+export function saveProfile(profile: EligibilityProfile, userId?: string) {
+  if (typeof window === "undefined") return;
+  if (isProfileEmpty(profile)) {
+    localStorage.removeItem(profileStorageKey(userId));
+    return;
+  }
+  localStorage.setItem(profileStorageKey(userId), JSON.stringify(profile));
+}
@@ -0,0 +1,37 @@
+import { stripInlineMarkdown } from "@/lib/answerSections";
+
+// Matches the text limit of the speech proxy route.
+const maxSentenceLength = 1000;
+
+const chunk = (sentence: string) => {
+  const out: string[] = [];
+  let rest = sentence;
+  while (rest.length > maxSentenceLength) {
+    const cut = rest.lastIndexOf(" ", maxSentenceLength);
+    const at = cut > 0 ? cut : maxSentenceLength;
+    out.push(rest.slice(0, at).trim());
+    rest = rest.slice(at).trim();
+  }
+  if (rest) out.push(rest);
+  return out;
+};
+
+// Splits answer markdown into the plain sentences read one at a time; each line is at least one sentence,
+// so headings and list items are read as their own units. "।" and "॥" end sentences in Indic scripts.
+export const speechSentences = (markdown: string) =>
+  markdown
+    .split("\n")
+    .filter((line) => !/^\s*\|?[\s:|-]+\|?\s*$/.test(line) || !line.includes("-"))
+    .map((line) =>
+      stripInlineMarkdown(
+        line
+          .replace(/^#{1,6}\s+/, "")
+          .replace(/^\s*(?:[-*+]|\d+[.)])\s+/, "")
+          .replace(/^\s*\||\|\s*$/g, "")
+          .replace(/\s*\|\s*/g, ", ")
+      )
+    )
+    .flatMap((line) => line.split(/(?<=[.!?।॥])\s+/))
+    .map((sentence) => sentence.trim())
+    .filter((sentence) => /[\p{L}\p{N}]/u.test(sentence))
+    .flatMap(chunk);
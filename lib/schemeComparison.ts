@@ -0,0 +1,86 @@
+import { classifyHeading, extractListItems, extractSections, stripInlineMarkdown, type Section } from "@/lib/answerSections";
+import type { Message, SourceCard } from "@/lib/chatTypes";
+import { parseDocumentsChecklist } from "@/lib/documentsChecklist";
+import { deriveSchemeTitle } from "@/lib/sharedAnswers";
+import { rankSources } from "@/lib/sourceTrust";
+
+export type ApplicationMode = "online" | "offline" | "both";
+
+export type SchemeSummary = {
+  id: string;
+  messageId: string;
+  title: string;
+  benefit: string;
+  eligibility: string[];
+  documents: string[];
+  applicationMode: ApplicationMode | null;
+  officialLink: SourceCard | null;
+};
+
+const headingPattern = /^(#{1,6})\s+(.+)$/;
+const listMarker = /^\s*(?:[-*+>]|\d+[.)])\s+/;
+const amountPattern = /(?:₹|\brs\.?|\binr\b|rupees?)\s?\d[\d,.]*|\d[\d,.]*\s?(?:lakh|crore|लाख|करोड़)/i;
+const benefitHeading = /benefit|assistance|amount|लाभ|सहायता/i;
+const nonSchemeHeading = /^(?:benefits?|sources?|notes?|key points|important)\b/i;
+const maxCellItems = 5;
+
+const hasSchemeSections = (content: string) => extractSections(content).some((section) => section.key !== "summary" && section.key !== "other");
+
+// An answer covering several schemes puts each under its own top-level heading with the usual sections beneath it.
+export const splitSchemeBlocks = (content: string) => {
+  const lines = content.split("\n");
+  const headings = lines.flatMap((line, idx) => {
+    const match = line.match(headingPattern);
+    return match ? [{ idx, level: match[1].length, title: stripInlineMarkdown(match[2]) }] : [];
+  });
+  const topLevel = Math.min(...headings.map((heading) => heading.level));
+  const starts = headings.filter(
+    (heading) => heading.level === topLevel && classifyHeading(heading.title) === "other" && !nonSchemeHeading.test(heading.title)
+  );
+  const blocks = starts
+    .map((start, idx) => ({ title: start.title, content: lines.slice(start.idx + 1, starts[idx + 1]?.idx ?? lines.length).join("\n") }))
+    .filter((block) => hasSchemeSections(block.content));
+  return blocks.length >= 2 ? blocks : [{ title: "", content }];
+};
+
+export const isComparable = (message: Message) => message.role === "assistant" && hasSchemeSections(message.content);
+
+const findBenefit = (sections: Section[]) => {
+  const benefitSections = sections.filter((section) => benefitHeading.test(section.title));
+  const ordered = [...benefitSections, ...sections.filter((section) => section.key === "summary"), ...sections];
+  const lines = ordered.flatMap((section) => section.content.split("\n").map((line) => stripInlineMarkdown(line.replace(listMarker, ""))));
+  const line = lines.find((text) => amountPattern.test(text)) || (benefitSections[0] ? lines.find(Boolean) : "") || "";
+  return line.length > 160 ? `${line.slice(0, 157).trimEnd()}…` : line;
+};
+
+export const detectApplicationMode = (text: string): ApplicationMode | null => {
+  const online = /\bonline\b|portal|website|\bapp\b|\.gov\.in|ऑनलाइन/i.test(text);
+  const offline = /\boffline\b|\bcsc\b|common service cent|\boffice\b|panchayat|bank branch|in person|ऑफलाइन/i.test(text);
+  if (online && offline) return "both";
+  return online ? "online" : offline ? "offline" : null;
+};
+
+// Prefer the most trusted official source that names the scheme; several schemes in one answer share a source list.
+const findOfficialLink = (title: string, sources: SourceCard[]) => {
+  const official = rankSources(sources).filter(({ trust }) => trust.official).map(({ source }) => source);
+  const keyword = title.split(/\s+/).find((word) => word.length >= 3)?.toLowerCase();
+  return (keyword && official.find((source) => source.title.toLowerCase().includes(keyword))) || official[0] || null;
+};
+
+export function summarizeSchemes(message: Message, question: string): SchemeSummary[] {
+  return splitSchemeBlocks(message.content).map((block, idx) => {
+    const sections = extractSections(block.content);
+    const section = (key: Section["key"]) => sections.find((s) => s.key === key)?.content || "";
+    const title = block.title || deriveSchemeTitle(message.content, question);
+    return {
+      id: `${message.id}:${idx}`,
+      messageId: message.id,
+      title,
+      benefit: findBenefit(sections),
+      eligibility: extractListItems(section("eligibility")).slice(0, maxCellItems),
+      documents: parseDocumentsChecklist(section("documents")).map((item) => item.name).slice(0, maxCellItems),
+      applicationMode: detectApplicationMode(section("apply")),
+      officialLink: findOfficialLink(title, message.sources || []),
+    };
+  });
+}
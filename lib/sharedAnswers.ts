@@ -0,0 +1,133 @@
+import { extractSections, stripInlineMarkdown } from "@/lib/answerSections";
+import type { Citation, SourceCard } from "@/lib/chatTypes";
+import { normalizeCitations } from "@/lib/citations";
+import { deriveConversationTitle } from "@/lib/conversationStore";
+import { normalizeSources } from "@/lib/sources";
+
+export type SharedAnswer = {
+  id: string;
+  question: string;
+  answer: string;
+  sources: SourceCard[];
+  citations: Citation[];
+  language: string;
+  createdAt: string;
+};
+
+export type SharedAnswerDraft = Pick<SharedAnswer, "question" | "answer" | "sources" | "citations" | "language">;
+
+type SharedAnswerRow = {
+  id: string;
+  question: string;
+  answer: string;
+  sources?: unknown;
+  citations?: unknown;
+  language: string;
+  created_at: string;
+};
+
+const idAlphabet = "ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz23456789";
+const idLength = 10;
+const idPattern = new RegExp(`^[${idAlphabet}]{${idLength}}$`);
+const listMarker = /^\s*(?:[-*+>]|\d+[.)])\s+/;
+const sectionHeadings = /^(?:summary|overview|eligibility|documents?|how to apply|application process|apply|benefits|sources?)\b/i;
+
+export const isSharedAnswerId = (value: string) => idPattern.test(value);
+
+export const sharedAnswerPath = (id: string) => `/a/${id}`;
+
+// Bytes at or above the largest multiple of the alphabet size are redrawn so every character is equally likely.
+const unbiasedByteLimit = 256 - (256 % idAlphabet.length);
+
+const generateSharedAnswerId = () => {
+  let id = "";
+  const bytes = new Uint8Array(idLength * 2);
+  while (id.length < idLength) {
+    crypto.getRandomValues(bytes);
+    for (const b of bytes) {
+      if (b < unbiasedByteLimit && id.length < idLength) id += idAlphabet[b % idAlphabet.length];
+    }
+  }
+  return id;
+};
+
+// Prefer the scheme name the answer leads with; generic section headings fall through to the question.
+export const deriveSchemeTitle = (answer: string, question: string) => {
+  for (const match of answer.matchAll(/^#{1,3}\s+(.+)$/gm)) {
+    const heading = stripInlineMarkdown(match[1]);
+    if (heading && !sectionHeadings.test(heading)) return deriveConversationTitle(heading);
+  }
+  return deriveConversationTitle(question);
+};
+
+export const deriveSummaryExcerpt = (answer: string, maxLines = 2) => {
+  const summary = extractSections(answer).find((section) => section.key === "summary");
+  if (!summary) return "";
+  return summary.content
+    .split("\n")
+    .map((line) => stripInlineMarkdown(line.replace(listMarker, "")))
+    .filter(Boolean)
+    .slice(0, maxLines)
+    .join(" ");
+};
+
+// Rows are checked like a backend reply. Stored citations point at source positions, so they are resolved against those.
+const fromRow = (row: SharedAnswerRow): SharedAnswer => {
+  const sources = normalizeSources(row.sources);
+  const positions = sources.map((source, index) => ({ ...source, id: String(index + 1) }));
+  return {
+    id: row.id,
+    question: row.question,
+    answer: row.answer,
+    sources,
+    citations: normalizeCitations(row.citations, positions),
+    language: row.language,
+    createdAt: row.created_at,
+  };
+};
+
+export async function createSharedAnswer(
+  supabaseUrl: string,
+  anonKey: string,
+  accessToken: string,
+  userId: string,
+  draft: SharedAnswerDraft
+): Promise<string> {
+  const id = generateSharedAnswerId();
+  const res = await fetch(`${supabaseUrl}/rest/v1/shared_answers`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      apikey: anonKey,
+      Authorization: `Bearer ${accessToken}`,
+      Prefer: "return=minimal",
+    },
+    body: JSON.stringify({
+      id,
+      user_id: userId,
+      question: draft.question,
+      answer: draft.answer,
+      sources: draft.sources,
+      citations: draft.citations,
+      language: draft.language,
+    }),
+  });
+  if (!res.ok) {
+    const data = (await res.json().catch(() => ({}))) as { message?: string };
+    throw new Error(data.message || `Unable to create a link (HTTP ${res.status}).`);
+  }
+  return id;
+}
+
+export async function fetchSharedAnswer(supabaseUrl: string, anonKey: string, id: string): Promise<SharedAnswer | null> {
+  if (!isSharedAnswerId(id)) return null;
+  // The table itself isn't readable; the lookup function returns a single snapshot by id.
+  const res = await fetch(`${supabaseUrl}/rest/v1/rpc/get_shared_answer?answer_id=${id}`, {
+    headers: { apikey: anonKey, Authorization: `Bearer ${anonKey}` },
+    // Snapshots never change once created, so they can be cached aggressively.
+    next: { revalidate: 86400 },
+  });
+  if (!res.ok) throw new Error(`Unable to load shared answer (HTTP ${res.status}).`);
+  const rows = (await res.json()) as SharedAnswerRow[];
+  return rows[0] ? fromRow(rows[0]) : null;
+}
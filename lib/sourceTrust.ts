@@ -0,0 +1,69 @@
+import type { SourceCard } from "@/lib/chatTypes";
+import { extractHostname } from "@/lib/sources";
+
+export type SourceKind = "national" | "central" | "state" | "govHosted" | "publicBody" | "reference";
+
+export type SourceAssessment = {
+  kind: SourceKind;
+  official: boolean;
+  guideline: boolean;
+  stale: boolean;
+  lastUpdated?: string;
+  score: number;
+};
+
+const nationalPortals = ["myscheme.gov.in", "india.gov.in", "services.india.gov.in", "pib.gov.in", "egazette.gov.in"];
+
+const publicBodies = ["rbi.org.in", "nabard.org", "licindia.in", "sidbi.in", "nhb.org.in", "ncert.nic.in"];
+
+// State and UT portals live at <state>.gov.in or under a two-letter state subdomain such as tn.gov.in.
+const statePortal =
+  /(?:^|\.)(?:andhrapradesh|ap|arunachal|assam|bihar|cg|chhattisgarh|goa|gujarat|haryana|hp|himachal|jharkhand|karnataka|kerala|mp|maharashtra|manipur|meghalaya|mizoram|nagaland|odisha|punjab|rajasthan|sikkim|tn|tamilnadu|telangana|tripura|up|uk|uttarakhand|wb|westbengal|delhi|jk|jammukashmir|ladakh|puducherry|py|chandigarh|lakshadweep|andaman|dnh|ddd)\.gov\.in$/;
+
+const kindScores: Record<SourceKind, number> = {
+  national: 100,
+  central: 90,
+  state: 85,
+  govHosted: 75,
+  publicBody: 60,
+  reference: 25,
+};
+
+// Scheme rules are revised at least yearly, so anything older than this is flagged for a second look.
+const staleAfterMonths = 18;
+
+const matchesDomain = (host: string, domain: string) => host === domain || host.endsWith(`.${domain}`);
+
+export const classifySourceKind = (host: string): SourceKind => {
+  if (nationalPortals.some((domain) => matchesDomain(host, domain))) return "national";
+  if (statePortal.test(host)) return "state";
+  if (host.endsWith(".gov.in")) return "central";
+  if (host.endsWith(".nic.in")) return "govHosted";
+  if (publicBodies.some((domain) => matchesDomain(host, domain))) return "publicBody";
+  return "reference";
+};
+
+const isStale = (lastUpdated: string | undefined, now: Date) => {
+  if (!lastUpdated) return false;
+  const updated = new Date(lastUpdated);
+  if (Number.isNaN(updated.getTime())) return false;
+  const threshold = new Date(now);
+  threshold.setMonth(threshold.getMonth() - staleAfterMonths);
+  return updated < threshold;
+};
+
+export function assessSource(source: SourceCard, now = new Date()): SourceAssessment {
+  const host = extractHostname(source.url).toLowerCase();
+  const kind = classifySourceKind(host);
+  const official = kind !== "reference";
+  const guideline = /\.pdf(?:$|[?#])/i.test(source.url) || /guideline/i.test(`${source.title} ${source.snippet || ""}`);
+  const stale = isStale(source.lastUpdated, now);
+  const score = kindScores[kind] + (official && guideline ? 5 : 0) - (stale ? 30 : 0);
+  return { kind, official, guideline, stale, lastUpdated: source.lastUpdated, score };
+}
+
+// Sorted for display only: `position` keeps the 1-based index that citations point at.
+export const rankSources = (sources: SourceCard[], now = new Date()) =>
+  sources
+    .map((source, idx) => ({ source, position: idx + 1, trust: assessSource(source, now) }))
+    .sort((a, b) => b.trust.score - a.trust.score || a.position - b.position);
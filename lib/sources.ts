@@ -0,0 +1,41 @@
+import type { SourceCard } from "@/lib/chatTypes";
+
+export const extractHostname = (url: string) => {
+  try {
+    return new URL(url).hostname.replace(/^www\./, "");
+  } catch {
+    return url;
+  }
+};
+
+const readDate = (value: unknown) => {
+  if (typeof value !== "string" && typeof value !== "number") return undefined;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString().slice(0, 10);
+};
+
+export const normalizeSources = (value: unknown): SourceCard[] => {
+  if (!Array.isArray(value)) return [];
+  const list = value
+    .map((item, index): SourceCard | null => {
+      const id = String(index + 1);
+      if (typeof item === "string" && item.trim()) return { id, title: `Source ${index + 1}`, url: item.trim() };
+      if (!item || typeof item !== "object") return null;
+      const r = item as Record<string, unknown>;
+      const url = typeof (r.url ?? r.link) === "string" ? String(r.url ?? r.link).trim() : "";
+      if (!url) return null;
+      const title = typeof (r.title ?? r.name ?? r.source) === "string" ? String(r.title ?? r.name ?? r.source).trim() : `Source ${index + 1}`;
+      const snippet = typeof (r.snippet ?? r.description ?? r.summary) === "string" ? String(r.snippet ?? r.description ?? r.summary).trim() : undefined;
+      const rawId = r.id ?? r.source_id ?? r.sourceId;
+      const lastUpdated = readDate(r.last_updated ?? r.lastUpdated ?? r.updated_at ?? r.updatedAt ?? r.published_at ?? r.publishedAt);
+      return { id: typeof rawId === "string" || typeof rawId === "number" ? String(rawId) : id, title, url, snippet, lastUpdated };
+    })
+    .filter((s): s is SourceCard => Boolean(s));
+
+  const uniq = new Map<string, SourceCard>();
+  for (const s of list) {
+    const key = `${s.title}::${s.url}`;
+    if (!uniq.has(key)) uniq.set(key, s);
+  }
+  return Array.from(uniq.values()).slice(0, 8);
+};
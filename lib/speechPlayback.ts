@@ -0,0 +1,146 @@
+import { getLocale } from "@/lib/locales";
+import { synthesizeSpeech } from "@/lib/voiceApi";
+
+export type SpeechOutcome = "finished" | "stopped" | "unavailable";
+
+export type SpeechPlayback = {
+  // Rejects when audio can't be fetched or played.
+  done: Promise<SpeechOutcome>;
+  stop: () => void;
+  pause: () => void;
+  resume: () => void;
+};
+
+type SpeechCallbacks = {
+  onSentence?: (index: number) => void;
+  onLoading?: (loading: boolean) => void;
+};
+
+// Only one thing is read at a time; starting playback stops whatever was playing.
+let stopActive: (() => void) | null = null;
+
+const browserSpeechAvailable = () => typeof window !== "undefined" && "speechSynthesis" in window;
+
+const playBlob = (blob: Blob, onAudio: (audio: HTMLAudioElement | null, release: (() => void) | null) => void) =>
+  new Promise<void>((resolve, reject) => {
+    const url = URL.createObjectURL(blob);
+    const audio = new Audio(url);
+    const done = () => {
+      URL.revokeObjectURL(url);
+      onAudio(null, null);
+      resolve();
+    };
+    onAudio(audio, done);
+    audio.onended = done;
+    audio.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error("Audio playback failed."));
+    };
+    audio.play().catch(reject);
+  });
+
+const speakWithBrowser = (text: string, bcp47: string) =>
+  new Promise<void>((resolve) => {
+    const utterance = new SpeechSynthesisUtterance(text);
+    utterance.lang = bcp47;
+    const prefix = bcp47.split("-")[0].toLowerCase();
+    const voice = window.speechSynthesis.getVoices().find((v) => v.lang.replace("_", "-").toLowerCase().startsWith(prefix));
+    if (voice) utterance.voice = voice;
+    // Cancelling fires onerror, which also ends the sentence.
+    utterance.onend = () => resolve();
+    utterance.onerror = () => resolve();
+    window.speechSynthesis.speak(utterance);
+  });
+
+// Reads sentences one at a time through the speech proxy, switching to the browser voice for the rest
+// of the playback as soon as the proxy reports that it has no speech endpoint.
+export function playSentences(sentences: string[], language: string, callbacks: SpeechCallbacks = {}): SpeechPlayback {
+  stopActive?.();
+  const bcp47 = getLocale(language).bcp47;
+  const controller = new AbortController();
+  let stopped = false;
+  let engine: "server" | "browser" = "server";
+  let audio: HTMLAudioElement | null = null;
+  let release: (() => void) | null = null;
+  // Pausing between clips (or while one is still being fetched) holds back the next one until resume.
+  let paused = false;
+  let resumeWaiter: (() => void) | null = null;
+  const whilePaused = () => (paused ? new Promise<void>((resolve) => (resumeWaiter = resolve)) : Promise.resolve());
+
+  const stop = () => {
+    if (stopped) return;
+    stopped = true;
+    resumeWaiter?.();
+    controller.abort();
+    audio?.pause();
+    release?.();
+    if (engine === "browser") window.speechSynthesis.cancel();
+  };
+  stopActive = stop;
+
+  // The next sentence is fetched while the current one plays, so there is no gap between them.
+  // Only a null result (no speech endpoint) switches to the browser voice; other failures reject `done`.
+  const prefetched = new Map<number, Promise<Blob | null>>();
+  const fetchAudio = (index: number) => {
+    if (!prefetched.has(index)) {
+      const request = synthesizeSpeech(sentences[index], language, controller.signal);
+      // A prefetch may fail before it is awaited, or never be awaited after a stop.
+      request.catch(() => undefined);
+      prefetched.set(index, request);
+    }
+    return prefetched.get(index)!;
+  };
+
+  const run = async (): Promise<SpeechOutcome> => {
+    try {
+      for (let index = 0; index < sentences.length; index += 1) {
+        if (stopped) return "stopped";
+        callbacks.onSentence?.(index);
+        if (engine === "server") {
+          callbacks.onLoading?.(true);
+          const blob = await fetchAudio(index);
+          callbacks.onLoading?.(false);
+          if (stopped) return "stopped";
+          if (blob) {
+            if (index + 1 < sentences.length) void fetchAudio(index + 1);
+            await whilePaused();
+            if (stopped) return "stopped";
+            await playBlob(blob, (nextAudio, nextRelease) => {
+              audio = nextAudio;
+              release = nextRelease;
+            });
+            continue;
+          }
+          if (!browserSpeechAvailable()) return "unavailable";
+          engine = "browser";
+        }
+        await whilePaused();
+        if (stopped) return "stopped";
+        await speakWithBrowser(sentences[index], bcp47);
+      }
+      return stopped ? "stopped" : "finished";
+    } catch (err) {
+      if (stopped) return "stopped";
+      throw err;
+    } finally {
+      if (stopActive === stop) stopActive = null;
+    }
+  };
+
+  return {
+    done: run(),
+    stop,
+    pause: () => {
+      paused = true;
+      if (engine === "browser") window.speechSynthesis.pause();
+      else audio?.pause();
+    },
+    resume: () => {
+      paused = false;
+      resumeWaiter?.();
+      resumeWaiter = null;
+      if (engine === "browser") window.speechSynthesis.resume();
+      else void audio?.play();
+    },
+  };
+}
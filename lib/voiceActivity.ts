@@ -0,0 +1,68 @@
+// RMS level (0 to 1) above which the microphone is treated as picking up speech.
+export const speechLevelThreshold = 0.02;
+
+// Barge-in needs a louder, sustained voice so the assistant's own audio leaking into the mic doesn't interrupt it.
+const bargeInLevelThreshold = 0.06;
+
+type WindowWithWebkitAudio = Window & { webkitAudioContext?: typeof AudioContext };
+
+// Samples the stream's input level every `intervalMs`; returns a function that stops sampling,
+// or null when the browser has no Web Audio support.
+export function monitorInputLevel(stream: MediaStream, onLevel: (level: number) => void, intervalMs = 100) {
+  const AudioContextCtor = window.AudioContext || (window as WindowWithWebkitAudio).webkitAudioContext;
+  if (!AudioContextCtor) return null;
+  const context = new AudioContextCtor();
+  // A context created outside a click starts suspended and would report silence.
+  void context.resume().catch(() => undefined);
+  const source = context.createMediaStreamSource(stream);
+  const analyser = context.createAnalyser();
+  analyser.fftSize = 1024;
+  source.connect(analyser);
+  const samples = new Float32Array(analyser.fftSize);
+  const timer = window.setInterval(() => {
+    analyser.getFloatTimeDomainData(samples);
+    let sum = 0;
+    for (const sample of samples) sum += sample * sample;
+    onLevel(Math.sqrt(sum / samples.length));
+  }, intervalMs);
+  return () => {
+    window.clearInterval(timer);
+    source.disconnect();
+    void context.close();
+  };
+}
+
+type SilenceOptions = {
+  // Quiet after speech for this long ends the utterance.
+  silenceMs: number;
+  // No speech at all for this long gives up on the recording.
+  noSpeechMs: number;
+};
+
+export function createSilenceDetector({ silenceMs, noSpeechMs }: SilenceOptions) {
+  const startedAt = Date.now();
+  let heardSpeech = false;
+  let lastSpeechAt = startedAt;
+  return (level: number, now = Date.now()): "silence" | "no-speech" | null => {
+    if (level >= speechLevelThreshold) {
+      heardSpeech = true;
+      lastSpeechAt = now;
+      return null;
+    }
+    if (heardSpeech && now - lastSpeechAt >= silenceMs) return "silence";
+    if (!heardSpeech && now - startedAt >= noSpeechMs) return "no-speech";
+    return null;
+  };
+}
+
+export function createBargeInDetector(sustainMs = 300) {
+  let loudSince: number | null = null;
+  return (level: number, now = Date.now()) => {
+    if (level < bargeInLevelThreshold) {
+      loudSince = null;
+      return false;
+    }
+    if (loudSince === null) loudSince = now;
+    return now - loudSince >= sustainMs;
+  };
+}
@@ -2,24 +2,25 @@ export type VoiceToTextResponse = {
   text: string;
 };
 
+// Enforced by the voice-to-text routes; the recorder checks it before uploading.
+export const maxVoiceUploadBytes = 10 * 1024 * 1024;
+
 type VoiceErrorPayload = {
   error?: string;
   details?: unknown;
 };
 
-export async function transcribeAudio(audioBlob: Blob, language: string): Promise<VoiceToTextResponse> {
+const buildAudioFormData = (audioBlob: Blob, language: string) => {
   const formData = new FormData();
   const mimeType = audioBlob.type || "audio/webm";
   const extension =
     mimeType.includes("mp4") ? "mp4" : mimeType.includes("ogg") ? "ogg" : mimeType.includes("mpeg") ? "mp3" : "webm";
   formData.append("audio", audioBlob, `recording.${extension}`);
   formData.append("language", language);
+  return formData;
+};
 
-  const response = await fetch("/api/voice-to-text", {
-    method: "POST",
-    body: formData,
-  });
-
+const readTranscription = async (response: Response): Promise<VoiceToTextResponse> => {
   const payload = (await response.json().catch(() => ({}))) as Partial<VoiceToTextResponse> & VoiceErrorPayload;
 
   if (!response.ok) {
@@ -28,9 +29,65 @@ export async function transcribeAudio(audioBlob: Blob, language: string): Promis
     throw new Error(payload.error ? `${payload.error}${details}` : `Failed to transcribe audio (HTTP ${response.status}).`);
   }
 
-  if (!payload.text || typeof payload.text !== "string") {
+  if (typeof payload.text !== "string") {
     throw new Error("Invalid transcription response.");
   }
 
   return { text: payload.text };
+};
+
+export async function transcribeAudio(audioBlob: Blob, language: string): Promise<VoiceToTextResponse> {
+  const response = await fetch("/api/voice-to-text", {
+    method: "POST",
+    body: buildAudioFormData(audioBlob, language),
+  });
+
+  const result = await readTranscription(response);
+
+  if (!result.text) {
+    throw new Error("Invalid transcription response.");
+  }
+
+  return result;
+}
+
+// Resolves to null when the voice service has no streaming endpoint, so callers can fall back to batch mode.
+export async function transcribePartialAudio(
+  audioBlob: Blob,
+  language: string,
+  sequence: number,
+  signal?: AbortSignal
+): Promise<VoiceToTextResponse | null> {
+  const formData = buildAudioFormData(audioBlob, language);
+  formData.append("partial", "true");
+  formData.append("sequence", String(sequence));
+
+  const response = await fetch("/api/voice-to-text/stream", {
+    method: "POST",
+    body: formData,
+    signal,
+  });
+
+  if (response.status === 404 || response.status === 501) return null;
+
+  return readTranscription(response);
+}
+
+// Resolves to null when the voice service has no speech endpoint, so callers can fall back to the browser voice.
+export async function synthesizeSpeech(text: string, language: string, signal?: AbortSignal): Promise<Blob | null> {
+  const response = await fetch("/api/text-to-speech", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ text, language }),
+    signal,
+  });
+
+  if (response.status === 404 || response.status === 501) return null;
+
+  if (!response.ok) {
+    const payload = (await response.json().catch(() => ({}))) as VoiceErrorPayload;
+    throw new Error(payload.error || `Failed to synthesize speech (HTTP ${response.status}).`);
+  }
+
+  return response.blob();
 }
@@ -0,0 +1,154 @@
+import { NextResponse } from "next/server";
+import {
+  misconfiguredOriginResponse,
+  normalizeBackendError,
+  proxyError,
+  readBackendPayload,
+  resolveBackendBaseUrl,
+} from "@/lib/backendProxy";
+import { isLocaleCode } from "@/lib/locales";
+
+const apiBaseUrl = resolveBackendBaseUrl(process.env.YOJANA_API_BASE_URL, process.env.NEXT_PUBLIC_API_BASE_URL);
+
+type ForwardVoiceOptions = {
+  backendPath: string;
+  extraFields?: string[];
+  unsupportedStatuses?: number[];
+  unsupportedMessage?: string;
+  maxAudioBytes?: number;
+};
+
+type ForwardSpeechOptions = {
+  backendPath: string;
+  maxTextLength: number;
+};
+
+export async function forwardVoiceRequest(request: Request, options: ForwardVoiceOptions) {
+  try {
+    const misconfigured = misconfiguredOriginResponse(
+      request,
+      apiBaseUrl,
+      "Voice backend URL is misconfigured. Set YOJANA_API_BASE_URL (or NEXT_PUBLIC_API_BASE_URL) to your yojana-api server URL."
+    );
+    if (misconfigured) return misconfigured;
+
+    const maxAudioBytes = options.maxAudioBytes ?? Number.POSITIVE_INFINITY;
+    const audioTooLarge = () => proxyError(`Audio must be at most ${Math.round(maxAudioBytes / (1024 * 1024))} MB.`, 413);
+    // Reject oversized uploads from the declared length before buffering the form data; the margin covers form fields.
+    if (Number(request.headers.get("content-length")) > maxAudioBytes + 64 * 1024) {
+      return audioTooLarge();
+    }
+
+    const incomingFormData = await request.formData();
+    const audio = incomingFormData.get("audio");
+    const language = incomingFormData.get("language");
+
+    if (!(audio instanceof Blob)) {
+      return proxyError("Audio file is required.", 400);
+    }
+
+    if (audio.size > maxAudioBytes) {
+      return audioTooLarge();
+    }
+
+    if (typeof language !== "string" || !language.trim()) {
+      return proxyError("Language is required.", 400);
+    }
+
+    if (!isLocaleCode(language)) {
+      return proxyError(`Unsupported language "${language}".`, 400);
+    }
+
+    const formData = new FormData();
+    const fileName = audio instanceof File && audio.name ? audio.name : "recording.webm";
+    formData.append("audio", audio, fileName);
+    formData.append("language", language);
+    for (const field of options.extraFields || []) {
+      const value = incomingFormData.get(field);
+      if (typeof value === "string") formData.append(field, value);
+    }
+
+    const response = await fetch(`${apiBaseUrl}${options.backendPath}`, {
+      method: "POST",
+      body: formData,
+      signal: request.signal,
+    });
+
+    if (options.unsupportedStatuses?.includes(response.status)) {
+      return proxyError(options.unsupportedMessage || "Not supported by the voice service.", 501);
+    }
+
+    const payload = await readBackendPayload(response, "Unexpected response from voice service.");
+
+    return NextResponse.json(payload, { status: response.status });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to process voice request.";
+    return proxyError(message, 500);
+  }
+}
+
+// Text goes out as JSON and audio comes back as-is; a JSON reply from the backend is treated as an error.
+export async function forwardSpeechRequest(request: Request, options: ForwardSpeechOptions) {
+  try {
+    const misconfigured = misconfiguredOriginResponse(
+      request,
+      apiBaseUrl,
+      "Voice backend URL is misconfigured. Set YOJANA_API_BASE_URL (or NEXT_PUBLIC_API_BASE_URL) to your yojana-api server URL."
+    );
+    if (misconfigured) return misconfigured;
+
+    let body: Record<string, unknown>;
+    try {
+      const parsed = (await request.json()) as unknown;
+      if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) throw new Error("Invalid body");
+      body = parsed as Record<string, unknown>;
+    } catch {
+      return proxyError("Request body must be a JSON object.", 400);
+    }
+
+    const { text, language } = body;
+
+    if (typeof text !== "string" || !text.trim()) {
+      return proxyError("Text is required.", 400);
+    }
+
+    if (text.length > options.maxTextLength) {
+      return proxyError(`Text must be at most ${options.maxTextLength} characters.`, 400);
+    }
+
+    if (typeof language !== "string" || !language.trim()) {
+      return proxyError("Language is required.", 400);
+    }
+
+    if (!isLocaleCode(language)) {
+      return proxyError(`Unsupported language "${language}".`, 400);
+    }
+
+    const response = await fetch(`${apiBaseUrl}${options.backendPath}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Accept: "audio/*" },
+      body: JSON.stringify({ text: text.trim(), language }),
+      signal: request.signal,
+    });
+
+    if ([404, 405, 501].includes(response.status)) {
+      return proxyError("Text to speech is not supported by the voice service.", 501);
+    }
+
+    const contentType = response.headers.get("content-type") || "";
+    if (response.ok && response.body && contentType.toLowerCase().startsWith("audio/")) {
+      return new Response(response.body, {
+        status: 200,
+        headers: { "Content-Type": contentType, "Cache-Control": "private, max-age=86400" },
+      });
+    }
+
+    const payload = await readBackendPayload(response, "Unexpected response from voice service.");
+    const normalized = normalizeBackendError(payload, response.status, "Text to speech request failed");
+    return proxyError(normalized.error, response.ok ? 502 : response.status, normalized.details);
+  } catch (error) {
+    if (request.signal.aborted) return new Response(null, { status: 499 });
+    const message = error instanceof Error ? error.message : "Failed to process speech request.";
+    return proxyError(message, 500);
+  }
+}
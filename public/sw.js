@@ -0,0 +1,59 @@
+// App-shell cache: static assets are cache-first, pages are network-first with the cached shell as fallback.
+// API calls are never cached; answers are kept offline by the conversation and bookmark stores instead.
+const CACHE_NAME = "janinfra-shell-v1";
+const SHELL_URLS = ["/", "/manifest.webmanifest", "/icon.svg"];
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches
+      .open(CACHE_NAME)
+      .then((cache) => cache.addAll(SHELL_URLS))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) => Promise.all(keys.filter((key) => key !== CACHE_NAME).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+const isStaticAsset = (url) => url.pathname.startsWith("/_next/static/") || /\.(svg|png|ico|woff2?)$/.test(url.pathname);
+
+const putInCache = (request, response) => {
+  if (response.ok && response.type === "basic") {
+    const copy = response.clone();
+    void caches.open(CACHE_NAME).then((cache) => cache.put(request, copy));
+  }
+  return response;
+};
+
+// The page loads its first assets before this worker controls it, so it posts their URLs here to be cached.
+self.addEventListener("message", (event) => {
+  if (event.data?.type !== "cache-urls" || !Array.isArray(event.data.urls)) return;
+  const urls = event.data.urls.filter((url) => isStaticAsset(new URL(url, self.location.origin)));
+  event.waitUntil(caches.open(CACHE_NAME).then((cache) => cache.addAll(urls)).catch(() => undefined));
+});
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin || url.pathname.startsWith("/api/")) return;
+
+  if (isStaticAsset(url)) {
+    event.respondWith(caches.match(request).then((cached) => cached || fetch(request).then((response) => putInCache(request, response))));
+    return;
+  }
+
+  if (request.mode === "navigate") {
+    event.respondWith(
+      fetch(request)
+        .then((response) => putInCache(request, response))
+        .catch(() => caches.match(request).then((cached) => cached || caches.match("/")))
+    );
+  }
+});
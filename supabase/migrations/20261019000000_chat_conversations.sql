@@ -0,0 +1,20 @@
+create table if not exists public.chat_conversations (
+  id text primary key,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  title text not null,
+  language text not null default 'en',
+  messages jsonb not null default '[]'::jsonb,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists chat_conversations_user_updated_idx
+  on public.chat_conversations (user_id, updated_at desc);
+
+alter table public.chat_conversations enable row level security;
+
+create policy "Users manage their own conversations"
+  on public.chat_conversations
+  for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
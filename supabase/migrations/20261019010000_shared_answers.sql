@@ -0,0 +1,22 @@
+create table if not exists public.shared_answers (
+  id text primary key check (id ~ '^[A-Za-z0-9]{10}$'),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  question text not null,
+  answer text not null,
+  sources jsonb not null default '[]'::jsonb,
+  language text not null default 'en',
+  created_at timestamptz not null default now()
+);
+
+alter table public.shared_answers enable row level security;
+
+-- Snapshots are immutable: there are deliberately no update or delete policies.
+create policy "Anyone can read shared answers"
+  on public.shared_answers
+  for select
+  using (true);
+
+create policy "Users create their own shared answers"
+  on public.shared_answers
+  for insert
+  with check (auth.uid() = user_id);
@@ -0,0 +1,21 @@
+create table if not exists public.application_trackers (
+  id text primary key,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  conversation_id text not null,
+  message_id text not null,
+  title text not null,
+  steps jsonb not null default '[]'::jsonb,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists application_trackers_user_updated_idx
+  on public.application_trackers (user_id, updated_at desc);
+
+alter table public.application_trackers enable row level security;
+
+create policy "Users manage their own application trackers"
+  on public.application_trackers
+  for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
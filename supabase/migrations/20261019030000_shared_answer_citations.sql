@@ -0,0 +1,2 @@
+alter table public.shared_answers
+  add column if not exists citations jsonb not null default '[]'::jsonb;
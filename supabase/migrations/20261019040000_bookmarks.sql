@@ -0,0 +1,26 @@
+create table if not exists public.bookmarks (
+  id text primary key,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  conversation_id text not null,
+  message_id text not null,
+  title text not null,
+  question text not null default '',
+  answer text not null,
+  sources jsonb not null default '[]'::jsonb,
+  citations jsonb not null default '[]'::jsonb,
+  language text not null,
+  notes text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists bookmarks_user_updated_idx
+  on public.bookmarks (user_id, updated_at desc);
+
+alter table public.bookmarks enable row level security;
+
+create policy "Users manage their own bookmarks"
+  on public.bookmarks
+  for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
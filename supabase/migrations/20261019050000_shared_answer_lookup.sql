@@ -0,0 +1,26 @@
+-- Shared answers are read one id at a time through get_shared_answer, which never returns the sharer's user id.
+drop policy if exists "Anyone can read shared answers" on public.shared_answers;
+
+create or replace function public.get_shared_answer(answer_id text)
+returns table (
+  id text,
+  question text,
+  answer text,
+  sources jsonb,
+  citations jsonb,
+  language text,
+  created_at timestamptz
+)
+language sql
+stable
+security definer
+set search_path = ''
+as $$
+  select s.id, s.question, s.answer, s.sources, s.citations, s.language, s.created_at
+  from public.shared_answers s
+  where s.id = answer_id
+  limit 1;
+$$;
+
+revoke all on function public.get_shared_answer(text) from public;
+grant execute on function public.get_shared_answer(text) to anon, authenticated;
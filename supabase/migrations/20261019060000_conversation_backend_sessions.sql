@@ -0,0 +1,3 @@
+-- Edited or regenerated conversations continue in a fresh backend session; null means the backend session is the conversation id.
+alter table public.chat_conversations
+  add column if not exists backend_session_id text;
@@ -0,0 +1,13 @@
+create table if not exists public.eligibility_profiles (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  profile jsonb not null default '{}'::jsonb,
+  updated_at timestamptz not null default now()
+);
+
+alter table public.eligibility_profiles enable row level security;
+
+create policy "Users manage their own eligibility profile"
+  on public.eligibility_profiles
+  for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);